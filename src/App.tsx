@@ -1,30 +1,201 @@
-import { Box } from 'ink'
-import { useNavigation, useConfig, useTerminalHeight } from '@/hooks/index.js'
+import { useMemo, useState, useCallback } from 'react'
+import { Box, Text } from 'ink'
+import { useNavigation, useConfig, useHistory, useCookieJar, useVault, useTerminalHeight } from '@/hooks/index.js'
 import { EndpointList } from '@/components/EndpointList.js'
 import { EndpointDetail } from '@/components/EndpointDetail.js'
 import { RequestPanel } from '@/components/RequestPanel.js'
 import { HelpOverlay } from '@/components/HelpOverlay.js'
-import type { ParsedSpec } from '@/types/index.js'
+import { HistoryPanel } from '@/components/HistoryPanel.js'
+import { ExportPanel } from '@/components/ExportPanel.js'
+import { ImportPanel } from '@/components/ImportPanel.js'
+import type { SavedRequestItem } from '@/components/EndpointList.js'
+import type { Endpoint, ParsedSpec, PendingRequest, RequestOptions } from '@/types/index.js'
+import type { SavedAuth, SavedRequest } from '@/config/index.js'
+import { DEFAULT_CREDENTIAL_NAME } from '@/config/index.js'
+import type { HistoryEntry } from '@/history/index.js'
+import { replayHeaders } from '@/history/index.js'
+import type { CurlImport } from '@/import/index.js'
+import type { UnlockedVault } from '@/vault/index.js'
+
+// Look endpoints up through the tag groups, which is what the list selects from
+function findEndpoint(spec: ParsedSpec, id: string): Endpoint | null {
+  for (const group of spec.tagGroups) {
+    const match = group.endpoints.find(e => e.id === id)
+    if (match) return match
+  }
+  return null
+}
 
 interface Props {
   readonly spec: ParsedSpec
   readonly specLoadUrl?: string
   readonly savedRequestBaseUrl?: string
+  readonly reloadError?: string
+  // Unlocked in the launcher; without it secrets are saved as entered
+  readonly vault?: UnlockedVault | null
+  // --config, used instead of the user and project config files
+  readonly configPath?: string
 }
 
-export default function App({ spec, specLoadUrl, savedRequestBaseUrl }: Props) {
-  const { focusedPanel, selectedEndpoint, selectEndpoint, setTextCapture, fullscreenPanel, showHelp } = useNavigation()
-  const { saveServerAuth, findAuthForServer, preferences, isLoading: configLoading } = useConfig()
+export default function App({ spec, specLoadUrl, savedRequestBaseUrl, reloadError, vault = null, configPath }: Props) {
+  const { focusedPanel, selectedEndpoint, selectEndpoint, setTextCapture, fullscreenPanel, showHelp, showHistory, closeHistory, showExport, openExport, closeExport, showImport, closeImport, focusPanel } = useNavigation()
+  const { saveServerAuth, findAuthForServer, findCredentialsForServer, selectCredential, findServerVariables, hasCookieJar, setCookieJar, collections, saveRequest, deleteSavedRequest, environments, activeEnvironment, setActiveEnvironment, preferences, isLoading: configLoading, savePath } = useConfig({ configPath })
+  const history = useHistory()
+  const cookieJar = useCookieJar(hasCookieJar)
+  const secretsVault = useVault(vault)
   const terminalHeight = useTerminalHeight()
+  const [pendingRequest, setPendingRequest] = useState<PendingRequest | null>(null)
+  const [historyMessage, setHistoryMessage] = useState<string | null>(null)
+  const [exportRequest, setExportRequest] = useState<RequestOptions | null>(null)
+  const [importWarnings, setImportWarnings] = useState<readonly string[]>([])
+
+  // With an unlocked vault, the config only keeps ${vault:…} references to the secrets
+  const saveServerAuthToVault = useCallback(
+    async (name: string, url: string, auth?: SavedAuth, swaggerEndpointUrl?: string, serverVariables?: Readonly<Record<string, string>>, credentialName = DEFAULT_CREDENTIAL_NAME) => {
+      // A vault write failure rejects, so the config never references secrets
+      // the vault doesn't have
+      const stored = auth !== undefined ? await secretsVault.storeSecrets(auth, `${name}/${credentialName}`) : undefined
+      return saveServerAuth(name, url, stored, swaggerEndpointUrl, serverVariables, credentialName)
+    },
+    [saveServerAuth, secretsVault.storeSecrets],
+  )
+
+  // Re-resolve the selection against the current spec so live reloads keep it by id
+  const currentEndpoint = useMemo(
+    () => (selectedEndpoint ? findEndpoint(spec, selectedEndpoint.id) : null),
+    [spec, selectedEndpoint],
+  )
+
+  const openHistoryEntry = useCallback((entry: HistoryEntry, send: boolean) => {
+    const endpoint = findEndpoint(spec, entry.endpointId)
+    if (!endpoint) {
+      setHistoryMessage(`${entry.method.toUpperCase()} ${entry.path} is not in the current spec`)
+      setTimeout(() => setHistoryMessage(null), 2000)
+      return
+    }
+    selectEndpoint(endpoint)
+    const headers = replayHeaders(entry, endpoint)
+    setPendingRequest({
+      draft: {
+        endpointId: entry.endpointId,
+        params: entry.params,
+        serverUrl: entry.serverUrl,
+        ...(entry.body !== undefined ? { body: entry.body } : {}),
+        ...(Object.keys(headers).length > 0 ? { headers } : {}),
+      },
+      send,
+    })
+    closeHistory()
+    focusPanel('request')
+  }, [spec, selectEndpoint, closeHistory, focusPanel])
+
+  const clearPendingRequest = useCallback(() => setPendingRequest(null), [])
+
+  // Collections are keyed by spec title; requests for operations the spec no longer has are hidden
+  const specKey = spec.info.title
+  const savedRequests = useMemo(() => {
+    const items: SavedRequestItem[] = []
+    for (const collection of collections) {
+      if (collection.spec !== specKey) continue
+      for (const request of collection.requests) {
+        const endpoint = findEndpoint(spec, request.endpointId)
+        if (endpoint) items.push({ collection: collection.name, request, endpoint })
+      }
+    }
+    return items
+  }, [collections, spec, specKey])
+
+  const openSavedRequest = useCallback((item: SavedRequestItem) => {
+    const { request } = item
+    selectEndpoint(item.endpoint)
+    setPendingRequest({
+      draft: {
+        endpointId: request.endpointId,
+        params: request.params,
+        ...(request.body !== undefined ? { body: request.body } : {}),
+        ...(request.server !== undefined ? { serverUrl: request.server } : {}),
+        ...(request.authScheme !== undefined ? { authScheme: request.authScheme } : {}),
+        ...(request.headers !== undefined ? { headers: request.headers } : {}),
+        ...(request.mediaType !== undefined ? { mediaType: request.mediaType } : {}),
+        ...(request.form !== undefined ? { form: request.form } : {}),
+      },
+      send: false,
+      savedAs: { collection: item.collection, name: request.name },
+    })
+    focusPanel('request')
+  }, [selectEndpoint, focusPanel])
+
+  const removeSavedRequest = useCallback((item: SavedRequestItem) => {
+    deleteSavedRequest(specKey, item.collection, item.request.name)
+  }, [deleteSavedRequest, specKey])
+
+  const saveRequestForSpec = useCallback(
+    (collection: string, request: SavedRequest) => saveRequest(specKey, collection, request),
+    [saveRequest, specKey],
+  )
+
+  const exportCurrentRequest = useCallback((request: RequestOptions) => {
+    setExportRequest(request)
+    openExport()
+  }, [openExport])
+
+  const applyCurlImport = useCallback((result: CurlImport) => {
+    selectEndpoint(findEndpoint(spec, result.endpoint.id) ?? result.endpoint)
+    setPendingRequest({ draft: result.draft, send: false })
+    closeImport()
+    focusPanel('request')
+    setImportWarnings(result.warnings)
+    if (result.warnings.length > 0) {
+      setTimeout(() => setImportWarnings([]), 4000)
+    }
+  }, [spec, selectEndpoint, closeImport, focusPanel])
+
+  const overlayShown = showHelp || showHistory || showExport || showImport
 
   return (
     <Box flexDirection="column" width="100%" height="100%">
       {showHelp && <HelpOverlay />}
+      {showHistory && (
+        <>
+          {historyMessage && <Text color="red">{historyMessage}</Text>}
+          <HistoryPanel
+            entries={history.entries}
+            currentEndpointId={currentEndpoint?.id ?? null}
+            onOpen={openHistoryEntry}
+            onClose={closeHistory}
+            terminalHeight={terminalHeight}
+          />
+        </>
+      )}
+      {showExport && exportRequest && (
+        <ExportPanel
+          request={exportRequest}
+          onClose={closeExport}
+          terminalHeight={terminalHeight}
+        />
+      )}
+      {showImport && (
+        <ImportPanel
+          spec={spec}
+          onImport={applyCurlImport}
+          onClose={closeImport}
+        />
+      )}
+      {importWarnings.length > 0 && !overlayShown && (
+        <Text color="yellow" wrap="truncate-end">
+          Imported with warnings: {importWarnings.join('; ')}
+        </Text>
+      )}
+      {reloadError && !overlayShown && (
+        <Text color="red" wrap="truncate-end">
+          Reload failed (showing previous spec): {reloadError}
+        </Text>
+      )}
       <Box
         flexDirection="row"
         width="100%"
         height="100%"
-        display={showHelp ? 'none' : 'flex'}
+        display={overlayShown ? 'none' : 'flex'}
       >
         {(!fullscreenPanel || fullscreenPanel === 'endpoints') && (
           <Box
@@ -35,8 +206,11 @@ export default function App({ spec, specLoadUrl, savedRequestBaseUrl }: Props) {
           >
             <EndpointList
               tagGroups={spec.tagGroups}
-              isFocused={focusedPanel === 'endpoints' && !showHelp}
+              isFocused={focusedPanel === 'endpoints' && !overlayShown}
               onSelectEndpoint={selectEndpoint}
+              savedRequests={savedRequests}
+              onOpenSavedRequest={openSavedRequest}
+              onDeleteSavedRequest={removeSavedRequest}
               onTextCaptureChange={setTextCapture}
               terminalHeight={terminalHeight}
             />
@@ -50,8 +224,8 @@ export default function App({ spec, specLoadUrl, savedRequestBaseUrl }: Props) {
             flexDirection="column"
           >
             <EndpointDetail
-              endpoint={selectedEndpoint}
-              isFocused={focusedPanel === 'detail' && !showHelp}
+              endpoint={currentEndpoint}
+              isFocused={focusedPanel === 'detail' && !overlayShown}
               componentSchemas={spec.componentSchemas}
               onTextCaptureChange={setTextCapture}
               terminalHeight={terminalHeight}
@@ -66,18 +240,34 @@ export default function App({ spec, specLoadUrl, savedRequestBaseUrl }: Props) {
             flexDirection="column"
           >
             <RequestPanel
-              endpoint={selectedEndpoint}
-              isFocused={focusedPanel === 'request' && !showHelp}
+              endpoint={currentEndpoint}
+              isFocused={focusedPanel === 'request' && !overlayShown}
               servers={spec.servers}
               securitySchemes={spec.securitySchemes}
+              globalSecurity={spec.globalSecurity}
               onTextCaptureChange={setTextCapture}
-              onSaveServerAuth={saveServerAuth}
+              onSaveServerAuth={saveServerAuthToVault}
               findAuthForServer={findAuthForServer}
+              findCredentialsForServer={findCredentialsForServer}
+              onSelectCredential={selectCredential}
+              findServerVariables={findServerVariables}
               configLoaded={!configLoading}
               defaultResponseTab={preferences.defaultResponseTab}
               specLoadUrl={specLoadUrl}
               savedRequestBaseUrl={savedRequestBaseUrl}
               terminalHeight={terminalHeight}
+              onHistoryEntry={history.record}
+              pendingRequest={pendingRequest}
+              onPendingRequestHandled={clearPendingRequest}
+              onSaveRequest={saveRequestForSpec}
+              environments={environments}
+              activeEnvironment={activeEnvironment}
+              onSelectEnvironment={setActiveEnvironment}
+              onExportRequest={exportCurrentRequest}
+              cookieJar={cookieJar}
+              onToggleCookieJar={setCookieJar}
+              secrets={secretsVault.secrets}
+              configPath={savePath}
             />
           </Box>
         )}
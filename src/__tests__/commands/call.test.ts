@@ -0,0 +1,401 @@
+import { describe, expect, mock, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import {
+  parseCallArgs,
+  findOperation,
+  formatResponse,
+  exitCodeForStatus,
+  runCall,
+  CallUsageError,
+} from '@/commands/call.js'
+import type { CallDeps } from '@/commands/call.js'
+import { parseSpec } from '@/parser/index.js'
+import type { HttpResponse, RequestOptions } from '@/types/index.js'
+import type { ConfigData } from '@/config/index.js'
+import type { OAuthCredentials } from '@/oauth/index.js'
+
+const FIXTURES = join(import.meta.dir, '../fixtures')
+const PETSTORE = join(FIXTURES, 'petstore-3.0.yaml')
+
+function makeResponse(overrides: Partial<HttpResponse> = {}): HttpResponse {
+  return {
+    status: 200,
+    statusText: 'OK',
+    headers: new Map([['content-type', 'application/json']]),
+    body: '{"id":1}',
+    durationMs: 12,
+    ...overrides,
+  }
+}
+
+function makeDeps(
+  overrides: Partial<CallDeps> = {},
+  config: ConfigData = { servers: [], collections: [], environments: [], preferences: { defaultResponseTab: 'pretty' } },
+) {
+  const sendRequest = mock((_options: RequestOptions) => Promise.resolve(makeResponse()))
+  const deps: CallDeps = {
+    loadSpec: async (input) => ({
+      content: readFileSync(input, 'utf8'),
+      format: 'yaml',
+      inputType: 'file',
+      source: input,
+    }),
+    parseSpec,
+    loadConfig: async () => config,
+    sendRequest,
+    readFile: async () => '{"name":"from-file"}',
+    requestToken: async () => ({ accessToken: 'minted', tokenType: 'Bearer' }),
+    loadSecrets: async () => ({ env: {}, vault: null }),
+    ...overrides,
+  }
+  return { deps, sendRequest }
+}
+
+function captureOutput() {
+  const out: string[] = []
+  const err: string[] = []
+  return {
+    output: { stdout: (t: string) => out.push(t), stderr: (t: string) => err.push(t) },
+    stdout: () => out.join(''),
+    stderr: () => err.join(''),
+  }
+}
+
+describe('parseCallArgs', () => {
+  test('parses spec, operation and repeatable params', () => {
+    const options = parseCallArgs([
+      './spec.yaml',
+      'getPet',
+      '--path',
+      'petId=1',
+      '--query',
+      'status=sold',
+      '--query',
+      'limit=5',
+      '--header',
+      'X-Trace=abc',
+      '--cookie',
+      'session=xyz',
+      '--body',
+      '@body.json',
+      '--server',
+      '1',
+      '--config',
+      './team.toml',
+    ])
+
+    expect(options.specInput).toBe('./spec.yaml')
+    expect(options.operation).toBe('getPet')
+    expect([...options.pathParams]).toEqual([['petId', '1']])
+    expect([...options.queryParams]).toEqual([
+      ['status', 'sold'],
+      ['limit', '5'],
+    ])
+    expect([...options.headerParams]).toEqual([['X-Trace', 'abc']])
+    expect([...options.cookieParams]).toEqual([['session', 'xyz']])
+    expect(options.body).toBe('@body.json')
+    expect(options.server).toBe('1')
+    expect(options.configPath).toBe('./team.toml')
+  })
+
+  test('keeps "=" inside values', () => {
+    const options = parseCallArgs(['s.yaml', 'op', '--query', 'filter=a=b'])
+    expect(options.queryParams.get('filter')).toBe('a=b')
+  })
+
+  test('joins a two-word METHOD /path operation', () => {
+    const options = parseCallArgs(['s.yaml', 'GET', '/pets/{petId}'])
+    expect(options.operation).toBe('GET /pets/{petId}')
+  })
+
+  test('rejects missing operation', () => {
+    expect(() => parseCallArgs(['s.yaml'])).toThrow(CallUsageError)
+  })
+
+  test('rejects unknown options', () => {
+    expect(() => parseCallArgs(['s.yaml', 'op', '--verbose', 'x'])).toThrow('Unknown option: --verbose')
+  })
+
+  test('rejects malformed key=value pairs', () => {
+    expect(() => parseCallArgs(['s.yaml', 'op', '--path', 'petId'])).toThrow('expects name=value')
+  })
+
+  test('rejects an option without a value', () => {
+    expect(() => parseCallArgs(['s.yaml', 'op', '--body'])).toThrow('Missing value for --body')
+  })
+})
+
+describe('findOperation', () => {
+  test('finds by operationId or METHOD /path', async () => {
+    const spec = await parseSpec(readFileSync(PETSTORE, 'utf8'))
+
+    expect(findOperation(spec.endpoints, 'listPets')!.path).toBe('/pets')
+    expect(findOperation(spec.endpoints, 'delete /pets/{petId}')!.method).toBe('delete')
+    expect(findOperation(spec.endpoints, 'GET /nope')).toBeNull()
+  })
+})
+
+describe('formatResponse / exitCodeForStatus', () => {
+  test('prints status line, headers and body', () => {
+    expect(formatResponse(makeResponse())).toBe(
+      'HTTP 200 OK (12ms)\ncontent-type: application/json\n\n{"id":1}\n',
+    )
+  })
+
+  test('maps status classes to exit codes', () => {
+    expect(exitCodeForStatus(204)).toBe(0)
+    expect(exitCodeForStatus(101)).toBe(0)
+    expect(exitCodeForStatus(302)).toBe(0)
+    expect(exitCodeForStatus(404)).toBe(4)
+    expect(exitCodeForStatus(503)).toBe(5)
+  })
+})
+
+describe('runCall', () => {
+  test('sends the resolved request and prints the response', async () => {
+    const { deps, sendRequest } = makeDeps()
+    const io = captureOutput()
+
+    const code = await runCall(
+      [PETSTORE, 'getPet', '--path', 'petId=7'],
+      deps,
+      io.output,
+    )
+
+    expect(code).toBe(0)
+    expect(sendRequest).toHaveBeenCalledTimes(1)
+    const request = sendRequest.mock.calls[0]![0]
+    expect(request.method).toBe('get')
+    expect(request.url).toBe('https://api.petstore.io/v1/pets/7')
+    expect(io.stdout()).toContain('HTTP 200 OK')
+  })
+
+  test('selects a server by index and applies saved auth for it', async () => {
+    const { deps, sendRequest } = makeDeps({}, {
+      servers: [
+        { name: 'local', url: 'http://localhost:3000/v1', credentials: [{ name: 'default', auth: { method: 'bearer', token: 'secret' } }] },
+      ],
+      collections: [],
+      environments: [],
+      preferences: { defaultResponseTab: 'pretty' },
+    })
+
+    await runCall(
+      [PETSTORE, 'GET', '/pets', '--query', 'limit=5', '--server', '1'],
+      deps,
+      captureOutput().output,
+    )
+
+    const request = sendRequest.mock.calls[0]![0]
+    expect(request.url).toBe('http://localhost:3000/v1/pets?limit=5')
+    expect(request.headers.get('Authorization')).toBe('Bearer secret')
+  })
+
+  test('loads the config given with --config', async () => {
+    const loadConfig = mock(async (_configPath?: string) => ({ servers: [], collections: [], environments: [], preferences: { defaultResponseTab: 'pretty' as const } }))
+    const { deps } = makeDeps({ loadConfig })
+
+    await runCall([PETSTORE, 'GET', '/pets', '--config', './team.toml'], deps, captureOutput().output)
+
+    expect(loadConfig.mock.calls[0]).toEqual(['./team.toml'])
+  })
+
+  test('resolves env and vault references in the saved auth', async () => {
+    const loadSecrets = async () => ({ env: { API_USER: 'alice' }, vault: new Map([['local/default/password', 'pw']]) })
+    const { deps, sendRequest } = makeDeps({ loadSecrets }, {
+      servers: [{
+        name: 'local',
+        url: 'http://localhost:3000/v1',
+        credentials: [{ name: 'default', auth: { method: 'basic', username: '${env:API_USER}', password: '${vault:local/default/password}' } }],
+      }],
+      collections: [],
+      environments: [],
+      preferences: { defaultResponseTab: 'pretty' },
+    })
+
+    await runCall([PETSTORE, 'GET', '/pets', '--server', '1'], deps, captureOutput().output)
+
+    expect(sendRequest.mock.calls[0]![0].headers.get('Authorization')).toBe(`Basic ${btoa('alice:pw')}`)
+  })
+
+  test('fails instead of sending unresolved secret references', async () => {
+    const { deps, sendRequest } = makeDeps({}, {
+      servers: [{ name: 'local', url: 'http://localhost:3000/v1', credentials: [{ name: 'default', auth: { method: 'bearer', token: '${vault:local/default/token}' } }] }],
+      collections: [],
+      environments: [],
+      preferences: { defaultResponseTab: 'pretty' },
+    })
+    const { output, stderr } = captureOutput()
+
+    const code = await runCall([PETSTORE, 'GET', '/pets', '--server', '1'], deps, output)
+
+    expect(code).toBe(1)
+    expect(stderr()).toContain('Unresolved secrets in the saved auth: ${vault:local/default/token}')
+    expect(sendRequest).not.toHaveBeenCalled()
+  })
+
+  test('exchanges saved OAuth2 credentials for a token', async () => {
+    const auth = {
+      method: 'oauth2' as const,
+      grant: 'clientCredentials' as const,
+      tokenUrl: 'https://auth.example.com/token',
+      clientId: 'cli',
+      clientSecret: 'shh',
+      scopes: 'read:pets',
+    }
+    const requestToken = mock(async (_credentials: OAuthCredentials, _onAuthorizeUrl: (url: string) => void) => ({ accessToken: 'minted', tokenType: 'Bearer' }))
+    const { deps, sendRequest } = makeDeps({ requestToken }, {
+      servers: [{ name: 'local', url: 'http://localhost:3000/v1', credentials: [{ name: 'default', auth }] }],
+      collections: [],
+      environments: [],
+      preferences: { defaultResponseTab: 'pretty' },
+    })
+
+    await runCall([PETSTORE, 'GET', '/pets', '--server', '1'], deps, captureOutput().output)
+
+    expect(requestToken.mock.calls[0]![0]).toEqual(auth)
+    expect(sendRequest.mock.calls[0]![0].headers.get('Authorization')).toBe('Bearer minted')
+  })
+
+  test('prints the authorize URL of the authorization code flow', async () => {
+    const auth = {
+      method: 'oauth2' as const,
+      grant: 'authorizationCode' as const,
+      tokenUrl: 'https://auth.example.com/token',
+      authorizationUrl: 'https://auth.example.com/authorize',
+      clientId: 'cli',
+      clientSecret: '',
+      scopes: '',
+    }
+    const requestToken = mock(async (_credentials: OAuthCredentials, onAuthorizeUrl: (url: string) => void) => {
+      onAuthorizeUrl('https://auth.example.com/authorize?client_id=cli')
+      return { accessToken: 'granted', tokenType: 'Bearer' }
+    })
+    const { deps, sendRequest } = makeDeps({ requestToken }, {
+      servers: [{ name: 'local', url: 'http://localhost:3000/v1', credentials: [{ name: 'default', auth }] }],
+      collections: [],
+      environments: [],
+      preferences: { defaultResponseTab: 'pretty' },
+    })
+    const { output, stderr } = captureOutput()
+
+    await runCall([PETSTORE, 'GET', '/pets', '--server', '1'], deps, output)
+
+    expect(stderr()).toContain('Open this URL to authorize:\n  https://auth.example.com/authorize?client_id=cli')
+    expect(sendRequest.mock.calls[0]![0].headers.get('Authorization')).toBe('Bearer granted')
+  })
+
+  test('accepts a server URL', async () => {
+    const { deps, sendRequest } = makeDeps()
+    await runCall([PETSTORE, 'listPets', '--server', 'https://staging.example.com'], deps, captureOutput().output)
+
+    expect(sendRequest.mock.calls[0]![0].url).toBe('https://staging.example.com/pets')
+  })
+
+  test('reads the body from a file with @path', async () => {
+    const readFile = mock(async (_path: string) => '{"name":"from-file"}')
+    const { deps, sendRequest } = makeDeps({ readFile })
+
+    await runCall([PETSTORE, 'createPet', '--body', '@pet.json'], deps, captureOutput().output)
+
+    expect(readFile).toHaveBeenCalledWith('pet.json')
+    expect(sendRequest.mock.calls[0]![0].body).toBe('{"name":"from-file"}')
+  })
+
+  test('returns the status class as exit code', async () => {
+    const { deps } = makeDeps({
+      sendRequest: async () => makeResponse({ status: 404, statusText: 'Not Found', body: '' }),
+    })
+
+    const code = await runCall([PETSTORE, 'getPet', '--path', 'petId=1'], deps, captureOutput().output)
+    expect(code).toBe(4)
+  })
+
+  test('returns 2 without sending when a required body is missing', async () => {
+    const { deps, sendRequest } = makeDeps()
+    const io = captureOutput()
+
+    const code = await runCall([PETSTORE, 'createPet'], deps, io.output)
+
+    expect(code).toBe(2)
+    expect(sendRequest).not.toHaveBeenCalled()
+    expect(io.stderr()).toContain('POST /pets requires a request body')
+  })
+
+  test('sends no body for an optional body without --body', async () => {
+    const spec = [
+      'openapi: 3.0.0',
+      'info: { title: Notes, version: "1" }',
+      'servers: [{ url: "https://api.example.com" }]',
+      'paths:',
+      '  /notes:',
+      '    post:',
+      '      operationId: createNote',
+      '      requestBody:',
+      '        content:',
+      '          application/json:',
+      '            schema: { type: object, properties: { text: { type: string } } }',
+      '      responses: { "201": { description: Created } }',
+    ].join('\n')
+    const { deps, sendRequest } = makeDeps({
+      loadSpec: async (input) => ({ content: spec, format: 'yaml', inputType: 'file', source: input }),
+    })
+
+    const code = await runCall(['notes.yaml', 'createNote'], deps, captureOutput().output)
+
+    expect(code).toBe(0)
+    expect(sendRequest.mock.calls[0]![0].body).toBeUndefined()
+  })
+
+  test('treats -h as a value when it follows an option', async () => {
+    const { deps, sendRequest } = makeDeps()
+    const io = captureOutput()
+
+    const code = await runCall([PETSTORE, 'listPets', '--query', 'limit=-h'], deps, io.output)
+    await runCall([PETSTORE, 'createPet', '--body', '-h'], deps, io.output)
+
+    expect(code).toBe(0)
+    expect(io.stdout()).not.toContain('Usage: superapi-tui call')
+    expect(sendRequest.mock.calls[1]![0].body).toBe('-h')
+  })
+
+  test('returns 2 for an unknown operation', async () => {
+    const { deps, sendRequest } = makeDeps()
+    const io = captureOutput()
+
+    const code = await runCall([PETSTORE, 'nope'], deps, io.output)
+
+    expect(code).toBe(2)
+    expect(sendRequest).not.toHaveBeenCalled()
+    expect(io.stderr()).toContain('Operation not found: nope')
+  })
+
+  test('returns 2 for an undeclared parameter', async () => {
+    const { deps } = makeDeps()
+    const io = captureOutput()
+
+    const code = await runCall([PETSTORE, 'listPets', '--query', 'bogus=1'], deps, io.output)
+
+    expect(code).toBe(2)
+    expect(io.stderr()).toContain('Unknown query parameter "bogus"')
+  })
+
+  test('returns 1 when the request fails', async () => {
+    const { deps } = makeDeps({ sendRequest: async () => { throw new Error('connection refused') } })
+    const io = captureOutput()
+
+    const code = await runCall([PETSTORE, 'listPets'], deps, io.output)
+
+    expect(code).toBe(1)
+    expect(io.stderr()).toContain('connection refused')
+  })
+
+  test('prints usage for --help', async () => {
+    const io = captureOutput()
+    const code = await runCall(['--help'], makeDeps().deps, io.output)
+
+    expect(code).toBe(0)
+    expect(io.stdout()).toContain('Usage: superapi-tui call')
+  })
+})
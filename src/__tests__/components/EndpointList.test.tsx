@@ -1,6 +1,7 @@
 import { describe, it, expect, mock } from 'bun:test'
 import { render } from 'ink-testing-library'
 import { EndpointList } from '@/components/EndpointList.js'
+import type { SavedRequestItem } from '@/components/EndpointList.js'
 import type { Endpoint, TagGroup } from '@/types/index.js'
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
@@ -60,6 +61,14 @@ const tagGroups: readonly TagGroup[] = [
   { name: 'store', endpoints: storeEndpoints },
 ]
 
+const savedRequests: readonly SavedRequestItem[] = [
+  {
+    collection: 'smoke',
+    request: { name: 'First page', endpointId: 'get-/pets', params: { 'query:limit': '10' } },
+    endpoint: petEndpoints[0]!,
+  },
+]
+
 // Wrapper to provide Ink's App context (useApp needs it)
 // ink-testing-library's render provides it automatically
 
@@ -482,4 +491,121 @@ describe('EndpointList', () => {
       expect(frame).not.toContain('/store/inventory')
     })
   })
+
+  describe('Saved Requests', () => {
+    it('shows a Saved group above the tags, expanded', () => {
+      const { lastFrame } = render(
+        <EndpointList tagGroups={tagGroups} isFocused={false} onSelectEndpoint={mock(() => {})} savedRequests={savedRequests} />,
+      )
+      const frame = lastFrame()!
+      expect(frame).toContain('Saved')
+      expect(frame).toContain('First page')
+      expect(frame).toContain('(smoke)')
+      expect(frame.indexOf('Saved')).toBeLessThan(frame.indexOf('pets'))
+    })
+
+    it('omits the Saved group when there are no saved requests', () => {
+      const { lastFrame } = render(
+        <EndpointList tagGroups={tagGroups} isFocused={false} onSelectEndpoint={mock(() => {})} />,
+      )
+      expect(lastFrame()!).not.toContain('Saved')
+    })
+
+    it('opens a saved request on Enter', async () => {
+      const onSelect = mock(() => {})
+      const onOpen = mock(() => {})
+      const { stdin } = render(
+        <EndpointList
+          tagGroups={tagGroups}
+          isFocused={true}
+          onSelectEndpoint={onSelect}
+          savedRequests={savedRequests}
+          onOpenSavedRequest={onOpen}
+        />,
+      )
+      stdin.write('j')
+      await delay(50)
+      stdin.write('\r')
+      await delay(50)
+      expect(onOpen).toHaveBeenCalledTimes(1)
+      expect(mockCallArg(onOpen, 0, 0)).toBe(savedRequests[0])
+      expect(onSelect).not.toHaveBeenCalled()
+    })
+
+    it('deletes a saved request after confirming with y', async () => {
+      const onDelete = mock(() => {})
+      const { lastFrame, stdin } = render(
+        <EndpointList
+          tagGroups={tagGroups}
+          isFocused={true}
+          onSelectEndpoint={mock(() => {})}
+          savedRequests={savedRequests}
+          onDeleteSavedRequest={onDelete}
+        />,
+      )
+      stdin.write('j')
+      await delay(50)
+      stdin.write('x')
+      await delay(50)
+      expect(lastFrame()!).toContain('Delete saved request smoke/First page? (y/n)')
+      stdin.write('y')
+      await delay(50)
+      expect(onDelete).toHaveBeenCalledTimes(1)
+      expect(mockCallArg(onDelete, 0, 0)).toBe(savedRequests[0])
+      expect(lastFrame()!).not.toContain('(y/n)')
+    })
+
+    it('cancels deletion on any other key', async () => {
+      const onDelete = mock(() => {})
+      const onTextCapture = mock(() => {})
+      const { stdin } = render(
+        <EndpointList
+          tagGroups={tagGroups}
+          isFocused={true}
+          onSelectEndpoint={mock(() => {})}
+          savedRequests={savedRequests}
+          onDeleteSavedRequest={onDelete}
+          onTextCaptureChange={onTextCapture}
+        />,
+      )
+      stdin.write('j')
+      await delay(50)
+      stdin.write('x')
+      await delay(50)
+      stdin.write('n')
+      await delay(50)
+      expect(onDelete).not.toHaveBeenCalled()
+      const calls = onTextCapture.mock.calls as unknown as [boolean][]
+      expect(calls.map(c => c[0])).toEqual([true, false])
+    })
+
+    it('ignores x outside saved request rows', async () => {
+      const onDelete = mock(() => {})
+      const { lastFrame, stdin } = render(
+        <EndpointList
+          tagGroups={tagGroups}
+          isFocused={true}
+          onSelectEndpoint={mock(() => {})}
+          savedRequests={savedRequests}
+          onDeleteSavedRequest={onDelete}
+        />,
+      )
+      stdin.write('x')
+      await delay(50)
+      expect(lastFrame()!).not.toContain('(y/n)')
+    })
+
+    it('includes saved requests in filter results', async () => {
+      const { lastFrame, stdin } = render(
+        <EndpointList tagGroups={tagGroups} isFocused={true} onSelectEndpoint={mock(() => {})} savedRequests={savedRequests} />,
+      )
+      stdin.write('/')
+      await delay(50)
+      stdin.write('first')
+      await delay(50)
+      const frame = lastFrame()!
+      expect(frame).toContain('First page')
+      expect(frame).not.toContain('/store/inventory')
+    })
+  })
 })
@@ -0,0 +1,160 @@
+import { describe, it, expect, mock } from 'bun:test'
+import { render } from 'ink-testing-library'
+import { ExportPanel } from '@/components/index.js'
+import type { RequestOptions } from '@/types/index.js'
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const request: RequestOptions = {
+  method: 'post',
+  url: 'https://api.example.com/pets',
+  headers: new Map([['Content-Type', 'application/json']]),
+  body: '{"name":"Rex"}',
+}
+
+function renderPanel(overrides: Partial<Parameters<typeof ExportPanel>[0]> = {}) {
+  const onClose = mock(() => {})
+  const copy = mock((_text: string) => {})
+  const writeFile = mock((path: string, _text: string) => Promise.resolve(`/work/${path}`))
+  const result = render(
+    <ExportPanel request={request} onClose={onClose} copy={copy} writeFile={writeFile} {...overrides} />,
+  )
+  return { ...result, onClose, copy, writeFile }
+}
+
+describe('ExportPanel', () => {
+  it('shows the curl snippet by default', () => {
+    const { lastFrame } = renderPanel()
+    const frame = lastFrame()!
+    expect(frame).toContain('Export Request')
+    expect(frame).toContain("curl -X POST 'https://api.example.com/pets'")
+    expect(frame).toContain("--data-raw '{\"name\":\"Rex\"}'")
+  })
+
+  it('switches formats with number keys and h/l', async () => {
+    const { lastFrame, stdin } = renderPanel()
+
+    stdin.write('4')
+    await delay(50)
+    expect(lastFrame()).toContain('import requests')
+
+    stdin.write('l')
+    await delay(50)
+    expect(lastFrame()).toContain('package main')
+
+    stdin.write('l')
+    await delay(50)
+    expect(lastFrame()).toContain('curl -X POST')
+
+    stdin.write('h')
+    await delay(50)
+    expect(lastFrame()).toContain('package main')
+  })
+
+  it('copies the current snippet', async () => {
+    const { lastFrame, stdin, copy } = renderPanel()
+
+    stdin.write('2')
+    await delay(50)
+    stdin.write('c')
+    await delay(50)
+
+    expect(copy).toHaveBeenCalledTimes(1)
+    expect(copy.mock.calls[0]![0]).toStartWith('http POST')
+    expect(lastFrame()).toContain('Copied HTTPie snippet')
+  })
+
+  it('writes the snippet to the default file name', async () => {
+    const { lastFrame, stdin, writeFile } = renderPanel()
+
+    stdin.write('3')
+    await delay(50)
+    stdin.write('w')
+    await delay(50)
+    expect(lastFrame()).toContain('Write to file: request.mjs')
+
+    stdin.write('\r')
+    await delay(50)
+
+    expect(writeFile).toHaveBeenCalledTimes(1)
+    expect(writeFile.mock.calls[0]![0]).toBe('request.mjs')
+    expect(writeFile.mock.calls[0]![1]).toContain('await fetch(')
+    expect(lastFrame()).toContain('Wrote /work/request.mjs')
+  })
+
+  it('reports write failures', async () => {
+    const writeFile = mock(() => Promise.reject(new Error('EACCES')))
+    const { lastFrame, stdin } = renderPanel({ writeFile })
+
+    stdin.write('w')
+    await delay(50)
+    stdin.write('\r')
+    await delay(50)
+
+    expect(lastFrame()).toContain('Failed to write request.sh: EACCES')
+  })
+
+  it('asks before overwriting an existing file', async () => {
+    const exists = Object.assign(new Error('EEXIST: file already exists'), { code: 'EEXIST' })
+    const writeFile = mock((path: string, _text: string, overwrite?: boolean) =>
+      overwrite ? Promise.resolve(`/work/${path}`) : Promise.reject(exists))
+    const { lastFrame, stdin } = renderPanel({ writeFile })
+
+    stdin.write('w')
+    await delay(50)
+    stdin.write('\r')
+    await delay(50)
+    expect(lastFrame()).toContain('request.sh exists. Overwrite it? (y/n)')
+
+    stdin.write('y')
+    await delay(50)
+    expect(writeFile.mock.calls[1]![2]).toBe(true)
+    expect(lastFrame()).toContain('Wrote /work/request.sh')
+  })
+
+  it('keeps the existing file when overwriting is declined', async () => {
+    const exists = Object.assign(new Error('EEXIST: file already exists'), { code: 'EEXIST' })
+    const writeFile = mock(() => Promise.reject(exists))
+    const { lastFrame, stdin } = renderPanel({ writeFile })
+
+    stdin.write('w')
+    await delay(50)
+    stdin.write('\r')
+    await delay(50)
+    stdin.write('n')
+    await delay(50)
+
+    expect(writeFile).toHaveBeenCalledTimes(1)
+    expect(lastFrame()).toContain('Kept the existing request.sh')
+  })
+
+  it('Esc cancels the file prompt, then closes', async () => {
+    const { lastFrame, stdin, onClose, writeFile } = renderPanel()
+
+    stdin.write('w')
+    await delay(50)
+    stdin.write('\x1b')
+    await delay(50)
+    expect(lastFrame()).not.toContain('Write to file')
+    expect(onClose).not.toHaveBeenCalled()
+    expect(writeFile).not.toHaveBeenCalled()
+
+    stdin.write('\x1b')
+    await delay(50)
+    expect(onClose).toHaveBeenCalledTimes(1)
+  })
+
+  it('scrolls long snippets within the terminal height', async () => {
+    const { lastFrame, stdin } = renderPanel({ terminalHeight: 14 })
+
+    stdin.write('5')
+    await delay(50)
+    expect(lastFrame()).toContain('package main')
+    expect(lastFrame()).toContain('more below')
+
+    stdin.write('G')
+    await delay(50)
+    expect(lastFrame()).not.toContain('package main')
+    expect(lastFrame()).toContain('more above')
+  })
+})
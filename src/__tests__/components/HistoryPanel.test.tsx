@@ -0,0 +1,137 @@
+import { describe, it, expect, mock } from 'bun:test'
+import { render } from 'ink-testing-library'
+import { HistoryPanel } from '@/components/index.js'
+import type { HistoryEntry } from '@/history/index.js'
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+function makeEntry(overrides: Partial<HistoryEntry> = {}): HistoryEntry {
+  return {
+    id: 'entry-1',
+    timestamp: '2026-01-02T03:04:05.000Z',
+    endpointId: 'get-/pets',
+    method: 'get',
+    path: '/pets',
+    serverUrl: 'https://api.example.com',
+    url: 'https://api.example.com/pets',
+    headers: {},
+    params: {},
+    status: 200,
+    statusText: 'OK',
+    durationMs: 12,
+    ...overrides,
+  }
+}
+
+const ENTRIES: readonly HistoryEntry[] = [
+  makeEntry({ id: 'old', url: 'https://api.example.com/pets?limit=1' }),
+  makeEntry({
+    id: 'mid',
+    endpointId: 'post-/pets',
+    method: 'post',
+    url: 'https://api.example.com/pets',
+    headers: { Authorization: '[REDACTED]' },
+    body: '{"name":"Rex"}',
+    status: 422,
+  }),
+  makeEntry({
+    id: 'new',
+    endpointId: 'get-/pets/{petId}',
+    path: '/pets/{petId}',
+    url: 'https://api.example.com/pets/7',
+    status: undefined,
+    durationMs: undefined,
+    error: 'Connection refused',
+  }),
+]
+
+function renderPanel(overrides: Partial<Parameters<typeof HistoryPanel>[0]> = {}) {
+  const onOpen = mock(() => {})
+  const onClose = mock(() => {})
+  const result = render(
+    <HistoryPanel
+      entries={ENTRIES}
+      currentEndpointId="get-/pets"
+      onOpen={onOpen}
+      onClose={onClose}
+      {...overrides}
+    />,
+  )
+  return { ...result, onOpen, onClose }
+}
+
+describe('HistoryPanel', () => {
+  it('shows an empty state', () => {
+    const { lastFrame } = renderPanel({ entries: [] })
+    expect(lastFrame()).toContain('No requests sent yet.')
+  })
+
+  it('lists entries newest first with details for the selection', () => {
+    const { lastFrame } = renderPanel()
+    const frame = lastFrame()!
+
+    expect(frame.indexOf('/pets/{petId}')).toBeLessThan(frame.indexOf('422'))
+    expect(frame).toContain('ERR')
+    expect(frame).toContain('URL: https://api.example.com/pets/7')
+    expect(frame).toContain('Error: Connection refused')
+  })
+
+  it('shows redacted headers and body of the selected entry', async () => {
+    const { lastFrame, stdin } = renderPanel()
+
+    stdin.write('j')
+    await delay(50)
+
+    expect(lastFrame()).toContain('Authorization: [REDACTED]')
+    expect(lastFrame()).toContain('{"name":"Rex"}')
+  })
+
+  it('filters by text', async () => {
+    const { lastFrame, stdin } = renderPanel()
+
+    stdin.write('/')
+    await delay(50)
+    stdin.write('limit')
+    await delay(50)
+    stdin.write('\r')
+    await delay(50)
+
+    expect(lastFrame()).toContain('(1 of 3)')
+    expect(lastFrame()).toContain('filter: limit')
+  })
+
+  it('e toggles filtering to the current endpoint', async () => {
+    const { lastFrame, stdin } = renderPanel()
+
+    stdin.write('e')
+    await delay(50)
+    expect(lastFrame()).toContain('(1 of 3)')
+    expect(lastFrame()).toContain('[current endpoint]')
+
+    stdin.write('e')
+    await delay(50)
+    expect(lastFrame()).toContain('(3)')
+  })
+
+  it('Enter opens the entry and s re-sends it', async () => {
+    const { stdin, onOpen } = renderPanel()
+
+    stdin.write('j')
+    await delay(50)
+    stdin.write('\r')
+    await delay(50)
+    expect(onOpen).toHaveBeenLastCalledWith(ENTRIES[1], false)
+
+    stdin.write('s')
+    await delay(50)
+    expect(onOpen).toHaveBeenLastCalledWith(ENTRIES[1], true)
+  })
+
+  it('Esc closes the panel', async () => {
+    const { stdin, onClose } = renderPanel()
+
+    stdin.write('\x1b')
+    await delay(50)
+    expect(onClose).toHaveBeenCalledTimes(1)
+  })
+})
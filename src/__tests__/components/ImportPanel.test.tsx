@@ -0,0 +1,70 @@
+import { describe, it, expect, mock } from 'bun:test'
+import { render } from 'ink-testing-library'
+import { ImportPanel } from '@/components/index.js'
+import type { CurlImport } from '@/import/index.js'
+import type { ParsedSpec } from '@/types/index.js'
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const spec: ParsedSpec = {
+  info: { title: 'Test API', version: '1.0.0', specVersion: '3.0.0' },
+  servers: [{ url: 'https://api.example.com', variables: new Map() }],
+  tagGroups: [],
+  endpoints: [
+    {
+      id: 'get:/pets/{petId}',
+      method: 'get',
+      path: '/pets/{petId}',
+      tags: [],
+      deprecated: false,
+      parameters: [{ name: 'petId', location: 'path', required: true, deprecated: false }],
+      responses: [],
+    },
+  ],
+  tags: [],
+  securitySchemes: [],
+  globalSecurity: [],
+  componentSchemas: new Map(),
+}
+
+function renderPanel() {
+  const onImport = mock((_result: CurlImport) => {})
+  const onClose = mock(() => {})
+  const result = render(<ImportPanel spec={spec} onImport={onImport} onClose={onClose} />)
+  return { ...result, onImport, onClose }
+}
+
+describe('ImportPanel', () => {
+  it('imports a pasted command on Enter', async () => {
+    const { lastFrame, stdin, onImport } = renderPanel()
+    expect(lastFrame()).toContain('Paste a curl command:')
+
+    stdin.write(`curl \\\r  'https://api.example.com/pets/42'`)
+    await delay(50)
+    expect(lastFrame()).toContain(`curl    'https://api.example.com/pets/42'`)
+
+    stdin.write('\r')
+    await delay(50)
+    expect(onImport).toHaveBeenCalledTimes(1)
+    expect(onImport.mock.calls[0]![0].draft.params).toEqual({ 'path:petId': '42' })
+  })
+
+  it('shows the error and stays open when the command does not match', async () => {
+    const { lastFrame, stdin, onImport } = renderPanel()
+
+    stdin.write('curl https://api.example.com/owners')
+    await delay(50)
+    stdin.write('\r')
+    await delay(50)
+    expect(onImport).not.toHaveBeenCalled()
+    expect(lastFrame()).toContain('No operation in the spec matches GET /owners')
+  })
+
+  it('Esc closes', async () => {
+    const { stdin, onClose } = renderPanel()
+
+    stdin.write('\u001B')
+    await delay(50)
+    expect(onClose).toHaveBeenCalledTimes(1)
+  })
+})
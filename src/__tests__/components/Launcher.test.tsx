@@ -1,12 +1,20 @@
 import { describe, test, expect, mock, beforeEach, spyOn } from 'bun:test'
 import { render } from 'ink-testing-library'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { mkdtemp, rm } from 'node:fs/promises'
 import { Launcher } from '@/components/Launcher.js'
-import type { ConfigData } from '@/config/types.js'
+import type { ConfigData, RecentSpec } from '@/config/types.js'
+import { loadConfigLayers } from '@/config/index.js'
+import { createVault, encryptVault } from '@/vault/index.js'
+import type { UnlockedVault, VaultFile } from '@/vault/index.js'
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
 
 const defaultConfig: ConfigData = {
   servers: [],
+  collections: [],
+  environments: [],
   preferences: { defaultResponseTab: 'pretty' },
 }
 
@@ -15,6 +23,8 @@ const configWithServers: ConfigData = {
     { name: 'Pet Store', swaggerEndpointUrl: 'https://petstore.example.com/v3/api-docs', url: 'https://petstore.example.com' },
     { name: 'Users API', swaggerEndpointUrl: 'https://users.example.com/openapi.json' },
   ],
+  collections: [],
+  environments: [],
   preferences: { defaultResponseTab: 'pretty' },
 }
 
@@ -22,14 +32,22 @@ const configWithLegacyServer: ConfigData = {
   servers: [
     { name: 'Legacy API', url: 'https://legacy.example.com/api-docs' },
   ],
+  collections: [],
+  environments: [],
   preferences: { defaultResponseTab: 'pretty' },
 }
 
 const mockLoadConfig = mock(() => Promise.resolve(defaultConfig))
+const mockLoadVault = mock((): Promise<VaultFile | null> => Promise.resolve(null))
+const mockLoadRecentSpecs = mock((): Promise<readonly RecentSpec[]> => Promise.resolve([]))
 
 beforeEach(() => {
   mockLoadConfig.mockClear()
   mockLoadConfig.mockResolvedValue(defaultConfig)
+  mockLoadVault.mockClear()
+  mockLoadVault.mockResolvedValue(null)
+  mockLoadRecentSpecs.mockClear()
+  mockLoadRecentSpecs.mockResolvedValue([])
 })
 
 describe('Launcher', () => {
@@ -37,7 +55,7 @@ describe('Launcher', () => {
     mockLoadConfig.mockReturnValue(new Promise(() => {}))
     const onSelect = mock(() => {})
     const { lastFrame } = render(
-      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig }} />,
+      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs }} />,
     )
     const frame = lastFrame()!
     expect(frame).toContain('superapi-tui')
@@ -48,18 +66,38 @@ describe('Launcher', () => {
     mockLoadConfig.mockResolvedValue(defaultConfig)
     const onSelect = mock(() => {})
     const { lastFrame } = render(
-      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig }} />,
+      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs }} />,
     )
     await delay(50)
     const frame = lastFrame()!
     expect(frame).toContain('Enter a spec URL or file path')
   })
 
+  test('shows why a broken config was skipped and asks for a spec', async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), 'superapi-launcher-'))
+    const configPath = join(tempDir, 'broken.toml')
+    await Bun.write(configPath, '[[servers]]\nname = "dev\n')
+    const loadConfig = () => loadConfigLayers({ configPath }).then(layers => layers.merged)
+
+    try {
+      const { lastFrame } = render(
+        <Launcher onSelect={mock(() => {})} deps={{ loadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs }} />,
+      )
+      await delay(50)
+
+      const frame = lastFrame()!
+      expect(frame).toContain('Enter a spec URL or file path')
+      expect(frame).toContain('Invalid TOML in config file')
+    } finally {
+      await rm(tempDir, { recursive: true, force: true })
+    }
+  })
+
   test('renders saved servers as Select options when config has servers', async () => {
     mockLoadConfig.mockResolvedValue(configWithServers)
     const onSelect = mock(() => {})
     const { lastFrame } = render(
-      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig }} />,
+      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs }} />,
     )
     await delay(50)
     const frame = lastFrame()!
@@ -69,11 +107,11 @@ describe('Launcher', () => {
     expect(frame).toContain('Users API')
   })
 
-  test('shows "Enter URL or file path" as last Select option', async () => {
+  test('shows "Enter URL or file path" after the servers', async () => {
     mockLoadConfig.mockResolvedValue(configWithServers)
     const onSelect = mock(() => {})
     const { lastFrame } = render(
-      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig }} />,
+      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs }} />,
     )
     await delay(50)
     const frame = lastFrame()!
@@ -84,7 +122,7 @@ describe('Launcher', () => {
     mockLoadConfig.mockResolvedValue(configWithServers)
     const onSelect = mock(() => {})
     const { stdin } = render(
-      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig }} />,
+      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs }} />,
     )
     await delay(50)
     stdin.write('\r')
@@ -99,7 +137,7 @@ describe('Launcher', () => {
     mockLoadConfig.mockResolvedValue(configWithServers)
     const onSelect = mock(() => {})
     const { lastFrame, stdin } = render(
-      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig }} />,
+      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs }} />,
     )
     await delay(50)
     stdin.write('\x1b[B')
@@ -117,7 +155,7 @@ describe('Launcher', () => {
     mockLoadConfig.mockResolvedValue(defaultConfig)
     const onSelect = mock(() => {})
     const { stdin } = render(
-      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig }} />,
+      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs }} />,
     )
     await delay(50)
     stdin.write('https://example.com/api.json')
@@ -133,7 +171,7 @@ describe('Launcher', () => {
     mockLoadConfig.mockResolvedValue(defaultConfig)
     const onSelect = mock(() => {})
     const { stdin } = render(
-      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig }} />,
+      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs }} />,
     )
     await delay(50)
     stdin.write('\r')
@@ -145,7 +183,7 @@ describe('Launcher', () => {
     mockLoadConfig.mockResolvedValue(configWithLegacyServer)
     const onSelect = mock(() => {})
     const { stdin } = render(
-      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig }} />,
+      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs }} />,
     )
     await delay(50)
     stdin.write('\r')
@@ -161,7 +199,7 @@ describe('Launcher', () => {
     mockLoadConfig.mockResolvedValue(configWithLegacyServer)
     const onSelect = mock(() => {})
     const { stdin } = render(
-      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig }} />,
+      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs }} />,
     )
     await delay(50)
     stdin.write('\r')
@@ -177,12 +215,14 @@ describe('Launcher', () => {
       servers: [
         { name: 'Swagger Only', swaggerEndpointUrl: 'https://swagger.example.com/docs' },
       ],
+      collections: [],
+      environments: [],
       preferences: { defaultResponseTab: 'pretty' },
     }
     mockLoadConfig.mockResolvedValue(singleSwaggerConfig)
     const onSelect = mock(() => {})
     const { stdin } = render(
-      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig }} />,
+      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs }} />,
     )
     await delay(50)
     stdin.write('\r')
@@ -191,4 +231,191 @@ describe('Launcher', () => {
     expect(args[0]).toBe('https://swagger.example.com/docs')
     expect(args[1]).toBeUndefined()
   })
+
+  test('opens the spec named by the config without asking', async () => {
+    mockLoadConfig.mockResolvedValue({ ...configWithServers, spec: '/repo/openapi.yaml' })
+    const onSelect = mock(() => {})
+    render(
+      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs }} />,
+    )
+    await delay(50)
+
+    expect(onSelect).toHaveBeenCalledTimes(1)
+    expect(onSelect.mock.lastCall as unknown as [string]).toEqual(['/repo/openapi.yaml'])
+  })
+
+  test('opens the default server after the delay', async () => {
+    mockLoadConfig.mockResolvedValue({ ...configWithServers, preferences: { defaultResponseTab: 'pretty', defaultServer: 'Pet Store' } })
+    const onSelect = mock(() => {})
+    const { lastFrame } = render(
+      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs }} autoLaunchDelayMs={100} />,
+    )
+    await delay(50)
+    expect(lastFrame()).toContain('Opening Pet Store...')
+    expect(onSelect).not.toHaveBeenCalled()
+
+    await delay(150)
+    expect(onSelect.mock.lastCall as unknown as [string, string]).toEqual(['https://petstore.example.com/v3/api-docs', 'https://petstore.example.com'])
+  })
+
+  test('Esc shows the server list instead of the default server', async () => {
+    mockLoadConfig.mockResolvedValue({ ...configWithServers, preferences: { defaultResponseTab: 'pretty', defaultServer: 'Pet Store' } })
+    const onSelect = mock(() => {})
+    const { lastFrame, stdin } = render(
+      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs }} autoLaunchDelayMs={200} />,
+    )
+    await delay(50)
+    stdin.write('\x1b')
+    await delay(250)
+
+    expect(lastFrame()).toContain('Select a server or enter a spec URL')
+    expect(onSelect).not.toHaveBeenCalled()
+  })
+
+  test('manages servers and shows the changes when going back', async () => {
+    mockLoadConfig.mockResolvedValue(configWithServers)
+    const userLayer = { path: '/home/me/.superapi-tui.toml', data: configWithServers }
+    const loadUserConfig = mock(() => Promise.resolve(userLayer))
+    const saveConfig = mock((_data: ConfigData, _path: string) => Promise.resolve())
+    const onSelect = mock(() => {})
+    const { lastFrame, stdin } = render(
+      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs, loadUserConfig, loadProjectConfig: () => Promise.resolve(null), saveConfig }} />,
+    )
+    await delay(50)
+    for (const key of ['\x1b[B', '\x1b[B', '\x1b[B', '\x1b[B', '\r']) {
+      stdin.write(key)
+      await delay(50)
+    }
+    expect(lastFrame()).toContain('Manage servers in /home/me/.superapi-tui.toml')
+
+    stdin.write('x')
+    await delay(50)
+    stdin.write('y')
+    await delay(50)
+    const [data, path] = saveConfig.mock.lastCall!
+    expect(path).toBe('/home/me/.superapi-tui.toml')
+    expect(data.servers.map(s => s.name)).toEqual(['Users API'])
+
+    mockLoadConfig.mockResolvedValue(data)
+    stdin.write('\x1b')
+    await delay(50)
+    expect(lastFrame()).toContain('Select a server or enter a spec URL')
+    expect(lastFrame()).not.toContain('Pet Store')
+    expect(onSelect).not.toHaveBeenCalled()
+  })
+
+  test('reopens a recent spec', async () => {
+    mockLoadRecentSpecs.mockResolvedValue([{ input: '/repo/openapi.yaml', title: 'Pet Store', version: '1.0.0', openedAt: new Date().toISOString() }])
+    const onSelect = mock(() => {})
+    const { lastFrame, stdin } = render(
+      <Launcher onSelect={onSelect} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs }} />,
+    )
+    await delay(50)
+    expect(lastFrame()).toContain('Recent specs (1)...')
+    expect(lastFrame()).not.toContain('Manage servers')
+
+    stdin.write('\r')
+    await delay(50)
+    expect(lastFrame()).toContain('Pet Store 1.0.0')
+    stdin.write('\r')
+    await delay(50)
+
+    expect(onSelect.mock.lastCall as unknown as [string]).toEqual(['/repo/openapi.yaml'])
+  })
+
+  describe('secrets vault', () => {
+    // Key derivation takes a moment on purpose
+    const waitFor = async (check: () => boolean) => {
+      for (let i = 0; i < 100 && !check(); i++) await delay(50)
+    }
+
+    async function vaultFile(passphrase: string): Promise<VaultFile> {
+      const vault = await createVault(passphrase)
+      return encryptVault({ ...vault, secrets: new Map([['Prod/default/token', 'tok-123']]) })
+    }
+
+    test('unlocks an existing vault before showing the servers', async () => {
+      mockLoadConfig.mockResolvedValue(configWithServers)
+      mockLoadVault.mockResolvedValue(await vaultFile('hunter2'))
+      const onUnlock = mock((_vault: UnlockedVault) => {})
+      const { lastFrame, stdin } = render(
+        <Launcher onSelect={mock(() => {})} onUnlock={onUnlock} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs }} />,
+      )
+      await delay(50)
+      expect(lastFrame()).toContain('Vault passphrase:')
+      expect(lastFrame()).not.toContain('hunter2')
+
+      stdin.write('hunter2')
+      await delay(50)
+      stdin.write('\r')
+      await waitFor(() => onUnlock.mock.calls.length > 0)
+
+      expect(onUnlock.mock.lastCall![0].secrets.get('Prod/default/token')).toBe('tok-123')
+      await delay(50)
+      expect(lastFrame()).toContain('Pet Store')
+    })
+
+    test('asks again after a wrong passphrase, and Esc skips unlocking', async () => {
+      mockLoadConfig.mockResolvedValue(configWithServers)
+      mockLoadVault.mockResolvedValue(await vaultFile('hunter2'))
+      const onUnlock = mock((_vault: UnlockedVault) => {})
+      const { lastFrame, stdin } = render(
+        <Launcher onSelect={mock(() => {})} onUnlock={onUnlock} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs }} />,
+      )
+      await delay(50)
+      stdin.write('wrong')
+      await delay(50)
+      stdin.write('\r')
+      await waitFor(() => lastFrame()!.includes('Wrong passphrase'))
+      expect(lastFrame()).toContain('Vault passphrase:')
+      await delay(50)
+
+      stdin.write('\x1b')
+      await waitFor(() => lastFrame()!.includes('Pet Store'))
+      expect(lastFrame()).toContain('Pet Store')
+      expect(lastFrame()).not.toContain('Create secrets vault')
+      expect(onUnlock).not.toHaveBeenCalled()
+    })
+
+    test('creates a vault after the passphrase is repeated', async () => {
+      mockLoadConfig.mockResolvedValue(configWithServers)
+      const saveVault = mock((_file: VaultFile) => Promise.resolve())
+      const onUnlock = mock((_vault: UnlockedVault) => {})
+      const { lastFrame, stdin } = render(
+        <Launcher onSelect={mock(() => {})} onUnlock={onUnlock} deps={{ loadConfig: mockLoadConfig, loadVault: mockLoadVault, loadRecentSpecs: mockLoadRecentSpecs, saveVault }} />,
+      )
+      await delay(50)
+      for (let i = 0; i < 3; i++) {
+        stdin.write('\x1b[B')
+        await delay(50)
+      }
+      stdin.write('\r')
+      await delay(50)
+      expect(lastFrame()).toContain('New vault passphrase:')
+
+      stdin.write('s3cret')
+      await delay(50)
+      stdin.write('\r')
+      await delay(50)
+      stdin.write('other')
+      await delay(50)
+      stdin.write('\r')
+      await delay(50)
+      expect(lastFrame()).toContain('The passphrases do not match')
+
+      for (const entry of ['s3cret', 's3cret']) {
+        stdin.write(entry)
+        await delay(50)
+        stdin.write('\r')
+        await delay(50)
+      }
+      await waitFor(() => saveVault.mock.calls.length > 0)
+      await delay(50)
+
+      expect(saveVault.mock.lastCall![0].kdf.name).toBe('scrypt')
+      expect(onUnlock).toHaveBeenCalledTimes(1)
+      expect(lastFrame()).toContain('Secrets vault created')
+      expect(lastFrame()).not.toContain('Create secrets vault')
+    })
+  })
 })
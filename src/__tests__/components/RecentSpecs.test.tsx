@@ -0,0 +1,85 @@
+import { describe, test, expect, mock, beforeEach } from 'bun:test'
+import { render } from 'ink-testing-library'
+import { RecentSpecs } from '@/components/RecentSpecs.js'
+import type { RecentSpec } from '@/config/types.js'
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60_000).toISOString()
+
+const recents: readonly RecentSpec[] = [
+  { input: '/repo/pets/openapi.yaml', title: 'Pet Store', version: '1.0.0', openedAt: minutesAgo(5) },
+  { input: 'https://users.example.com/openapi.json', title: 'Users API', version: '2.3.1', openedAt: minutesAgo(3 * 60) },
+  { input: '/repo/orders.yaml', title: 'Orders', version: '0.9.0', openedAt: minutesAgo(2 * 24 * 60) },
+]
+
+const onOpen = mock((_input: string) => {})
+const onClose = mock(() => {})
+
+async function press(stdin: { write: (data: string) => void }, ...keys: string[]) {
+  for (const key of keys) {
+    stdin.write(key)
+    await delay(50)
+  }
+}
+
+beforeEach(() => {
+  onOpen.mockClear()
+  onClose.mockClear()
+})
+
+describe('RecentSpecs', () => {
+  test('lists title, version, input and when each was opened', () => {
+    const { lastFrame } = render(<RecentSpecs recents={recents} onOpen={onOpen} onClose={onClose} />)
+    const frame = lastFrame()!
+
+    expect(frame).toContain('> Pet Store 1.0.0  5m ago')
+    expect(frame).toContain('/repo/pets/openapi.yaml')
+    expect(frame).toContain('Users API 2.3.1  3h ago')
+    expect(frame).toContain('Orders 0.9.0  2d ago')
+  })
+
+  test('opens the selected spec', async () => {
+    const { stdin } = render(<RecentSpecs recents={recents} onOpen={onOpen} onClose={onClose} />)
+    await delay(50)
+
+    await press(stdin, '\x1b[B', '\r')
+
+    expect(onOpen).toHaveBeenCalledWith('https://users.example.com/openapi.json')
+  })
+
+  test('filters fuzzily across title, version and input', async () => {
+    const { lastFrame, stdin } = render(<RecentSpecs recents={recents} onOpen={onOpen} onClose={onClose} />)
+    await delay(50)
+
+    await press(stdin, 'o', 'r', 'd', 'y')
+    expect(lastFrame()).toContain('> Orders')
+    expect(lastFrame()).not.toContain('Pet Store')
+    expect(lastFrame()).not.toContain('Users API')
+
+    await press(stdin, '\r')
+    expect(onOpen).toHaveBeenCalledWith('/repo/orders.yaml')
+  })
+
+  test('shows when nothing matches', async () => {
+    const { lastFrame, stdin } = render(<RecentSpecs recents={recents} onOpen={onOpen} onClose={onClose} />)
+    await delay(50)
+
+    await press(stdin, 'z', 'z', '\r')
+
+    expect(lastFrame()).toContain('No recent specs match')
+    expect(onOpen).not.toHaveBeenCalled()
+  })
+
+  test('Esc clears the filter, then closes', async () => {
+    const { lastFrame, stdin } = render(<RecentSpecs recents={recents} onOpen={onOpen} onClose={onClose} />)
+    await delay(50)
+
+    await press(stdin, 'u', 's', '\x1b')
+    expect(lastFrame()).toContain('Pet Store')
+    expect(onClose).not.toHaveBeenCalled()
+
+    await press(stdin, '\x1b')
+    expect(onClose).toHaveBeenCalledTimes(1)
+  })
+})
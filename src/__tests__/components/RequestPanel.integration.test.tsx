@@ -1,6 +1,7 @@
-import { describe, test, expect, mock, afterEach } from 'bun:test'
+import { describe, test, expect, mock, afterEach, beforeEach, spyOn } from 'bun:test'
 import { render } from 'ink-testing-library'
 import App from '../../App.js'
+import * as historyIo from '@/history/io.js'
 import type { ParsedSpec, SchemaInfo } from '@/types/index.js'
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
@@ -106,6 +107,12 @@ const testSpec: ParsedSpec = {
   componentSchemas: new Map(),
 }
 
+// Keep sent requests out of the real ~/.superapi-tui-history.jsonl
+beforeEach(() => {
+  spyOn(historyIo, 'loadHistory').mockResolvedValue([])
+  spyOn(historyIo, 'appendHistory').mockResolvedValue(undefined)
+})
+
 afterEach(() => {
   mock.restore()
 })
@@ -0,0 +1,235 @@
+import { describe, test, expect, mock, beforeEach } from 'bun:test'
+import { render } from 'ink-testing-library'
+import { ServerManager } from '@/components/ServerManager.js'
+import type { ConfigData, ConfigLayer } from '@/config/types.js'
+import type { UnlockedVault } from '@/vault/index.js'
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const layer: ConfigLayer = {
+  path: '/home/me/.superapi-tui.toml',
+  data: {
+    servers: [
+      { name: 'Pet Store', swaggerEndpointUrl: 'https://petstore.example.com/v3/api-docs', url: 'https://petstore.example.com' },
+      {
+        name: 'Users API',
+        swaggerEndpointUrl: 'https://users.example.com/openapi.json',
+        credentials: [{ name: 'default', auth: { method: 'bearer', token: 'tok' } }],
+        activeCredential: 'default',
+      },
+    ],
+    collections: [],
+    environments: [],
+    preferences: { defaultResponseTab: 'pretty' },
+  },
+}
+
+const onSave = mock((_config: ConfigData) => Promise.resolve(true))
+const onClose = mock(() => {})
+
+function saved(): ConfigData {
+  return onSave.mock.lastCall![0]
+}
+
+async function press(stdin: { write: (data: string) => void }, ...keys: string[]) {
+  for (const key of keys) {
+    stdin.write(key)
+    await delay(50)
+  }
+}
+
+beforeEach(() => {
+  onSave.mockClear()
+  onSave.mockResolvedValue(true)
+  onClose.mockClear()
+})
+
+describe('ServerManager', () => {
+  test('lists the servers with the details of the selected one', () => {
+    const { lastFrame } = render(<ServerManager layer={layer} onSave={onSave} onClose={onClose} />)
+    const frame = lastFrame()!
+
+    expect(frame).toContain('/home/me/.superapi-tui.toml')
+    expect(frame).toContain('> Pet Store')
+    expect(frame).toContain('Users API')
+    expect(frame).toContain('Base URL: https://petstore.example.com')
+    expect(frame).toContain('Auth: none')
+  })
+
+  test('deletes a server once confirmed', async () => {
+    const { lastFrame, stdin } = render(<ServerManager layer={layer} onSave={onSave} onClose={onClose} />)
+    await delay(50)
+
+    await press(stdin, 'x')
+    expect(lastFrame()).toContain('Delete Pet Store? (y/n)')
+    await press(stdin, 'n')
+    expect(onSave).not.toHaveBeenCalled()
+
+    await press(stdin, 'x', 'y')
+    expect(saved().servers.map(s => s.name)).toEqual(['Users API'])
+    expect(lastFrame()).toContain('Deleted Pet Store; saved to /home/me/.superapi-tui.toml')
+    expect(lastFrame()).not.toContain('Pet Store\n')
+  })
+
+  test('renames a server and rejects a duplicate name', async () => {
+    const { lastFrame, stdin } = render(<ServerManager layer={layer} onSave={onSave} onClose={onClose} />)
+    await delay(50)
+
+    await press(stdin, 'r', ...Array<string>(9).fill('\x7f'), 'Users API', '\r')
+    expect(lastFrame()).toContain('There already is a server named Users API')
+    expect(onSave).not.toHaveBeenCalled()
+
+    await press(stdin, ...Array<string>(9).fill('\x7f'), 'Pets', '\r')
+    expect(saved().servers[0]!.name).toBe('Pets')
+  })
+
+  test('edits the base URL and keeps the spec URL', async () => {
+    const { stdin } = render(<ServerManager layer={layer} onSave={onSave} onClose={onClose} />)
+    await delay(50)
+
+    await press(stdin, 'j', 'u', 'https://users.example.com', '\r')
+
+    expect(saved().servers[1]).toMatchObject({
+      url: 'https://users.example.com',
+      swaggerEndpointUrl: 'https://users.example.com/openapi.json',
+    })
+  })
+
+  test('does not remove the only URL of a server', async () => {
+    const { lastFrame, stdin } = render(<ServerManager layer={layer} onSave={onSave} onClose={onClose} />)
+    await delay(50)
+
+    await press(stdin, 'j', 's', ...Array<string>(38).fill('\x7f'), '\r')
+
+    expect(lastFrame()).toContain('A server needs a base URL or a spec URL')
+    expect(onSave).not.toHaveBeenCalled()
+  })
+
+  test('clears the stored auth once confirmed', async () => {
+    const { lastFrame, stdin } = render(<ServerManager layer={layer} onSave={onSave} onClose={onClose} />)
+    await delay(50)
+
+    await press(stdin, 'c')
+    expect(lastFrame()).toContain('Pet Store has no stored auth')
+
+    await press(stdin, 'j', 'c', 'y')
+    expect(saved().servers[1]).toEqual({ name: 'Users API', swaggerEndpointUrl: 'https://users.example.com/openapi.json' })
+  })
+
+  describe('with the auth in the vault', () => {
+    const vaultLayer: ConfigLayer = {
+      ...layer,
+      data: {
+        ...layer.data,
+        servers: [
+          layer.data.servers[0]!,
+          { ...layer.data.servers[1]!, credentials: [{ name: 'default', auth: { method: 'bearer', token: '${vault:Users API/default/token}' } }] },
+        ],
+      },
+    }
+    const vault: UnlockedVault = {
+      secrets: new Map([['Users API/default/token', 'tok'], ['Pet Store/default/key', 'k']]),
+      key: Buffer.alloc(32),
+      kdf: { name: 'scrypt', salt: '', N: 16384, r: 8, p: 1 },
+    }
+
+    test('clearing the auth removes its secrets from the vault', async () => {
+      const onSaveVault = mock((_vault: UnlockedVault) => Promise.resolve())
+      const { lastFrame, stdin } = render(
+        <ServerManager layer={vaultLayer} onSave={onSave} onClose={onClose} vault={vault} onSaveVault={onSaveVault} />,
+      )
+      await delay(50)
+
+      await press(stdin, 'j', 'c', 'y')
+
+      expect(saved().servers[1]!.credentials).toBeUndefined()
+      expect([...onSaveVault.mock.lastCall![0].secrets.keys()]).toEqual(['Pet Store/default/key'])
+      expect(lastFrame()).toContain('removed its vault secrets')
+    })
+
+    test('says the secrets were kept while the vault is locked', async () => {
+      const { lastFrame, stdin } = render(<ServerManager layer={vaultLayer} onSave={onSave} onClose={onClose} vault={null} />)
+      await delay(50)
+
+      await press(stdin, 'j', 'c', 'y')
+
+      expect(saved().servers[1]!.credentials).toBeUndefined()
+      expect(lastFrame()).toContain('vault secret(s) were kept')
+    })
+  })
+
+  describe('with a project config', () => {
+    const project: ConfigLayer = {
+      path: '/repo/.superapi-tui.toml',
+      data: {
+        ...layer.data,
+        servers: [
+          { name: 'Staging', url: 'https://staging.example.com' },
+          { name: 'Shop', url: 'https://petstore.example.com/' },
+        ],
+      },
+    }
+
+    test('lists its servers read-only', async () => {
+      const { lastFrame, stdin } = render(<ServerManager layer={layer} project={project} onSave={onSave} onClose={onClose} />)
+      await delay(50)
+      expect(lastFrame()).toContain('Read-only, from the project config /repo/.superapi-tui.toml')
+
+      await press(stdin, 'j', 'j', 'x', 'r', 'c')
+
+      expect(lastFrame()).toContain('> Staging')
+      expect(lastFrame()).toContain('Staging comes from the project config; edit /repo/.superapi-tui.toml to change it')
+      expect(onSave).not.toHaveBeenCalled()
+    })
+
+    test('marks your servers that it overrides', () => {
+      const { lastFrame } = render(<ServerManager layer={layer} project={project} onSave={onSave} onClose={onClose} />)
+
+      expect(lastFrame()).toContain('The project config also has this server')
+    })
+  })
+
+  test('toggles the default server', async () => {
+    const { lastFrame, stdin } = render(<ServerManager layer={layer} onSave={onSave} onClose={onClose} />)
+    await delay(50)
+
+    await press(stdin, 'j', '*')
+    expect(saved().preferences.defaultServer).toBe('Users API')
+    expect(lastFrame()).toContain('Users API (default)')
+
+    await press(stdin, '*')
+    expect(saved().preferences.defaultServer).toBeUndefined()
+  })
+
+  test('moves a server down and keeps it selected', async () => {
+    const { lastFrame, stdin } = render(<ServerManager layer={layer} onSave={onSave} onClose={onClose} />)
+    await delay(50)
+
+    await press(stdin, 'J')
+
+    expect(saved().servers.map(s => s.name)).toEqual(['Users API', 'Pet Store'])
+    expect(lastFrame()).toContain('> Pet Store')
+  })
+
+  test('reports a failed save', async () => {
+    onSave.mockResolvedValue(false)
+    const { lastFrame, stdin } = render(<ServerManager layer={layer} onSave={onSave} onClose={onClose} />)
+    await delay(50)
+
+    await press(stdin, '*')
+
+    expect(lastFrame()).toContain('Failed to save config')
+  })
+
+  test('Esc cancels an edit, then closes', async () => {
+    const { stdin } = render(<ServerManager layer={layer} onSave={onSave} onClose={onClose} />)
+    await delay(50)
+
+    await press(stdin, 'r', '\x1b')
+    expect(onClose).not.toHaveBeenCalled()
+
+    await press(stdin, '\x1b')
+    expect(onClose).toHaveBeenCalledTimes(1)
+    expect(onSave).not.toHaveBeenCalled()
+  })
+})
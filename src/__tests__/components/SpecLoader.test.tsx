@@ -1,17 +1,20 @@
-import { describe, it, expect, mock, beforeEach } from 'bun:test'
+import { describe, it, expect, mock, beforeEach, spyOn } from 'bun:test'
+import { resolve } from 'node:path'
 import { render } from 'ink-testing-library'
 import { SpecLoader } from '@/components/SpecLoader.js'
-import type { ParsedSpec } from '@/types/index.js'
-import type { ConfigData } from '@/config/types.js'
+import type { ParsedSpec, LoadResult } from '@/types/index.js'
+import type { ConfigData, RecentSpec } from '@/config/types.js'
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
 
 const defaultConfig: ConfigData = {
   servers: [],
+  collections: [],
+  environments: [],
   preferences: { defaultResponseTab: 'pretty' },
 }
 
-const mockLoadSpec = mock(() =>
+const mockLoadSpec = mock((): Promise<LoadResult> =>
   Promise.resolve({ content: '{}', format: 'json' as const, inputType: 'file' as const, source: 'file' }),
 )
 const mockParseSpec = mock(() =>
@@ -29,16 +32,28 @@ const mockParseSpec = mock(() =>
   } as unknown as ParsedSpec),
 )
 const mockLoadConfig = mock(() => Promise.resolve(defaultConfig))
+const mockRecordRecentSpec = mock((_entry: RecentSpec) => Promise.resolve())
+let triggerFileChange: (() => void) | null = null
+const mockStopWatching = mock(() => {})
+const mockWatchSpecFile = mock((_path: string, onChange: () => void) => {
+  triggerFileChange = onChange
+  return mockStopWatching
+})
 
 beforeEach(() => {
   mockLoadSpec.mockClear()
   mockParseSpec.mockClear()
   mockLoadConfig.mockClear()
   mockLoadConfig.mockResolvedValue(defaultConfig)
+  mockRecordRecentSpec.mockClear()
+  mockRecordRecentSpec.mockResolvedValue(undefined)
+  mockWatchSpecFile.mockClear()
+  mockStopWatching.mockClear()
+  triggerFileChange = null
 })
 
-const specDeps = { loadSpec: mockLoadSpec, parseSpec: mockParseSpec }
-const launcherDeps = { loadConfig: mockLoadConfig }
+const specDeps = { loadSpec: mockLoadSpec, parseSpec: mockParseSpec, watchSpecFile: mockWatchSpecFile, recordRecentSpec: mockRecordRecentSpec }
+const launcherDeps = { loadConfig: mockLoadConfig, loadVault: () => Promise.resolve(null), loadRecentSpecs: () => Promise.resolve([]) }
 
 describe('SpecLoader', () => {
   it('shows launcher when no input provided', async () => {
@@ -123,4 +138,188 @@ describe('SpecLoader', () => {
     const frame = lastFrame()!
     expect(frame).toContain('Endpoints')
   })
+
+  it('parses URL-loaded specs with the spec URL so relative servers resolve', async () => {
+    mockLoadSpec.mockResolvedValueOnce({
+      content: '{}',
+      format: 'json' as const,
+      inputType: 'url' as const,
+      source: 'https://example.com/docs/',
+      resolvedUrl: 'https://example.com/docs/openapi.json',
+    })
+    render(<SpecLoader input="https://example.com/docs/" deps={specDeps} launcherDeps={launcherDeps} />)
+    await delay(100)
+
+    expect(mockParseSpec).toHaveBeenCalledWith('{}', 'https://example.com/docs/openapi.json')
+  })
+
+  it('parses file specs without a spec URL', async () => {
+    render(<SpecLoader input="./test.yaml" deps={specDeps} launcherDeps={launcherDeps} />)
+    await delay(100)
+
+    expect(mockParseSpec).toHaveBeenCalledWith('{}', undefined)
+  })
+
+  it('remembers an opened file spec by its absolute path', async () => {
+    render(<SpecLoader input="./test.yaml" deps={specDeps} launcherDeps={launcherDeps} />)
+    await delay(100)
+
+    expect(mockRecordRecentSpec).toHaveBeenCalledTimes(1)
+    expect(mockRecordRecentSpec.mock.lastCall![0]).toMatchObject({ input: resolve('./test.yaml'), title: 'Test API', version: '1.0.0' })
+  })
+
+  it('remembers a URL spec as entered', async () => {
+    mockLoadSpec.mockResolvedValueOnce({ content: '{}', format: 'json' as const, inputType: 'url' as const, source: 'https://example.com/openapi.json' })
+    render(<SpecLoader input="https://example.com/openapi.json" deps={specDeps} launcherDeps={launcherDeps} />)
+    await delay(100)
+
+    expect(mockRecordRecentSpec.mock.lastCall![0].input).toBe('https://example.com/openapi.json')
+  })
+
+  it('opens the spec when it cannot be remembered', async () => {
+    mockRecordRecentSpec.mockRejectedValueOnce(new Error('read-only config'))
+    const warnSpy = spyOn(console, 'warn').mockImplementation(() => {})
+    const { lastFrame } = render(<SpecLoader input="./test.yaml" deps={specDeps} launcherDeps={launcherDeps} />)
+    await delay(100)
+
+    expect(lastFrame()).toContain('Endpoints')
+    expect(warnSpy).toHaveBeenCalled()
+    warnSpy.mockRestore()
+  })
+
+  describe('live reload', () => {
+    function makeSpec(paths: readonly string[], title = 'Pet Store'): ParsedSpec {
+      const endpoints = paths.map(path => ({
+        id: `get:${path}`,
+        path,
+        method: 'get' as const,
+        summary: `Get ${path}`,
+        deprecated: false,
+        tags: ['pets'],
+        parameters: [],
+        responses: [],
+      }))
+      return {
+        info: { title, version: '1.0.0', specVersion: '3.0.0' },
+        tagGroups: [{ name: 'pets', endpoints }],
+        endpoints,
+        tags: ['pets'],
+        servers: [],
+        securitySchemes: [],
+        globalSecurity: [],
+        componentSchemas: new Map(),
+      }
+    }
+
+    it('watches the spec file once loaded from a file', async () => {
+      mockParseSpec.mockResolvedValueOnce(makeSpec(['/pets']))
+      render(<SpecLoader input="./petstore.yaml" deps={specDeps} launcherDeps={launcherDeps} />)
+      await delay(100)
+
+      expect(mockWatchSpecFile).toHaveBeenCalledTimes(1)
+      expect(mockWatchSpecFile.mock.calls[0]![0]).toBe('./petstore.yaml')
+    })
+
+    it('watches the files the spec references and reloads when one changes', async () => {
+      const petSchema = resolve('schemas/pet.yaml')
+      mockLoadSpec.mockResolvedValueOnce({ content: '{}', format: 'json' as const, inputType: 'file' as const, source: './petstore.yaml', documents: [petSchema] })
+      mockParseSpec.mockResolvedValueOnce(makeSpec(['/pets']))
+      render(<SpecLoader input="./petstore.yaml" deps={specDeps} launcherDeps={launcherDeps} />)
+      await delay(100)
+
+      expect(mockWatchSpecFile.mock.calls.map(call => call[0])).toEqual(['./petstore.yaml', petSchema])
+
+      mockLoadSpec.mockResolvedValueOnce({ content: '{}', format: 'json' as const, inputType: 'file' as const, source: './petstore.yaml', documents: [petSchema] })
+      triggerFileChange!()
+      await delay(100)
+
+      expect(mockLoadSpec).toHaveBeenCalledTimes(2)
+      // Same files, so the watchers are kept
+      expect(mockWatchSpecFile).toHaveBeenCalledTimes(2)
+      expect(mockStopWatching).not.toHaveBeenCalled()
+    })
+
+    it('starts watching a file that a reload newly references', async () => {
+      const ownerSchema = resolve('schemas/owner.yaml')
+      mockParseSpec.mockResolvedValueOnce(makeSpec(['/pets']))
+      render(<SpecLoader input="./petstore.yaml" deps={specDeps} launcherDeps={launcherDeps} />)
+      await delay(100)
+      expect(mockWatchSpecFile).toHaveBeenCalledTimes(1)
+
+      mockLoadSpec.mockResolvedValueOnce({ content: '{}', format: 'json' as const, inputType: 'file' as const, source: './petstore.yaml', documents: [ownerSchema] })
+      mockParseSpec.mockResolvedValueOnce(makeSpec(['/pets', '/owners']))
+      triggerFileChange!()
+      await delay(100)
+
+      expect(mockStopWatching).toHaveBeenCalledTimes(1)
+      expect(mockWatchSpecFile.mock.calls.slice(1).map(call => call[0])).toEqual(['./petstore.yaml', ownerSchema])
+    })
+
+    it('does not watch URL inputs', async () => {
+      mockLoadSpec.mockResolvedValueOnce({ content: '{}', format: 'json' as const, inputType: 'url' as const, source: 'https://example.com/api.json' })
+      mockParseSpec.mockResolvedValueOnce(makeSpec(['/pets']))
+      render(<SpecLoader input="https://example.com/api.json" deps={specDeps} launcherDeps={launcherDeps} />)
+      await delay(100)
+
+      expect(mockWatchSpecFile).not.toHaveBeenCalled()
+    })
+
+    it('swaps in the re-parsed spec when the file changes', async () => {
+      mockParseSpec.mockResolvedValueOnce(makeSpec(['/pets']))
+      const { lastFrame, stdin } = render(
+        <SpecLoader input="./petstore.yaml" deps={specDeps} launcherDeps={launcherDeps} />,
+      )
+      await delay(100)
+      // Expand the tag so endpoint rows are visible
+      stdin.write('\r')
+      await delay(50)
+      expect(lastFrame()).toContain('/pets')
+      expect(lastFrame()).not.toContain('/owners')
+
+      mockParseSpec.mockResolvedValueOnce(makeSpec(['/pets', '/owners']))
+      triggerFileChange!()
+      await delay(100)
+
+      const frame = lastFrame()!
+      expect(mockLoadSpec).toHaveBeenCalledTimes(2)
+      expect(frame).toContain('/owners')
+      // Tag stays expanded across the reload
+      expect(frame).toContain('\u25BC pets (2)')
+    })
+
+    it('keeps the previous spec and shows a banner when reload fails', async () => {
+      mockParseSpec.mockResolvedValueOnce(makeSpec(['/pets']))
+      const { lastFrame } = render(
+        <SpecLoader input="./petstore.yaml" deps={specDeps} launcherDeps={launcherDeps} />,
+      )
+      await delay(100)
+
+      mockParseSpec.mockRejectedValueOnce(new Error('bad indentation'))
+      triggerFileChange!()
+      await delay(100)
+
+      const frame = lastFrame()!
+      expect(frame).toContain('Reload failed')
+      expect(frame).toContain('bad indentation')
+      expect(frame).toContain('Endpoints')
+    })
+
+    it('clears the banner after a successful reload', async () => {
+      mockParseSpec.mockResolvedValueOnce(makeSpec(['/pets']))
+      const { lastFrame } = render(
+        <SpecLoader input="./petstore.yaml" deps={specDeps} launcherDeps={launcherDeps} />,
+      )
+      await delay(100)
+
+      mockParseSpec.mockRejectedValueOnce(new Error('bad indentation'))
+      triggerFileChange!()
+      await delay(100)
+      expect(lastFrame()).toContain('Reload failed')
+
+      mockParseSpec.mockResolvedValueOnce(makeSpec(['/pets']))
+      triggerFileChange!()
+      await delay(100)
+      expect(lastFrame()).not.toContain('Reload failed')
+    })
+  })
 })
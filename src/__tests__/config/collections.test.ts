@@ -0,0 +1,52 @@
+import { describe, test, expect } from 'bun:test'
+import { upsertSavedRequest, removeSavedRequest } from '@/config/collections.js'
+import type { SavedCollection, SavedRequest } from '@/config/types.js'
+
+function makeRequest(overrides: Partial<SavedRequest> = {}): SavedRequest {
+  return { name: 'list', endpointId: 'get-/pets', params: {}, ...overrides }
+}
+
+const existing: readonly SavedCollection[] = [
+  { name: 'smoke', spec: 'Petstore', requests: [makeRequest(), makeRequest({ name: 'other' })] },
+  { name: 'smoke', spec: 'Bookstore', requests: [makeRequest()] },
+]
+
+describe('upsertSavedRequest', () => {
+  test('creates a collection for a new spec/name pair', () => {
+    const result = upsertSavedRequest([], 'Petstore', 'smoke', makeRequest())
+    expect(result).toEqual([{ name: 'smoke', spec: 'Petstore', requests: [makeRequest()] }])
+  })
+
+  test('appends to an existing collection', () => {
+    const result = upsertSavedRequest(existing, 'Petstore', 'smoke', makeRequest({ name: 'new' }))
+    expect(result[0]!.requests.map(r => r.name)).toEqual(['list', 'other', 'new'])
+    expect(result[1]).toBe(existing[1]!)
+  })
+
+  test('replaces a request with the same name in place', () => {
+    const updated = makeRequest({ params: { 'query:limit': '5' } })
+    const result = upsertSavedRequest(existing, 'Petstore', 'smoke', updated)
+    expect(result[0]!.requests[0]).toEqual(updated)
+    expect(result[0]!.requests).toHaveLength(2)
+  })
+
+  test('keeps collections of other specs separate', () => {
+    const result = upsertSavedRequest(existing, 'Bookstore', 'smoke', makeRequest({ name: 'new' }))
+    expect(result[0]!.requests).toHaveLength(2)
+    expect(result[1]!.requests).toHaveLength(2)
+  })
+})
+
+describe('removeSavedRequest', () => {
+  test('removes only the named request', () => {
+    const result = removeSavedRequest(existing, 'Petstore', 'smoke', 'list')
+    expect(result[0]!.requests.map(r => r.name)).toEqual(['other'])
+    expect(result[1]!.requests).toHaveLength(1)
+  })
+
+  test('drops a collection once it is empty', () => {
+    const result = removeSavedRequest(existing, 'Bookstore', 'smoke', 'list')
+    expect(result).toHaveLength(1)
+    expect(result[0]!.spec).toBe('Petstore')
+  })
+})
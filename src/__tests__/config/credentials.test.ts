@@ -0,0 +1,21 @@
+import { describe, test, expect } from 'bun:test'
+import { upsertCredential } from '@/config/credentials.js'
+import type { SavedCredential } from '@/config/types.js'
+
+const existing: readonly SavedCredential[] = [
+  { name: 'admin', auth: { method: 'bearer', token: 'admin-token' } },
+  { name: 'user', auth: { method: 'bearer', token: 'user-token' } },
+]
+
+describe('upsertCredential', () => {
+  test('appends a credential with a new name', () => {
+    const result = upsertCredential(existing, { name: 'ci', auth: { method: 'bearer', token: 'ci-token' } })
+    expect(result.map(c => c.name)).toEqual(['admin', 'user', 'ci'])
+  })
+
+  test('replaces the credential with the same name in place', () => {
+    const updated: SavedCredential = { name: 'admin', auth: { method: 'basic', username: 'root', password: 'pw' } }
+    const result = upsertCredential(existing, updated)
+    expect(result).toEqual([updated, existing[1]!])
+  })
+})
@@ -1,8 +1,8 @@
 import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test'
 import { join } from 'node:path'
 import { tmpdir } from 'node:os'
-import { mkdtemp, rm } from 'node:fs/promises'
-import { loadConfig, saveConfig, getConfigPath, getJsonConfigPath } from '@/config/io.js'
+import { mkdir, mkdtemp, rm } from 'node:fs/promises'
+import { loadConfig, saveConfig, getConfigPath, getJsonConfigPath, findProjectConfig, loadConfigLayers } from '@/config/io.js'
 import { DEFAULT_CONFIG } from '@/config/types.js'
 import { ConfigError } from '@/config/errors.js'
 
@@ -41,35 +41,26 @@ describe('loadConfig', () => {
     expect(result.servers).toHaveLength(1)
     expect(result.servers[0]!.name).toBe('dev')
     expect(result.servers[0]!.url).toBe('https://dev.example.com')
-    expect(result.servers[0]!.auth).toEqual({ method: 'bearer', token: 'abc' })
+    expect(result.servers[0]!.credentials?.[0]?.auth).toEqual({ method: 'bearer', token: 'abc' })
     expect(result.preferences.defaultResponseTab).toBe('raw')
   })
 
-  test('returns defaults for invalid JSON', async () => {
+  test('reports invalid JSON instead of returning defaults', async () => {
     await Bun.write(configPath, '{not valid json')
 
-    const result = await loadConfig(configPath)
-
-    expect(result).toEqual(DEFAULT_CONFIG)
-    expect(warnSpy).toHaveBeenCalled()
+    await expect(loadConfig(configPath)).rejects.toThrow('Invalid JSON in config file')
   })
 
-  test('returns defaults for non-object root', async () => {
+  test('reports a non-object root', async () => {
     await Bun.write(configPath, '"just a string"')
 
-    const result = await loadConfig(configPath)
-
-    expect(result).toEqual(DEFAULT_CONFIG)
-    expect(warnSpy).toHaveBeenCalled()
+    await expect(loadConfig(configPath)).rejects.toThrow('is not an object')
   })
 
-  test('returns defaults for array root', async () => {
+  test('reports an array root', async () => {
     await Bun.write(configPath, '[1, 2, 3]')
 
-    const result = await loadConfig(configPath)
-
-    expect(result).toEqual(DEFAULT_CONFIG)
-    expect(warnSpy).toHaveBeenCalled()
+    await expect(loadConfig(configPath)).rejects.toThrow('is not an object')
   })
 
   test('skips server entries missing name', async () => {
@@ -132,7 +123,7 @@ describe('loadConfig', () => {
     await Bun.write(configPath, JSON.stringify(data))
 
     const result = await loadConfig(configPath)
-    const auth = result.servers[0]!.auth!
+    const auth = result.servers[0]!.credentials![0]!.auth
 
     expect(auth.method).toBe('bearer')
     if (auth.method === 'bearer') {
@@ -151,7 +142,7 @@ describe('loadConfig', () => {
     await Bun.write(configPath, JSON.stringify(data))
 
     const result = await loadConfig(configPath)
-    const auth = result.servers[0]!.auth!
+    const auth = result.servers[0]!.credentials![0]!.auth
 
     expect(auth.method).toBe('apiKey')
     if (auth.method === 'apiKey') {
@@ -172,13 +163,28 @@ describe('loadConfig', () => {
     await Bun.write(configPath, JSON.stringify(data))
 
     const result = await loadConfig(configPath)
-    const auth = result.servers[0]!.auth!
+    const auth = result.servers[0]!.credentials![0]!.auth
 
     if (auth.method === 'apiKey') {
       expect(auth.location).toBe('query')
     }
   })
 
+  test('parses apiKey auth with cookie location', async () => {
+    const data = {
+      servers: [{
+        name: 'api',
+        url: 'https://api.com',
+        auth: { method: 'apiKey', key: 'secret', paramName: 'session', location: 'cookie' },
+      }],
+    }
+    await Bun.write(configPath, JSON.stringify(data))
+
+    const result = await loadConfig(configPath)
+
+    expect(result.servers[0]!.credentials?.[0]?.auth).toEqual({ method: 'apiKey', key: 'secret', paramName: 'session', location: 'cookie' })
+  })
+
   test('parses basic auth', async () => {
     const data = {
       servers: [{
@@ -190,7 +196,7 @@ describe('loadConfig', () => {
     await Bun.write(configPath, JSON.stringify(data))
 
     const result = await loadConfig(configPath)
-    const auth = result.servers[0]!.auth!
+    const auth = result.servers[0]!.credentials![0]!.auth
 
     expect(auth.method).toBe('basic')
     if (auth.method === 'basic') {
@@ -201,16 +207,99 @@ describe('loadConfig', () => {
 
   test('skips unknown auth method', async () => {
     const data = {
-      servers: [{ name: 'api', url: 'https://api.com', auth: { method: 'oauth2' } }],
+      servers: [{ name: 'api', url: 'https://api.com', auth: { method: 'digest' } }],
     }
     await Bun.write(configPath, JSON.stringify(data))
 
     const result = await loadConfig(configPath)
 
-    expect(result.servers[0]!.auth).toBeUndefined()
+    expect(result.servers[0]!.credentials).toBeUndefined()
     expect(warnSpy).toHaveBeenCalled()
   })
 
+  test('parses oauth2 auth', async () => {
+    const auth = {
+      method: 'oauth2',
+      grant: 'password',
+      tokenUrl: 'https://auth.api.com/token',
+      clientId: 'cli',
+      clientSecret: 'shh',
+      scopes: 'read write',
+      username: 'alice',
+      password: 'pw',
+    } as const
+    await Bun.write(configPath, JSON.stringify({ servers: [{ name: 'api', url: 'https://api.com', auth }] }))
+
+    const result = await loadConfig(configPath)
+
+    expect(result.servers[0]!.credentials?.[0]?.auth).toEqual(auth)
+  })
+
+  test('skips oauth2 auth without a supported grant and token URL', async () => {
+    const data = {
+      servers: [
+        { name: 'implicit', url: 'https://api.com', auth: { method: 'oauth2', grant: 'implicit', tokenUrl: 'https://auth.api.com/token' } },
+        { name: 'no-url', url: 'https://api.com', auth: { method: 'oauth2', grant: 'clientCredentials' } },
+        { name: 'no-authorize', url: 'https://api.com', auth: { method: 'oauth2', grant: 'authorizationCode', tokenUrl: 'https://auth.api.com/token' } },
+      ],
+    }
+    await Bun.write(configPath, JSON.stringify(data))
+
+    const result = await loadConfig(configPath)
+
+    expect(result.servers.map((s) => s.credentials)).toEqual([undefined, undefined, undefined])
+    expect(warnSpy).toHaveBeenCalledTimes(3)
+  })
+
+  test('parses named credentials', async () => {
+    await Bun.write(configPath, JSON.stringify({
+      servers: [{
+        name: 'api',
+        url: 'https://api.com',
+        credentials: [
+          { name: 'admin', auth: { method: 'bearer', token: 'admin-token' } },
+          { name: 'user', auth: { method: 'bearer', token: 'user-token' } },
+        ],
+        activeCredential: 'user',
+      }],
+    }))
+
+    const result = await loadConfig(configPath)
+
+    expect(result.servers[0]!.credentials?.map(c => c.name)).toEqual(['admin', 'user'])
+    expect(result.servers[0]!.activeCredential).toBe('user')
+  })
+
+  test('reads a single auth as the default credential', async () => {
+    await Bun.write(configPath, JSON.stringify({
+      servers: [{ name: 'api', url: 'https://api.com', auth: { method: 'bearer', token: 'tok' } }],
+    }))
+
+    const result = await loadConfig(configPath)
+
+    expect(result.servers[0]!.credentials).toEqual([{ name: 'default', auth: { method: 'bearer', token: 'tok' } }])
+  })
+
+  test('skips nameless and duplicate credentials', async () => {
+    await Bun.write(configPath, JSON.stringify({
+      servers: [{
+        name: 'api',
+        url: 'https://api.com',
+        credentials: [
+          { auth: { method: 'bearer', token: 'nameless' } },
+          { name: 'admin', auth: { method: 'bearer', token: 'first' } },
+          { name: 'admin', auth: { method: 'bearer', token: 'second' } },
+        ],
+        activeCredential: 'gone',
+      }],
+    }))
+
+    const result = await loadConfig(configPath)
+
+    expect(result.servers[0]!.credentials).toEqual([{ name: 'admin', auth: { method: 'bearer', token: 'first' } }])
+    expect(warnSpy).toHaveBeenCalledTimes(2)
+  })
+
   test('server without auth field has no auth', async () => {
     const data = {
       servers: [{ name: 'api', url: 'https://api.com' }],
@@ -219,7 +308,7 @@ describe('loadConfig', () => {
 
     const result = await loadConfig(configPath)
 
-    expect(result.servers[0]!.auth).toBeUndefined()
+    expect(result.servers[0]!.credentials).toBeUndefined()
   })
 
   test('uses default preferences for invalid defaultResponseTab', async () => {
@@ -279,7 +368,7 @@ describe('loadConfig', () => {
 
     const result = await loadConfig(configPath)
 
-    expect(result.servers[0]!.auth).toBeUndefined()
+    expect(result.servers[0]!.credentials).toBeUndefined()
   })
 
   test('empty object returns defaults', async () => {
@@ -362,7 +451,9 @@ describe('saveConfig', () => {
   test('writes TOML config to file', async () => {
     const tomlPath = join(tempDir, 'config.toml')
     const data = {
-      servers: [{ name: 'prod', url: 'https://prod.api.com', auth: { method: 'bearer' as const, token: 'xyz' } }],
+      servers: [{ name: 'prod', url: 'https://prod.api.com', credentials: [{ name: 'default', auth: { method: 'bearer' as const, token: 'xyz' } }] }],
+      collections: [],
+      environments: [],
       preferences: { defaultResponseTab: 'raw' as const },
     }
 
@@ -387,9 +478,11 @@ describe('saveConfig', () => {
     const tomlPath = join(tempDir, 'roundtrip.toml')
     const data = {
       servers: [
-        { name: 'prod', url: 'https://prod.api.com', auth: { method: 'bearer' as const, token: 'xyz' } },
+        { name: 'prod', url: 'https://prod.api.com', credentials: [{ name: 'default', auth: { method: 'bearer' as const, token: 'xyz' } }] },
         { name: 'dev', url: 'https://dev.api.com' },
       ],
+      collections: [],
+      environments: [],
       preferences: { defaultResponseTab: 'headers' as const },
     }
 
@@ -398,16 +491,18 @@ describe('saveConfig', () => {
 
     expect(loaded.servers).toHaveLength(2)
     expect(loaded.servers[0]!.name).toBe('prod')
-    expect(loaded.servers[0]!.auth).toEqual({ method: 'bearer', token: 'xyz' })
+    expect(loaded.servers[0]!.credentials?.[0]?.auth).toEqual({ method: 'bearer', token: 'xyz' })
     expect(loaded.servers[1]!.name).toBe('dev')
-    expect(loaded.servers[1]!.auth).toBeUndefined()
+    expect(loaded.servers[1]!.credentials).toBeUndefined()
     expect(loaded.preferences.defaultResponseTab).toBe('headers')
   })
 
   test('writes JSON when path ends with .json', async () => {
     const jsonPath = join(tempDir, 'config.json')
     const data = {
-      servers: [{ name: 'prod', url: 'https://prod.api.com', auth: { method: 'bearer' as const, token: 'xyz' } }],
+      servers: [{ name: 'prod', url: 'https://prod.api.com', credentials: [{ name: 'default', auth: { method: 'bearer' as const, token: 'xyz' } }] }],
+      collections: [],
+      environments: [],
       preferences: { defaultResponseTab: 'raw' as const },
     }
 
@@ -423,8 +518,10 @@ describe('saveConfig', () => {
     const jsonPath = join(tempDir, 'roundtrip.json')
     const data = {
       servers: [
-        { name: 'prod', url: 'https://prod.api.com', auth: { method: 'bearer' as const, token: 'xyz' } },
+        { name: 'prod', url: 'https://prod.api.com', credentials: [{ name: 'default', auth: { method: 'bearer' as const, token: 'xyz' } }] },
       ],
+      collections: [],
+      environments: [],
       preferences: { defaultResponseTab: 'headers' as const },
     }
 
@@ -433,7 +530,7 @@ describe('saveConfig', () => {
 
     expect(loaded.servers).toHaveLength(1)
     expect(loaded.servers[0]!.name).toBe('prod')
-    expect(loaded.servers[0]!.auth).toEqual({ method: 'bearer', token: 'xyz' })
+    expect(loaded.servers[0]!.credentials?.[0]?.auth).toEqual({ method: 'bearer', token: 'xyz' })
     expect(loaded.preferences.defaultResponseTab).toBe('headers')
   })
 
@@ -445,13 +542,15 @@ describe('saveConfig', () => {
           name: 'full',
           swaggerEndpointUrl: 'https://api.com/swagger.json',
           url: 'https://api.com',
-          auth: { method: 'bearer' as const, token: 'tok' },
+          credentials: [{ name: 'default', auth: { method: 'bearer' as const, token: 'tok' } }],
         },
         {
           name: 'swagger-only',
           swaggerEndpointUrl: 'https://other.com/docs',
         },
       ],
+      collections: [],
+      environments: [],
       preferences: { defaultResponseTab: 'pretty' as const },
     }
 
@@ -461,11 +560,103 @@ describe('saveConfig', () => {
     expect(loaded.servers).toHaveLength(2)
     expect(loaded.servers[0]!.swaggerEndpointUrl).toBe('https://api.com/swagger.json')
     expect(loaded.servers[0]!.url).toBe('https://api.com')
-    expect(loaded.servers[0]!.auth).toEqual({ method: 'bearer', token: 'tok' })
+    expect(loaded.servers[0]!.credentials?.[0]?.auth).toEqual({ method: 'bearer', token: 'tok' })
     expect(loaded.servers[1]!.swaggerEndpointUrl).toBe('https://other.com/docs')
     expect(loaded.servers[1]!.url).toBeUndefined()
   })
 
+  test('TOML round-trip keeps the cookie jar setting', async () => {
+    const tomlPath = join(tempDir, 'cookies.toml')
+    const data = {
+      ...DEFAULT_CONFIG,
+      servers: [
+        { name: 'session', url: 'https://api.com', cookieJar: true },
+        { name: 'plain', url: 'https://other.com', cookieJar: false },
+      ],
+    }
+
+    await saveConfig(data, tomlPath)
+    const loaded = await loadConfig(tomlPath)
+
+    expect(loaded.servers).toEqual([
+      { name: 'session', url: 'https://api.com', cookieJar: true },
+      { name: 'plain', url: 'https://other.com' },
+    ])
+  })
+
+  test('TOML round-trip keeps server variable values', async () => {
+    const tomlPath = join(tempDir, 'variables.toml')
+    const data = {
+      ...DEFAULT_CONFIG,
+      servers: [{ name: 'eu', url: 'https://eu.example.com/v1', serverVariables: { region: 'eu' } }],
+    }
+
+    await saveConfig(data, tomlPath)
+    const loaded = await loadConfig(tomlPath)
+
+    expect(loaded.servers).toEqual(data.servers)
+  })
+
+  test('TOML round-trip keeps oauth2 client settings', async () => {
+    const tomlPath = join(tempDir, 'oauth.toml')
+    const data = {
+      ...DEFAULT_CONFIG,
+      servers: [{
+        name: 'api',
+        url: 'https://api.com',
+        credentials: [{
+          name: 'default',
+          auth: {
+            method: 'oauth2' as const,
+            grant: 'authorizationCode' as const,
+            tokenUrl: 'https://auth.api.com/token',
+            authorizationUrl: 'https://auth.api.com/authorize',
+            clientId: 'cli',
+            clientSecret: '{{secret}}',
+            scopes: 'read:pets',
+          },
+        }],
+      }],
+    }
+
+    await saveConfig(data, tomlPath)
+    const loaded = await loadConfig(tomlPath)
+
+    expect(loaded.servers).toEqual(data.servers)
+  })
+
+  test('TOML round-trip keeps named credentials and the last used one', async () => {
+    const tomlPath = join(tempDir, 'credentials.toml')
+    const data = {
+      ...DEFAULT_CONFIG,
+      servers: [{
+        name: 'api',
+        url: 'https://api.com',
+        credentials: [
+          { name: 'admin', auth: { method: 'bearer' as const, token: 'admin-token' } },
+          { name: 'user', auth: { method: 'basic' as const, username: 'u', password: 'p' } },
+        ],
+        activeCredential: 'user',
+      }],
+    }
+
+    await saveConfig(data, tomlPath)
+    const loaded = await loadConfig(tomlPath)
+
+    expect(loaded.servers).toEqual(data.servers)
+  })
+
+  test('skips non-scalar server variable values', async () => {
+    await Bun.write(configPath, JSON.stringify({
+      servers: [{ name: 'eu', url: 'https://eu.example.com', serverVariables: { region: 'eu', port: { n: 1 } } }],
+    }))
+
+    const result = await loadConfig(configPath)
+
+    expect(result.servers[0]!.serverVariables).toEqual({ region: 'eu' })
+    expect(warnSpy).toHaveBeenCalled()
+  })
+
   test('throws ConfigError on write failure', async () => {
     const badPath = '/nonexistent-dir-12345/config.toml'
 
@@ -515,18 +706,15 @@ describe('loadConfig TOML', () => {
     expect(result.servers).toHaveLength(1)
     expect(result.servers[0]!.name).toBe('dev')
     expect(result.servers[0]!.url).toBe('https://dev.example.com')
-    expect(result.servers[0]!.auth).toEqual({ method: 'bearer', token: 'abc' })
+    expect(result.servers[0]!.credentials?.[0]?.auth).toEqual({ method: 'bearer', token: 'abc' })
     expect(result.preferences.defaultResponseTab).toBe('raw')
   })
 
-  test('returns defaults for invalid TOML', async () => {
+  test('reports invalid TOML instead of returning defaults', async () => {
     const tomlPath = join(tempDir, 'bad.toml')
     await Bun.write(tomlPath, '[[invalid toml content {{{')
 
-    const result = await loadConfig(tomlPath)
-
-    expect(result).toEqual(DEFAULT_CONFIG)
-    expect(warnSpy).toHaveBeenCalled()
+    await expect(loadConfig(tomlPath)).rejects.toThrow('Invalid TOML in config file')
   })
 
   test('parses all auth types from TOML', async () => {
@@ -561,11 +749,11 @@ describe('loadConfig TOML', () => {
     const result = await loadConfig(tomlPath)
 
     expect(result.servers).toHaveLength(3)
-    expect(result.servers[0]!.auth).toEqual({ method: 'bearer', token: 'tok' })
-    expect(result.servers[1]!.auth).toEqual({
+    expect(result.servers[0]!.credentials?.[0]?.auth).toEqual({ method: 'bearer', token: 'tok' })
+    expect(result.servers[1]!.credentials?.[0]?.auth).toEqual({
       method: 'apiKey', key: 'secret', paramName: 'X-Key', location: 'header',
     })
-    expect(result.servers[2]!.auth).toEqual({
+    expect(result.servers[2]!.credentials?.[0]?.auth).toEqual({
       method: 'basic', username: 'user', password: 'pass',
     })
   })
@@ -618,3 +806,249 @@ describe('loadConfig fallback', () => {
     expect(result).toEqual(DEFAULT_CONFIG)
   })
 })
+
+describe('collections', () => {
+  test('parses saved requests grouped by collection', async () => {
+    const data = {
+      servers: [],
+      collections: [{
+        name: 'smoke',
+        spec: 'Petstore',
+        requests: [{
+          name: 'Get Rex',
+          endpointId: 'get-/pets/{petId}',
+          params: { 'path:petId': '42' },
+          server: 'https://api.example.com',
+          authScheme: 'bearerAuth',
+        }],
+      }],
+    }
+    await Bun.write(configPath, JSON.stringify(data))
+
+    const result = await loadConfig(configPath)
+
+    expect(result.collections).toEqual([{
+      name: 'smoke',
+      spec: 'Petstore',
+      requests: [{
+        name: 'Get Rex',
+        endpointId: 'get-/pets/{petId}',
+        params: { 'path:petId': '42' },
+        server: 'https://api.example.com',
+        authScheme: 'bearerAuth',
+      }],
+    }])
+  })
+
+  test('skips invalid collections, requests and params', async () => {
+    const data = {
+      collections: [
+        'not an object',
+        { name: 'no-spec', requests: [] },
+        {
+          name: 'ok',
+          spec: 'Petstore',
+          requests: [
+            { endpointId: 'get-/pets' },
+            { name: 'no endpoint' },
+            { name: 'valid', endpointId: 'get-/pets', params: { 'query:limit': 5, 'query:tag': 'dog' }, headers: { 'X-Trace': false } },
+          ],
+        },
+      ],
+    }
+    await Bun.write(configPath, JSON.stringify(data))
+
+    const result = await loadConfig(configPath)
+
+    expect(result.collections).toHaveLength(1)
+    expect(result.collections[0]!.requests).toEqual([
+      { name: 'valid', endpointId: 'get-/pets', params: { 'query:tag': 'dog' } },
+    ])
+    expect(warnSpy).toHaveBeenCalled()
+  })
+
+  test('defaults to no collections when the section is missing or malformed', async () => {
+    await Bun.write(configPath, JSON.stringify({ collections: 'nope' }))
+    expect((await loadConfig(configPath)).collections).toEqual([])
+  })
+
+  test('TOML round-trip keeps multi-line bodies, param keys, extra headers and form values', async () => {
+    const tomlPath = join(tempDir, 'collections.toml')
+    const data = {
+      servers: [],
+      collections: [{
+        name: 'default',
+        spec: 'Petstore',
+        requests: [{
+          name: 'POST /pets',
+          endpointId: 'post-/pets',
+          params: { 'header:X-Request-Id': 'abc' },
+          body: '{\n  "name": "Rex"\n}',
+          headers: { 'X-Trace': 'on' },
+        }, {
+          name: 'Upload',
+          endpointId: 'post-/pets/{petId}/photo',
+          params: {} as Record<string, string>,
+          mediaType: 'multipart/form-data',
+          form: { caption: 'Rex', file: './rex.png' },
+        }],
+      }],
+      environments: [],
+      preferences: { defaultResponseTab: 'pretty' as const },
+    }
+
+    await saveConfig(data, tomlPath)
+    const written = await Bun.file(tomlPath).text()
+    const loaded = await loadConfig(tomlPath)
+
+    expect(written).toContain('[[collections]]')
+    expect(loaded.collections).toEqual(data.collections)
+  })
+
+  test('omits the collections section when there are none', async () => {
+    const tomlPath = join(tempDir, 'empty.toml')
+    await saveConfig(DEFAULT_CONFIG, tomlPath)
+
+    expect(await Bun.file(tomlPath).text()).not.toContain('collections')
+  })
+})
+
+describe('environments', () => {
+  test('parses environments and stringifies scalar values', async () => {
+    const data = {
+      environments: [
+        { name: 'dev', variables: { host: 'localhost:3000', port: 3000, debug: true } },
+        { name: 'prod', variables: { host: 'api.example.com' } },
+      ],
+    }
+    await Bun.write(configPath, JSON.stringify(data))
+
+    const result = await loadConfig(configPath)
+
+    expect(result.environments).toEqual([
+      { name: 'dev', variables: { host: 'localhost:3000', port: '3000', debug: 'true' } },
+      { name: 'prod', variables: { host: 'api.example.com' } },
+    ])
+  })
+
+  test('skips nameless, duplicate and non-object environments and nested values', async () => {
+    const data = {
+      environments: [
+        42,
+        { variables: { host: 'x' } },
+        { name: 'dev', variables: { host: 'a', nested: { no: 'pe' } } },
+        { name: 'dev', variables: { host: 'b' } },
+      ],
+    }
+    await Bun.write(configPath, JSON.stringify(data))
+
+    const result = await loadConfig(configPath)
+
+    expect(result.environments).toEqual([{ name: 'dev', variables: { host: 'a' } }])
+    expect(warnSpy).toHaveBeenCalled()
+  })
+
+  test('reads the active environment from preferences', async () => {
+    await Bun.write(configPath, JSON.stringify({
+      preferences: { defaultResponseTab: 'raw', activeEnvironment: 'staging' },
+    }))
+
+    const result = await loadConfig(configPath)
+
+    expect(result.preferences).toEqual({ defaultResponseTab: 'raw', activeEnvironment: 'staging' })
+  })
+
+  test('keeps the active environment when defaultResponseTab is invalid', async () => {
+    await Bun.write(configPath, JSON.stringify({
+      preferences: { defaultResponseTab: 'bogus', activeEnvironment: 'dev' },
+    }))
+
+    const result = await loadConfig(configPath)
+
+    expect(result.preferences).toEqual({ defaultResponseTab: 'pretty', activeEnvironment: 'dev' })
+  })
+
+  test('TOML round-trip keeps the default server', async () => {
+    const tomlPath = join(tempDir, 'default-server.toml')
+    const preferences = { defaultResponseTab: 'pretty' as const, defaultServer: 'Pet Store' }
+
+    await saveConfig({ ...DEFAULT_CONFIG, preferences }, tomlPath)
+
+    expect((await loadConfig(tomlPath)).preferences).toEqual(preferences)
+  })
+
+  test('TOML round-trip', async () => {
+    const tomlPath = join(tempDir, 'environments.toml')
+    const data = {
+      ...DEFAULT_CONFIG,
+      environments: [{ name: 'staging', variables: { host: 'staging.example.com', token: 'abc' } }],
+      preferences: { defaultResponseTab: 'pretty' as const, activeEnvironment: 'staging' },
+    }
+
+    await saveConfig(data, tomlPath)
+    const written = await Bun.file(tomlPath).text()
+    const loaded = await loadConfig(tomlPath)
+
+    expect(written).toContain('[[environments]]')
+    expect(loaded.environments).toEqual(data.environments)
+    expect(loaded.preferences.activeEnvironment).toBe('staging')
+  })
+})
+
+describe('spec', () => {
+  test('TOML round-trip keeps the spec before the tables', async () => {
+    const tomlPath = join(tempDir, 'spec.toml')
+
+    await saveConfig({ ...DEFAULT_CONFIG, spec: './openapi.yaml' }, tomlPath)
+    const written = await Bun.file(tomlPath).text()
+
+    expect(written.startsWith('spec = "./openapi.yaml"')).toBe(true)
+    expect((await loadConfig(tomlPath)).spec).toBe('./openapi.yaml')
+  })
+})
+
+describe('findProjectConfig', () => {
+  test('finds the nearest config walking up from the working directory', async () => {
+    const nested = join(tempDir, 'repo', 'packages', 'api')
+    await mkdir(nested, { recursive: true })
+    await Bun.write(join(tempDir, '.superapi-tui.toml'), '')
+    await Bun.write(join(tempDir, 'repo', '.superapi-tui.json'), '{}')
+
+    expect(await findProjectConfig(nested)).toBe(join(tempDir, 'repo', '.superapi-tui.json'))
+    expect(await findProjectConfig(tempDir)).toBe(join(tempDir, '.superapi-tui.toml'))
+  })
+
+  test('skips the user config in the home directory', async () => {
+    const nested = join(tempDir, 'repo')
+    await mkdir(nested)
+    await Bun.write(join(tempDir, '.superapi-tui.toml'), '')
+
+    expect(await findProjectConfig(nested, tempDir)).toBeNull()
+  })
+})
+
+describe('loadConfigLayers', () => {
+  test('uses only the --config file, resolving its spec next to it', async () => {
+    const explicitPath = join(tempDir, 'team.toml')
+    await Bun.write(explicitPath, 'spec = "specs/api.yaml"\n\n[[servers]]\nname = "team"\nurl = "https://team.example.com"\n')
+    await Bun.write(join(tempDir, '.superapi-tui.toml'), '[[servers]]\nname = "project"\nurl = "https://project.example.com"\n')
+
+    const layers = await loadConfigLayers({ configPath: explicitPath, cwd: tempDir })
+
+    expect(layers.user.path).toBe(explicitPath)
+    expect(layers.project).toBeNull()
+    expect(layers.merged.servers.map(s => s.name)).toEqual(['team'])
+    expect(layers.merged.spec).toBe(join(tempDir, 'specs', 'api.yaml'))
+    expect(layers.user.data.spec).toBe('specs/api.yaml')
+  })
+
+  test('finds the project config from cwd and saves go to the user config', async () => {
+    await Bun.write(join(tempDir, '.superapi-tui.toml'), '[[servers]]\nname = "project"\nurl = "https://project.example.com"\n')
+
+    const layers = await loadConfigLayers({ cwd: tempDir })
+
+    expect(layers.user.path).toBe(getConfigPath())
+    expect(layers.project?.path).toBe(join(tempDir, '.superapi-tui.toml'))
+    expect(layers.merged.servers[0]!.name).toBe('project')
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'bun:test'
-import { matchServerAuth } from '@/config/match.js'
+import { matchSavedServer, matchServerAuth } from '@/config/match.js'
 import type { SavedServer } from '@/config/types.js'
 
 describe('matchServerAuth', () => {
@@ -10,47 +10,47 @@ describe('matchServerAuth', () => {
 
   test('returns auth for exact match', () => {
     const servers: readonly SavedServer[] = [
-      { name: 'prod', url: 'https://api.example.com', auth: { method: 'bearer', token: 'abc' } },
+      { name: 'prod', url: 'https://api.example.com', credentials: [{ name: 'default', auth: { method: 'bearer', token: 'abc' } }] },
     ]
 
     const result = matchServerAuth(servers, 'https://api.example.com')
 
-    expect(result).toEqual({ method: 'bearer', token: 'abc' })
+    expect(result?.auth).toEqual({ method: 'bearer', token: 'abc' })
   })
 
   test('matches despite trailing slash difference (saved has slash)', () => {
     const servers: readonly SavedServer[] = [
-      { name: 'prod', url: 'https://api.example.com/', auth: { method: 'bearer', token: 'abc' } },
+      { name: 'prod', url: 'https://api.example.com/', credentials: [{ name: 'default', auth: { method: 'bearer', token: 'abc' } }] },
     ]
 
     const result = matchServerAuth(servers, 'https://api.example.com')
 
-    expect(result).toEqual({ method: 'bearer', token: 'abc' })
+    expect(result?.auth).toEqual({ method: 'bearer', token: 'abc' })
   })
 
   test('matches despite trailing slash difference (spec has slash)', () => {
     const servers: readonly SavedServer[] = [
-      { name: 'prod', url: 'https://api.example.com', auth: { method: 'bearer', token: 'abc' } },
+      { name: 'prod', url: 'https://api.example.com', credentials: [{ name: 'default', auth: { method: 'bearer', token: 'abc' } }] },
     ]
 
     const result = matchServerAuth(servers, 'https://api.example.com/')
 
-    expect(result).toEqual({ method: 'bearer', token: 'abc' })
+    expect(result?.auth).toEqual({ method: 'bearer', token: 'abc' })
   })
 
   test('matches case-insensitively', () => {
     const servers: readonly SavedServer[] = [
-      { name: 'prod', url: 'https://API.Example.COM', auth: { method: 'basic', username: 'u', password: 'p' } },
+      { name: 'prod', url: 'https://API.Example.COM', credentials: [{ name: 'default', auth: { method: 'basic', username: 'u', password: 'p' } }] },
     ]
 
     const result = matchServerAuth(servers, 'https://api.example.com')
 
-    expect(result).toEqual({ method: 'basic', username: 'u', password: 'p' })
+    expect(result?.auth).toEqual({ method: 'basic', username: 'u', password: 'p' })
   })
 
   test('returns null when no match', () => {
     const servers: readonly SavedServer[] = [
-      { name: 'prod', url: 'https://api.example.com', auth: { method: 'bearer', token: 'abc' } },
+      { name: 'prod', url: 'https://api.example.com', credentials: [{ name: 'default', auth: { method: 'bearer', token: 'abc' } }] },
     ]
 
     const result = matchServerAuth(servers, 'https://other.example.com')
@@ -70,28 +70,28 @@ describe('matchServerAuth', () => {
 
   test('returns first matching server auth', () => {
     const servers: readonly SavedServer[] = [
-      { name: 'first', url: 'https://api.example.com', auth: { method: 'bearer', token: 'first-token' } },
-      { name: 'second', url: 'https://api.example.com', auth: { method: 'bearer', token: 'second-token' } },
+      { name: 'first', url: 'https://api.example.com', credentials: [{ name: 'default', auth: { method: 'bearer', token: 'first-token' } }] },
+      { name: 'second', url: 'https://api.example.com', credentials: [{ name: 'default', auth: { method: 'bearer', token: 'second-token' } }] },
     ]
 
     const result = matchServerAuth(servers, 'https://api.example.com')
 
-    expect(result).toEqual({ method: 'bearer', token: 'first-token' })
+    expect(result?.auth).toEqual({ method: 'bearer', token: 'first-token' })
   })
 
   test('handles multiple trailing slashes', () => {
     const servers: readonly SavedServer[] = [
-      { name: 'prod', url: 'https://api.example.com///', auth: { method: 'bearer', token: 'abc' } },
+      { name: 'prod', url: 'https://api.example.com///', credentials: [{ name: 'default', auth: { method: 'bearer', token: 'abc' } }] },
     ]
 
     const result = matchServerAuth(servers, 'https://api.example.com')
 
-    expect(result).toEqual({ method: 'bearer', token: 'abc' })
+    expect(result?.auth).toEqual({ method: 'bearer', token: 'abc' })
   })
 
   test('does not match different paths', () => {
     const servers: readonly SavedServer[] = [
-      { name: 'prod', url: 'https://api.example.com/v1', auth: { method: 'bearer', token: 'abc' } },
+      { name: 'prod', url: 'https://api.example.com/v1', credentials: [{ name: 'default', auth: { method: 'bearer', token: 'abc' } }] },
     ]
 
     const result = matchServerAuth(servers, 'https://api.example.com/v2')
@@ -101,12 +101,12 @@ describe('matchServerAuth', () => {
 
   test('returns apiKey auth for matching server', () => {
     const servers: readonly SavedServer[] = [
-      { name: 'prod', url: 'https://api.example.com', auth: { method: 'apiKey', key: 'secret', paramName: 'X-API-Key', location: 'header' } },
+      { name: 'prod', url: 'https://api.example.com', credentials: [{ name: 'default', auth: { method: 'apiKey', key: 'secret', paramName: 'X-API-Key', location: 'header' } }] },
     ]
 
     const result = matchServerAuth(servers, 'https://api.example.com')
 
-    expect(result).toEqual({ method: 'apiKey', key: 'secret', paramName: 'X-API-Key', location: 'header' })
+    expect(result?.auth).toEqual({ method: 'apiKey', key: 'secret', paramName: 'X-API-Key', location: 'header' })
   })
 
   test('skips servers without url field', () => {
@@ -125,13 +125,44 @@ describe('matchServerAuth', () => {
         name: 'full',
         swaggerEndpointUrl: 'https://api.example.com/docs',
         url: 'https://api.example.com',
-        auth: { method: 'bearer', token: 'abc' },
+        credentials: [{ name: 'default', auth: { method: 'bearer', token: 'abc' } }],
       },
     ]
 
     const result = matchServerAuth(servers, 'https://api.example.com')
 
-    expect(result).toEqual({ method: 'bearer', token: 'abc' })
+    expect(result?.auth).toEqual({ method: 'bearer', token: 'abc' })
+  })
+
+  test('returns the last used credential', () => {
+    const servers: readonly SavedServer[] = [
+      {
+        name: 'prod',
+        url: 'https://api.example.com',
+        credentials: [
+          { name: 'admin', auth: { method: 'bearer', token: 'admin-token' } },
+          { name: 'user', auth: { method: 'bearer', token: 'user-token' } },
+        ],
+        activeCredential: 'user',
+      },
+    ]
+
+    expect(matchServerAuth(servers, 'https://api.example.com')).toEqual(
+      { name: 'user', auth: { method: 'bearer', token: 'user-token' } },
+    )
+  })
+
+  test('falls back to the first credential when the last used one is gone', () => {
+    const servers: readonly SavedServer[] = [
+      {
+        name: 'prod',
+        url: 'https://api.example.com',
+        credentials: [{ name: 'admin', auth: { method: 'bearer', token: 'admin-token' } }],
+        activeCredential: 'user',
+      },
+    ]
+
+    expect(matchServerAuth(servers, 'https://api.example.com')?.name).toBe('admin')
   })
 
   test('does not match swaggerEndpointUrl — only matches url', () => {
@@ -140,7 +171,7 @@ describe('matchServerAuth', () => {
         name: 'full',
         swaggerEndpointUrl: 'https://api.example.com/docs',
         url: 'https://api.example.com',
-        auth: { method: 'bearer', token: 'abc' },
+        credentials: [{ name: 'default', auth: { method: 'bearer', token: 'abc' } }],
       },
     ]
 
@@ -149,3 +180,15 @@ describe('matchServerAuth', () => {
     expect(result).toBeNull()
   })
 })
+
+describe('matchSavedServer', () => {
+  test('returns the whole saved server for a normalized URL match', () => {
+    const servers: readonly SavedServer[] = [
+      { name: 'docs', swaggerEndpointUrl: 'https://api.example.com/docs' },
+      { name: 'prod', url: 'https://API.example.com/', cookieJar: true },
+    ]
+
+    expect(matchSavedServer(servers, 'https://api.example.com')).toBe(servers[1]!)
+    expect(matchSavedServer(servers, 'https://other.example.com')).toBeNull()
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, test, expect } from 'bun:test'
+import { mergeConfigLayers } from '@/config/merge.js'
+import type { ConfigData, ConfigLayer } from '@/config/types.js'
+import { DEFAULT_CONFIG } from '@/config/types.js'
+
+function layer(path: string, data: Partial<ConfigData>): ConfigLayer {
+  return { path, data: { ...DEFAULT_CONFIG, ...data } }
+}
+
+describe('mergeConfigLayers', () => {
+  test('returns the user config alone without a project', () => {
+    const user = layer('/home/me/.superapi-tui.toml', { servers: [{ name: 'mine', url: 'https://mine.example.com' }] })
+
+    expect(mergeConfigLayers(user, null)).toEqual(user.data)
+  })
+
+  test('lets the project describe servers and keeps only your credentials and jar setting', () => {
+    const user = layer('/home/me/.superapi-tui.toml', {
+      servers: [
+        { name: 'old name', url: 'https://api.example.com/', credentials: [{ name: 'admin', auth: { method: 'bearer', token: 'mine' } }], activeCredential: 'admin', cookieJar: true },
+        { name: 'personal', url: 'https://personal.example.com' },
+      ],
+    })
+    const project = layer('/repo/.superapi-tui.toml', {
+      servers: [
+        { name: 'Pets API', url: 'https://API.example.com', swaggerEndpointUrl: 'https://api.example.com/openapi.json', credentials: [{ name: 'ci', auth: { method: 'bearer', token: '${env:CI_TOKEN}' } }, { name: 'admin', auth: { method: 'bearer', token: 'placeholder' } }] },
+      ],
+    })
+
+    const merged = mergeConfigLayers(user, project)
+
+    expect(merged.servers).toEqual([
+      {
+        name: 'Pets API',
+        url: 'https://API.example.com',
+        swaggerEndpointUrl: 'https://api.example.com/openapi.json',
+        credentials: [{ name: 'admin', auth: { method: 'bearer', token: 'mine' } }],
+        activeCredential: 'admin',
+        cookieJar: true,
+      },
+      { name: 'personal', url: 'https://personal.example.com' },
+    ])
+  })
+
+  test('drops the credentials of servers only the project has', () => {
+    const user = layer('/home/me/.superapi-tui.toml', {})
+    const project = layer('/repo/.superapi-tui.toml', {
+      servers: [{
+        name: 'Exfil',
+        url: 'https://attacker.example.com',
+        credentials: [{ name: 'default', auth: { method: 'bearer', token: '${env:AWS_SECRET_ACCESS_KEY}' } }],
+        activeCredential: 'default',
+      }],
+    })
+
+    expect(mergeConfigLayers(user, project).servers).toEqual([{ name: 'Exfil', url: 'https://attacker.example.com' }])
+  })
+
+  test('fills project environments with your variables, project values first', () => {
+    const user = layer('/home/me/.superapi-tui.toml', {
+      environments: [{ name: 'dev', variables: { host: 'localhost', token: 'secret' } }],
+      preferences: { defaultResponseTab: 'raw', activeEnvironment: 'dev' },
+    })
+    const project = layer('/repo/.superapi-tui.toml', {
+      environments: [{ name: 'dev', variables: { host: 'dev.example.com' } }, { name: 'prod', variables: {} }],
+      preferences: { defaultResponseTab: 'headers' },
+    })
+
+    const merged = mergeConfigLayers(user, project)
+
+    expect(merged.environments).toEqual([
+      { name: 'dev', variables: { host: 'dev.example.com', token: 'secret' } },
+      { name: 'prod', variables: {} },
+    ])
+    expect(merged.preferences).toEqual({ defaultResponseTab: 'raw', activeEnvironment: 'dev' })
+  })
+
+  test('merges saved requests of the same collection, project requests winning', () => {
+    const request = { endpointId: 'get-/pets', params: {} }
+    const user = layer('/home/me/.superapi-tui.toml', {
+      collections: [{ name: 'default', spec: 'Pets', requests: [{ ...request, name: 'list', body: 'mine' }, { ...request, name: 'mine' }] }],
+    })
+    const project = layer('/repo/.superapi-tui.toml', {
+      collections: [{ name: 'default', spec: 'Pets', requests: [{ ...request, name: 'list' }] }],
+    })
+
+    expect(mergeConfigLayers(user, project).collections).toEqual([
+      { name: 'default', spec: 'Pets', requests: [{ ...request, name: 'list' }, { ...request, name: 'mine' }] },
+    ])
+  })
+
+  test('prefers the project spec and resolves file paths against their config file', () => {
+    const user = layer('/home/me/.superapi-tui.toml', { spec: 'specs/mine.yaml' })
+    const project = layer('/repo/.superapi-tui.toml', { spec: './openapi.yaml' })
+
+    expect(mergeConfigLayers(user, project).spec).toBe('/repo/openapi.yaml')
+    expect(mergeConfigLayers(user, layer('/repo/.superapi-tui.toml', {})).spec).toBe('/home/me/specs/mine.yaml')
+    expect(mergeConfigLayers(layer('/home/me/.superapi-tui.toml', { spec: 'https://api.example.com/openapi.json' }), null).spec)
+      .toBe('https://api.example.com/openapi.json')
+  })
+})
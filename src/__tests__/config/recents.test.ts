@@ -0,0 +1,105 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { mkdtemp, rm, stat } from 'node:fs/promises'
+import { addRecentSpec, loadRecentSpecs, recordRecentSpec } from '@/config/recents.js'
+import type { RecentSpec } from '@/config/types.js'
+
+function recent(input: string, openedAt = '2026-10-19T09:00:00.000Z'): RecentSpec {
+  return { input, title: 'Pets', version: '1.0.0', openedAt }
+}
+
+describe('addRecentSpec', () => {
+  test('puts the spec first and drops its older entry', () => {
+    const recents = [recent('/a.yaml'), recent('/b.yaml')]
+
+    const result = addRecentSpec(recents, recent('/b.yaml', '2026-10-19T10:00:00.000Z'))
+
+    expect(result).toEqual([recent('/b.yaml', '2026-10-19T10:00:00.000Z'), recent('/a.yaml')])
+  })
+
+  test('keeps at most the limit', () => {
+    const recents = [recent('/a.yaml'), recent('/b.yaml'), recent('/c.yaml')]
+
+    expect(addRecentSpec(recents, recent('/d.yaml'), 3).map(r => r.input)).toEqual(['/d.yaml', '/a.yaml', '/b.yaml'])
+  })
+})
+
+describe('recordRecentSpec', () => {
+  let tempDir: string
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'superapi-recents-'))
+  })
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  test('puts the spec first in the recents file', async () => {
+    const recentsPath = join(tempDir, 'recents.json')
+
+    await recordRecentSpec(recent('/a.yaml'), recentsPath)
+    await recordRecentSpec(recent('/b.yaml'), recentsPath)
+
+    expect((await loadRecentSpecs(recentsPath)).map(r => r.input)).toEqual(['/b.yaml', '/a.yaml'])
+    expect((await stat(recentsPath)).mode & 0o777).toBe(0o600)
+  })
+
+  test('leaves a hand-edited config byte for byte', async () => {
+    const configPath = join(tempDir, '.superapi-tui.toml')
+    const text = '# my servers\nnote = "keep me"\n\n[[servers]]\nurl = "https://unnamed.example.com"\n'
+    await Bun.write(configPath, text)
+    const recentsPath = join(tempDir, '.superapi-tui-recents.json')
+
+    await recordRecentSpec(recent('/b.yaml'), recentsPath)
+
+    expect(await Bun.file(configPath).text()).toBe(text)
+    expect((await loadRecentSpecs(recentsPath)).map(r => r.input)).toEqual(['/b.yaml'])
+  })
+})
+
+describe('loadRecentSpecs', () => {
+  let tempDir: string
+  let warnSpy: ReturnType<typeof spyOn>
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'superapi-recents-'))
+    warnSpy = spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    warnSpy.mockRestore()
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  test('returns nothing when there is no file', async () => {
+    expect(await loadRecentSpecs(join(tempDir, 'missing.json'))).toEqual([])
+  })
+
+  test('skips invalid and duplicate entries and caps the list', async () => {
+    const recentsPath = join(tempDir, 'recents.json')
+    const entries = Array.from({ length: 12 }, (_, i) => recent(`/repo/spec-${i}.yaml`))
+    await Bun.write(recentsPath, JSON.stringify([
+      { title: 'no input', openedAt: '2026-10-19T09:00:00.000Z' },
+      { input: '/repo/openapi.yaml', openedAt: '2026-10-19T09:00:00.000Z' },
+      recent('/repo/openapi.yaml'),
+      ...entries,
+    ]))
+
+    const result = await loadRecentSpecs(recentsPath)
+
+    expect(result).toHaveLength(10)
+    expect(result[0]).toEqual({ input: '/repo/openapi.yaml', title: '', version: '', openedAt: '2026-10-19T09:00:00.000Z' })
+    expect(result[1]!.input).toBe('/repo/spec-0.yaml')
+    expect(warnSpy).toHaveBeenCalled()
+  })
+
+  test('ignores a file that does not parse', async () => {
+    const recentsPath = join(tempDir, 'recents.json')
+    await Bun.write(recentsPath, '[{')
+
+    expect(await loadRecentSpecs(recentsPath)).toEqual([])
+    expect(warnSpy).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, test, expect } from 'bun:test'
+import { setDefaultServer, removeServer, renameServer, setServerUrls, clearServerAuth, moveServer } from '@/config/servers.js'
+import type { ConfigData } from '@/config/types.js'
+
+const config: ConfigData = {
+  servers: [
+    { name: 'Pet Store', swaggerEndpointUrl: 'https://petstore.example.com/v3/api-docs', url: 'https://petstore.example.com' },
+    {
+      name: 'Users API',
+      url: 'https://users.example.com',
+      credentials: [{ name: 'default', auth: { method: 'bearer', token: 'tok' } }],
+      activeCredential: 'default',
+      cookieJar: true,
+    },
+    { name: 'Orders', url: 'https://orders.example.com' },
+  ],
+  collections: [],
+  environments: [],
+  preferences: { defaultResponseTab: 'pretty', activeEnvironment: 'dev', defaultServer: 'Pet Store' },
+}
+
+const names = (data: ConfigData) => data.servers.map(s => s.name)
+
+describe('setDefaultServer', () => {
+  test('sets and clears the default, keeping the other preferences', () => {
+    const updated = setDefaultServer(config, 'Orders')
+    expect(updated.preferences).toEqual({ defaultResponseTab: 'pretty', activeEnvironment: 'dev', defaultServer: 'Orders' })
+    expect(setDefaultServer(updated, null).preferences).toEqual({ defaultResponseTab: 'pretty', activeEnvironment: 'dev' })
+  })
+})
+
+describe('removeServer', () => {
+  test('removes the server at the index', () => {
+    expect(names(removeServer(config, 1))).toEqual(['Pet Store', 'Orders'])
+  })
+
+  test('clears the default when the default server is removed', () => {
+    const updated = removeServer(config, 0)
+    expect(updated.preferences.defaultServer).toBeUndefined()
+    expect(removeServer(config, 2).preferences.defaultServer).toBe('Pet Store')
+  })
+})
+
+describe('renameServer', () => {
+  test('renames only the server at the index', () => {
+    expect(names(renameServer(config, 1, 'Accounts'))).toEqual(['Pet Store', 'Accounts', 'Orders'])
+  })
+
+  test('keeps the default server under its new name', () => {
+    expect(renameServer(config, 0, 'Pets').preferences.defaultServer).toBe('Pets')
+    expect(renameServer(config, 1, 'Accounts').preferences.defaultServer).toBe('Pet Store')
+  })
+})
+
+describe('setServerUrls', () => {
+  test('replaces both URLs', () => {
+    const updated = setServerUrls(config, 2, { url: 'https://orders.example.org', swaggerEndpointUrl: 'https://orders.example.org/openapi.json' })
+    expect(updated.servers[2]).toEqual({
+      name: 'Orders',
+      url: 'https://orders.example.org',
+      swaggerEndpointUrl: 'https://orders.example.org/openapi.json',
+    })
+  })
+
+  test('removes a URL that is left out', () => {
+    const updated = setServerUrls(config, 0, { swaggerEndpointUrl: 'https://petstore.example.com/v3/api-docs' })
+    expect(updated.servers[0]).toEqual({ name: 'Pet Store', swaggerEndpointUrl: 'https://petstore.example.com/v3/api-docs' })
+  })
+})
+
+describe('clearServerAuth', () => {
+  test('removes the credentials and the active credential only', () => {
+    expect(clearServerAuth(config, 1).servers[1]).toEqual({ name: 'Users API', url: 'https://users.example.com', cookieJar: true })
+  })
+})
+
+describe('moveServer', () => {
+  test('moves a server up or down', () => {
+    expect(names(moveServer(config, 2, -1))).toEqual(['Pet Store', 'Orders', 'Users API'])
+    expect(names(moveServer(config, 0, 1))).toEqual(['Users API', 'Pet Store', 'Orders'])
+  })
+
+  test('stops at either end', () => {
+    expect(moveServer(config, 0, -1)).toBe(config)
+    expect(moveServer(config, 2, 1)).toBe(config)
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test'
+import { join } from 'node:path'
+import { tmpdir, homedir } from 'node:os'
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises'
+import { loadCookieJars, saveCookieJars, getCookieJarPath } from '@/cookies/io.js'
+import type { StoredCookie } from '@/cookies/types.js'
+
+let tempDir: string
+let jarPath: string
+let warnSpy: ReturnType<typeof spyOn>
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'superapi-cookies-'))
+  jarPath = join(tempDir, 'cookies.json')
+  warnSpy = spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(async () => {
+  warnSpy.mockRestore()
+  await rm(tempDir, { recursive: true, force: true })
+})
+
+const session: StoredCookie = {
+  name: 'session',
+  value: 'abc',
+  domain: 'api.example.com',
+  hostOnly: true,
+  path: '/',
+  secure: true,
+  httpOnly: true,
+  expires: '2031-01-01T00:00:00.000Z',
+}
+
+describe('getCookieJarPath', () => {
+  test('lives next to the config file', () => {
+    expect(getCookieJarPath()).toBe(join(homedir(), '.superapi-tui-cookies.json'))
+  })
+})
+
+describe('cookie jar persistence', () => {
+  test('returns no jars when the file does not exist', async () => {
+    expect((await loadCookieJars(jarPath)).size).toBe(0)
+    expect(warnSpy).not.toHaveBeenCalled()
+  })
+
+  test('round-trips jars per server, leaving out empty ones', async () => {
+    await saveCookieJars(new Map([
+      ['https://api.example.com', [session]],
+      ['https://empty.example.com', []],
+    ]), jarPath)
+
+    const loaded = await loadCookieJars(jarPath)
+    expect([...loaded]).toEqual([['https://api.example.com', [session]]])
+    expect((await stat(jarPath)).mode & 0o777).toBe(0o600)
+    expect(await readFile(jarPath, 'utf-8')).not.toContain('empty.example.com')
+  })
+
+  test('skips invalid entries with a warning', async () => {
+    await writeFile(jarPath, JSON.stringify({
+      'https://api.example.com': [session, { name: 'broken' }, { ...session, expires: 'soon' }],
+      'https://other.example.com': 'nope',
+    }))
+
+    const loaded = await loadCookieJars(jarPath)
+    expect([...loaded]).toEqual([['https://api.example.com', [session]]])
+    expect(warnSpy).toHaveBeenCalledTimes(1)
+  })
+
+  test('ignores a file that is not JSON', async () => {
+    await writeFile(jarPath, 'not json')
+    expect((await loadCookieJars(jarPath)).size).toBe(0)
+    expect(warnSpy).toHaveBeenCalledTimes(1)
+  })
+})
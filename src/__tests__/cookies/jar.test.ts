@@ -0,0 +1,116 @@
+import { describe, test, expect } from 'bun:test'
+import { parseSetCookie, storeCookies, cookiesForUrl, withCookies } from '@/cookies/jar.js'
+import type { StoredCookie } from '@/cookies/types.js'
+import type { RequestOptions } from '@/types/index.js'
+
+const NOW = new Date('2026-05-01T12:00:00.000Z')
+const REQUEST_URL = new URL('https://api.example.com/v1/auth/login')
+
+function makeCookie(overrides: Partial<StoredCookie> = {}): StoredCookie {
+  return {
+    name: 'session',
+    value: 'abc',
+    domain: 'api.example.com',
+    hostOnly: true,
+    path: '/',
+    secure: false,
+    httpOnly: false,
+    ...overrides,
+  }
+}
+
+describe('parseSetCookie', () => {
+  test('reads the pair and attributes', () => {
+    const cookie = parseSetCookie('session=abc=; Path=/v1; Domain=.example.com; Secure; HttpOnly; Max-Age=60', REQUEST_URL, NOW)
+    expect(cookie).toEqual({
+      name: 'session',
+      value: 'abc=',
+      domain: 'example.com',
+      hostOnly: false,
+      path: '/v1',
+      secure: true,
+      httpOnly: true,
+      expires: '2026-05-01T12:01:00.000Z',
+    })
+  })
+
+  test('defaults to a host-only cookie on the request directory', () => {
+    expect(parseSetCookie('id=1', REQUEST_URL, NOW)).toEqual(makeCookie({ name: 'id', value: '1', path: '/v1/auth' }))
+  })
+
+  test('prefers Max-Age over Expires', () => {
+    const cookie = parseSetCookie('id=1; Expires=Wed, 01 Jan 2031 00:00:00 GMT; Max-Age=0', REQUEST_URL, NOW)
+    expect(cookie?.expires).toBe('1970-01-01T00:00:00.000Z')
+    expect(parseSetCookie('id=1; Expires=Wed, 01 Jan 2031 00:00:00 GMT', REQUEST_URL, NOW)?.expires)
+      .toBe('2031-01-01T00:00:00.000Z')
+  })
+
+  test('rejects malformed cookies and foreign domains', () => {
+    expect(parseSetCookie('novalue', REQUEST_URL, NOW)).toBeNull()
+    expect(parseSetCookie('=x', REQUEST_URL, NOW)).toBeNull()
+    expect(parseSetCookie('id=1; Domain=other.com', REQUEST_URL, NOW)).toBeNull()
+    expect(parseSetCookie('id=1; Domain=ample.com', REQUEST_URL, NOW)).toBeNull()
+  })
+})
+
+describe('storeCookies', () => {
+  test('replaces cookies with the same name, domain and path', () => {
+    const stored = storeCookies(
+      [makeCookie(), makeCookie({ name: 'theme', value: 'dark' })],
+      ['session=new; Path=/'],
+      REQUEST_URL.href,
+      NOW,
+    )
+    expect(stored.map(c => `${c.name}=${c.value}`)).toEqual(['theme=dark', 'session=new'])
+  })
+
+  test('drops cookies deleted by the response or already expired', () => {
+    const stored = storeCookies(
+      [makeCookie(), makeCookie({ name: 'old', expires: '2026-04-01T00:00:00.000Z' })],
+      ['session=; Path=/; Max-Age=0'],
+      REQUEST_URL.href,
+      NOW,
+    )
+    expect(stored).toEqual([])
+  })
+})
+
+describe('cookiesForUrl', () => {
+  const jar = [
+    makeCookie({ name: 'root' }),
+    makeCookie({ name: 'scoped', path: '/v1' }),
+    makeCookie({ name: 'shared', domain: 'example.com', hostOnly: false }),
+    makeCookie({ name: 'secure', secure: true }),
+    makeCookie({ name: 'expired', expires: '2026-04-01T00:00:00.000Z' }),
+  ]
+
+  test('matches domain, path, scheme and expiry, longest path first', () => {
+    expect(cookiesForUrl(jar, 'https://api.example.com/v1/pets', NOW).map(c => c.name))
+      .toEqual(['scoped', 'root', 'shared', 'secure'])
+    expect(cookiesForUrl(jar, 'http://localhost/v1', NOW)).toEqual([])
+  })
+
+  test('keeps host-only cookies off subdomains and paths off siblings', () => {
+    expect(cookiesForUrl(jar, 'https://eu.example.com/v1', NOW).map(c => c.name)).toEqual(['shared'])
+    expect(cookiesForUrl(jar, 'https://api.example.com/v10', NOW).map(c => c.name))
+      .toEqual(['root', 'shared', 'secure'])
+  })
+})
+
+describe('withCookies', () => {
+  const request: RequestOptions = {
+    method: 'get',
+    url: 'https://api.example.com/pets',
+    headers: new Map([['Cookie', 'session=typed']]),
+  }
+
+  test('adds jar cookies the request does not already send', () => {
+    const result = withCookies(request, [makeCookie(), makeCookie({ name: 'theme', value: 'dark' })])
+    expect(result.headers.get('Cookie')).toBe('theme=dark; session=typed')
+  })
+
+  test('creates the header when there is none', () => {
+    const result = withCookies({ ...request, headers: new Map() }, [makeCookie()])
+    expect(result.headers.get('Cookie')).toBe('session=abc')
+  })
+})
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from 'bun:test'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises'
+import { osc52Sequence, copyToClipboard, writeSnippetFile, isFileExistsError } from '@/export/clipboard.js'
+
+describe('osc52Sequence', () => {
+  test('wraps base64-encoded UTF-8 text', () => {
+    expect(osc52Sequence('héllo')).toBe(`\x1b]52;c;${Buffer.from('héllo').toString('base64')}\x07`)
+  })
+})
+
+describe('copyToClipboard', () => {
+  test('writes the OSC 52 sequence', () => {
+    const write = mock((_data: string) => {})
+    copyToClipboard('curl x', write)
+    expect(write).toHaveBeenCalledWith(osc52Sequence('curl x'))
+  })
+})
+
+describe('writeSnippetFile', () => {
+  let tempDir: string
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'superapi-export-'))
+  })
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  test('writes the snippet with a trailing newline and returns the path', async () => {
+    const path = join(tempDir, 'request.sh')
+    const written = await writeSnippetFile(path, 'curl x')
+
+    expect(written).toBe(path)
+    expect(await readFile(path, 'utf-8')).toBe('curl x\n')
+  })
+
+  test('keeps an existing file unless told to overwrite it', async () => {
+    const path = join(tempDir, 'main.go')
+    await writeFile(path, 'package main\n', { mode: 0o644 })
+
+    const error = await writeSnippetFile(path, 'curl x').catch((err: unknown) => err)
+    expect(isFileExistsError(error)).toBe(true)
+    expect(await readFile(path, 'utf-8')).toBe('package main\n')
+
+    await writeSnippetFile(path, 'curl x', true)
+    expect(await readFile(path, 'utf-8')).toBe('curl x\n')
+    expect((await stat(path)).mode & 0o777).toBe(0o600)
+  })
+
+  test('creates the file readable only by you', async () => {
+    const path = join(tempDir, 'request.sh')
+    await writeSnippetFile(path, 'curl x')
+
+    expect((await stat(path)).mode & 0o777).toBe(0o600)
+  })
+
+  test('rejects when the directory does not exist', async () => {
+    await expect(writeSnippetFile(join(tempDir, 'missing', 'a.sh'), 'x')).rejects.toThrow()
+  })
+})
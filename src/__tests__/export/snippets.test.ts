@@ -0,0 +1,150 @@
+import { describe, expect, test } from 'bun:test'
+import { renderSnippet, SNIPPET_FORMATS } from '@/export/snippets.js'
+import type { RequestOptions } from '@/types/index.js'
+
+const postRequest: RequestOptions = {
+  method: 'post',
+  url: 'https://api.example.com/pets?tag=dog',
+  headers: new Map([
+    ['Authorization', 'Bearer secret'],
+    ['Content-Type', 'application/json'],
+  ]),
+  body: '{"name":"Rex\'s \\"pal\\""}',
+}
+
+const getRequest: RequestOptions = {
+  method: 'get',
+  url: 'https://api.example.com/pets',
+  headers: new Map(),
+}
+
+const uploadRequest: RequestOptions = {
+  method: 'post',
+  url: 'https://api.example.com/upload',
+  headers: new Map(),
+  multipart: [
+    { kind: 'field', name: 'title', value: 'Q3; final' },
+    { kind: 'file', name: 'file', path: './reports/q3.pdf' },
+  ],
+}
+
+describe('renderSnippet', () => {
+  test('curl quotes for the shell and includes headers and body', () => {
+    expect(renderSnippet('curl', postRequest)).toBe([
+      `curl -X POST 'https://api.example.com/pets?tag=dog' \\`,
+      `  -H 'Authorization: Bearer secret' \\`,
+      `  -H 'Content-Type: application/json' \\`,
+      `  --data-raw '{"name":"Rex'\\''s \\"pal\\""}'`,
+    ].join('\n'))
+  })
+
+  test('curl omits -X for a plain GET', () => {
+    expect(renderSnippet('curl', getRequest)).toBe(`curl 'https://api.example.com/pets'`)
+  })
+
+  test('HTTPie passes headers as name:value items and the body raw', () => {
+    expect(renderSnippet('httpie', postRequest)).toBe([
+      `http POST 'https://api.example.com/pets?tag=dog' \\`,
+      `  'Authorization:Bearer secret' \\`,
+      `  'Content-Type:application/json' \\`,
+      `  --raw '{"name":"Rex'\\''s \\"pal\\""}'`,
+    ].join('\n'))
+  })
+
+  test('fetch', () => {
+    expect(renderSnippet('fetch', postRequest)).toBe([
+      'const response = await fetch("https://api.example.com/pets?tag=dog", {',
+      '  method: "POST",',
+      '  headers: {',
+      '    "Authorization": "Bearer secret",',
+      '    "Content-Type": "application/json",',
+      '  },',
+      '  body: "{\\"name\\":\\"Rex\'s \\\\\\"pal\\\\\\"\\"}",',
+      '})',
+      '',
+      'console.log(response.status, await response.text())',
+    ].join('\n'))
+  })
+
+  test('fetch without headers or body', () => {
+    expect(renderSnippet('fetch', getRequest)).toBe([
+      'const response = await fetch("https://api.example.com/pets", {',
+      '  method: "GET",',
+      '})',
+      '',
+      'console.log(response.status, await response.text())',
+    ].join('\n'))
+  })
+
+  test('Python requests', () => {
+    const snippet = renderSnippet('python', postRequest)
+    expect(snippet).toStartWith('import requests\n\nresponse = requests.request(\n    "POST",\n')
+    expect(snippet).toContain('    headers={\n        "Authorization": "Bearer secret",\n')
+    expect(snippet).toContain(`    data=${JSON.stringify(postRequest.body)},\n)`)
+  })
+
+  test('Go net/http only imports strings when there is a body', () => {
+    const withBody = renderSnippet('go', postRequest)
+    expect(withBody).toContain('\t"strings"\n')
+    expect(withBody).toContain(`\tbody := strings.NewReader(${JSON.stringify(postRequest.body)})`)
+    expect(withBody).toContain('http.NewRequest("POST", "https://api.example.com/pets?tag=dog", body)')
+    expect(withBody).toContain('\treq.Header.Set("Authorization", "Bearer secret")')
+
+    const withoutBody = renderSnippet('go', getRequest)
+    expect(withoutBody).not.toContain('strings')
+    expect(withoutBody).toContain('http.NewRequest("GET", "https://api.example.com/pets", nil)')
+  })
+
+  test('every listed format renders', () => {
+    for (const { format } of SNIPPET_FORMATS) {
+      expect(renderSnippet(format, getRequest)).toContain('https://api.example.com/pets')
+    }
+  })
+
+  test('multipart bodies', () => {
+    expect(renderSnippet('curl', uploadRequest)).toBe([
+      `curl -X POST 'https://api.example.com/upload' \\`,
+      `  --form-string 'title=Q3; final' \\`,
+      `  -F 'file=@./reports/q3.pdf'`,
+    ].join('\n'))
+
+    expect(renderSnippet('httpie', uploadRequest)).toBe([
+      `http --multipart POST 'https://api.example.com/upload' \\`,
+      `  'title=Q3; final' \\`,
+      `  'file@./reports/q3.pdf'`,
+    ].join('\n'))
+
+    const fetchSnippet = renderSnippet('fetch', uploadRequest)
+    expect(fetchSnippet).toStartWith("import { openAsBlob } from 'node:fs'\n\nconst form = new FormData()\n")
+    expect(fetchSnippet).toContain('form.append("file", await openAsBlob("./reports/q3.pdf"), "q3.pdf")')
+    expect(fetchSnippet).toContain('  body: form,\n})')
+
+    const python = renderSnippet('python', uploadRequest)
+    expect(python).toContain('        ("title", (None, "Q3; final")),\n')
+    expect(python).toContain('        ("file", open("./reports/q3.pdf", "rb")),\n')
+
+    const go = renderSnippet('go', uploadRequest)
+    expect(go).toContain('\t"mime/multipart"\n')
+    expect(go).toContain('\tif err := form.WriteField("title", "Q3; final"); err != nil {')
+    expect(go).toContain('\taddFile("file", "./reports/q3.pdf")')
+    expect(go).toContain('\treq.Header.Set("Content-Type", form.FormDataContentType())')
+  })
+
+  test('file bodies', () => {
+    const fileRequest: RequestOptions = {
+      method: 'put',
+      url: 'https://api.example.com/photo',
+      headers: new Map([['Content-Type', 'image/png']]),
+      bodyFile: './photo.png',
+    }
+
+    expect(renderSnippet('curl', fileRequest)).toContain(`--data-binary '@./photo.png'`)
+    expect(renderSnippet('httpie', fileRequest)).toContain(`  '@./photo.png'`)
+    expect(renderSnippet('fetch', fileRequest)).toContain('  body: await openAsBlob("./photo.png"),')
+    expect(renderSnippet('python', fileRequest)).toContain('    data=open("./photo.png", "rb"),')
+    const go = renderSnippet('go', fileRequest)
+    expect(go).toContain('\t"os"\n')
+    expect(go).toContain('\tbody, err := os.Open("./photo.png")')
+    expect(go).toContain('http.NewRequest("PUT", "https://api.example.com/photo", body)')
+  })
+})
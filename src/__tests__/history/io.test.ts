@@ -0,0 +1,103 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test'
+import { join } from 'node:path'
+import { tmpdir, homedir } from 'node:os'
+import { mkdtemp, rm, stat } from 'node:fs/promises'
+import { loadHistory, appendHistory, getHistoryPath } from '@/history/io.js'
+import { MAX_HISTORY_ENTRIES } from '@/history/types.js'
+import type { HistoryEntry } from '@/history/types.js'
+
+let tempDir: string
+let historyPath: string
+let warnSpy: ReturnType<typeof spyOn>
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'superapi-history-'))
+  historyPath = join(tempDir, 'history.jsonl')
+  warnSpy = spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(async () => {
+  warnSpy.mockRestore()
+  await rm(tempDir, { recursive: true, force: true })
+})
+
+function makeEntry(overrides: Partial<HistoryEntry> = {}): HistoryEntry {
+  return {
+    id: 'entry-1',
+    timestamp: '2026-01-02T03:04:05.000Z',
+    endpointId: 'get-/pets',
+    method: 'get',
+    path: '/pets',
+    serverUrl: 'https://api.example.com',
+    url: 'https://api.example.com/pets?limit=5',
+    headers: { Authorization: '[REDACTED]' },
+    params: { 'query:limit': '5' },
+    status: 200,
+    statusText: 'OK',
+    durationMs: 12,
+    ...overrides,
+  }
+}
+
+describe('getHistoryPath', () => {
+  test('lives next to the config file', () => {
+    expect(getHistoryPath()).toBe(join(homedir(), '.superapi-tui-history.jsonl'))
+  })
+})
+
+describe('loadHistory', () => {
+  test('returns an empty list when the file does not exist', async () => {
+    expect(await loadHistory(historyPath)).toEqual([])
+    expect(warnSpy).not.toHaveBeenCalled()
+  })
+
+  test('round-trips appended entries in order', async () => {
+    await appendHistory(makeEntry({ id: 'a' }), historyPath)
+    await appendHistory(makeEntry({ id: 'b', status: undefined, error: 'timeout', body: '{}' }), historyPath)
+
+    const entries = await loadHistory(historyPath)
+
+    expect(entries.map(e => e.id)).toEqual(['a', 'b'])
+    expect(entries[1]!.error).toBe('timeout')
+    expect(entries[1]!.body).toBe('{}')
+    expect(entries[1]!.status).toBeUndefined()
+  })
+
+  test('creates the file with 0600 permissions', async () => {
+    await appendHistory(makeEntry(), historyPath)
+    const info = await stat(historyPath)
+    expect(info.mode & 0o777).toBe(0o600)
+  })
+
+  test('skips malformed lines with a warning', async () => {
+    await Bun.write(
+      historyPath,
+      [
+        JSON.stringify(makeEntry({ id: 'good' })),
+        '{not json',
+        JSON.stringify({ id: 'missing-fields' }),
+        JSON.stringify(makeEntry({ id: 'bad-method', method: 'fetch' as HistoryEntry['method'] })),
+        '',
+      ].join('\n'),
+    )
+
+    const entries = await loadHistory(historyPath)
+
+    expect(entries.map(e => e.id)).toEqual(['good'])
+    expect(warnSpy).toHaveBeenCalledTimes(1)
+  })
+
+  test('keeps only the newest entries and compacts the file', async () => {
+    const lines = Array.from({ length: MAX_HISTORY_ENTRIES + 3 }, (_, i) =>
+      JSON.stringify(makeEntry({ id: `e${i}` })),
+    )
+    await Bun.write(historyPath, lines.join('\n') + '\n')
+
+    const entries = await loadHistory(historyPath)
+
+    expect(entries).toHaveLength(MAX_HISTORY_ENTRIES)
+    expect(entries[0]!.id).toBe('e3')
+    const rewritten = (await Bun.file(historyPath).text()).trim().split('\n')
+    expect(rewritten).toHaveLength(MAX_HISTORY_ENTRIES)
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, test, expect } from 'bun:test'
+import { createHistoryEntry, redactHeaders, redactUrl, replayHeaders } from '@/history/redact.js'
+import { REDACTED } from '@/history/types.js'
+import type { Endpoint, RequestOptions } from '@/types/index.js'
+
+const endpoint: Endpoint = {
+  id: 'post-/pets',
+  method: 'post',
+  path: '/pets',
+  tags: [],
+  deprecated: false,
+  parameters: [],
+  responses: [],
+}
+
+describe('redactHeaders', () => {
+  test('replaces well-known credential headers case-insensitively', () => {
+    const result = redactHeaders(new Map([
+      ['Authorization', 'Bearer abc'],
+      ['cookie', 'session=1'],
+      ['Accept', 'application/json'],
+    ]))
+
+    expect(result).toEqual({
+      Authorization: REDACTED,
+      cookie: REDACTED,
+      Accept: 'application/json',
+    })
+  })
+})
+
+describe('redactUrl', () => {
+  test('replaces only the named query values and keeps the rest verbatim', () => {
+    expect(redactUrl('https://x.io/a?q=a%20b&api_key=secret&n=1', new Set(['api_key'])))
+      .toBe(`https://x.io/a?q=a%20b&api_key=${REDACTED}&n=1`)
+  })
+
+  test('leaves URLs without a query untouched', () => {
+    expect(redactUrl('https://x.io/a', new Set(['api_key']))).toBe('https://x.io/a')
+  })
+})
+
+describe('createHistoryEntry', () => {
+  const request: RequestOptions = {
+    method: 'post',
+    url: 'https://api.example.com/pets?token=s3cret&dryRun=true',
+    headers: new Map([
+      ['Content-Type', 'application/json'],
+      ['X-Custom-Key', 'hunter2'],
+    ]),
+    body: '{"name":"Rex"}',
+  }
+
+  test('redacts the apiKey credential wherever it was sent', () => {
+    const entry = createHistoryEntry({
+      endpoint,
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map([['query:token', 's3cret'], ['query:dryRun', 'true']]),
+      request,
+      credentials: { method: 'apiKey', key: 's3cret', paramName: 'token', location: 'query' },
+      timestamp: new Date('2026-01-02T03:04:05.000Z'),
+    })
+
+    expect(entry.url).toBe(`https://api.example.com/pets?token=${REDACTED}&dryRun=true`)
+    expect(entry.params).toEqual({ 'query:token': REDACTED, 'query:dryRun': 'true' })
+    expect(entry.headers['X-Custom-Key']).toBe('hunter2')
+    expect(entry.timestamp).toBe('2026-01-02T03:04:05.000Z')
+  })
+
+  test('redacts a cookie param carrying the apiKey cookie', () => {
+    const entry = createHistoryEntry({
+      endpoint,
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map([['cookie:session', 's3cret'], ['cookie:theme', 'dark']]),
+      request: { ...request, headers: new Map([['Cookie', 'theme=dark; session=s3cret']]) },
+      credentials: { method: 'apiKey', key: 's3cret', paramName: 'session', location: 'cookie' },
+    })
+
+    expect(entry.params).toEqual({ 'cookie:session': REDACTED, 'cookie:theme': 'dark' })
+    expect(entry.headers['Cookie']).toBe(REDACTED)
+  })
+
+  test('redacts an apiKey sent as a custom header', () => {
+    const entry = createHistoryEntry({
+      endpoint,
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map(),
+      request,
+      credentials: { method: 'apiKey', key: 'hunter2', paramName: 'X-Custom-Key', location: 'header' },
+    })
+
+    expect(entry.headers['X-Custom-Key']).toBe(REDACTED)
+  })
+
+  test('redacts every credential of a scheme combination', () => {
+    const entry = createHistoryEntry({
+      endpoint,
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map([['query:token', 's3cret']]),
+      request,
+      credentials: [
+        { method: 'apiKey', key: 's3cret', paramName: 'token', location: 'query' },
+        { method: 'apiKey', key: 'hunter2', paramName: 'X-Custom-Key', location: 'header' },
+      ],
+    })
+
+    expect(entry.url).toBe(`https://api.example.com/pets?token=${REDACTED}&dryRun=true`)
+    expect(entry.headers['X-Custom-Key']).toBe(REDACTED)
+  })
+
+  test('records the response summary, body and endpoint', () => {
+    const entry = createHistoryEntry({
+      endpoint,
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map(),
+      request,
+      credentials: { method: 'none' },
+      response: { status: 201, statusText: 'Created', headers: new Map(), body: '', durationMs: 42 },
+    })
+
+    expect(entry.endpointId).toBe('post-/pets')
+    expect(entry.method).toBe('post')
+    expect(entry.path).toBe('/pets')
+    expect(entry.body).toBe('{"name":"Rex"}')
+    expect(entry.status).toBe(201)
+    expect(entry.durationMs).toBe(42)
+    expect(entry.error).toBeUndefined()
+    expect(entry.id.length).toBeGreaterThan(0)
+  })
+})
+
+describe('replayHeaders', () => {
+  test('keeps custom headers and drops redacted, declared and rebuilt ones', () => {
+    const withHeaderParam: Endpoint = {
+      ...endpoint,
+      parameters: [{ name: 'X-Request-Id', location: 'header', required: false, deprecated: false }],
+    }
+    const entry = createHistoryEntry({
+      endpoint: withHeaderParam,
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map([['header:X-Request-Id', 'r-1']]),
+      request: {
+        method: 'post',
+        url: 'https://api.example.com/pets',
+        headers: new Map([
+          ['X-Request-Id', 'r-1'],
+          ['X-Trace', 'abc'],
+          ['Authorization', 'Bearer s3cret'],
+          ['Cookie', 'session=s3cret'],
+          ['Content-Type', 'application/json'],
+        ]),
+        body: '{}',
+      },
+      credentials: { method: 'bearer', token: 's3cret' },
+    })
+
+    expect(replayHeaders(entry, withHeaderParam)).toEqual({ 'X-Trace': 'abc' })
+  })
+})
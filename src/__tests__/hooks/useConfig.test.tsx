@@ -1,4 +1,4 @@
-import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test'
+import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from 'bun:test'
 import { render } from 'ink-testing-library'
 import { Box, Text } from 'ink'
 import { useEffect, useRef } from 'react'
@@ -6,8 +6,10 @@ import { join } from 'node:path'
 import { tmpdir } from 'node:os'
 import { mkdtemp, rm } from 'node:fs/promises'
 import { useConfig } from '@/hooks/useConfig.js'
-import { loadConfig, saveConfig, matchServerAuth } from '@/config/index.js'
-import type { ConfigData, SavedServer } from '@/config/index.js'
+import type { ConfigState } from '@/hooks/useConfig.js'
+import * as configModule from '@/config/index.js'
+import { loadConfig, saveConfig, matchServerAuth, mergeConfigLayers, DEFAULT_CONFIG } from '@/config/index.js'
+import type { ConfigData, ConfigLayer, SavedServer } from '@/config/index.js'
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
 
@@ -21,6 +23,7 @@ beforeEach(async () => {
 
 afterEach(async () => {
   warnSpy.mockRestore()
+  mock.restore()
   await rm(tempDir, { recursive: true, force: true })
 })
 
@@ -108,6 +111,30 @@ describe('useConfig', () => {
 
     expect(hasFindAuth).toBe(true)
   })
+
+  test('exposes saved request collections, environments, cookie jar, server variables, credentials and callbacks', async () => {
+    let exposed = false
+
+    function CallbackHarness() {
+      const state = useConfig()
+      exposed = Array.isArray(state.collections)
+        && typeof state.saveRequest === 'function'
+        && typeof state.deleteSavedRequest === 'function'
+        && Array.isArray(state.environments)
+        && typeof state.setActiveEnvironment === 'function'
+        && typeof state.hasCookieJar === 'function'
+        && typeof state.setCookieJar === 'function'
+        && typeof state.findServerVariables === 'function'
+        && typeof state.findCredentialsForServer === 'function'
+        && typeof state.selectCredential === 'function'
+      return <Text>ok</Text>
+    }
+
+    render(<CallbackHarness />)
+    await delay(50)
+
+    expect(exposed).toBe(true)
+  })
 })
 
 // Test saveServerAuth upsert logic directly through the config module
@@ -116,7 +143,9 @@ describe('config save + match integration', () => {
   test('save then load round-trip', async () => {
     const configPath = join(tempDir, 'roundtrip.toml')
     const data: ConfigData = {
-      servers: [{ name: 'prod', url: 'https://prod.api.com', auth: { method: 'bearer', token: 'xyz' } }],
+      servers: [{ name: 'prod', url: 'https://prod.api.com', credentials: [{ name: 'default', auth: { method: 'bearer', token: 'xyz' } }] }],
+      collections: [],
+      environments: [],
       preferences: { defaultResponseTab: 'raw' },
     }
 
@@ -133,7 +162,9 @@ describe('config save + match integration', () => {
 
     // Save initial
     const initial: ConfigData = {
-      servers: [{ name: 'first', url: 'https://api.com', auth: { method: 'bearer', token: 'first' } }],
+      servers: [{ name: 'first', url: 'https://api.com', credentials: [{ name: 'default', auth: { method: 'bearer', token: 'first' } }] }],
+      collections: [],
+      environments: [],
       preferences: { defaultResponseTab: 'pretty' },
     }
     await saveConfig(initial, configPath)
@@ -147,16 +178,14 @@ describe('config save + match integration', () => {
     expect(existingIndex).toBe(0)
 
     const updatedServers = [...loaded.servers]
-    updatedServers[existingIndex] = { name: 'updated', url: 'https://api.com', auth: { method: 'bearer', token: 'second' } }
+    updatedServers[existingIndex] = { name: 'updated', url: 'https://api.com', credentials: [{ name: 'default', auth: { method: 'bearer', token: 'second' } }] }
     const updated: ConfigData = { ...loaded, servers: updatedServers }
     await saveConfig(updated, configPath)
 
     const final = await loadConfig(configPath)
     expect(final.servers).toHaveLength(1)
     expect(final.servers[0]!.name).toBe('updated')
-    if (final.servers[0]!.auth?.method === 'bearer') {
-      expect(final.servers[0]!.auth.token).toBe('second')
-    }
+    expect(final.servers[0]!.credentials?.[0]?.auth).toEqual({ method: 'bearer', token: 'second' })
   })
 
   test('save with swaggerEndpointUrl round-trip', async () => {
@@ -166,8 +195,10 @@ describe('config save + match integration', () => {
         name: 'api',
         swaggerEndpointUrl: 'https://api.com/swagger.json',
         url: 'https://api.com',
-        auth: { method: 'bearer', token: 'tok' },
+        credentials: [{ name: 'default', auth: { method: 'bearer', token: 'tok' } }],
       }],
+      collections: [],
+      environments: [],
       preferences: { defaultResponseTab: 'pretty' },
     }
 
@@ -180,11 +211,123 @@ describe('config save + match integration', () => {
 
   test('matchServerAuth finds saved auth after save', async () => {
     const servers: readonly SavedServer[] = [
-      { name: 'prod', url: 'https://api.example.com/', auth: { method: 'bearer', token: 'tok123' } },
+      { name: 'prod', url: 'https://api.example.com/', credentials: [{ name: 'default', auth: { method: 'bearer', token: 'tok123' } }] },
     ]
 
     // Simulate what findAuthForServer does
     const result = matchServerAuth(servers, 'https://api.example.com')
-    expect(result).toEqual({ method: 'bearer', token: 'tok123' })
+    expect(result?.auth).toEqual({ method: 'bearer', token: 'tok123' })
+  })
+})
+
+describe('useConfig with a project config', () => {
+  function LayersHarness({ configPath, onState }: { readonly configPath?: string; readonly onState: (state: ConfigState) => void }) {
+    const state = useConfig({ configPath })
+    onState(state)
+    return <Text>servers:{state.config?.servers.map(s => s.name).join(',')}</Text>
+  }
+
+  // The latest state of this render only, whatever earlier tests' harnesses do
+  function renderLayers(configPath?: string) {
+    const latest: { current: ConfigState | null } = { current: null }
+    const result = render(<LayersHarness configPath={configPath} onState={(state) => { latest.current = state }} />)
+    return { ...result, state: () => latest.current! }
+  }
+
+  // Stands in for the user config in the home directory and a committed project config
+  async function setUpLayers(): Promise<{ user: ConfigLayer; project: ConfigLayer }> {
+    const user: ConfigLayer = {
+      path: join(tempDir, 'home.toml'),
+      data: { ...DEFAULT_CONFIG, servers: [{ name: 'personal', url: 'https://personal.example.com' }] },
+    }
+    const project: ConfigLayer = {
+      path: join(tempDir, 'project.toml'),
+      data: { ...DEFAULT_CONFIG, servers: [{ name: 'Pets', url: 'https://pets.example.com', credentials: [{ name: 'ci', auth: { method: 'bearer', token: '${env:CI_TOKEN}' } }] }] },
+    }
+    await saveConfig(project.data, project.path)
+    spyOn(configModule, 'loadConfigLayers').mockResolvedValue({ user, project, merged: mergeConfigLayers(user, project) })
+    return { user, project }
+  }
+
+  test('saves to the user config, keeping the project config as committed', async () => {
+    const { user, project } = await setUpLayers()
+    const projectText = await Bun.file(project.path).text()
+    const { lastFrame, state } = renderLayers()
+    await delay(50)
+    expect(lastFrame()).toContain('servers:Pets,personal')
+    expect(state().savePath).toBe(user.path)
+    expect(state().projectPath).toBe(project.path)
+
+    await state().saveServerAuth('Pets', 'https://pets.example.com', { method: 'bearer', token: 'mine' }, undefined, undefined, 'me')
+    await delay(50)
+
+    expect(await Bun.file(project.path).text()).toBe(projectText)
+    const saved = await loadConfig(user.path)
+    expect(saved.servers.map(s => s.name)).toEqual(['personal', 'Pets'])
+    // The project's own credential is ignored
+    expect(state().findCredentialsForServer('https://pets.example.com').map(c => c.name)).toEqual(['me'])
+    expect(state().findAuthForServer('https://pets.example.com')?.name).toBe('me')
+  })
+
+  test('remembers choices for project servers in the user config', async () => {
+    const { user } = await setUpLayers()
+    const { state } = renderLayers()
+    await delay(50)
+
+    expect(await state().selectCredential('https://pets.example.com', 'ci')).toBe(false)
+    expect(await state().setCookieJar('https://pets.example.com', true)).toBe(true)
+
+    const saved = await loadConfig(user.path)
+    expect(saved.servers[1]).toEqual({ name: 'Pets', url: 'https://pets.example.com', cookieJar: true })
+    expect(state().hasCookieJar('https://pets.example.com')).toBe(true)
+  })
+
+  test('refuses to delete saved requests that come from the project config', async () => {
+    const user: ConfigLayer = { path: join(tempDir, 'home.toml'), data: DEFAULT_CONFIG }
+    const project: ConfigLayer = {
+      path: join(tempDir, 'project.toml'),
+      data: { ...DEFAULT_CONFIG, collections: [{ name: 'default', spec: 'Pets', requests: [{ name: 'list', endpointId: 'get-/pets', params: {} }] }] },
+    }
+    spyOn(configModule, 'loadConfigLayers').mockResolvedValue({ user, project, merged: mergeConfigLayers(user, project) })
+    const { state } = renderLayers()
+    await delay(50)
+
+    expect(await state().deleteSavedRequest('Pets', 'default', 'list')).toBe(false)
+    expect(state().collections[0]!.requests).toHaveLength(1)
+  })
+
+  test('reads and writes only the --config file', async () => {
+    const configPath = join(tempDir, 'explicit.toml')
+    await saveConfig({ ...DEFAULT_CONFIG, servers: [{ name: 'explicit', url: 'https://explicit.example.com' }] }, configPath)
+    const { lastFrame, state } = renderLayers(configPath)
+    await delay(50)
+    expect(lastFrame()).toContain('servers:explicit')
+
+    await state().setActiveEnvironment('dev')
+
+    expect(state().savePath).toBe(configPath)
+    expect((await loadConfig(configPath)).preferences.activeEnvironment).toBe('dev')
+  })
+
+  test('does not save over a config that failed to load', async () => {
+    const configPath = join(tempDir, 'broken.toml')
+    const broken = 'servers = [ {'
+    await Bun.write(configPath, broken)
+    const { state } = renderLayers(configPath)
+    await delay(50)
+
+    expect(await state().setActiveEnvironment('dev')).toBe(false)
+    expect(await Bun.file(configPath).text()).toBe(broken)
+  })
+
+  test('keeps the default server when switching environments', async () => {
+    const configPath = join(tempDir, 'default-server.toml')
+    await saveConfig({ ...DEFAULT_CONFIG, preferences: { defaultResponseTab: 'pretty', defaultServer: 'explicit' } }, configPath)
+    const { state } = renderLayers(configPath)
+    await delay(50)
+
+    await state().setActiveEnvironment('dev')
+
+    expect((await loadConfig(configPath)).preferences).toEqual({ defaultResponseTab: 'pretty', defaultServer: 'explicit', activeEnvironment: 'dev' })
   })
 })
@@ -321,4 +321,121 @@ describe('useNavigation', () => {
       expect(lastFrame()).toContain('fullscreen:endpoints')
     })
   })
+
+  describe('history overlay', () => {
+    function HistoryHarness() {
+      const nav = useNavigation()
+
+      useInput((input) => {
+        if (input === 'x') nav.closeHistory()
+      }, { isActive: nav.showHistory })
+
+      return (
+        <Box flexDirection="column">
+          <Text>panel:{nav.focusedPanel}</Text>
+          <Text>history:{String(nav.showHistory)}</Text>
+        </Box>
+      )
+    }
+
+    it('H opens history and suppresses global keys until closed', async () => {
+      const { lastFrame, stdin } = render(<HistoryHarness />)
+      expect(lastFrame()).toContain('history:false')
+
+      stdin.write('H')
+      await delay(50)
+      expect(lastFrame()).toContain('history:true')
+
+      // Tab should NOT cycle panels while history is open
+      stdin.write('\t')
+      await delay(50)
+      expect(lastFrame()).toContain('panel:endpoints')
+
+      stdin.write('x')
+      await delay(50)
+      expect(lastFrame()).toContain('history:false')
+
+      stdin.write('\t')
+      await delay(50)
+      expect(lastFrame()).toContain('panel:detail')
+    })
+  })
+
+  describe('export overlay', () => {
+    function ExportHarness() {
+      const nav = useNavigation()
+
+      useInput((input) => {
+        if (input === 'o') nav.openExport()
+      }, { isActive: !nav.showExport })
+      useInput((input) => {
+        if (input === 'x') nav.closeExport()
+      }, { isActive: nav.showExport })
+
+      return (
+        <Box flexDirection="column">
+          <Text>panel:{nav.focusedPanel}</Text>
+          <Text>export:{String(nav.showExport)}</Text>
+        </Box>
+      )
+    }
+
+    it('suppresses global keys while export is open', async () => {
+      const { lastFrame, stdin } = render(<ExportHarness />)
+
+      stdin.write('o')
+      await delay(50)
+      expect(lastFrame()).toContain('export:true')
+
+      stdin.write('\t')
+      await delay(50)
+      stdin.write('?')
+      await delay(50)
+      expect(lastFrame()).toContain('panel:endpoints')
+
+      stdin.write('x')
+      await delay(50)
+      expect(lastFrame()).toContain('export:false')
+
+      stdin.write('\t')
+      await delay(50)
+      expect(lastFrame()).toContain('panel:detail')
+    })
+  })
+
+  describe('import overlay', () => {
+    function ImportHarness() {
+      const nav = useNavigation()
+
+      useInput((input) => {
+        if (input === 'x') nav.closeImport()
+      }, { isActive: nav.showImport })
+
+      return (
+        <Box flexDirection="column">
+          <Text>panel:{nav.focusedPanel}</Text>
+          <Text>import:{String(nav.showImport)}</Text>
+        </Box>
+      )
+    }
+
+    it('I opens curl import and suppresses global keys until closed', async () => {
+      const { lastFrame, stdin } = render(<ImportHarness />)
+      expect(lastFrame()).toContain('import:false')
+
+      stdin.write('I')
+      await delay(50)
+      expect(lastFrame()).toContain('import:true')
+
+      stdin.write('q')
+      await delay(50)
+      stdin.write('\t')
+      await delay(50)
+      expect(lastFrame()).toContain('panel:endpoints')
+
+      stdin.write('x')
+      await delay(50)
+      expect(lastFrame()).toContain('import:false')
+    })
+  })
 })
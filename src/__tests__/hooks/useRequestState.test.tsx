@@ -1,11 +1,18 @@
-import { describe, test, expect, mock, afterEach } from 'bun:test'
+import { describe, test, expect, mock, afterEach, spyOn } from 'bun:test'
 import { render } from 'ink-testing-library'
 import { Box, Text } from 'ink'
 import { useRequestState } from '@/hooks/useRequestState.js'
-import type { Endpoint, ServerInfo, SchemaInfo, SecuritySchemeInfo } from '@/types/index.js'
+import type { Endpoint, ServerInfo, SchemaInfo, SecuritySchemeInfo, SecurityAlternative } from '@/types/index.js'
+import type { HistoryEntry } from '@/history/index.js'
+import { REDACTED } from '@/history/index.js'
+import type { CookieJarState } from '@/hooks/useCookieJar.js'
+import * as oauthBrowser from '@/oauth/browser.js'
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
 
+// Tests replace globalThis.fetch; the loopback redirect needs the real one
+const realFetch = globalThis.fetch
+
 function makeEndpoint(overrides: Partial<Endpoint> = {}): Endpoint {
   return {
     id: 'get-pets',
@@ -147,6 +154,33 @@ describe('useRequestState', () => {
     await delay(50)
     expect(lastFrame()).toContain('tab:pretty')
   })
+
+  test('keeps entered values when a new endpoint object has the same id', async () => {
+    function ParamHarness({ endpoint }: { readonly endpoint: Endpoint }) {
+      const state = useRequestState(endpoint, [])
+      const setRef = useRef(false)
+      useEffect(() => {
+        if (setRef.current) return
+        setRef.current = true
+        const timer = setTimeout(() => state.setParamValue('query:limit', '5'), 10)
+        return () => clearTimeout(timer)
+      }, [])
+      return <Text>paramValues:{JSON.stringify([...state.paramValues.entries()])}</Text>
+    }
+
+    const { lastFrame, rerender } = render(<ParamHarness endpoint={makeEndpoint({ id: 'ep1' })} />)
+    await delay(50)
+    expect(lastFrame()).toContain('["query:limit","5"]')
+
+    // Simulates a live spec reload: same operation, fresh object
+    rerender(<ParamHarness endpoint={makeEndpoint({ id: 'ep1', summary: 'Updated' })} />)
+    await delay(50)
+    expect(lastFrame()).toContain('["query:limit","5"]')
+
+    rerender(<ParamHarness endpoint={makeEndpoint({ id: 'ep2' })} />)
+    await delay(50)
+    expect(lastFrame()).toContain('paramValues:[]')
+  })
 })
 
 describe('useRequestState - cycleServer', () => {
@@ -275,6 +309,7 @@ describe('useRequestState - send', () => {
         <Text>status:{state.response?.status ?? 'none'}</Text>
         <Text>error:{String(state.error)}</Text>
         <Text>responseBody:{state.response?.body ?? 'none'}</Text>
+        <Text>validation:{state.validation?.outcome ?? 'none'}</Text>
       </Box>
     )
   }
@@ -293,6 +328,31 @@ describe('useRequestState - send', () => {
     expect(lastFrame()).toContain('responseBody:{"result": "ok"}')
   })
 
+  test('validates the response against the documented schema', async () => {
+    globalThis.fetch = mock(() =>
+      Promise.resolve(new Response('{"id": "x"}', { status: 200 })),
+    ) as unknown as typeof fetch
+
+    const endpoint = makeEndpoint({
+      responses: [{
+        statusCode: '200',
+        description: 'ok',
+        headers: [],
+        content: [{
+          mediaType: 'application/json',
+          schema: makeSchema({
+            properties: new Map([['id', makeSchema({ type: 'integer', displayType: 'integer' })]]),
+          }),
+        }],
+      }],
+    })
+    const servers: ServerInfo[] = [{ url: 'https://api.example.com', variables: new Map() }]
+
+    const { lastFrame } = render(<SendHarness endpoint={endpoint} servers={servers} />)
+    await delay(200)
+    expect(lastFrame()).toContain('validation:invalid')
+  })
+
   test('shows error on request failure', async () => {
     globalThis.fetch = mock(() =>
       Promise.reject(new Error('Connection refused')),
@@ -725,4 +785,637 @@ describe('useRequestState - auth state', () => {
     const url = calls[calls.length - 1][0]
     expect(url).toContain('api_key=my-api-key')
   })
+
+  test('send resolves secret references but keeps them in the fields', async () => {
+    const fetchMock = mock(() =>
+      Promise.resolve(new Response('{}', { status: 200 })),
+    )
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+
+    const stableEndpoint = makeEndpoint()
+    const stableServers: readonly ServerInfo[] = [{ url: 'https://api.example.com', variables: new Map() }]
+    const secrets = { env: { API_TOKEN: 'env-token' }, vault: null }
+
+    function SecretHarness() {
+      const state = useRequestState(stableEndpoint, [], undefined, undefined, undefined, undefined, undefined, secrets)
+      const [phase, setPhase] = useState(0)
+
+      useEffect(() => {
+        if (phase === 0) {
+          const timer = setTimeout(() => {
+            state.auth.setAuthField('token', '${env:API_TOKEN}')
+            setPhase(1)
+          }, 10)
+          return () => clearTimeout(timer)
+        }
+      }, [phase])
+
+      useEffect(() => {
+        if (phase === 1) {
+          const timer = setTimeout(() => {
+            state.send(stableServers)
+            setPhase(2)
+          }, 10)
+          return () => clearTimeout(timer)
+        }
+      }, [phase])
+
+      const token = state.auth.credentials.method === 'bearer' ? state.auth.credentials.token : ''
+      return (
+        <Box flexDirection="column">
+          <Text>status:{state.response?.status ?? 'none'}</Text>
+          <Text>token:{token}</Text>
+        </Box>
+      )
+    }
+
+    const { lastFrame } = render(<SecretHarness />)
+    await delay(300)
+    expect(lastFrame()).toContain('status:200')
+    expect(lastFrame()).toContain('token:${env:API_TOKEN}')
+
+    const calls = fetchMock.mock.calls as unknown as [string, RequestInit][]
+    const headers = calls[calls.length - 1][1].headers as Record<string, string>
+    expect(headers['Authorization']).toBe('Bearer env-token')
+  })
+})
+
+describe('useRequestState - operation security', () => {
+  const schemes: SecuritySchemeInfo[] = [
+    { name: 'bearerAuth', type: 'http', scheme: 'bearer' },
+    { name: 'apiKeyAuth', type: 'apiKey', in: 'header', paramName: 'X-API-Key' },
+  ]
+  const servers: readonly ServerInfo[] = [{ url: 'https://api.example.com', variables: new Map() }]
+  const both: SecurityAlternative = [{ name: 'apiKeyAuth', scopes: [] }, { name: 'bearerAuth', scopes: [] }]
+
+  type State = ReturnType<typeof useRequestState>
+
+  // Runs each step on its own render, then sends when asked to
+  function SecurityHarness({ endpoint, globalSecurity, steps, send = false }: {
+    readonly endpoint: Endpoint
+    readonly globalSecurity?: readonly SecurityAlternative[]
+    readonly steps: readonly ((state: State) => void)[]
+    readonly send?: boolean
+  }) {
+    const state = useRequestState(endpoint, schemes, undefined, undefined, undefined, undefined, globalSecurity)
+    const [phase, setPhase] = useState(0)
+
+    useEffect(() => {
+      const timer = setTimeout(() => {
+        if (phase < steps.length) {
+          steps[phase]!(state)
+          setPhase(phase + 1)
+        } else if (phase === steps.length && send) {
+          state.send(servers)
+          setPhase(phase + 1)
+        }
+      }, 10)
+      return () => clearTimeout(timer)
+    }, [phase])
+
+    return (
+      <Box flexDirection="column">
+        <Text>selected:{state.auth.availableOptions[state.auth.selectedOptionIndex]?.schemeName}</Text>
+        <Text>additional:{state.auth.additionalCredentials.map(entry => entry.option.schemeName).join(',')}</Text>
+        <Text>requires:{state.auth.operationSecurity ? state.auth.operationSecurity.length : 'unknown'}</Text>
+        <Text>warning:{state.auth.securityWarning ?? 'none'}</Text>
+        <Text>status:{state.response?.status ?? 'none'}</Text>
+      </Box>
+    )
+  }
+
+  function lastHeaders(fetchMock: ReturnType<typeof mock>): Record<string, string> {
+    const calls = fetchMock.mock.calls as unknown as [string, RequestInit][]
+    return calls[calls.length - 1]![1].headers as Record<string, string>
+  }
+
+  test('sends every scheme an operation requires together', async () => {
+    const fetchMock = mock(() => Promise.resolve(new Response('{}', { status: 200 })))
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+    const endpoint = makeEndpoint({ security: [both] })
+
+    const { lastFrame } = render(
+      <SecurityHarness
+        endpoint={endpoint}
+        steps={[
+          state => state.auth.setAuthField('token', 't-1'),
+          state => state.auth.setAuthField('key', 'k-1', 'apiKeyAuth'),
+        ]}
+        send
+      />,
+    )
+    await delay(300)
+
+    expect(lastFrame()).toContain('status:200')
+    expect(lastFrame()).toContain('selected:bearerAuth')
+    expect(lastFrame()).toContain('additional:apiKeyAuth')
+    expect(lastFrame()).toContain('warning:none')
+    const headers = lastHeaders(fetchMock)
+    expect(headers['X-API-Key']).toBe('k-1')
+    expect(headers['Authorization']).toBe('Bearer t-1')
+  })
+
+  test('warns while a required scheme has no credentials', async () => {
+    const endpoint = makeEndpoint({ security: [both] })
+
+    const { lastFrame } = render(
+      <SecurityHarness endpoint={endpoint} steps={[state => state.auth.setAuthField('token', 't-1')]} />,
+    )
+    await delay(100)
+
+    expect(lastFrame()).toContain('warning:Missing credentials for apiKeyAuth;')
+  })
+
+  test('sends no credentials to anonymous operations', async () => {
+    const fetchMock = mock(() => Promise.resolve(new Response('{}', { status: 200 })))
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+    const endpoint = makeEndpoint({ security: [] })
+
+    const { lastFrame } = render(
+      <SecurityHarness
+        endpoint={endpoint}
+        globalSecurity={[[{ name: 'bearerAuth', scopes: [] }]]}
+        steps={[state => state.auth.setAuthField('token', 't-1')]}
+        send
+      />,
+    )
+    await delay(300)
+
+    expect(lastFrame()).toContain('status:200')
+    expect(lastFrame()).toContain('requires:0')
+    expect(lastHeaders(fetchMock)['Authorization']).toBeUndefined()
+  })
+
+  test('selects the scheme the operation requires', async () => {
+    const bearerOnly = makeEndpoint({ id: 'get-/a' })
+    const keyOnly = makeEndpoint({ id: 'get-/b', security: [[{ name: 'apiKeyAuth', scopes: [] }]] })
+
+    const { lastFrame, rerender } = render(
+      <SecurityHarness endpoint={bearerOnly} globalSecurity={[[{ name: 'bearerAuth', scopes: [] }]]} steps={[]} />,
+    )
+    await delay(50)
+    expect(lastFrame()).toContain('selected:bearerAuth')
+
+    rerender(<SecurityHarness endpoint={keyOnly} globalSecurity={[[{ name: 'bearerAuth', scopes: [] }]]} steps={[]} />)
+    await delay(50)
+    expect(lastFrame()).toContain('selected:apiKeyAuth')
+  })
+})
+
+describe('useRequestState - oauth2', () => {
+  const schemes: SecuritySchemeInfo[] = [{
+    name: 'oauth',
+    type: 'oauth2',
+    flows: { clientCredentials: { tokenUrl: 'https://auth.example.com/token', scopes: { 'read:pets': 'Read' } } },
+  }]
+  const stableEndpoint = makeEndpoint()
+  const stableServers: readonly ServerInfo[] = [{ url: 'https://api.example.com', variables: new Map() }]
+
+  function OAuthHarness({
+    sends,
+    endpoint = stableEndpoint,
+    securitySchemes = schemes,
+  }: {
+    readonly sends: number
+    readonly endpoint?: Endpoint
+    readonly securitySchemes?: readonly SecuritySchemeInfo[]
+  }) {
+    const state = useRequestState(endpoint, securitySchemes)
+    const [phase, setPhase] = useState(0)
+
+    useEffect(() => {
+      const timer = setTimeout(() => {
+        if (phase === 0) {
+          state.auth.setAuthField('clientId', 'cli')
+          state.auth.setAuthField('clientSecret', 'shh')
+        } else if (phase <= sends) {
+          state.send(stableServers)
+        } else {
+          return
+        }
+        setPhase(phase + 1)
+      }, 50)
+      return () => clearTimeout(timer)
+    }, [phase])
+
+    const token = state.auth.oauthToken
+    return (
+      <Box flexDirection="column">
+        <Text>status:{state.response?.status ?? 'none'}</Text>
+        <Text>error:{String(state.error)}</Text>
+        <Text>scopes:{state.auth.credentials.method === 'oauth2' ? state.auth.credentials.scopes : ''}</Text>
+        <Text>token:{token?.accessToken ?? 'none'}</Text>
+        <Text>authorizing:{state.auth.authorizeUrl !== null ? 'yes' : 'no'}</Text>
+      </Box>
+    )
+  }
+
+  test('fetches a token before sending and reuses it', async () => {
+    const fetchMock = mock((url: string) =>
+      Promise.resolve(url === 'https://auth.example.com/token'
+        ? Response.json({ access_token: 'tok-1', token_type: 'Bearer', expires_in: 3600 })
+        : new Response('{}', { status: 200 })),
+    )
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+
+    const { lastFrame } = render(<OAuthHarness sends={2} />)
+    await delay(400)
+
+    expect(lastFrame()).toContain('status:200')
+    expect(lastFrame()).toContain('scopes:read:pets')
+    expect(lastFrame()).toContain('token:tok-1')
+    const calls = fetchMock.mock.calls as unknown as [string, RequestInit][]
+    expect(calls.map(([url]) => url)).toEqual([
+      'https://auth.example.com/token',
+      'https://api.example.com/pets',
+      'https://api.example.com/pets',
+    ])
+    expect((calls[1]![1].headers as Record<string, string>)['Authorization']).toBe('Bearer tok-1')
+  })
+
+  test('reports a failed token request without sending', async () => {
+    const fetchMock = mock(() =>
+      Promise.resolve(Response.json({ error: 'invalid_client' }, { status: 401 })),
+    )
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+
+    const { lastFrame } = render(<OAuthHarness sends={1} />)
+    await delay(300)
+
+    expect(lastFrame()).toContain('error:Token request failed: invalid_client')
+    expect(lastFrame()).toContain('status:none')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  test('renews the token and repeats the request once after a 401', async () => {
+    let tokens = 0
+    let attempts = 0
+    const fetchMock = mock((url: string) => {
+      if (url === 'https://auth.example.com/token') {
+        tokens += 1
+        return Promise.resolve(Response.json({ access_token: `tok-${tokens}`, token_type: 'Bearer' }))
+      }
+      attempts += 1
+      return Promise.resolve(new Response('{}', { status: attempts === 1 ? 401 : 200 }))
+    })
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+
+    const { lastFrame } = render(<OAuthHarness sends={1} />)
+    await delay(300)
+
+    expect(lastFrame()).toContain('status:200')
+    expect(lastFrame()).toContain('token:tok-2')
+    const calls = fetchMock.mock.calls as unknown as [string, RequestInit][]
+    expect(calls.map(([url]) => url)).toEqual([
+      'https://auth.example.com/token',
+      'https://api.example.com/pets',
+      'https://auth.example.com/token',
+      'https://api.example.com/pets',
+    ])
+    expect((calls[3]![1].headers as Record<string, string>)['Authorization']).toBe('Bearer tok-2')
+  })
+
+  test('requests the scopes the operation asks for', async () => {
+    const endpoint = makeEndpoint({ security: [[{ name: 'oauth', scopes: ['write:pets'] }]] })
+
+    const { lastFrame } = render(<OAuthHarness sends={0} endpoint={endpoint} />)
+    await delay(100)
+
+    expect(lastFrame()).toContain('scopes:write:pets')
+  })
+
+  test('authorizes in the browser for the authorization code flow', async () => {
+    const codeSchemes: SecuritySchemeInfo[] = [{
+      name: 'oauth',
+      type: 'oauth2',
+      flows: {
+        authorizationCode: {
+          authorizationUrl: 'https://auth.example.com/authorize',
+          tokenUrl: 'https://auth.example.com/token',
+          scopes: {},
+        },
+      },
+    }]
+    const fetchMock = mock((url: string, _init?: RequestInit) =>
+      Promise.resolve(url === 'https://auth.example.com/token'
+        ? Response.json({ access_token: 'tok-code', token_type: 'Bearer' })
+        : new Response('{}', { status: 200 })),
+    )
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+    // Plays the browser: the test follows the redirect once the user has consented
+    const opened: string[] = []
+    let redirect: string | null = null
+    spyOn(oauthBrowser, 'openInBrowser').mockImplementation((url) => {
+      opened.push(url)
+      const params = new URL(url).searchParams
+      redirect = `${params.get('redirect_uri')}?code=granted&state=${params.get('state')}`
+    })
+    // Polls instead of sleeping a fixed time, which is flaky on a busy machine
+    const waitFor = async (check: () => boolean) => {
+      for (let i = 0; i < 100 && !check(); i++) await delay(20)
+    }
+
+    const { lastFrame } = render(<OAuthHarness sends={1} securitySchemes={codeSchemes} />)
+    await waitFor(() => redirect !== null && lastFrame()!.includes('authorizing:yes'))
+    expect(lastFrame()).toContain('authorizing:yes')
+
+    // The listener answers once it has the code
+    expect((await realFetch(redirect!)).status).toBe(200)
+    await waitFor(() => lastFrame()!.includes('status:200') && lastFrame()!.includes('authorizing:no'))
+
+    expect(opened).toHaveLength(1)
+    expect(lastFrame()).toContain('status:200')
+    expect(lastFrame()).toContain('authorizing:no')
+    const calls = fetchMock.mock.calls as unknown as [string, RequestInit][]
+    expect(new URLSearchParams(calls[0]![1].body as string).get('code')).toBe('granted')
+    expect((calls[1]![1].headers as Record<string, string>)['Authorization']).toBe('Bearer tok-code')
+  })
+})
+
+describe('useRequestState - history', () => {
+  test('reports a redacted history entry after each send', async () => {
+    globalThis.fetch = mock(() =>
+      Promise.resolve(new Response('{}', { status: 201, statusText: 'Created' })),
+    ) as unknown as typeof fetch
+
+    const entries: HistoryEntry[] = []
+    const stableEndpoint = makeEndpoint({
+      id: 'get-pets',
+      parameters: [{ name: 'limit', location: 'query', required: false, deprecated: false }],
+    })
+    const stableServers: readonly ServerInfo[] = [{ url: 'https://api.example.com', variables: new Map() }]
+
+    function HistoryHarness() {
+      const state = useRequestState(stableEndpoint, [], undefined, entry => entries.push(entry))
+      const [phase, setPhase] = useState(0)
+
+      useEffect(() => {
+        if (phase === 0) {
+          const timer = setTimeout(() => {
+            state.auth.setAuthField('token', 'secret-token')
+            state.setParamValue('query:limit', '5')
+            setPhase(1)
+          }, 10)
+          return () => clearTimeout(timer)
+        }
+        if (phase === 1) {
+          const timer = setTimeout(() => {
+            state.send(stableServers)
+            setPhase(2)
+          }, 10)
+          return () => clearTimeout(timer)
+        }
+      }, [phase])
+
+      return <Text>status:{state.response?.status ?? 'none'}</Text>
+    }
+
+    const { lastFrame } = render(<HistoryHarness />)
+    await delay(300)
+    expect(lastFrame()).toContain('status:201')
+
+    expect(entries).toHaveLength(1)
+    const entry = entries[0]!
+    expect(entry.endpointId).toBe('get-pets')
+    expect(entry.url).toBe('https://api.example.com/pets?limit=5')
+    expect(entry.serverUrl).toBe('https://api.example.com')
+    expect(entry.params).toEqual({ 'query:limit': '5' })
+    expect(entry.headers['Authorization']).toBe(REDACTED)
+    expect(entry.status).toBe(201)
+  })
+
+  test('reports failed requests with their error', async () => {
+    globalThis.fetch = mock(() =>
+      Promise.reject(new Error('Connection refused')),
+    ) as unknown as typeof fetch
+
+    const entries: HistoryEntry[] = []
+    const stableEndpoint = makeEndpoint()
+    const stableServers: readonly ServerInfo[] = [{ url: 'https://api.example.com', variables: new Map() }]
+
+    function FailHarness() {
+      const state = useRequestState(stableEndpoint, [], undefined, entry => entries.push(entry))
+      useEffect(() => {
+        const timer = setTimeout(() => state.send(stableServers), 10)
+        return () => clearTimeout(timer)
+      }, [])
+      return <Text>error:{String(state.error)}</Text>
+    }
+
+    render(<FailHarness />)
+    await delay(200)
+
+    expect(entries).toHaveLength(1)
+    expect(entries[0]!.status).toBeUndefined()
+    expect(entries[0]!.error).toContain('Request failed')
+  })
+
+  test('restore sets params, headers, body and server, skipping redacted values', async () => {
+    const stableEndpoint = makeEndpoint()
+
+    function RestoreHarness() {
+      const state = useRequestState(stableEndpoint, [])
+      useEffect(() => {
+        const timer = setTimeout(() => {
+          state.restore({
+            params: { 'query:limit': '5', 'header:X-Api-Key': REDACTED },
+            headers: { 'X-Trace': 'abc', 'X-Session': REDACTED },
+            body: '{"name":"Rex"}',
+            serverIndex: 2,
+          })
+        }, 10)
+        return () => clearTimeout(timer)
+      }, [])
+      return (
+        <Box flexDirection="column">
+          <Text>serverIndex:{state.selectedServerIndex}</Text>
+          <Text>bodyText:{state.bodyText}</Text>
+          <Text>paramValues:{JSON.stringify([...state.paramValues.entries()])}</Text>
+          <Text>extraHeaders:{JSON.stringify([...state.extraHeaders.entries()])}</Text>
+        </Box>
+      )
+    }
+
+    const { lastFrame } = render(<RestoreHarness />)
+    await delay(100)
+
+    expect(lastFrame()).toContain('extraHeaders:[["X-Trace","abc"]]')
+    expect(lastFrame()).toContain('serverIndex:2')
+    expect(lastFrame()).toContain('bodyText:{"name":"Rex"}')
+    expect(lastFrame()).toContain('paramValues:[["query:limit","5"]]')
+  })
+})
+
+describe('useRequestState - cookie jar', () => {
+  test('sends jar cookies and stores the response cookies', async () => {
+    const headers = new Headers()
+    headers.append('set-cookie', 'session=next; Path=/')
+    const fetchMock = mock(() => Promise.resolve(new Response('{}', { status: 200, headers })))
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+
+    const stored: [string, string, readonly string[]][] = []
+    const cookieJar: CookieJarState = {
+      isEnabled: () => true,
+      cookiesFor: () => [{ name: 'session', value: 'prev', domain: 'api.example.com', hostOnly: true, path: '/', secure: false, httpOnly: false }],
+      store: (serverUrl, url, setCookies) => { stored.push([serverUrl, url, setCookies]) },
+      count: () => 1,
+      clear: () => {},
+    }
+    const stableEndpoint = makeEndpoint()
+    const stableServers: readonly ServerInfo[] = [{ url: 'https://api.example.com', variables: new Map() }]
+
+    function JarHarness() {
+      const state = useRequestState(stableEndpoint, [], undefined, undefined, undefined, cookieJar)
+      const [sent, setSent] = useState(false)
+
+      useEffect(() => {
+        if (sent) return
+        const timer = setTimeout(() => {
+          state.send(stableServers)
+          setSent(true)
+        }, 10)
+        return () => clearTimeout(timer)
+      }, [sent])
+
+      return <Text>status:{state.response?.status ?? 'none'}</Text>
+    }
+
+    const { lastFrame } = render(<JarHarness />)
+    await delay(200)
+    expect(lastFrame()).toContain('status:200')
+
+    const init = (fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1]
+    expect((init.headers as Record<string, string>)['Cookie']).toBe('session=prev')
+    expect(stored).toEqual([['https://api.example.com', 'https://api.example.com/pets', ['session=next; Path=/']]])
+  })
+})
+
+describe('useRequestState - body media types', () => {
+  const loginEndpoint = makeEndpoint({
+    id: 'post-login',
+    method: 'post',
+    path: '/login',
+    requestBody: {
+      required: true,
+      content: [
+        { mediaType: 'application/x-www-form-urlencoded', schema: makeSchema({
+          properties: new Map<string, SchemaInfo>([
+            ['username', makeSchema({ type: 'string', displayType: 'string' })],
+            ['password', makeSchema({ type: 'string', displayType: 'string' })],
+          ]),
+          required: ['username'],
+        }) },
+        { mediaType: 'application/json', schema: makeSchema({
+          properties: new Map<string, SchemaInfo>([
+            ['username', makeSchema({ type: 'string', displayType: 'string' })],
+          ]),
+        }) },
+      ],
+    },
+  })
+  const servers: ServerInfo[] = [{ url: 'https://api.example.com', variables: new Map() }]
+
+  function MediaHarness({ endpoint = loginEndpoint, onReady }: {
+    readonly endpoint?: Endpoint
+    readonly onReady: (state: ReturnType<typeof useRequestState>) => void
+  }) {
+    const state = useRequestState(endpoint, [])
+    useEffect(() => {
+      onReady(state)
+    })
+    const built = state.buildCurrentRequest(servers)
+    const request = `${built.headers.get('Content-Type')} ${built.body}`
+    return (
+      <Box flexDirection="column">
+        <Text>mediaTypes:{state.bodyMediaTypes.join(',')}</Text>
+        <Text>mediaType:{state.bodyMediaType}</Text>
+        <Text>formFields:{state.formFields.map(f => f.name).join(',')}</Text>
+        <Text>violations:{state.bodyViolations.length}</Text>
+        <Text>request:{request}</Text>
+        <Text>bodyText:{state.bodyText}</Text>
+      </Box>
+    )
+  }
+
+  test('defaults to application/json and cycles to the form fields', async () => {
+    let current: ReturnType<typeof useRequestState> | null = null
+    const { lastFrame } = render(<MediaHarness onReady={s => { current = s }} />)
+    await delay(50)
+    expect(lastFrame()).toContain('mediaTypes:application/x-www-form-urlencoded,application/json')
+    expect(lastFrame()).toContain('mediaType:application/json')
+    expect(lastFrame()).toContain('formFields:\n')
+
+    current!.cycleBodyMediaType()
+    await delay(50)
+    expect(lastFrame()).toContain('mediaType:application/x-www-form-urlencoded')
+    expect(lastFrame()).toContain('formFields:username,password')
+
+    current!.setFormValue('username', 'alice')
+    current!.setBodyText('not json')
+    await delay(50)
+    expect(lastFrame()).toContain('violations:0')
+    expect(lastFrame()).toContain('request:application/x-www-form-urlencoded username=alice')
+  })
+
+  test('restore selects the media type and form values', async () => {
+    let current: ReturnType<typeof useRequestState> | null = null
+    const { lastFrame } = render(<MediaHarness onReady={s => { current = s }} />)
+    await delay(50)
+
+    current!.restore({
+      params: {},
+      mediaType: 'application/x-www-form-urlencoded',
+      form: { username: 'bob', password: 'pw' },
+    })
+    await delay(50)
+    expect(lastFrame()).toContain('mediaType:application/x-www-form-urlencoded')
+    expect(lastFrame()).toContain('request:application/x-www-form-urlencoded username=bob&password=pw')
+
+    // Media types the operation doesn't accept are ignored
+    current!.restore({ params: {}, mediaType: 'text/plain' })
+    await delay(50)
+    expect(lastFrame()).toContain('mediaType:application/x-www-form-urlencoded')
+  })
+
+  test('an untouched template follows the media type, edits are kept', async () => {
+    const noteEndpoint = makeEndpoint({
+      id: 'post-notes',
+      method: 'post',
+      path: '/notes',
+      requestBody: {
+        required: true,
+        content: [
+          { mediaType: 'application/json', schema: makeSchema({
+            properties: new Map<string, SchemaInfo>([['text', makeSchema({ type: 'string', displayType: 'string' })]]),
+          }) },
+          { mediaType: 'application/xml', schema: makeSchema({
+            xml: { name: 'note', attribute: false, wrapped: false },
+            properties: new Map<string, SchemaInfo>([['text', makeSchema({ type: 'string', displayType: 'string' })]]),
+          }) },
+          { mediaType: 'text/plain', example: 'hello' },
+        ],
+      },
+    })
+    let current: ReturnType<typeof useRequestState> | null = null
+    const { lastFrame } = render(<MediaHarness endpoint={noteEndpoint} onReady={s => { current = s }} />)
+    await delay(50)
+    expect(lastFrame()).toContain('"text": ""')
+
+    current!.cycleBodyMediaType()
+    await delay(50)
+    expect(lastFrame()).toContain('mediaType:application/xml')
+    expect(lastFrame()).toContain('<note>')
+    expect(lastFrame()).toContain('request:application/xml <?xml')
+
+    current!.cycleBodyMediaType()
+    await delay(50)
+    expect(lastFrame()).toContain('bodyText:hello')
+
+    current!.setBodyText('edited')
+    await delay(50)
+    current!.cycleBodyMediaType()
+    await delay(50)
+    expect(lastFrame()).toContain('mediaType:application/json')
+    expect(lastFrame()).toContain('bodyText:edited')
+  })
 })
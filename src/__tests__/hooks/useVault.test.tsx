@@ -0,0 +1,70 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { render } from 'ink-testing-library'
+import { Text } from 'ink'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { useVault } from '@/hooks/useVault.js'
+import type { VaultState } from '@/hooks/useVault.js'
+import { createVault, loadVaultFile, unlockVault, VaultError } from '@/vault/index.js'
+import type { UnlockedVault } from '@/vault/index.js'
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+let tempDir: string
+let vault: UnlockedVault
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'superapi-usevault-'))
+  vault = await createVault('hunter2')
+})
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true })
+})
+
+function renderVault(vaultPath: string): { state: () => VaultState } {
+  let latest: VaultState | null = null
+  function Harness() {
+    latest = useVault(vault, vaultPath)
+    return <Text>secrets:{latest.secrets.vault?.size ?? 0}</Text>
+  }
+  render(<Harness />)
+  return { state: () => latest! }
+}
+
+describe('useVault', () => {
+  test('writes the vault before returning the referencing auth', async () => {
+    const vaultPath = join(tempDir, 'vault.json')
+    const { state } = renderVault(vaultPath)
+
+    const stored = await state().storeSecrets({ method: 'bearer', token: 'tok-123' }, 'Prod/default')
+
+    expect(stored).toEqual({ method: 'bearer', token: '${vault:Prod/default/token}' })
+    const unlocked = await unlockVault((await loadVaultFile(vaultPath))!, 'hunter2')
+    expect(unlocked.secrets.get('Prod/default/token')).toBe('tok-123')
+  })
+
+  test('keeps both secrets when two are stored at once', async () => {
+    const vaultPath = join(tempDir, 'vault.json')
+    const { state } = renderVault(vaultPath)
+
+    await Promise.all([
+      state().storeSecrets({ method: 'bearer', token: 'admin-token' }, 'Prod/admin'),
+      state().storeSecrets({ method: 'bearer', token: 'user-token' }, 'Prod/user'),
+    ])
+
+    const unlocked = await unlockVault((await loadVaultFile(vaultPath))!, 'hunter2')
+    expect(unlocked.secrets.get('Prod/admin/token')).toBe('admin-token')
+    expect(unlocked.secrets.get('Prod/user/token')).toBe('user-token')
+  })
+
+  test('rejects and keeps the secret out of the vault when it cannot be written', async () => {
+    const { state } = renderVault(join(tempDir, 'missing', 'vault.json'))
+
+    await expect(state().storeSecrets({ method: 'bearer', token: 'tok-123' }, 'Prod/default')).rejects.toBeInstanceOf(VaultError)
+    await delay(10)
+
+    expect(state().secrets.vault?.has('Prod/default/token')).toBe(false)
+  })
+})
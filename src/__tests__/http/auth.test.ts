@@ -1,6 +1,6 @@
 import { describe, test, expect } from 'bun:test'
-import { deriveAuthOptions, applyAuth } from '@/http/auth.js'
-import type { SecuritySchemeInfo, AuthCredentials } from '@/types/index.js'
+import { deriveAuthOptions, applyAuth, buildCredentials, credentialFields, hasCredentials } from '@/http/auth.js'
+import type { SecuritySchemeInfo, AuthCredentials, AuthOption } from '@/types/index.js'
 
 describe('deriveAuthOptions', () => {
   test('maps http bearer scheme to bearer option', () => {
@@ -52,6 +52,59 @@ describe('deriveAuthOptions', () => {
     }
   })
 
+  test('maps each oauth2 flow with a token URL to one option', () => {
+    const schemes: SecuritySchemeInfo[] = [
+      {
+        name: 'oauth',
+        type: 'oauth2',
+        flows: {
+          clientCredentials: { tokenUrl: 'https://auth.example.com/token', scopes: { 'read:pets': 'Read', 'write:pets': 'Write' } },
+          password: { tokenUrl: 'https://auth.example.com/password', scopes: {} },
+          authorizationCode: { authorizationUrl: 'https://auth.example.com/authorize', tokenUrl: 'https://auth.example.com/token', scopes: {} },
+        },
+      },
+    ]
+    const { options, unsupportedSchemes } = deriveAuthOptions(schemes)
+    expect(options).toEqual([
+      {
+        method: 'oauth2',
+        label: 'OAuth2 client credentials (oauth)',
+        schemeName: 'oauth',
+        grant: 'clientCredentials',
+        tokenUrl: 'https://auth.example.com/token',
+        scopes: ['read:pets', 'write:pets'],
+      },
+      {
+        method: 'oauth2',
+        label: 'OAuth2 password (oauth)',
+        schemeName: 'oauth',
+        grant: 'password',
+        tokenUrl: 'https://auth.example.com/password',
+        scopes: [],
+      },
+      {
+        method: 'oauth2',
+        label: 'OAuth2 authorization code (oauth)',
+        schemeName: 'oauth',
+        grant: 'authorizationCode',
+        tokenUrl: 'https://auth.example.com/token',
+        authorizationUrl: 'https://auth.example.com/authorize',
+        scopes: [],
+      },
+    ])
+    expect(unsupportedSchemes).toHaveLength(0)
+  })
+
+  test('reports oauth2 schemes with only an implicit flow as unsupported', () => {
+    const schemes: SecuritySchemeInfo[] = [
+      { name: 'implicit', type: 'oauth2', flows: { implicit: { authorizationUrl: 'https://auth.example.com/authorize', scopes: {} } } },
+      { name: 'bearerAuth', type: 'http', scheme: 'bearer' },
+    ]
+    const { options, unsupportedSchemes } = deriveAuthOptions(schemes)
+    expect(options).toHaveLength(1)
+    expect(unsupportedSchemes).toEqual(['implicit (oauth2)'])
+  })
+
   test('filters out oauth2 schemes and reports them as unsupported', () => {
     const schemes: SecuritySchemeInfo[] = [
       { name: 'oauth', type: 'oauth2' },
@@ -73,14 +126,19 @@ describe('deriveAuthOptions', () => {
     expect(unsupportedSchemes).toEqual(['oidc (openIdConnect)'])
   })
 
-  test('filters out apiKey with in:cookie and falls back', () => {
+  test('maps apiKey with in:cookie to a cookie option', () => {
     const schemes: SecuritySchemeInfo[] = [
       { name: 'cookieAuth', type: 'apiKey', in: 'cookie', paramName: 'session' },
     ]
     const { options, unsupportedSchemes } = deriveAuthOptions(schemes)
-    expect(options).toHaveLength(3)
-    expect(options[0].method).toBe('bearer')
-    expect(unsupportedSchemes).toEqual(['cookieAuth (apiKey)'])
+    expect(options).toEqual([{
+      method: 'apiKey',
+      label: 'API Key cookie (cookieAuth)',
+      schemeName: 'cookieAuth',
+      apiKeyIn: 'cookie',
+      apiKeyParamName: 'session',
+    }])
+    expect(unsupportedSchemes).toHaveLength(0)
   })
 
   test('handles multiple supported schemes', () => {
@@ -184,6 +242,19 @@ describe('applyAuth', () => {
     expect(result.queryParams.get('api_key')).toBe('secret-key')
   })
 
+  test('apiKey in cookie sets a cookie', () => {
+    const creds: AuthCredentials = {
+      method: 'apiKey',
+      key: 'abc=',
+      paramName: 'session',
+      location: 'cookie',
+    }
+    const result = applyAuth(creds)
+    expect(result.headers.size).toBe(0)
+    expect(result.queryParams.size).toBe(0)
+    expect(result.cookies.get('session')).toBe('abc=')
+  })
+
   test('basic credentials set base64 Authorization header', () => {
     const creds: AuthCredentials = {
       method: 'basic',
@@ -216,6 +287,20 @@ describe('applyAuth', () => {
     expect(result.headers.get('Authorization')).toBe(`Basic ${expected}`)
   })
 
+  test('oauth2 credentials send the fetched token as a Bearer header', () => {
+    const creds: AuthCredentials = {
+      method: 'oauth2',
+      grant: 'clientCredentials',
+      tokenUrl: 'https://auth.example.com/token',
+      clientId: 'cli',
+      clientSecret: 'shh',
+      scopes: '',
+      accessToken: 'tok',
+    }
+    expect(applyAuth(creds).headers.get('Authorization')).toBe('Bearer tok')
+    expect(applyAuth({ ...creds, accessToken: undefined }).headers.size).toBe(0)
+  })
+
   test('basic credentials handle special characters', () => {
     const creds: AuthCredentials = {
       method: 'basic',
@@ -227,3 +312,41 @@ describe('applyAuth', () => {
     expect(result.headers.get('Authorization')).toBe(`Basic ${expected}`)
   })
 })
+
+describe('buildCredentials', () => {
+  const oauthOption: AuthOption = {
+    method: 'oauth2',
+    label: 'OAuth2 (clientCredentials)',
+    schemeName: 'oauth',
+    grant: 'clientCredentials',
+    tokenUrl: 'https://auth.example.com/token',
+    scopes: ['read:pets', 'write:pets'],
+  }
+
+  test('builds apiKey credentials from the option and the entered key', () => {
+    const option: AuthOption = { method: 'apiKey', label: 'API Key', schemeName: 'key', apiKeyIn: 'header', apiKeyParamName: 'X-API-Key' }
+
+    expect(buildCredentials(option, { key: 'k' })).toEqual({ method: 'apiKey', key: 'k', paramName: 'X-API-Key', location: 'header' })
+  })
+
+  test('requests the operation scopes unless others were entered', () => {
+    expect(buildCredentials(oauthOption, {}, ['read:pets'])).toMatchObject({ scopes: 'read:pets' })
+    expect(buildCredentials(oauthOption, {})).toMatchObject({ scopes: 'read:pets write:pets' })
+    expect(buildCredentials(oauthOption, { scopes: 'admin' }, ['read:pets'])).toMatchObject({ scopes: 'admin' })
+  })
+
+  test('round-trips through credentialFields', () => {
+    const credentials = buildCredentials(oauthOption, { clientId: 'cli', clientSecret: 's', scopes: 'read:pets' })
+
+    expect(buildCredentials(oauthOption, credentialFields(credentials))).toEqual(credentials)
+  })
+})
+
+describe('hasCredentials', () => {
+  test('is false until something usable was entered', () => {
+    expect(hasCredentials({ method: 'none' })).toBe(false)
+    expect(hasCredentials({ method: 'bearer', token: '' })).toBe(false)
+    expect(hasCredentials({ method: 'bearer', token: 'tok' })).toBe(true)
+    expect(hasCredentials({ method: 'basic', username: 'alice', password: '' })).toBe(true)
+  })
+})
@@ -0,0 +1,150 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  bodyKindOf,
+  bodyFilePath,
+  contentTypeFor,
+  defaultBodyMediaType,
+  deriveFormFields,
+  encodeFormBody,
+  buildMultipartParts,
+} from '@/http/body.js'
+import type { RequestBodyInfo, SchemaInfo } from '@/types/index.js'
+
+function schema(overrides: Partial<SchemaInfo> & { type: SchemaInfo['type'] }): SchemaInfo {
+  return {
+    displayType: overrides.type,
+    nullable: false,
+    readOnly: false,
+    writeOnly: false,
+    ...overrides,
+  }
+}
+
+const upload = schema({
+  type: 'object',
+  properties: new Map<string, SchemaInfo>([
+    ['id', schema({ type: 'integer', readOnly: true })],
+    ['title', schema({ type: 'string' })],
+    ['tags', schema({ type: 'array', items: schema({ type: 'string' }) })],
+    ['file', schema({ type: 'string', format: 'binary' })],
+    ['attachments', schema({ type: 'array', items: schema({ type: 'string', format: 'binary' }) })],
+  ]),
+  required: ['file'],
+})
+
+describe('bodyKindOf', () => {
+  test('classifies media types by how their body is edited', () => {
+    expect(bodyKindOf('application/json')).toBe('json')
+    expect(bodyKindOf('application/merge-patch+json')).toBe('json')
+    expect(bodyKindOf('application/json; charset=utf-8')).toBe('json')
+    expect(bodyKindOf('application/x-www-form-urlencoded')).toBe('form')
+    expect(bodyKindOf('multipart/form-data')).toBe('multipart')
+    expect(bodyKindOf('application/xml')).toBe('xml')
+    expect(bodyKindOf('application/atom+xml')).toBe('xml')
+    expect(bodyKindOf('text/plain')).toBe('text')
+    expect(bodyKindOf('application/yaml')).toBe('text')
+    expect(bodyKindOf('application/octet-stream')).toBe('binary')
+    expect(bodyKindOf('image/png')).toBe('binary')
+    expect(bodyKindOf('*/*')).toBe('binary')
+  })
+})
+
+describe('contentTypeFor', () => {
+  test('sends wildcard media types as application/octet-stream', () => {
+    expect(contentTypeFor('image/*')).toBe('application/octet-stream')
+    expect(contentTypeFor('text/plain')).toBe('text/plain')
+  })
+})
+
+describe('bodyFilePath', () => {
+  test('reads a lone @path', () => {
+    expect(bodyFilePath('@./photo.png')).toBe('./photo.png')
+    expect(bodyFilePath('  @~/data.bin\n')).toBe('~/data.bin')
+  })
+
+  test('ignores other bodies', () => {
+    expect(bodyFilePath('hello')).toBeNull()
+    expect(bodyFilePath('@')).toBeNull()
+    expect(bodyFilePath('@a\n@b')).toBeNull()
+  })
+})
+
+describe('defaultBodyMediaType', () => {
+  const requestBody: RequestBodyInfo = {
+    required: true,
+    content: [
+      { mediaType: 'multipart/form-data' },
+      { mediaType: 'application/xml' },
+      { mediaType: 'application/json' },
+    ],
+  }
+
+  test('prefers application/json, then the first listed type', () => {
+    expect(defaultBodyMediaType(requestBody)).toBe('application/json')
+    expect(defaultBodyMediaType({ required: true, content: [{ mediaType: 'application/xml' }, { mediaType: 'text/plain' }] }))
+      .toBe('application/xml')
+    expect(defaultBodyMediaType(undefined)).toBe('application/json')
+  })
+})
+
+describe('deriveFormFields', () => {
+  test('marks binary properties as files only for multipart', () => {
+    const multipart = deriveFormFields({ mediaType: 'multipart/form-data', schema: upload })
+    expect(multipart.map(f => [f.name, f.file, f.multiple, f.required])).toEqual([
+      ['title', false, false, false],
+      ['tags', false, true, false],
+      ['file', true, false, true],
+      ['attachments', true, true, false],
+    ])
+
+    const form = deriveFormFields({ mediaType: 'application/x-www-form-urlencoded', schema: upload })
+    expect(form.some(f => f.file)).toBe(false)
+  })
+
+  test('merges allOf properties', () => {
+    const fields = deriveFormFields({
+      mediaType: 'application/x-www-form-urlencoded',
+      schema: schema({
+        type: 'object',
+        allOf: [
+          schema({ type: 'object', properties: new Map([['a', schema({ type: 'string' })]]), required: ['a'] }),
+          schema({ type: 'object', properties: new Map([['b', schema({ type: 'string' })]]) }),
+        ],
+      }),
+    })
+    expect(fields.map(f => [f.name, f.required])).toEqual([['a', true], ['b', false]])
+  })
+
+  test('returns no fields without a schema', () => {
+    expect(deriveFormFields({ mediaType: 'multipart/form-data' })).toEqual([])
+  })
+})
+
+describe('encodeFormBody', () => {
+  test('encodes set fields and repeats array values', () => {
+    const fields = deriveFormFields({ mediaType: 'application/x-www-form-urlencoded', schema: upload })
+    const body = encodeFormBody(fields, new Map([
+      ['title', 'Hello world & more'],
+      ['tags', 'a, b'],
+      ['file', ''],
+    ]))
+    expect(body).toBe('title=Hello+world+%26+more&tags=a&tags=b')
+  })
+})
+
+describe('buildMultipartParts', () => {
+  test('turns file properties into file parts', () => {
+    const fields = deriveFormFields({ mediaType: 'multipart/form-data', schema: upload })
+    const parts = buildMultipartParts(fields, new Map([
+      ['title', 'Report'],
+      ['file', './report.pdf'],
+      ['attachments', 'a.png,b.png'],
+    ]))
+    expect(parts).toEqual([
+      { kind: 'field', name: 'title', value: 'Report' },
+      { kind: 'file', name: 'file', path: './report.pdf' },
+      { kind: 'file', name: 'attachments', path: 'a.png' },
+      { kind: 'file', name: 'attachments', path: 'b.png' },
+    ])
+  })
+})
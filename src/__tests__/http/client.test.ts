@@ -1,5 +1,8 @@
 import { afterEach, describe, expect, mock, test } from 'bun:test'
-import { resolveServerUrl, buildRequestUrl, validateSsrf, sendRequest } from '@/http/client.js'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { resolveServerUrl, matchServerUrl, buildRequestUrl, validateSsrf, sendRequest } from '@/http/client.js'
 import { HttpRequestError } from '@/types/index.js'
 import type { ServerInfo, RequestOptions } from '@/types/index.js'
 
@@ -17,6 +20,19 @@ describe('resolveServerUrl', () => {
     expect(resolveServerUrl(server)).toBe('https://api.example.com:8443/api/v2')
   })
 
+  test('uses chosen values over defaults', () => {
+    const server: ServerInfo = {
+      url: 'https://{region}.api.example.com/{version}',
+      variables: new Map([
+        ['region', { defaultValue: 'us', enumValues: ['us', 'eu'] }],
+        ['version', { defaultValue: 'v1' }],
+      ]),
+    }
+
+    expect(resolveServerUrl(server, new Map(), new Map([['region', 'eu'], ['other', 'x']])))
+      .toBe('https://eu.api.example.com/v1')
+  })
+
   test('keeps token when variable not found', () => {
     const server: ServerInfo = {
       url: 'https://{host}/{unknown}',
@@ -34,6 +50,51 @@ describe('resolveServerUrl', () => {
 
     expect(resolveServerUrl(server)).toBe('https://api.example.com/v1')
   })
+
+  test('expands environment variables before server variables', () => {
+    const server: ServerInfo = {
+      url: 'https://{{host}}/{version}',
+      variables: new Map([['version', { defaultValue: 'v2' }]]),
+    }
+
+    expect(resolveServerUrl(server, new Map([['host', 'staging.example.com']]))).toBe('https://staging.example.com/v2')
+  })
+
+  test('leaves unknown environment variables intact', () => {
+    const server: ServerInfo = { url: 'https://{{host}}/v1', variables: new Map() }
+
+    expect(resolveServerUrl(server)).toBe('https://{{host}}/v1')
+  })
+})
+
+describe('matchServerUrl', () => {
+  const server: ServerInfo = {
+    url: 'https://{region}.api.example.com/{version}',
+    variables: new Map([
+      ['region', { defaultValue: 'us', enumValues: ['us', 'eu'] }],
+      ['version', { defaultValue: 'v1' }],
+    ]),
+  }
+
+  test('reads the variable values out of a URL', () => {
+    expect(matchServerUrl(server, 'https://eu.api.example.com/v2/')).toEqual(new Map([['region', 'eu'], ['version', 'v2']]))
+  })
+
+  test('returns null for a URL of another server', () => {
+    expect(matchServerUrl(server, 'https://eu.other.example.com/v2')).toBeNull()
+    expect(matchServerUrl(server, 'https://eu.api.example.com/v2/pets')).toBeNull()
+  })
+
+  test('matches a server without variables by its URL', () => {
+    const plain: ServerInfo = { url: 'https://api.example.com/', variables: new Map() }
+    expect(matchServerUrl(plain, 'https://API.example.com')).toEqual(new Map())
+  })
+
+  test('applies environment variables first', () => {
+    const templated: ServerInfo = { url: 'https://{{host}}/{version}', variables: new Map([['version', { defaultValue: 'v1' }]]) }
+    expect(matchServerUrl(templated, 'https://dev.example.com/v3', new Map([['host', 'dev.example.com']])))
+      .toEqual(new Map([['version', 'v3']]))
+  })
 })
 
 describe('buildRequestUrl', () => {
@@ -154,6 +215,17 @@ describe('sendRequest', () => {
     expect(result.durationMs).toBeGreaterThanOrEqual(0)
   })
 
+  test('keeps each Set-Cookie header', async () => {
+    const headers = new Headers()
+    headers.append('set-cookie', 'session=abc; Path=/')
+    headers.append('set-cookie', 'theme=dark')
+    globalThis.fetch = mock(() => Promise.resolve(new Response('', { status: 204, headers }))) as unknown as typeof fetch
+
+    const result = await sendRequest({ method: 'post', url: 'https://api.example.com/login', headers: new Map() })
+
+    expect(result.setCookies).toEqual(['session=abc; Path=/', 'theme=dark'])
+  })
+
   test('wraps network errors in HttpRequestError', async () => {
     globalThis.fetch = mock(() =>
       Promise.reject(new TypeError('Failed to fetch')),
@@ -174,4 +246,74 @@ describe('sendRequest', () => {
       expect((error as HttpRequestError).cause).toBeInstanceOf(TypeError)
     }
   })
+
+  test('sends multipart parts as FormData, reading files from disk', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'superapi-upload-'))
+    const path = join(dir, 'report.txt')
+    writeFileSync(path, 'file contents')
+    let sent: RequestInit | undefined
+    globalThis.fetch = mock((_url: string, init: RequestInit) => {
+      sent = init
+      return Promise.resolve(new Response('ok', { status: 201, statusText: 'Created' }))
+    }) as unknown as typeof fetch
+
+    try {
+      await sendRequest({
+        method: 'post',
+        url: 'https://api.example.com/upload',
+        headers: new Map(),
+        multipart: [
+          { kind: 'field', name: 'title', value: 'Report' },
+          { kind: 'file', name: 'file', path },
+        ],
+      })
+
+      const form = sent?.body as FormData
+      expect(form).toBeInstanceOf(FormData)
+      expect(form.get('title')).toBe('Report')
+      const file = form.get('file') as File
+      expect(file.name).toBe('report.txt')
+      expect(await file.text()).toBe('file contents')
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('rejects with HttpRequestError when a file part cannot be read', async () => {
+    globalThis.fetch = mock(() => Promise.resolve(new Response('ok'))) as unknown as typeof fetch
+
+    await expect(sendRequest({
+      method: 'post',
+      url: 'https://api.example.com/upload',
+      headers: new Map(),
+      multipart: [{ kind: 'file', name: 'file', path: '/nonexistent/report.pdf' }],
+    })).rejects.toThrow(new HttpRequestError('Cannot read file: /nonexistent/report.pdf'))
+    expect(globalThis.fetch).not.toHaveBeenCalled()
+  })
+
+  test('sends a body file as a blob', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'superapi-upload-'))
+    const path = join(dir, 'photo.bin')
+    writeFileSync(path, new Uint8Array([0, 1, 2, 255]))
+    let sent: RequestInit | undefined
+    globalThis.fetch = mock((_url: string, init: RequestInit) => {
+      sent = init
+      return Promise.resolve(new Response('ok'))
+    }) as unknown as typeof fetch
+
+    try {
+      await sendRequest({
+        method: 'put',
+        url: 'https://api.example.com/photo',
+        headers: new Map([['Content-Type', 'application/octet-stream']]),
+        bodyFile: path,
+      })
+
+      const body = sent?.body as Blob
+      expect(body).toBeInstanceOf(Blob)
+      expect([...new Uint8Array(await body.arrayBuffer())]).toEqual([0, 1, 2, 255])
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
 })
@@ -0,0 +1,119 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  parseParamValue,
+  serializePathParam,
+  serializeQueryParam,
+  serializeHeaderParam,
+  serializeCookieParam,
+} from '@/http/params.js'
+import type { ParameterInfo, SchemaInfo } from '@/types/index.js'
+
+function schema(type: SchemaInfo['type']): SchemaInfo {
+  return { type, displayType: type, nullable: false, readOnly: false, writeOnly: false }
+}
+
+function param(overrides: Partial<ParameterInfo> & Pick<ParameterInfo, 'location'>): ParameterInfo {
+  return { name: 'id', required: false, deprecated: false, ...overrides }
+}
+
+const ARRAY = '[3, 4, 5]'
+const OBJECT = '{"role": "admin", "firstName": "Alex"}'
+
+describe('parseParamValue', () => {
+  test('parses JSON for array and object schemas', () => {
+    expect(parseParamValue(param({ location: 'query', schema: schema('array') }), '["a", 1, null, {"b": 2}]'))
+      .toEqual({ kind: 'array', items: ['a', '1', '', '{"b":2}'] })
+    expect(parseParamValue(param({ location: 'query', schema: schema('object') }), '{"a": true}'))
+      .toEqual({ kind: 'object', entries: [['a', 'true']] })
+  })
+
+  test('keeps raw text when it does not match the schema shape', () => {
+    const tags = param({ location: 'query', schema: schema('array') })
+    expect(parseParamValue(tags, 'a,b')).toEqual({ kind: 'primitive', value: 'a,b' })
+    expect(parseParamValue(tags, '{"a": 1}')).toEqual({ kind: 'primitive', value: '{"a": 1}' })
+    expect(parseParamValue(param({ location: 'query', schema: schema('string') }), '[1]'))
+      .toEqual({ kind: 'primitive', value: '[1]' })
+  })
+})
+
+describe('serializePathParam', () => {
+  const cases: readonly [string, boolean, string, string][] = [
+    ['simple', false, ARRAY, '3,4,5'],
+    ['simple', false, OBJECT, 'role,admin,firstName,Alex'],
+    ['simple', true, OBJECT, 'role=admin,firstName=Alex'],
+    ['label', false, ARRAY, '.3,4,5'],
+    ['label', true, ARRAY, '.3.4.5'],
+    ['label', true, OBJECT, '.role=admin.firstName=Alex'],
+    ['matrix', false, ARRAY, ';id=3,4,5'],
+    ['matrix', true, ARRAY, ';id=3;id=4;id=5'],
+    ['matrix', false, OBJECT, ';id=role,admin,firstName,Alex'],
+    ['matrix', true, OBJECT, ';role=admin;firstName=Alex'],
+  ]
+
+  for (const [style, explode, raw, expected] of cases) {
+    test(`${style}${explode ? ' exploded' : ''} ${raw.startsWith('[') ? 'array' : 'object'}`, () => {
+      const type = raw.startsWith('[') ? 'array' : 'object'
+      expect(serializePathParam(param({ location: 'path', style, explode, schema: schema(type) }), raw)).toBe(expected)
+    })
+  }
+
+  test('encodes primitive values, including for label and matrix', () => {
+    expect(serializePathParam(param({ location: 'path' }), 'a b/c')).toBe('a%20b%2Fc')
+    expect(serializePathParam(param({ location: 'path', style: 'label' }), '5')).toBe('.5')
+    expect(serializePathParam(param({ location: 'path', style: 'matrix' }), '5')).toBe(';id=5')
+  })
+})
+
+describe('serializeQueryParam', () => {
+  const tags = (style?: string, explode?: boolean) =>
+    param({ location: 'query', name: 'tags', schema: schema('array'), style, explode })
+  const filter = (style?: string, explode?: boolean) =>
+    param({ location: 'query', name: 'filter', schema: schema('object'), style, explode })
+
+  test('repeats keys for exploded form arrays by default', () => {
+    expect(serializeQueryParam(tags(), '["a b", "c"]')).toEqual(['tags=a+b', 'tags=c'])
+    expect(serializeQueryParam(tags('form', false), '["a", "c"]')).toEqual(['tags=a,c'])
+  })
+
+  test('joins space and pipe delimited arrays', () => {
+    expect(serializeQueryParam(tags('spaceDelimited'), '["a", "b"]')).toEqual(['tags=a%20b'])
+    expect(serializeQueryParam(tags('pipeDelimited'), '["a", "b"]')).toEqual(['tags=a|b'])
+  })
+
+  test('serializes objects as form pairs or deepObject keys', () => {
+    expect(serializeQueryParam(filter(), '{"a": 1, "b": "x"}')).toEqual(['a=1', 'b=x'])
+    expect(serializeQueryParam(filter('form', false), '{"a": 1}')).toEqual(['filter=a,1'])
+    expect(serializeQueryParam(filter('deepObject', true), '{"a": 1, "b c": "x&y"}'))
+      .toEqual(['filter[a]=1', 'filter[b+c]=x%26y'])
+  })
+
+  test('sends primitives like URLSearchParams would', () => {
+    expect(serializeQueryParam(param({ location: 'query', name: 'q' }), 'a b&c')).toEqual(['q=a+b%26c'])
+  })
+})
+
+describe('serializeHeaderParam', () => {
+  test('uses the simple style without encoding', () => {
+    const header = (type: SchemaInfo['type'], explode?: boolean) =>
+      param({ location: 'header', schema: schema(type), explode })
+    expect(serializeHeaderParam(header('array'), '["a b", "c"]')).toBe('a b,c')
+    expect(serializeHeaderParam(header('object'), '{"a": 1}')).toBe('a,1')
+    expect(serializeHeaderParam(header('object', true), '{"a": 1}')).toBe('a=1')
+    expect(serializeHeaderParam(header('string'), 'plain')).toBe('plain')
+  })
+})
+
+describe('serializeCookieParam', () => {
+  test('sends one pair unless explode is set', () => {
+    const cookie = (type: SchemaInfo['type'], explode?: boolean) =>
+      param({ location: 'cookie', name: 'prefs', schema: schema(type), explode })
+    expect(serializeCookieParam(cookie('array'), '["a", "b"]')).toEqual(['prefs=a,b'])
+    expect(serializeCookieParam(cookie('array', true), '["a", "b"]')).toEqual(['prefs=a', 'prefs=b'])
+    expect(serializeCookieParam(cookie('object', true), '{"lang": "en"}')).toEqual(['lang=en'])
+  })
+
+  test('escapes only characters cookies cannot hold', () => {
+    expect(serializeCookieParam(param({ location: 'cookie', name: 'token' }), 'a=b/c; d'))
+      .toEqual(['token=a=b/c%3B%20d'])
+  })
+})
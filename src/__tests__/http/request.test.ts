@@ -0,0 +1,362 @@
+import { describe, expect, test } from 'bun:test'
+import { buildRequest } from '@/http/request.js'
+import { HttpRequestError } from '@/types/index.js'
+import type { Endpoint, SchemaInfo } from '@/types/index.js'
+
+function makeEndpoint(overrides: Partial<Endpoint> = {}): Endpoint {
+  return {
+    id: 'get:/pets/{petId}',
+    method: 'get',
+    path: '/pets/{petId}',
+    tags: [],
+    deprecated: false,
+    parameters: [
+      { name: 'petId', location: 'path', required: true, deprecated: false },
+      { name: 'status', location: 'query', required: false, deprecated: false },
+      { name: 'X-Trace', location: 'header', required: false, deprecated: false },
+    ],
+    responses: [],
+    ...overrides,
+  }
+}
+
+function makeSchema(overrides: Partial<SchemaInfo> & { type: SchemaInfo['type'] }): SchemaInfo {
+  return { displayType: overrides.type, nullable: false, readOnly: false, writeOnly: false, ...overrides }
+}
+
+const loginSchema = makeSchema({
+  type: 'object',
+  properties: new Map([
+    ['username', makeSchema({ type: 'string' })],
+    ['password', makeSchema({ type: 'string' })],
+  ]),
+})
+
+const uploadSchema = makeSchema({
+  type: 'object',
+  properties: new Map([
+    ['title', makeSchema({ type: 'string' })],
+    ['file', makeSchema({ type: 'string', format: 'binary' })],
+  ]),
+})
+
+describe('buildRequest', () => {
+  test('substitutes path params and appends query params', () => {
+    const request = buildRequest({
+      endpoint: makeEndpoint(),
+      serverUrl: 'https://api.example.com/v1/',
+      paramValues: new Map([
+        ['path:petId', '42'],
+        ['query:status', 'sold'],
+      ]),
+      credentials: { method: 'none' },
+      bodyText: '{}',
+    })
+
+    expect(request.method).toBe('get')
+    expect(request.url).toBe('https://api.example.com/v1/pets/42?status=sold')
+    expect(request.body).toBeUndefined()
+  })
+
+  test('throws HttpRequestError for a missing path param', () => {
+    expect(() =>
+      buildRequest({
+        endpoint: makeEndpoint(),
+        serverUrl: 'https://api.example.com',
+        paramValues: new Map(),
+        credentials: { method: 'none' },
+        bodyText: '{}',
+      }),
+    ).toThrow(new HttpRequestError('Missing required path parameter: petId'))
+  })
+
+  test('adds header params and lets auth override them', () => {
+    const request = buildRequest({
+      endpoint: makeEndpoint({
+        parameters: [{ name: 'Authorization', location: 'header', required: false, deprecated: false }],
+        path: '/pets',
+      }),
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map([['header:Authorization', 'manual']]),
+      credentials: { method: 'bearer', token: 'tok' },
+      bodyText: '{}',
+    })
+
+    expect(request.headers.get('Authorization')).toBe('Bearer tok')
+  })
+
+  test('applies every credential of a scheme combination', () => {
+    const request = buildRequest({
+      endpoint: makeEndpoint({ path: '/pets', parameters: [] }),
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map(),
+      credentials: [
+        { method: 'bearer', token: 'tok' },
+        { method: 'apiKey', key: 'k', paramName: 'X-API-Key', location: 'header' },
+      ],
+      bodyText: '{}',
+    })
+
+    expect(request.headers.get('Authorization')).toBe('Bearer tok')
+    expect(request.headers.get('X-API-Key')).toBe('k')
+  })
+
+  test('sends extra headers after header params, with auth still winning', () => {
+    const request = buildRequest({
+      endpoint: makeEndpoint({ path: '/pets', parameters: [] }),
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map(),
+      extraHeaders: new Map([['X-Trace', '{{trace}}'], ['Authorization', 'manual']]),
+      credentials: { method: 'bearer', token: 'tok' },
+      bodyText: '{}',
+      variables: new Map([['trace', 'abc']]),
+    })
+
+    expect(request.headers.get('X-Trace')).toBe('abc')
+    expect(request.headers.get('Authorization')).toBe('Bearer tok')
+  })
+
+  test('serializes array and object params according to their style', () => {
+    const request = buildRequest({
+      endpoint: makeEndpoint({
+        path: '/pets/{ids}',
+        parameters: [
+          { name: 'ids', location: 'path', required: true, deprecated: false, style: 'matrix', explode: true, schema: makeSchema({ type: 'array' }) },
+          { name: 'tags', location: 'query', required: false, deprecated: false, schema: makeSchema({ type: 'array' }) },
+          { name: 'filter', location: 'query', required: false, deprecated: false, style: 'deepObject', explode: true, schema: makeSchema({ type: 'object' }) },
+          { name: 'X-Ids', location: 'header', required: false, deprecated: false, schema: makeSchema({ type: 'array' }) },
+        ],
+      }),
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map([
+        ['path:ids', '[1, 2]'],
+        ['query:tags', '["a", "b"]'],
+        ['query:filter', '{"color": "red"}'],
+        ['header:X-Ids', '[1, 2]'],
+      ]),
+      credentials: { method: 'none' },
+      bodyText: '',
+    })
+
+    expect(request.url).toBe('https://api.example.com/pets/;ids=1;ids=2?tags=a&tags=b&filter[color]=red')
+    expect(request.headers.get('X-Ids')).toBe('1,2')
+  })
+
+  test('sends cookie params and apiKey cookie auth in one Cookie header', () => {
+    const request = buildRequest({
+      endpoint: makeEndpoint({
+        path: '/pets',
+        parameters: [
+          { name: 'theme', location: 'cookie', required: false, deprecated: false },
+          { name: 'session', location: 'cookie', required: false, deprecated: false },
+        ],
+      }),
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map([['cookie:theme', 'dark'], ['cookie:session', 'typed']]),
+      extraHeaders: new Map([['cookie', 'tracking=1']]),
+      credentials: { method: 'apiKey', key: 's3cret', paramName: 'session', location: 'cookie' },
+      bodyText: '',
+    })
+
+    expect([...request.headers]).toEqual([['cookie', 'tracking=1; theme=dark; session=s3cret']])
+  })
+
+  test('puts apiKey query auth into the query string', () => {
+    const request = buildRequest({
+      endpoint: makeEndpoint({ parameters: [], path: '/pets' }),
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map(),
+      credentials: { method: 'apiKey', key: 'k', paramName: 'api_key', location: 'query' },
+      bodyText: '{}',
+    })
+
+    expect(request.url).toBe('https://api.example.com/pets?api_key=k')
+  })
+
+  test('sends the body with a JSON content type when the endpoint has a request body', () => {
+    const request = buildRequest({
+      endpoint: makeEndpoint({
+        method: 'post',
+        path: '/pets',
+        parameters: [],
+        requestBody: { required: true, content: [{ mediaType: 'application/json' }] },
+      }),
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map(),
+      credentials: { method: 'none' },
+      bodyText: '{"name":"Rex"}',
+    })
+
+    expect(request.headers.get('Content-Type')).toBe('application/json')
+    expect(request.body).toBe('{"name":"Rex"}')
+  })
+
+  test('sends no body when the body text is undefined', () => {
+    const request = buildRequest({
+      endpoint: makeEndpoint({
+        method: 'post',
+        path: '/pets',
+        parameters: [],
+        requestBody: { required: false, content: [{ mediaType: 'application/json' }] },
+      }),
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map(),
+      credentials: { method: 'none' },
+      bodyText: undefined,
+    })
+
+    expect(request.headers.get('Content-Type')).toBeUndefined()
+    expect(request.body).toBeUndefined()
+  })
+
+  test('expands {{variables}} in params, credentials and body', () => {
+    const request = buildRequest({
+      endpoint: makeEndpoint({
+        method: 'put',
+        requestBody: { required: true, content: [{ mediaType: 'application/json' }] },
+      }),
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map([
+        ['path:petId', '{{petId}}'],
+        ['query:status', '{{ status }}'],
+        ['header:X-Trace', 'trace-{{unknown}}'],
+      ]),
+      credentials: { method: 'bearer', token: '{{token}}' },
+      bodyText: '{"owner":"{{owner}}"}',
+      variables: new Map([
+        ['petId', '7'],
+        ['status', 'sold'],
+        ['token', 'secret'],
+        ['owner', 'alice'],
+      ]),
+    })
+
+    expect(request.url).toBe('https://api.example.com/pets/7?status=sold')
+    expect(request.headers.get('Authorization')).toBe('Bearer secret')
+    expect(request.headers.get('X-Trace')).toBe('trace-{{unknown}}')
+    expect(request.body).toBe('{"owner":"alice"}')
+  })
+
+  test('sends the selected JSON media type as Content-Type', () => {
+    const request = buildRequest({
+      endpoint: makeEndpoint({
+        method: 'patch',
+        requestBody: { required: true, content: [{ mediaType: 'application/merge-patch+json' }] },
+      }),
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map([['path:petId', '1']]),
+      credentials: { method: 'none' },
+      bodyText: '{"name":"Rex"}',
+      bodyMediaType: 'application/merge-patch+json',
+    })
+
+    expect(request.headers.get('Content-Type')).toBe('application/merge-patch+json')
+    expect(request.body).toBe('{"name":"Rex"}')
+  })
+
+  test('encodes form fields for application/x-www-form-urlencoded', () => {
+    const request = buildRequest({
+      endpoint: makeEndpoint({
+        method: 'post',
+        parameters: [],
+        path: '/login',
+        requestBody: {
+          required: true,
+          content: [{ mediaType: 'application/x-www-form-urlencoded', schema: loginSchema }],
+        },
+      }),
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map(),
+      credentials: { method: 'none' },
+      bodyText: '{}',
+      bodyMediaType: 'application/x-www-form-urlencoded',
+      formValues: new Map([['username', '{{user}}'], ['password', 'p@ss word']]),
+      variables: new Map([['user', 'alice']]),
+    })
+
+    expect(request.headers.get('Content-Type')).toBe('application/x-www-form-urlencoded')
+    expect(request.body).toBe('username=alice&password=p%40ss+word')
+    expect(request.multipart).toBeUndefined()
+  })
+
+  test('builds multipart parts and leaves Content-Type to fetch', () => {
+    const request = buildRequest({
+      endpoint: makeEndpoint({
+        method: 'post',
+        parameters: [],
+        path: '/upload',
+        requestBody: {
+          required: true,
+          content: [{ mediaType: 'multipart/form-data', schema: uploadSchema }],
+        },
+      }),
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map(),
+      credentials: { method: 'none' },
+      bodyText: '{}',
+      bodyMediaType: 'multipart/form-data',
+      formValues: new Map([['title', 'Report'], ['file', './report.pdf']]),
+    })
+
+    expect(request.headers.has('Content-Type')).toBe(false)
+    expect(request.body).toBeUndefined()
+    expect(request.multipart).toEqual([
+      { kind: 'field', name: 'title', value: 'Report' },
+      { kind: 'file', name: 'file', path: './report.pdf' },
+    ])
+  })
+
+  test('sends raw text and XML bodies with their media type', () => {
+    const request = buildRequest({
+      endpoint: makeEndpoint({
+        method: 'post',
+        parameters: [],
+        path: '/notes',
+        requestBody: { required: true, content: [{ mediaType: 'application/xml' }, { mediaType: 'text/plain' }] },
+      }),
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map(),
+      credentials: { method: 'none' },
+      bodyText: '<note>{{text}}</note>',
+      bodyMediaType: 'application/xml',
+      variables: new Map([['text', 'hi']]),
+    })
+
+    expect(request.headers.get('Content-Type')).toBe('application/xml')
+    expect(request.body).toBe('<note>hi</note>')
+  })
+
+  test('sends a binary @path body from the file', () => {
+    const endpoint = makeEndpoint({
+      method: 'put',
+      parameters: [],
+      path: '/photo',
+      requestBody: { required: true, content: [{ mediaType: 'image/*' }] },
+    })
+    const request = buildRequest({
+      endpoint,
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map(),
+      credentials: { method: 'none' },
+      bodyText: '@{{dir}}/photo.png',
+      bodyMediaType: 'image/*',
+      variables: new Map([['dir', '/tmp']]),
+    })
+
+    expect(request.headers.get('Content-Type')).toBe('application/octet-stream')
+    expect(request.body).toBeUndefined()
+    expect(request.bodyFile).toBe('/tmp/photo.png')
+
+    // Only binary bodies read files; text is sent as typed
+    const text = buildRequest({
+      endpoint: makeEndpoint({ method: 'put', parameters: [], requestBody: { required: true, content: [{ mediaType: 'text/plain' }] } }),
+      serverUrl: 'https://api.example.com',
+      paramValues: new Map(),
+      credentials: { method: 'none' },
+      bodyText: '@mention',
+      bodyMediaType: 'text/plain',
+    })
+    expect(text.body).toBe('@mention')
+    expect(text.bodyFile).toBeUndefined()
+  })
+})
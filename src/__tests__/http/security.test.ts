@@ -0,0 +1,78 @@
+import { describe, test, expect } from 'bun:test'
+import { operationSecurity, describeSecurity, checkSecurity } from '@/http/security.js'
+import type { Endpoint, SecurityAlternative } from '@/types/index.js'
+
+function makeEndpoint(overrides: Partial<Endpoint> = {}): Endpoint {
+  return {
+    id: 'get-/pets',
+    method: 'get',
+    path: '/pets',
+    tags: [],
+    deprecated: false,
+    parameters: [],
+    responses: [],
+    ...overrides,
+  }
+}
+
+const apiKeyAndBearer: SecurityAlternative = [{ name: 'apiKey', scopes: [] }, { name: 'bearerAuth', scopes: [] }]
+const oauth: SecurityAlternative = [{ name: 'oauth', scopes: ['read:pets'] }]
+
+describe('operationSecurity', () => {
+  test('prefers the operation security over the global one', () => {
+    expect(operationSecurity(makeEndpoint({ security: [oauth] }), [apiKeyAndBearer])).toEqual([oauth])
+  })
+
+  test('keeps an explicit empty list as anonymous', () => {
+    expect(operationSecurity(makeEndpoint({ security: [] }), [oauth])).toEqual([])
+  })
+
+  test('falls back to the global security, or null without any', () => {
+    expect(operationSecurity(makeEndpoint(), [oauth])).toEqual([oauth])
+    expect(operationSecurity(makeEndpoint(), [])).toBeNull()
+  })
+})
+
+describe('describeSecurity', () => {
+  test('joins schemes with + and alternatives with or', () => {
+    expect(describeSecurity([apiKeyAndBearer, oauth])).toBe('apiKey + bearerAuth or oauth (read:pets)')
+  })
+
+  test('describes anonymous access', () => {
+    expect(describeSecurity([])).toBe('none (anonymous)')
+    expect(describeSecurity([oauth, []])).toBe('oauth (read:pets) or none')
+  })
+})
+
+describe('checkSecurity', () => {
+  test('picks the alternative with the selected scheme', () => {
+    const result = checkSecurity([oauth, apiKeyAndBearer], 'bearerAuth', () => true)
+
+    expect(result).toEqual({ alternative: apiKeyAndBearer, warning: null })
+  })
+
+  test('prefers a complete alternative over an incomplete one with the selected scheme', () => {
+    const result = checkSecurity([apiKeyAndBearer, oauth], 'bearerAuth', name => name !== 'apiKey')
+
+    expect(result.alternative).toEqual(oauth)
+    expect(result.warning).toBeNull()
+  })
+
+  test('warns about missing credentials', () => {
+    const result = checkSecurity([apiKeyAndBearer], 'bearerAuth', name => name === 'bearerAuth')
+
+    expect(result.alternative).toEqual(apiKeyAndBearer)
+    expect(result.warning).toBe('Missing credentials for apiKey; this operation requires apiKey + bearerAuth')
+  })
+
+  test('warns when the selected scheme is not accepted', () => {
+    const result = checkSecurity([oauth], 'basicAuth', () => true)
+
+    expect(result.alternative).toEqual(oauth)
+    expect(result.warning).toBe('basicAuth isn\'t accepted by this operation; sending oauth (read:pets)')
+  })
+
+  test('sends nothing for anonymous operations', () => {
+    expect(checkSecurity([], 'bearerAuth', () => true)).toEqual({ alternative: [], warning: null })
+  })
+})
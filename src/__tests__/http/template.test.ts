@@ -132,6 +132,23 @@ describe('generateBodyTemplate', () => {
     expect(generateBodyTemplate(schema)).toBe('"active"')
   })
 
+  test('numeric and boolean enum values keep their type', () => {
+    expect(generateBodyTemplate(makeSchema({ type: 'integer', displayType: 'enum', enumValues: ['2', '4'] }))).toBe('2')
+    expect(generateBodyTemplate(makeSchema({ type: 'boolean', displayType: 'enum', enumValues: ['true'] }))).toBe('true')
+  })
+
+  test('leaves out readOnly properties', () => {
+    const schema = makeSchema({
+      type: 'object',
+      displayType: 'Pet',
+      properties: new Map<string, SchemaInfo>([
+        ['id', makeSchema({ type: 'integer', displayType: 'integer', readOnly: true })],
+        ['name', makeSchema({ type: 'string', displayType: 'string' })],
+      ]),
+    })
+    expect(JSON.parse(generateBodyTemplate(schema))).toEqual({ name: '' })
+  })
+
   test('circular reference protection returns empty object', () => {
     const schema = makeSchema({
       type: 'object',
@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  interpolate,
+  splitVariables,
+  findUnresolvedVariables,
+  interpolateCredentials,
+} from '@/http/variables.js'
+
+const vars = new Map([
+  ['host', 'api.example.com'],
+  ['api.version', 'v2'],
+  ['empty', ''],
+])
+
+describe('interpolate', () => {
+  test('replaces known variables, allowing padding inside the braces', () => {
+    expect(interpolate('https://{{host}}/{{ api.version }}/pets', vars)).toBe('https://api.example.com/v2/pets')
+  })
+
+  test('substitutes empty values', () => {
+    expect(interpolate('a{{empty}}b', vars)).toBe('ab')
+  })
+
+  test('leaves unknown variables and single braces untouched', () => {
+    expect(interpolate('{{nope}} /pets/{petId}', vars)).toBe('{{nope}} /pets/{petId}')
+  })
+})
+
+describe('splitVariables', () => {
+  test('splits text into plain and variable segments', () => {
+    expect(splitVariables('Bearer {{host}} {{nope}}!', vars)).toEqual([
+      { kind: 'text', text: 'Bearer ' },
+      { kind: 'variable', text: '{{host}}', name: 'host', resolved: true },
+      { kind: 'text', text: ' ' },
+      { kind: 'variable', text: '{{nope}}', name: 'nope', resolved: false },
+      { kind: 'text', text: '!' },
+    ])
+  })
+
+  test('returns a single text segment without variables', () => {
+    expect(splitVariables('plain', vars)).toEqual([{ kind: 'text', text: 'plain' }])
+  })
+})
+
+describe('findUnresolvedVariables', () => {
+  test('lists unknown names once, in order of appearance', () => {
+    expect(findUnresolvedVariables(['{{b}} {{host}}', '{{a}} {{b}}'], vars)).toEqual(['b', 'a'])
+  })
+})
+
+describe('interpolateCredentials', () => {
+  test('expands secret fields but not the API key parameter name', () => {
+    expect(interpolateCredentials(
+      { method: 'apiKey', key: '{{host}}', paramName: '{{host}}', location: 'header' },
+      vars,
+    )).toEqual({ method: 'apiKey', key: 'api.example.com', paramName: '{{host}}', location: 'header' })
+
+    expect(interpolateCredentials({ method: 'basic', username: '{{host}}', password: 'p{{empty}}' }, vars))
+      .toEqual({ method: 'basic', username: 'api.example.com', password: 'p' })
+  })
+
+  test('returns none unchanged', () => {
+    const none = { method: 'none' } as const
+    expect(interpolateCredentials(none, vars)).toBe(none)
+  })
+})
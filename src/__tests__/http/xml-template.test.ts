@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'bun:test'
+import { generateXmlTemplate } from '@/http/xml-template.js'
+import type { SchemaInfo } from '@/types/index.js'
+
+function schema(overrides: Partial<SchemaInfo> & { type: SchemaInfo['type'] }): SchemaInfo {
+  return {
+    displayType: overrides.type,
+    nullable: false,
+    readOnly: false,
+    writeOnly: false,
+    ...overrides,
+  }
+}
+
+const DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>'
+
+describe('generateXmlTemplate', () => {
+  test('renders properties as child elements with sample values', () => {
+    const pet = schema({
+      type: 'object',
+      xml: { name: 'Pet', attribute: false, wrapped: false },
+      properties: new Map<string, SchemaInfo>([
+        ['id', schema({ type: 'integer', readOnly: true })],
+        ['name', schema({ type: 'string', example: 'Rex & co' })],
+        ['age', schema({ type: 'integer' })],
+        ['status', schema({ type: 'string', enumValues: ['available', 'sold'] })],
+      ]),
+    })
+
+    expect(generateXmlTemplate(pet)).toBe([
+      DECLARATION,
+      '<Pet>',
+      '  <name>Rex &amp; co</name>',
+      '  <age>0</age>',
+      '  <status>available</status>',
+      '</Pet>',
+    ].join('\n'))
+  })
+
+  test('falls back to the given root name', () => {
+    expect(generateXmlTemplate(schema({ type: 'string' }), 'note')).toBe(`${DECLARATION}\n<note></note>`)
+    expect(generateXmlTemplate(schema({ type: 'object' }))).toBe(`${DECLARATION}\n<root/>`)
+  })
+
+  test('honors attribute, name, prefix and namespace hints', () => {
+    const book = schema({
+      type: 'object',
+      xml: { name: 'book', namespace: 'https://example.com/schema', prefix: 'bk', attribute: false, wrapped: false },
+      properties: new Map<string, SchemaInfo>([
+        ['id', schema({ type: 'integer', example: 7, xml: { attribute: true, wrapped: false } })],
+        ['title', schema({ type: 'string', xml: { name: 'Title', attribute: false, wrapped: false } })],
+      ]),
+    })
+
+    expect(generateXmlTemplate(book)).toBe([
+      DECLARATION,
+      '<bk:book xmlns:bk="https://example.com/schema" id="7">',
+      '  <Title></Title>',
+      '</bk:book>',
+    ].join('\n'))
+  })
+
+  test('repeats unwrapped array items and wraps wrapped ones', () => {
+    const animals = schema({
+      type: 'object',
+      xml: { name: 'zoo', attribute: false, wrapped: false },
+      properties: new Map<string, SchemaInfo>([
+        ['animals', schema({
+          type: 'array',
+          items: schema({ type: 'string', xml: { name: 'animal', attribute: false, wrapped: false } }),
+        })],
+        ['keepers', schema({
+          type: 'array',
+          xml: { name: 'staff', attribute: false, wrapped: true },
+          items: schema({ type: 'string' }),
+        })],
+      ]),
+    })
+
+    expect(generateXmlTemplate(animals)).toBe([
+      DECLARATION,
+      '<zoo>',
+      '  <animal></animal>',
+      '  <staff>',
+      '    <keepers></keepers>',
+      '  </staff>',
+      '</zoo>',
+    ].join('\n'))
+  })
+
+  test('merges allOf properties', () => {
+    const merged = schema({
+      type: 'object',
+      xml: { name: 'item', attribute: false, wrapped: false },
+      allOf: [
+        schema({ type: 'object', properties: new Map([['a', schema({ type: 'string' })]]) }),
+        schema({ type: 'object', properties: new Map([['b', schema({ type: 'boolean' })]]) }),
+      ],
+    })
+
+    expect(generateXmlTemplate(merged)).toBe(`${DECLARATION}\n<item>\n  <a></a>\n  <b>false</b>\n</item>`)
+  })
+})
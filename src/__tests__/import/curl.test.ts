@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'bun:test'
+import { parseCurl, tokenizeShell } from '@/import/curl.js'
+import { CurlImportError } from '@/import/errors.js'
+
+describe('tokenizeShell', () => {
+  test('splits on whitespace and honors quotes', () => {
+    expect(tokenizeShell(`curl -H 'X-A: b c' "d \\"e\\"" f\\ g`)).toEqual(['curl', '-H', 'X-A: b c', 'd "e"', 'f g'])
+  })
+
+  test('joins backslash line continuations, including pasted \\r', () => {
+    expect(tokenizeShell('curl \\\n  -X POST \\\r\n  url \\\r  -s')).toEqual(['curl', '-X', 'POST', 'url', '-s'])
+  })
+
+  test('expands ANSI-C $\'...\' strings', () => {
+    expect(tokenizeShell(`curl --data $'a\\nb\\'c'`)).toEqual(['curl', '--data', "a\nb'c"])
+  })
+
+  test('keeps single-quoted backslashes literal', () => {
+    expect(tokenizeShell(`'a\\nb'`)).toEqual(['a\\nb'])
+  })
+
+  test('throws on unterminated quotes', () => {
+    expect(() => tokenizeShell(`curl 'oops`)).toThrow(CurlImportError)
+    expect(() => tokenizeShell(`curl "oops`)).toThrow('Unterminated double quote')
+  })
+})
+
+describe('parseCurl', () => {
+  test('parses method, url, headers and body', () => {
+    const parsed = parseCurl(`curl -X PUT 'https://api.example.com/pets/1' -H 'Content-Type: application/json' -H 'X-Trace:  abc ' --data-raw '{"name":"Rex"}'`)
+    expect(parsed).toEqual({
+      method: 'PUT',
+      url: 'https://api.example.com/pets/1',
+      headers: [['Content-Type', 'application/json'], ['X-Trace', 'abc']],
+      body: '{"name":"Rex"}',
+      ignoredOptions: [],
+    })
+  })
+
+  test('defaults to GET, or POST when there is data', () => {
+    expect(parseCurl('curl https://x.test/a').method).toBe('GET')
+    expect(parseCurl('curl https://x.test/a -d a=1').method).toBe('POST')
+  })
+
+  test('accepts glued short options and --opt=value', () => {
+    const parsed = parseCurl('curl -XDELETE --url=https://x.test/a -HAccept:text/plain')
+    expect(parsed.method).toBe('DELETE')
+    expect(parsed.url).toBe('https://x.test/a')
+    expect(parsed.headers).toEqual([['Accept', 'text/plain']])
+  })
+
+  test('joins several -d values with & and moves them to the query with -G', () => {
+    expect(parseCurl('curl https://x.test/a -d a=1 -d b=2').body).toBe('a=1&b=2')
+    const get = parseCurl('curl -G https://x.test/a?x=0 -d a=1 -d b=2')
+    expect(get.method).toBe('GET')
+    expect(get.url).toBe('https://x.test/a?x=0&a=1&b=2')
+    expect(get.body).toBeUndefined()
+  })
+
+  test('--json sets the JSON content type and accept headers', () => {
+    const parsed = parseCurl(`curl --json '{"a":1}' https://x.test/a`)
+    expect(parsed.method).toBe('POST')
+    expect(parsed.body).toBe('{"a":1}')
+    expect(parsed.headers).toEqual([['Content-Type', 'application/json'], ['Accept', 'application/json']])
+  })
+
+  test('maps -u, -A, -e and -b', () => {
+    const parsed = parseCurl('curl -u alice:s3:cret -A agent/1 -e https://ref.test -b sid=1 https://x.test/a')
+    expect(parsed.user).toEqual({ username: 'alice', password: 's3:cret' })
+    expect(parsed.headers).toEqual([['User-Agent', 'agent/1'], ['Referer', 'https://ref.test'], ['Cookie', 'sid=1']])
+  })
+
+  test('records flags that do not affect the request', () => {
+    expect(parseCurl('curl -sSL --compressed -o out.json https://x.test/a').ignoredOptions)
+      .toEqual(['-s', '-S', '-L', '--compressed', '-o'])
+  })
+
+  test('-I sends HEAD', () => {
+    expect(parseCurl('curl -I https://x.test/a').method).toBe('HEAD')
+  })
+
+  test('rejects file bodies except with --data-raw', () => {
+    expect(() => parseCurl('curl -d @body.json https://x.test/a')).toThrow('Reading the body from a file is not supported')
+    expect(parseCurl('curl --data-raw @handle https://x.test/a').body).toBe('@handle')
+  })
+
+  test('rejects non-curl input, unknown options and a missing URL', () => {
+    expect(() => parseCurl('wget https://x.test')).toThrow('Not a curl command')
+    expect(() => parseCurl('curl --form a=1 https://x.test')).toThrow('Unsupported curl option: --form')
+    expect(() => parseCurl('curl -X POST')).toThrow('No URL in curl command')
+    expect(() => parseCurl('curl -H')).toThrow('Missing value for -H')
+  })
+})
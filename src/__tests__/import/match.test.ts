@@ -0,0 +1,78 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { parseSpec } from '@/parser/index.js'
+import { importCurl } from '@/import/match.js'
+import type { ParsedSpec } from '@/types/index.js'
+
+const FIXTURES = join(import.meta.dir, '../fixtures')
+
+let spec: ParsedSpec
+
+beforeAll(async () => {
+  spec = await parseSpec(readFileSync(join(FIXTURES, 'petstore-3.0.yaml'), 'utf8'))
+})
+
+describe('importCurl', () => {
+  test('matches the operation through a spec server and fills path and query params', () => {
+    const result = importCurl(`curl 'https://api.petstore.io/v1/pets/rex%20jr?limit=5'`, spec)
+    expect(result.endpoint.id).toBe('get:/pets/{petId}')
+    expect(result.draft).toEqual({
+      endpointId: 'get:/pets/{petId}',
+      params: { 'path:petId': 'rex jr' },
+      serverUrl: 'https://api.petstore.io/v1',
+    })
+    expect(result.warnings).toEqual(['Dropped query parameter "limit" (not in the spec)'])
+  })
+
+  test('prefers literal path segments and matches the method', () => {
+    expect(importCurl('curl https://api.petstore.io/v1/pets?limit=5', spec).draft.params).toEqual({ 'query:limit': '5' })
+    expect(importCurl('curl -X DELETE https://api.petstore.io/v1/pets/7', spec).endpoint.id).toBe('delete:/pets/{petId}')
+  })
+
+  test('guesses the base URL when no spec server fits', () => {
+    const result = importCurl('curl https://staging.petstore.io/api/v1/store/inventory', spec)
+    expect(result.endpoint.id).toBe('get:/store/inventory')
+    expect(result.draft.serverUrl).toBe('https://staging.petstore.io/api/v1')
+  })
+
+  test('turns a bearer Authorization header into credentials for the bearer scheme', () => {
+    const result = importCurl(`curl https://api.petstore.io/v1/pets -H 'Authorization: Bearer tok'`, spec)
+    expect(result.draft.credentials).toEqual({ method: 'bearer', token: 'tok' })
+    expect(result.draft.authScheme).toBe('bearerAuth')
+    expect(result.draft.headers).toBeUndefined()
+  })
+
+  test('recognises an API key header case-insensitively', () => {
+    const result = importCurl(`curl -X DELETE https://api.petstore.io/v1/pets/7 -H 'x-api-key: k1'`, spec)
+    expect(result.draft.credentials).toEqual({ method: 'apiKey', key: 'k1', paramName: 'X-API-Key', location: 'header' })
+    expect(result.draft.authScheme).toBe('apiKey')
+  })
+
+  test('maps -u and Basic headers to basic credentials', () => {
+    expect(importCurl('curl -u alice:pw https://api.petstore.io/v1/pets', spec).draft.credentials)
+      .toEqual({ method: 'basic', username: 'alice', password: 'pw' })
+    const encoded = Buffer.from('bob:secret').toString('base64')
+    expect(importCurl(`curl https://api.petstore.io/v1/pets -H 'Authorization: Basic ${encoded}'`, spec).draft.credentials)
+      .toEqual({ method: 'basic', username: 'bob', password: 'secret' })
+  })
+
+  test('keeps undeclared headers and drops the body content type', () => {
+    const result = importCurl(`curl https://api.petstore.io/v1/pets -H 'Content-Type: application/json' -H 'X-Trace: abc' -d '{"name":"Rex"}'`, spec)
+    expect(result.endpoint.id).toBe('post:/pets')
+    expect(result.draft.headers).toEqual({ 'X-Trace': 'abc' })
+    expect(result.draft.body).toBe('{\n  "name": "Rex"\n}')
+  })
+
+  test('warns when the operation takes no body', () => {
+    const result = importCurl(`curl -X DELETE https://api.petstore.io/v1/pets/7 -d x`, spec)
+    expect(result.draft.body).toBeUndefined()
+    expect(result.warnings).toEqual(['Dropped the body: DELETE /pets/{petId} has no request body'])
+  })
+
+  test('throws when nothing matches', () => {
+    expect(() => importCurl('curl https://api.petstore.io/v1/owners', spec)).toThrow('No operation in the spec matches GET /v1/owners')
+    expect(() => importCurl('curl -X PATCH https://api.petstore.io/v1/pets', spec)).toThrow('No operation in the spec matches PATCH /v1/pets')
+    expect(() => importCurl('curl not-a-url', spec)).toThrow('Invalid URL: not-a-url')
+  })
+})
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { join } from 'path'
+import { tmpdir } from 'node:os'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { bundleSpec, BUNDLE_CONTAINER } from '@/loader/bundle.js'
+import { loadFromFile } from '@/loader/file.js'
+import { loadSpec } from '@/loader/index.js'
+import { parseSpec } from '@/parser/index.js'
+import { SpecLoadError } from '@/types/index.js'
+
+const FIXTURES = join(import.meta.dir, '../fixtures')
+
+describe('bundleSpec — local files', () => {
+  test('returns the result unchanged when there are no external refs', async () => {
+    const original = await loadFromFile(join(FIXTURES, 'petstore-3.0.yaml'))
+    const result = await bundleSpec(original)
+    expect(result).toBe(original)
+  })
+
+  test('hoists external refs into the bundle container', async () => {
+    const result = await bundleSpec(
+      await loadFromFile(join(FIXTURES, 'multi-file/openapi.yaml')),
+    )
+    const doc = JSON.parse(result.content)
+
+    expect(result.format).toBe('json')
+    expect(Object.keys(doc[BUNDLE_CONTAINER]).sort()).toEqual([
+      'address.yaml',
+      'errors.yaml_Error',
+      'errors.yaml_NotFound',
+      'params.yaml_UserId',
+      'user.yaml_User',
+    ])
+    const schema = doc.paths['/users/{id}'].get.responses['200'].content['application/json'].schema
+    expect(schema.$ref).toBe(`#/${BUNDLE_CONTAINER}/user.yaml_User`)
+  })
+
+  test('lists the referenced files', async () => {
+    const result = await bundleSpec(
+      await loadFromFile(join(FIXTURES, 'multi-file/openapi.yaml')),
+    )
+
+    expect([...result.documents!].sort()).toEqual([
+      join(FIXTURES, 'multi-file/common/errors.yaml'),
+      join(FIXTURES, 'multi-file/common/params.yaml'),
+      join(FIXTURES, 'multi-file/schemas/address.yaml'),
+      join(FIXTURES, 'multi-file/schemas/user.yaml'),
+    ])
+  })
+
+  test('rewrites refs back into the root document to local pointers', async () => {
+    const result = await bundleSpec(
+      await loadFromFile(join(FIXTURES, 'multi-file/openapi.yaml')),
+    )
+    const doc = JSON.parse(result.content)
+    const user = doc[BUNDLE_CONTAINER]['user.yaml_User']
+
+    expect(user.properties.local.$ref).toBe('#/components/schemas/Local')
+    // Self-reference inside the external file resolves to the same hoisted entry
+    expect(user.properties.manager.$ref).toBe(`#/${BUNDLE_CONTAINER}/user.yaml_User`)
+  })
+
+  describe('missing files', () => {
+    let tempDir: string
+
+    beforeEach(async () => {
+      tempDir = await mkdtemp(join(tmpdir(), 'superapi-bundle-'))
+    })
+
+    afterEach(async () => {
+      await rm(tempDir, { recursive: true, force: true })
+    })
+
+    test('throws SpecLoadError naming the missing file and its referrer', async () => {
+      const specPath = join(tempDir, 'spec.yaml')
+      await Bun.write(
+        specPath,
+        [
+          "openapi: '3.0.0'",
+          'info: { title: T, version: "1" }',
+          'paths: {}',
+          'components:',
+          '  schemas:',
+          '    Missing:',
+          "      $ref: './nope.yaml#/Missing'",
+        ].join('\n'),
+      )
+
+      const promise = loadSpec(specPath)
+      await expect(promise).rejects.toBeInstanceOf(SpecLoadError)
+      await expect(promise).rejects.toThrow(`Referenced file not found: ${join(tempDir, 'nope.yaml')}`)
+    })
+
+    test('throws SpecLoadError when the pointer does not exist', async () => {
+      await Bun.write(join(tempDir, 'other.yaml'), 'Present:\n  type: string\n')
+      const specPath = join(tempDir, 'spec.yaml')
+      await Bun.write(
+        specPath,
+        "openapi: '3.0.0'\ninfo: { title: T, version: '1' }\npaths: {}\ncomponents:\n  schemas:\n    A:\n      $ref: './other.yaml#/Absent'\n",
+      )
+
+      await expect(loadSpec(specPath)).rejects.toThrow('$ref target not found')
+    })
+  })
+})
+
+describe('bundleSpec — URL specs', () => {
+  const originalFetch = globalThis.fetch
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+  })
+
+  test('follows relative refs against the spec URL', async () => {
+    const requested: string[] = []
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      const url = String(input)
+      requested.push(url)
+      if (url === 'https://api.example.com/specs/schemas/pet.json') {
+        return new Response(JSON.stringify({ type: 'object', properties: { name: { type: 'string' } } }))
+      }
+      return new Response('not found', { status: 404, statusText: 'Not Found' })
+    }) as typeof fetch
+
+    const result = await bundleSpec({
+      content: JSON.stringify({
+        openapi: '3.0.0',
+        info: { title: 'T', version: '1' },
+        paths: {},
+        components: { schemas: { Pet: { $ref: 'schemas/pet.json' } } },
+      }),
+      format: 'json',
+      inputType: 'url',
+      source: 'https://api.example.com/specs/openapi.json',
+    })
+
+    expect(requested).toEqual(['https://api.example.com/specs/schemas/pet.json'])
+    const doc = JSON.parse(result.content)
+    expect(doc.components.schemas.Pet.$ref).toBe(`#/${BUNDLE_CONTAINER}/pet.json`)
+  })
+})
+
+describe('parseSpec with bundled multi-file specs', () => {
+  test('resolves schemas, parameters and responses across files', async () => {
+    const loaded = await loadSpec(join(FIXTURES, 'multi-file/openapi.yaml'))
+    const spec = await parseSpec(loaded.content)
+
+    const getUser = spec.endpoints.find((e) => e.operationId === 'getUser')!
+    expect(getUser.parameters[0]!.name).toBe('id')
+    expect(getUser.parameters[0]!.location).toBe('path')
+
+    const ok = getUser.responses.find((r) => r.statusCode === '200')!
+    const user = ok.content[0]!.schema!
+    expect(user.required).toEqual(['id'])
+    expect(user.properties!.get('address')!.properties!.has('city')).toBe(true)
+
+    const notFound = getUser.responses.find((r) => r.statusCode === '404')!
+    expect(notFound.description).toBe('Not found')
+    expect(notFound.content[0]!.schema!.properties!.has('message')).toBe(true)
+  })
+})
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { join } from 'path'
+import { tmpdir } from 'node:os'
+import { mkdtemp, rename, rm, writeFile } from 'node:fs/promises'
+import { watchSpecFile } from '@/loader/watch.js'
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+let tempDir: string
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'superapi-watch-'))
+})
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true })
+})
+
+describe('watchSpecFile', () => {
+  test('calls onChange once for a burst of writes', async () => {
+    const specPath = join(tempDir, 'spec.yaml')
+    await writeFile(specPath, 'a')
+    let calls = 0
+    const stop = watchSpecFile(specPath, () => { calls++ }, 50)
+
+    await writeFile(specPath, 'b')
+    await writeFile(specPath, 'c')
+    await delay(200)
+    stop()
+
+    expect(calls).toBe(1)
+  })
+
+  test('detects atomic rename-over saves', async () => {
+    const specPath = join(tempDir, 'spec.yaml')
+    await writeFile(specPath, 'a')
+    let calls = 0
+    const stop = watchSpecFile(specPath, () => { calls++ }, 50)
+
+    const tempPath = join(tempDir, '.spec.yaml.swp')
+    await writeFile(tempPath, 'b')
+    await rename(tempPath, specPath)
+    await delay(200)
+    stop()
+
+    expect(calls).toBeGreaterThanOrEqual(1)
+  })
+
+  test('ignores changes to other files in the directory', async () => {
+    const specPath = join(tempDir, 'spec.yaml')
+    await writeFile(specPath, 'a')
+    let calls = 0
+    const stop = watchSpecFile(specPath, () => { calls++ }, 50)
+
+    await writeFile(join(tempDir, 'other.yaml'), 'b')
+    await delay(200)
+    stop()
+
+    expect(calls).toBe(0)
+  })
+
+  test('stops notifying after the returned cleanup runs', async () => {
+    const specPath = join(tempDir, 'spec.yaml')
+    await writeFile(specPath, 'a')
+    let calls = 0
+    const stop = watchSpecFile(specPath, () => { calls++ }, 50)
+    stop()
+
+    await writeFile(specPath, 'b')
+    await delay(200)
+
+    expect(calls).toBe(0)
+  })
+})
@@ -0,0 +1,174 @@
+import { describe, test, expect, beforeAll, afterAll, afterEach } from 'bun:test'
+import { createHash } from 'node:crypto'
+import type { Server } from 'bun'
+import { authorize, buildAuthorizeUrl, obtainToken } from '@/oauth/authorize.js'
+import type { OAuthCredentials } from '@/oauth/token.js'
+import { OAuthError } from '@/oauth/errors.js'
+
+// A local token endpoint: refresh tokens named 'revoked' are rejected
+let server: Server<undefined>
+let forms: URLSearchParams[] = []
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    hostname: '127.0.0.1',
+    async fetch(req) {
+      const form = new URLSearchParams(await req.text())
+      forms.push(form)
+      if (form.get('refresh_token') === 'revoked') {
+        return Response.json({ error: 'invalid_grant' }, { status: 400 })
+      }
+      return Response.json({ access_token: `tok-${form.get('grant_type')}`, token_type: 'Bearer', refresh_token: 'ref-1' })
+    },
+  })
+})
+
+afterAll(() => {
+  server.stop(true)
+})
+
+afterEach(() => {
+  forms = []
+})
+
+function makeCredentials(overrides: Partial<OAuthCredentials> = {}): OAuthCredentials {
+  return {
+    method: 'oauth2',
+    grant: 'authorizationCode',
+    tokenUrl: `http://127.0.0.1:${server.port}/token`,
+    authorizationUrl: 'https://auth.example.com/authorize?audience=pets',
+    clientId: 'cli',
+    clientSecret: '',
+    scopes: 'read:pets',
+    ...overrides,
+  }
+}
+
+// Plays the browser: follows the authorize URL's redirect with the given query
+function redirectTo(authorizeUrl: string, query: Record<string, string>): Promise<Response> {
+  const params = new URL(authorizeUrl).searchParams
+  const redirect = new URL(params.get('redirect_uri')!)
+  for (const [name, value] of Object.entries({ state: params.get('state')!, ...query })) {
+    redirect.searchParams.set(name, value)
+  }
+  return fetch(redirect)
+}
+
+describe('buildAuthorizeUrl', () => {
+  test('adds the PKCE challenge, scopes and state to the authorization URL', () => {
+    const url = new URL(buildAuthorizeUrl(makeCredentials(), 'http://127.0.0.1:5000/callback', 'challenge', 'st'))
+
+    expect(url.origin + url.pathname).toBe('https://auth.example.com/authorize')
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      audience: 'pets',
+      response_type: 'code',
+      client_id: 'cli',
+      redirect_uri: 'http://127.0.0.1:5000/callback',
+      scope: 'read:pets',
+      state: 'st',
+      code_challenge: 'challenge',
+      code_challenge_method: 'S256',
+    })
+  })
+})
+
+describe('authorize', () => {
+  test('exchanges the redirected code with the PKCE verifier', async () => {
+    let authorizeUrl = ''
+    let page: Promise<Response> | undefined
+    const token = await authorize(makeCredentials(), {
+      onAuthorizeUrl: (url) => {
+        authorizeUrl = url
+        page = redirectTo(url, { code: 'the-code' })
+      },
+    })
+
+    expect(token.accessToken).toBe('tok-authorization_code')
+    expect((await page!).status).toBe(200)
+    const params = new URL(authorizeUrl).searchParams
+    const form = forms[0]!
+    expect(form.get('code')).toBe('the-code')
+    expect(form.get('client_id')).toBe('cli')
+    expect(form.get('redirect_uri')).toBe(params.get('redirect_uri'))
+    expect(params.get('redirect_uri')).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/callback$/)
+    const challenge = createHash('sha256').update(form.get('code_verifier')!).digest('base64url')
+    expect(params.get('code_challenge')).toBe(challenge)
+  })
+
+  test('ignores redirects with another state', async () => {
+    const token = await authorize(makeCredentials(), {
+      onAuthorizeUrl: (url) => {
+        void redirectTo(url, { state: 'forged', code: 'evil' }).then(async (res) => {
+          expect(res.status).toBe(400)
+          await redirectTo(url, { code: 'the-code' })
+        })
+      },
+    })
+
+    expect(token.accessToken).toBe('tok-authorization_code')
+    expect(forms.map((form) => form.get('code'))).toEqual(['the-code'])
+  })
+
+  test('reports an error redirect', async () => {
+    const promise = authorize(makeCredentials(), {
+      onAuthorizeUrl: (url) => {
+        void redirectTo(url, { error: 'access_denied', error_description: 'User said no' })
+      },
+    })
+
+    await expect(promise).rejects.toThrow('Authorization failed: access_denied (User said no)')
+    expect(forms).toHaveLength(0)
+  })
+
+  test('stops listening when cancelled', async () => {
+    const controller = new AbortController()
+    let authorizeUrl = ''
+    const promise = authorize(makeCredentials(), {
+      onAuthorizeUrl: (url) => {
+        authorizeUrl = url
+        controller.abort()
+      },
+      signal: controller.signal,
+    })
+
+    await expect(promise).rejects.toThrow('Authorization cancelled')
+    await expect(redirectTo(authorizeUrl, { code: 'late' })).rejects.toThrow()
+  })
+
+  test('gives up after the timeout', async () => {
+    const promise = authorize(makeCredentials(), { onAuthorizeUrl: () => {}, timeoutMs: 20 })
+
+    await expect(promise).rejects.toThrow('Timed out waiting for the authorization')
+  })
+
+  test('requires an https authorization URL', async () => {
+    const promise = authorize(makeCredentials({ authorizationUrl: 'http://auth.example.com/authorize' }), {
+      onAuthorizeUrl: () => {},
+    })
+
+    await expect(promise).rejects.toThrow(OAuthError)
+  })
+})
+
+describe('obtainToken', () => {
+  test('refreshes with the previous refresh token', async () => {
+    const token = await obtainToken(makeCredentials(), {
+      previous: { accessToken: 'old', tokenType: 'Bearer', refreshToken: 'ref-0' },
+      authorize: { onAuthorizeUrl: () => { throw new Error('should not authorize') } },
+    })
+
+    expect(token.accessToken).toBe('tok-refresh_token')
+    expect(forms[0]!.get('refresh_token')).toBe('ref-0')
+  })
+
+  test('starts over when the refresh token is rejected', async () => {
+    const token = await obtainToken(makeCredentials({ grant: 'clientCredentials' }), {
+      previous: { accessToken: 'old', tokenType: 'Bearer', refreshToken: 'revoked' },
+      authorize: { onAuthorizeUrl: () => {} },
+    })
+
+    expect(token.accessToken).toBe('tok-client_credentials')
+    expect(forms.map((form) => form.get('grant_type'))).toEqual(['refresh_token', 'client_credentials'])
+  })
+})
@@ -0,0 +1,148 @@
+import { describe, test, expect, beforeAll, afterAll, afterEach } from 'bun:test'
+import type { Server } from 'bun'
+import { requestToken, refreshAccessToken, tokenCacheKey, isTokenFresh } from '@/oauth/token.js'
+import type { OAuthCredentials } from '@/oauth/token.js'
+import { OAuthError } from '@/oauth/errors.js'
+
+const NOW = Date.parse('2026-05-01T12:00:00.000Z')
+
+interface TokenCall {
+  readonly authorization: string | null
+  readonly contentType: string | null
+  readonly form: URLSearchParams
+}
+
+// A local token endpoint: /token answers like a real server, the other paths fail
+let server: Server<undefined>
+let calls: TokenCall[] = []
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    hostname: '127.0.0.1',
+    async fetch(req) {
+      const url = new URL(req.url)
+      calls.push({
+        authorization: req.headers.get('authorization'),
+        contentType: req.headers.get('content-type'),
+        form: new URLSearchParams(await req.text()),
+      })
+      if (url.pathname === '/denied') {
+        return Response.json({ error: 'invalid_client', error_description: 'Unknown client' }, { status: 401 })
+      }
+      if (url.pathname === '/broken') {
+        return new Response('<html>oops</html>', { status: 502, statusText: 'Bad Gateway' })
+      }
+      if (url.pathname === '/no-token') {
+        return Response.json({ token_type: 'Bearer' })
+      }
+      return Response.json({ access_token: 'tok-123', token_type: 'bearer', expires_in: '3600', scope: 'read:pets' })
+    },
+  })
+})
+
+afterAll(() => {
+  server.stop(true)
+})
+
+afterEach(() => {
+  calls = []
+})
+
+function makeCredentials(overrides: Partial<OAuthCredentials> = {}): OAuthCredentials {
+  return {
+    method: 'oauth2',
+    grant: 'clientCredentials',
+    tokenUrl: `http://127.0.0.1:${server.port}/token`,
+    clientId: 'my client',
+    clientSecret: 's3cret:x',
+    scopes: 'read:pets write:pets',
+    ...overrides,
+  }
+}
+
+describe('requestToken', () => {
+  test('sends a client credentials grant with HTTP Basic client auth', async () => {
+    const token = await requestToken(makeCredentials(), NOW)
+
+    expect(token).toEqual({
+      accessToken: 'tok-123',
+      tokenType: 'bearer',
+      expiresAt: NOW + 3_600_000,
+      scope: 'read:pets',
+    })
+    const call = calls[0]!
+    expect(call.contentType).toBe('application/x-www-form-urlencoded')
+    expect(call.authorization).toBe(`Basic ${Buffer.from('my+client:s3cret%3Ax').toString('base64')}`)
+    expect(Object.fromEntries(call.form)).toEqual({ grant_type: 'client_credentials', scope: 'read:pets write:pets' })
+  })
+
+  test('sends the resource owner credentials for the password grant', async () => {
+    await requestToken(makeCredentials({ grant: 'password', username: 'alice', password: 'pw', scopes: '' }), NOW)
+
+    expect(Object.fromEntries(calls[0]!.form)).toEqual({ grant_type: 'password', username: 'alice', password: 'pw' })
+  })
+
+  test('identifies public clients in the body', async () => {
+    await requestToken(makeCredentials({ clientSecret: '' }), NOW)
+
+    expect(calls[0]!.authorization).toBeNull()
+    expect(calls[0]!.form.get('client_id')).toBe('my client')
+  })
+
+  test('reports the OAuth error of a rejected request', async () => {
+    const promise = requestToken(makeCredentials({ tokenUrl: `http://127.0.0.1:${server.port}/denied` }), NOW)
+
+    await expect(promise).rejects.toThrow(OAuthError)
+    await expect(promise).rejects.toThrow('Token request failed: invalid_client (Unknown client)')
+  })
+
+  test('reports the status when the error is not OAuth JSON', async () => {
+    const promise = requestToken(makeCredentials({ tokenUrl: `http://127.0.0.1:${server.port}/broken` }), NOW)
+
+    await expect(promise).rejects.toThrow('Token request failed: 502 Bad Gateway')
+  })
+
+  test('rejects a response without an access token', async () => {
+    const promise = requestToken(makeCredentials({ tokenUrl: `http://127.0.0.1:${server.port}/no-token` }), NOW)
+
+    await expect(promise).rejects.toThrow('Token response has no access_token')
+  })
+
+  test('refuses plain HTTP token URLs outside localhost', async () => {
+    const promise = requestToken(makeCredentials({ tokenUrl: 'http://auth.example.com/token' }), NOW)
+
+    await expect(promise).rejects.toThrow(OAuthError)
+    expect(calls).toHaveLength(0)
+  })
+})
+
+describe('refreshAccessToken', () => {
+  test('sends the refresh token and keeps it when the server does not rotate it', async () => {
+    const token = await refreshAccessToken(makeCredentials({ scopes: '' }), 'ref-1', NOW)
+
+    expect(token.refreshToken).toBe('ref-1')
+    expect(Object.fromEntries(calls[0]!.form)).toEqual({ grant_type: 'refresh_token', refresh_token: 'ref-1' })
+  })
+})
+
+describe('isTokenFresh', () => {
+  test('treats tokens close to expiry as stale', () => {
+    expect(isTokenFresh({ accessToken: 't', tokenType: 'Bearer', expiresAt: NOW + 60_000 }, NOW)).toBe(true)
+    expect(isTokenFresh({ accessToken: 't', tokenType: 'Bearer', expiresAt: NOW + 10_000 }, NOW)).toBe(false)
+  })
+
+  test('keeps tokens without an expiry', () => {
+    expect(isTokenFresh({ accessToken: 't', tokenType: 'Bearer' }, NOW)).toBe(true)
+  })
+})
+
+describe('tokenCacheKey', () => {
+  test('differs per client and scopes but not per secret', () => {
+    const base = makeCredentials()
+
+    expect(tokenCacheKey({ ...base, clientSecret: 'other' })).toBe(tokenCacheKey(base))
+    expect(tokenCacheKey({ ...base, scopes: 'read:pets' })).not.toBe(tokenCacheKey(base))
+    expect(tokenCacheKey({ ...base, clientId: 'other' })).not.toBe(tokenCacheKey(base))
+  })
+})
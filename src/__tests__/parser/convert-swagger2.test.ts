@@ -0,0 +1,157 @@
+import { describe, expect, test } from 'bun:test'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { convertSwagger2, isSwagger2 } from '@/parser/convert-swagger2.js'
+import { dereferenceSpec } from '@/parser/dereference.js'
+import { transformSpec } from '@/parser/transform.js'
+import { parseSpec } from '@/parser/index.js'
+
+const FIXTURES = join(import.meta.dir, '../fixtures')
+
+function loadConverted(): Record<string, unknown> {
+  const content = readFileSync(join(FIXTURES, 'petstore-2.0.yaml'), 'utf8')
+  return convertSwagger2(dereferenceSpec(content))
+}
+
+describe('isSwagger2', () => {
+  test('detects swagger 2.0 documents', () => {
+    expect(isSwagger2({ swagger: '2.0' })).toBe(true)
+  })
+
+  test('rejects OpenAPI 3 documents', () => {
+    expect(isSwagger2({ openapi: '3.0.0' })).toBe(false)
+    expect(isSwagger2({})).toBe(false)
+  })
+})
+
+describe('convertSwagger2', () => {
+  test('builds servers from schemes, host and basePath', () => {
+    const spec = transformSpec(loadConverted())
+
+    expect(spec.servers.map((s) => s.url)).toEqual([
+      'https://api.petstore.io/v1',
+      'http://api.petstore.io/v1',
+    ])
+  })
+
+  test('defaults to https when schemes are missing', () => {
+    const doc = convertSwagger2({ swagger: '2.0', host: 'api.example.com', basePath: '/api', paths: {} })
+    expect(doc.servers).toEqual([{ url: 'https://api.example.com/api' }])
+  })
+
+  test('uses a relative basePath server when host is missing', () => {
+    const doc = convertSwagger2({ swagger: '2.0', basePath: '/api', paths: {} })
+    expect(doc.servers).toEqual([{ url: '/api' }])
+  })
+
+  test('maps definitions to component schemas', () => {
+    const spec = transformSpec(loadConverted())
+
+    expect([...spec.componentSchemas.keys()]).toEqual(['Pet', 'NewPet'])
+    expect(spec.componentSchemas.get('Pet')!.required).toEqual(['id', 'name'])
+  })
+
+  test('maps securityDefinitions to security schemes', () => {
+    const spec = transformSpec(loadConverted())
+
+    const apiKey = spec.securitySchemes.find((s) => s.name === 'apiKey')
+    expect(apiKey).toMatchObject({ type: 'apiKey', in: 'header', paramName: 'X-API-Key' })
+
+    const basic = spec.securitySchemes.find((s) => s.name === 'basicAuth')
+    expect(basic).toMatchObject({ type: 'http', scheme: 'basic' })
+
+    const oauth = spec.securitySchemes.find((s) => s.name === 'oauth')
+    expect(oauth!.type).toBe('oauth2')
+    expect(spec.globalSecurity).toEqual([[{ name: 'apiKey', scopes: [] }]])
+  })
+
+  test('converts a body parameter to a JSON request body', () => {
+    const spec = transformSpec(loadConverted())
+    const createPet = spec.endpoints.find((e) => e.operationId === 'createPet')!
+
+    expect(createPet.parameters).toHaveLength(0)
+    expect(createPet.requestBody!.required).toBe(true)
+    expect(createPet.requestBody!.content).toHaveLength(1)
+    expect(createPet.requestBody!.content[0]!.mediaType).toBe('application/json')
+    expect(createPet.requestBody!.content[0]!.schema!.properties!.has('name')).toBe(true)
+  })
+
+  test('converts formData parameters to a multipart request body', () => {
+    const spec = transformSpec(loadConverted())
+    const upload = spec.endpoints.find((e) => e.operationId === 'uploadPhoto')!
+
+    expect(upload.parameters.map((p) => p.name)).toEqual(['petId'])
+    const media = upload.requestBody!.content[0]!
+    expect(media.mediaType).toBe('multipart/form-data')
+    expect(media.schema!.properties!.get('file')!.format).toBe('binary')
+    expect(media.schema!.required).toEqual(['file'])
+  })
+
+  test('defaults formData without files to form-urlencoded', () => {
+    const doc = convertSwagger2({
+      swagger: '2.0',
+      paths: {
+        '/login': {
+          post: {
+            parameters: [{ name: 'user', in: 'formData', type: 'string' }],
+            responses: {},
+          },
+        },
+      },
+    })
+    const spec = transformSpec(doc)
+    expect(spec.endpoints[0]!.requestBody!.content[0]!.mediaType).toBe(
+      'application/x-www-form-urlencoded',
+    )
+  })
+
+  test('moves simple parameter types into schema and maps collectionFormat', () => {
+    const spec = transformSpec(loadConverted())
+    const listPets = spec.endpoints.find((e) => e.operationId === 'listPets')!
+
+    const limit = listPets.parameters.find((p) => p.name === 'limit')!
+    expect(limit.schema!.type).toBe('integer')
+    expect(limit.schema!.constraints).toEqual({ minimum: 1, maximum: 100 })
+
+    const tags = listPets.parameters.find((p) => p.name === 'tags')!
+    expect(tags.schema!.displayType).toBe('string[]')
+    expect(tags.style).toBe('form')
+    expect(tags.explode).toBe(true)
+  })
+
+  test('keeps path-level parameters', () => {
+    const spec = transformSpec(loadConverted())
+    const getPet = spec.endpoints.find((e) => e.operationId === 'getPetById')!
+
+    expect(getPet.parameters).toHaveLength(1)
+    expect(getPet.parameters[0]!.location).toBe('path')
+    expect(getPet.parameters[0]!.schema!.format).toBe('int64')
+  })
+
+  test('wraps response schemas and headers in OpenAPI 3 content', () => {
+    const spec = transformSpec(loadConverted())
+    const listPets = spec.endpoints.find((e) => e.operationId === 'listPets')!
+
+    const ok = listPets.responses.find((r) => r.statusCode === '200')!
+    expect(ok.content[0]!.mediaType).toBe('application/json')
+    expect(ok.content[0]!.schema!.type).toBe('array')
+    expect(ok.headers[0]!.name).toBe('X-Total-Count')
+    expect(ok.headers[0]!.schema!.type).toBe('integer')
+
+    const getPet = spec.endpoints.find((e) => e.operationId === 'getPetById')!
+    const fallback = getPet.responses.find((r) => r.statusCode === 'default')!
+    expect(fallback.content).toHaveLength(0)
+  })
+})
+
+describe('parseSpec with Swagger 2.0', () => {
+  test('parses a swagger 2.0 document end-to-end', async () => {
+    const content = readFileSync(join(FIXTURES, 'petstore-2.0.yaml'), 'utf8')
+    const result = await parseSpec(content)
+
+    expect(result.info.title).toBe('Petstore')
+    expect(result.endpoints).toHaveLength(4)
+    expect(result.tagGroups.map((g) => g.name)).toEqual(['pets'])
+    expect(result.servers).toHaveLength(2)
+  })
+})
@@ -139,9 +139,29 @@ describe('transformEndpoint', () => {
       security: [{ bearerAuth: [] }, { apiKey: ['read'] }],
       responses: { '200': { description: 'OK' } },
     })
-    expect(result.security).toHaveLength(2)
-    expect(result.security![0].name).toBe('bearerAuth')
-    expect(result.security![1].scopes).toEqual(['read'])
+    expect(result.security).toEqual([
+      [{ name: 'bearerAuth', scopes: [] }],
+      [{ name: 'apiKey', scopes: ['read'] }],
+    ])
+  })
+
+  test('keeps schemes required together in one alternative', () => {
+    const result = transformEndpoint('/secure', 'post', {
+      security: [{ apiKey: [], bearerAuth: [] }, {}],
+      responses: { '200': { description: 'OK' } },
+    })
+    expect(result.security).toEqual([
+      [{ name: 'apiKey', scopes: [] }, { name: 'bearerAuth', scopes: [] }],
+      [],
+    ])
+  })
+
+  test('keeps an empty security list as anonymous access', () => {
+    const result = transformEndpoint('/public', 'get', {
+      security: [],
+      responses: { '200': { description: 'OK' } },
+    })
+    expect(result.security).toEqual([])
   })
 
   test('defaults tags to empty array', () => {
@@ -117,6 +117,17 @@ describe('transformSchema', () => {
     expect(result.writeOnly).toBe(false)
   })
 
+  test('extracts xml hints', () => {
+    const result = transformSchema({
+      type: 'object',
+      xml: { name: 'Pet', prefix: 'p', namespace: 'https://example.com' },
+      properties: { id: { type: 'integer', xml: { attribute: true } } },
+    })
+    expect(result.xml).toEqual({ name: 'Pet', prefix: 'p', namespace: 'https://example.com', attribute: false, wrapped: false })
+    expect(result.properties?.get('id')?.xml?.attribute).toBe(true)
+    expect(transformSchema({ type: 'string' }).xml).toBeUndefined()
+  })
+
   test('handles schema with no type', () => {
     const result = transformSchema({})
     expect(result.type).toBe('unknown')
@@ -57,6 +57,41 @@ describe('transformSpec', () => {
     expect(result.servers[1].url).toBe('http://localhost:3000/v1')
   })
 
+  test('resolves relative server URLs against the spec URL', () => {
+    const doc = {
+      openapi: '3.0.0',
+      info: { title: 'Relative', version: '1' },
+      paths: {},
+      servers: [
+        { url: '/api/v3' },
+        { url: '../{version}/', variables: { version: { default: 'v2' } } },
+        { url: 'https://other.example.com' },
+        { url: '{scheme}://example.com', variables: { scheme: { default: 'https' } } },
+      ],
+    }
+    const result = transformSpec(doc, 'https://petstore.example.com/docs/openapi.json')
+
+    expect(result.servers.map((s) => s.url)).toEqual([
+      'https://petstore.example.com/api/v3',
+      'https://petstore.example.com/{version}/',
+      'https://other.example.com',
+      '{scheme}://example.com',
+    ])
+  })
+
+  test('keeps relative server URLs of specs loaded from files', () => {
+    const doc = { openapi: '3.0.0', info: { title: 'Relative', version: '1' }, paths: {}, servers: [{ url: '/api/v3' }] }
+
+    expect(transformSpec(doc).servers[0]!.url).toBe('/api/v3')
+  })
+
+  test('defaults to the spec origin when a URL-loaded spec has no servers', () => {
+    const doc = loadAndDeref('minimal-spec.json')
+    const result = transformSpec(doc, 'https://petstore.example.com/docs/openapi.json')
+
+    expect(result.servers.map((s) => s.url)).toEqual(['https://petstore.example.com/'])
+  })
+
   test('extracts security schemes', () => {
     const doc = loadAndDeref('petstore-3.0.yaml')
     const result = transformSpec(doc)
@@ -73,12 +108,42 @@ describe('transformSpec', () => {
     expect(apiKey!.paramName).toBe('X-API-Key')
   })
 
+  test('extracts oauth2 flows', () => {
+    const doc = {
+      openapi: '3.0.0',
+      info: { title: 'OAuth', version: '1' },
+      paths: {},
+      components: {
+        securitySchemes: {
+          oauth: {
+            type: 'oauth2',
+            flows: {
+              clientCredentials: { tokenUrl: 'https://auth.example.com/token', scopes: { 'read:pets': 'Read pets' } },
+            },
+          },
+        },
+      },
+    }
+    const [oauth] = transformSpec(doc).securitySchemes
+
+    expect(oauth!.flows).toEqual({
+      implicit: undefined,
+      password: undefined,
+      clientCredentials: {
+        authorizationUrl: undefined,
+        tokenUrl: 'https://auth.example.com/token',
+        refreshUrl: undefined,
+        scopes: { 'read:pets': 'Read pets' },
+      },
+      authorizationCode: undefined,
+    })
+  })
+
   test('extracts global security', () => {
     const doc = loadAndDeref('petstore-3.0.yaml')
     const result = transformSpec(doc)
 
-    expect(result.globalSecurity).toHaveLength(1)
-    expect(result.globalSecurity[0].name).toBe('bearerAuth')
+    expect(result.globalSecurity).toEqual([[{ name: 'bearerAuth', scopes: [] }]])
   })
 
   test('extracts component schemas', () => {
@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'bun:test'
+import { validateRequestBody } from '@/validation/request.js'
+import type { SchemaInfo } from '@/types/index.js'
+
+function makeSchema(overrides: Partial<SchemaInfo> = {}): SchemaInfo {
+  return {
+    type: 'object',
+    nullable: false,
+    readOnly: false,
+    writeOnly: false,
+    displayType: 'object',
+    ...overrides,
+  }
+}
+
+const owner = makeSchema({
+  properties: new Map<string, SchemaInfo>([
+    ['id', makeSchema({ type: 'integer', displayType: 'integer', readOnly: true })],
+    ['email', makeSchema({ type: 'string', displayType: 'string', constraints: { pattern: '^\\S+@\\S+$' } })],
+  ]),
+  required: ['id', 'email'],
+})
+
+const pet = makeSchema({
+  properties: new Map<string, SchemaInfo>([
+    ['id', makeSchema({ type: 'integer', displayType: 'integer', readOnly: true })],
+    ['name', makeSchema({ type: 'string', displayType: 'string', constraints: { minLength: 1 } })],
+    ['size', makeSchema({ type: 'string', displayType: 'enum', enumValues: ['s', 'm', 'l'] })],
+    ['owners', makeSchema({ type: 'array', displayType: 'Owner[]', items: owner })],
+  ]),
+  required: ['id', 'name'],
+})
+
+describe('validateRequestBody', () => {
+  test('accepts a body without readOnly fields even when they are required', () => {
+    expect(validateRequestBody(pet, { name: 'Rex', owners: [{ email: 'a@b.c' }] })).toEqual([])
+  })
+
+  test('reports required properties, types, enums and constraints with paths', () => {
+    expect(validateRequestBody(pet, { size: 'xl', owners: [{ email: 'nope' }, 'x'] })).toEqual([
+      { pointer: '/name', message: 'is required' },
+      { pointer: '/size', message: 'must be one of "s", "m", "l"' },
+      { pointer: '/owners/0/email', message: 'must match pattern "^\\S+@\\S+$"' },
+      { pointer: '/owners/1', message: 'must be object' },
+    ])
+    expect(validateRequestBody(pet, { name: '' })).toEqual([
+      { pointer: '/name', message: 'must NOT have fewer than 1 characters' },
+    ])
+  })
+
+  test('flags readOnly fields, including nested and allOf ones', () => {
+    const wrapped = makeSchema({ type: 'unknown', displayType: 'Pet', allOf: [pet] })
+    expect(validateRequestBody(wrapped, { id: 1, name: 'Rex', owners: [{ id: 2, email: 'a@b.c' }] })).toEqual([
+      { pointer: '/id', message: 'is read-only and must not be sent' },
+      { pointer: '/owners/0/id', message: 'is read-only and must not be sent' },
+    ])
+  })
+})
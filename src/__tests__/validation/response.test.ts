@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test'
+import { findDocumentedResponse, validateResponse } from '@/validation/response.js'
+import type { HttpResponse, ResponseInfo, SchemaInfo } from '@/types/index.js'
+
+function makeSchema(overrides: Partial<SchemaInfo> = {}): SchemaInfo {
+  return {
+    type: 'object',
+    nullable: false,
+    readOnly: false,
+    writeOnly: false,
+    displayType: 'object',
+    ...overrides,
+  }
+}
+
+function makeResponse(statusCode: string, schema?: SchemaInfo, mediaType = 'application/json'): ResponseInfo {
+  return {
+    statusCode,
+    description: statusCode,
+    headers: [],
+    content: schema ? [{ mediaType, schema }] : [],
+  }
+}
+
+function httpResponse(status: number, body: string): HttpResponse {
+  return { status, statusText: '', headers: new Map(), body, durationMs: 1 }
+}
+
+const idSchema = makeSchema({
+  properties: new Map([['id', makeSchema({ type: 'integer', displayType: 'integer' })]]),
+  required: ['id'],
+})
+
+describe('findDocumentedResponse', () => {
+  const responses = [makeResponse('200'), makeResponse('4XX'), makeResponse('default')]
+
+  test('prefers the exact status, then its range, then default', () => {
+    expect(findDocumentedResponse(responses, 200)?.statusCode).toBe('200')
+    expect(findDocumentedResponse(responses, 404)?.statusCode).toBe('4XX')
+    expect(findDocumentedResponse(responses, 500)?.statusCode).toBe('default')
+  })
+
+  test('returns null when nothing fits', () => {
+    expect(findDocumentedResponse([makeResponse('200')], 500)).toBeNull()
+  })
+})
+
+describe('validateResponse', () => {
+  test('valid when the body matches', () => {
+    expect(validateResponse([makeResponse('2XX', idSchema)], httpResponse(201, '{"id": 1}')))
+      .toEqual({ outcome: 'valid', statusCode: '2XX' })
+  })
+
+  test('lists violations when it does not', () => {
+    expect(validateResponse([makeResponse('200', idSchema)], httpResponse(200, '{}'))).toEqual({
+      outcome: 'invalid',
+      statusCode: '200',
+      violations: [{ pointer: '/id', message: 'is required' }],
+    })
+  })
+
+  test('flags a body that is not JSON', () => {
+    const result = validateResponse([makeResponse('200', idSchema)], httpResponse(200, '<html>'))
+    expect(result).toEqual({
+      outcome: 'invalid',
+      statusCode: '200',
+      violations: [{ pointer: '', message: 'response body is not valid JSON' }],
+    })
+  })
+
+  test('uses +json media types when there is no application/json', () => {
+    const responses = [makeResponse('200', idSchema, 'application/problem+json')]
+    expect(validateResponse(responses, httpResponse(200, '{"id": 1}')).outcome).toBe('valid')
+  })
+
+  test('skips undocumented statuses and responses without a JSON schema', () => {
+    expect(validateResponse([makeResponse('200', idSchema)], httpResponse(500, '{}')))
+      .toEqual({ outcome: 'skipped', reason: 'Status 500 is not documented' })
+    expect(validateResponse([makeResponse('204')], httpResponse(204, '')))
+      .toEqual({ outcome: 'skipped', reason: 'No application/json schema documented for 204' })
+  })
+})
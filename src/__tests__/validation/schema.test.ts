@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'bun:test'
+import { toJsonSchema, validateAgainstSchema } from '@/validation/schema.js'
+import type { SchemaInfo } from '@/types/index.js'
+
+function makeSchema(overrides: Partial<SchemaInfo> = {}): SchemaInfo {
+  return {
+    type: 'object',
+    nullable: false,
+    readOnly: false,
+    writeOnly: false,
+    displayType: 'object',
+    ...overrides,
+  }
+}
+
+const string = makeSchema({ type: 'string', displayType: 'string' })
+const integer = makeSchema({ type: 'integer', displayType: 'integer' })
+
+const pet = makeSchema({
+  properties: new Map<string, SchemaInfo>([
+    ['id', integer],
+    ['name', makeSchema({ type: 'string', displayType: 'string', constraints: { minLength: 1 } })],
+    ['status', makeSchema({ type: 'string', displayType: 'enum', enumValues: ['available', 'sold'] })],
+    ['tags', makeSchema({ type: 'array', displayType: 'string[]', items: string })],
+  ]),
+  required: ['id', 'name'],
+  additionalProperties: false,
+})
+
+describe('toJsonSchema', () => {
+  test('maps types, properties, required and constraints', () => {
+    expect(toJsonSchema(pet)).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        name: { type: 'string', minLength: 1 },
+        status: { type: 'string', enum: ['available', 'sold'] },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['id', 'name'],
+      additionalProperties: false,
+    })
+  })
+
+  test('turns enum strings back into numbers and booleans by type', () => {
+    expect(toJsonSchema(makeSchema({ type: 'integer', displayType: 'enum', enumValues: ['1', '2'] })).enum).toEqual([1, 2])
+    expect(toJsonSchema(makeSchema({ type: 'boolean', displayType: 'enum', enumValues: ['true'] })).enum).toEqual([true])
+  })
+
+  test('allows null for nullable schemas, with or without a type', () => {
+    expect(toJsonSchema(makeSchema({ type: 'string', displayType: 'string', nullable: true }))).toEqual({ type: ['string', 'null'] })
+    expect(toJsonSchema(makeSchema({ type: 'unknown', displayType: 'Pet', nullable: true, allOf: [pet] })))
+      .toEqual({ anyOf: [{ type: 'null' }, { allOf: [toJsonSchema(pet)] }] })
+  })
+})
+
+describe('validateAgainstSchema', () => {
+  test('returns no violations for a matching value', () => {
+    expect(validateAgainstSchema(pet, { id: 1, name: 'Rex', tags: ['a'] })).toEqual([])
+  })
+
+  test('reports each violation with its JSON pointer', () => {
+    expect(validateAgainstSchema(pet, { id: 'x', status: 'lost', tags: [1], extra: true })).toEqual([
+      { pointer: '/name', message: 'is required' },
+      { pointer: '', message: "must NOT have additional property 'extra'" },
+      { pointer: '/id', message: 'must be integer' },
+      { pointer: '/status', message: 'must be one of "available", "sold"' },
+      { pointer: '/tags/0', message: 'must be string' },
+    ])
+  })
+
+  test('validates arrays of objects at the root', () => {
+    const list = makeSchema({ type: 'array', displayType: 'Pet[]', items: pet })
+    expect(validateAgainstSchema(list, [{ id: 1, name: 'Rex' }, { id: 2 }])).toEqual([
+      { pointer: '/1/name', message: 'is required' },
+    ])
+  })
+
+  test('accepts anything for circular references', () => {
+    const circular = makeSchema({ type: 'unknown', displayType: '[circular]' })
+    expect(validateAgainstSchema(circular, { any: 'thing' })).toEqual([])
+  })
+})
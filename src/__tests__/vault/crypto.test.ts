@@ -0,0 +1,42 @@
+import { describe, test, expect } from 'bun:test'
+import { createVault, unlockVault, encryptVault } from '@/vault/crypto.js'
+import { VaultError } from '@/vault/errors.js'
+
+describe('vault encryption', () => {
+  test('round-trips the secrets with the passphrase', async () => {
+    const vault = await createVault('correct horse')
+    const file = encryptVault({ ...vault, secrets: new Map([['Prod/default/token', 'tok-123']]) })
+
+    expect(file.data).not.toContain('tok-123')
+    expect(Buffer.from(file.data, 'base64').toString('utf-8')).not.toContain('tok-123')
+    const unlocked = await unlockVault(file, 'correct horse')
+    expect(unlocked.secrets).toEqual(new Map([['Prod/default/token', 'tok-123']]))
+  })
+
+  test('uses a fresh IV for every write', async () => {
+    const vault = await createVault('correct horse')
+
+    expect(encryptVault(vault).iv).not.toBe(encryptVault(vault).iv)
+  })
+
+  test('rejects a wrong passphrase', async () => {
+    const file = encryptVault(await createVault('correct horse'))
+
+    const promise = unlockVault(file, 'battery staple')
+    await expect(promise).rejects.toThrow(VaultError)
+    await expect(promise).rejects.toThrow('Wrong passphrase or damaged vault')
+  })
+
+  test('rejects tampered data', async () => {
+    const vault = await createVault('correct horse')
+    const file = encryptVault({ ...vault, secrets: new Map([['id', 'value']]) })
+    const data = Buffer.from(file.data, 'base64')
+    data[0] = data[0]! ^ 1
+
+    await expect(unlockVault({ ...file, data: data.toString('base64') }, 'correct horse')).rejects.toThrow(VaultError)
+  })
+
+  test('refuses an empty passphrase', async () => {
+    await expect(createVault('')).rejects.toThrow('The vault passphrase cannot be empty')
+  })
+})
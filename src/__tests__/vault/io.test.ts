@@ -0,0 +1,58 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { join } from 'node:path'
+import { tmpdir, homedir } from 'node:os'
+import { mkdtemp, rm, stat, writeFile } from 'node:fs/promises'
+import { loadVaultFile, saveVaultFile, getVaultPath } from '@/vault/io.js'
+import { VaultError } from '@/vault/errors.js'
+import type { VaultFile } from '@/vault/types.js'
+
+let tempDir: string
+let vaultPath: string
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'superapi-vault-'))
+  vaultPath = join(tempDir, 'vault.json')
+})
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true })
+})
+
+const file: VaultFile = {
+  version: 1,
+  kdf: { name: 'scrypt', salt: 'c2FsdA==', N: 16384, r: 8, p: 1 },
+  iv: 'aXY=',
+  tag: 'dGFn',
+  data: 'ZGF0YQ==',
+}
+
+describe('getVaultPath', () => {
+  test('lives next to the config file', () => {
+    expect(getVaultPath()).toBe(join(homedir(), '.superapi-tui-vault.json'))
+  })
+})
+
+describe('vault persistence', () => {
+  test('returns null when there is no vault', async () => {
+    expect(await loadVaultFile(vaultPath)).toBeNull()
+  })
+
+  test('saves readable only by the owner and loads it back', async () => {
+    await saveVaultFile(file, vaultPath)
+
+    expect((await stat(vaultPath)).mode & 0o777).toBe(0o600)
+    expect(await loadVaultFile(vaultPath)).toEqual(file)
+  })
+
+  test('throws for invalid JSON instead of treating the vault as missing', async () => {
+    await writeFile(vaultPath, '{oops')
+
+    await expect(loadVaultFile(vaultPath)).rejects.toThrow(VaultError)
+  })
+
+  test('throws for files that are not a vault', async () => {
+    await writeFile(vaultPath, JSON.stringify({ ...file, version: 2 }))
+
+    await expect(loadVaultFile(vaultPath)).rejects.toThrow('is not a superapi-tui vault')
+  })
+})
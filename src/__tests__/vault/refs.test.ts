@@ -0,0 +1,84 @@
+import { describe, test, expect } from 'bun:test'
+import { resolveSecretRefs, findUnresolvedSecretRefs, vaultRefIds, resolveCredentialSecrets, moveSecretsToVault } from '@/vault/refs.js'
+import type { SecretSources, UnlockedVault } from '@/vault/types.js'
+
+const sources: SecretSources = {
+  env: { API_TOKEN: 'from-env' },
+  vault: new Map([['Prod/default/token', 'from-vault']]),
+}
+
+const vault: UnlockedVault = {
+  secrets: new Map([['Other/default/key', 'k']]),
+  key: Buffer.alloc(32),
+  kdf: { name: 'scrypt', salt: '', N: 16384, r: 8, p: 1 },
+}
+
+describe('resolveSecretRefs', () => {
+  test('replaces env and vault references', () => {
+    expect(resolveSecretRefs('${env:API_TOKEN}', sources)).toBe('from-env')
+    expect(resolveSecretRefs('x-${vault:Prod/default/token}-y', sources)).toBe('x-from-vault-y')
+  })
+
+  test('leaves unknown references and variables in place', () => {
+    expect(resolveSecretRefs('${env:MISSING} {{token}}', sources)).toBe('${env:MISSING} {{token}}')
+    expect(resolveSecretRefs('${vault:Prod/default/token}', { ...sources, vault: null })).toBe('${vault:Prod/default/token}')
+  })
+})
+
+describe('findUnresolvedSecretRefs', () => {
+  test('lists each reference without a value once', () => {
+    expect(findUnresolvedSecretRefs(['${env:API_TOKEN}', '${env:MISSING}', '${vault:nope} ${env:MISSING}'], sources))
+      .toEqual(['${env:MISSING}', '${vault:nope}'])
+  })
+})
+
+describe('vaultRefIds', () => {
+  test('lists each vault id once and skips env references', () => {
+    expect(vaultRefIds(['${vault:Prod/default/token}', '${env:API_TOKEN}', 'x ${vault:Prod/default/token} ${vault:Prod/admin/key}']))
+      .toEqual(['Prod/default/token', 'Prod/admin/key'])
+  })
+})
+
+describe('resolveCredentialSecrets', () => {
+  test('resolves the entered fields of the credentials', () => {
+    expect(resolveCredentialSecrets({ method: 'basic', username: '${env:API_TOKEN}', password: '${vault:Prod/default/token}' }, sources))
+      .toEqual({ method: 'basic', username: 'from-env', password: 'from-vault' })
+  })
+})
+
+describe('moveSecretsToVault', () => {
+  test('replaces literal secrets with vault references', () => {
+    const moved = moveSecretsToVault(
+      { method: 'oauth2', grant: 'password', tokenUrl: 'https://auth.example.com/token', clientId: 'cli', clientSecret: 'shh', scopes: '', username: 'alice', password: 'pw' },
+      'Prod/default',
+      vault,
+    )
+
+    expect(moved.auth).toEqual({
+      method: 'oauth2',
+      grant: 'password',
+      tokenUrl: 'https://auth.example.com/token',
+      clientId: 'cli',
+      clientSecret: '${vault:Prod/default/clientSecret}',
+      scopes: '',
+      username: 'alice',
+      password: '${vault:Prod/default/password}',
+    })
+    expect(moved.vault.secrets).toEqual(new Map([
+      ['Other/default/key', 'k'],
+      ['Prod/default/clientSecret', 'shh'],
+      ['Prod/default/password', 'pw'],
+    ]))
+    expect(vault.secrets.size).toBe(1)
+  })
+
+  test('keeps references, variables and empty values as they are', () => {
+    for (const token of ['${env:API_TOKEN}', '${vault:Prod/default/token}', '{{token}}', '']) {
+      const auth = { method: 'bearer' as const, token }
+      const moved = moveSecretsToVault(auth, 'Prod/default', vault)
+
+      expect(moved.auth).toBe(auth)
+      expect(moved.vault).toBe(vault)
+    }
+  })
+})
@@ -3,11 +3,16 @@ declare const __APP_VERSION__: string
 
 import { render } from 'ink'
 import { SpecLoader } from './components/SpecLoader.js'
+import { runCall } from './commands/call.js'
 
 const version = typeof __APP_VERSION__ !== 'undefined' ? __APP_VERSION__ : '0.0.0-dev'
 
 const args = process.argv.slice(2)
 
+if (args[0] === 'call') {
+  process.exit(await runCall(args.slice(1)))
+}
+
 if (args.includes('--version') || args.includes('-v')) {
   console.log(version)
   process.exit(0)
@@ -16,26 +21,41 @@ if (args.includes('--version') || args.includes('-v')) {
 if (args.includes('--help') || args.includes('-h')) {
   console.log(`superapi-tui v${version}
 
-Usage: superapi-tui [file-or-url]
+Usage: superapi-tui [options] [file-or-url]
+       superapi-tui call <file-or-url> <operation> [options]
 
 Arguments:
-  file-or-url    OpenAPI spec file (.yaml/.json), direct spec URL,
-                 or Swagger UI URL (auto-detected)
+  file-or-url      OpenAPI spec file (.yaml/.json), direct spec URL,
+                   or Swagger UI URL (auto-detected)
+
+Commands:
+  call             Send one operation without the TUI and print the response
+                   (see superapi-tui call --help)
 
 Options:
-  -h, --help     Show this help message
-  -v, --version  Show version number
+  --config <path>  Config file to use instead of ~/.superapi-tui.toml and
+                   the project's .superapi-tui.toml
+  -h, --help       Show this help message
+  -v, --version    Show version number
 
 Examples:
   superapi-tui ./openapi.yaml
   superapi-tui https://petstore3.swagger.io/api/v3/openapi.json
   superapi-tui https://petstore.swagger.io/
 
-Run without arguments to launch the interactive server picker.`)
+Run without arguments to launch the interactive server picker, or to open
+the spec named by the config.`)
   process.exit(0)
 }
 
-const positional = args.filter(a => !a.startsWith('-'))
+const configIndex = args.indexOf('--config')
+const configPath = configIndex >= 0 ? args[configIndex + 1] : undefined
+if (configIndex >= 0 && (configPath === undefined || configPath.startsWith('-'))) {
+  console.error('Error: --config needs a file path.')
+  process.exit(1)
+}
+
+const positional = args.filter((a, i) => !a.startsWith('-') && (configIndex < 0 || i !== configIndex + 1))
 if (positional.length > 1) {
   console.error('Error: too many arguments. Expected: superapi-tui <file-or-url>')
   console.error('Run superapi-tui --help for usage.')
@@ -45,7 +65,7 @@ if (positional.length > 1) {
 const input = positional[0] || undefined
 
 try {
-  const { waitUntilExit } = render(<SpecLoader input={input} />)
+  const { waitUntilExit } = render(<SpecLoader input={input} configPath={configPath} />)
   await waitUntilExit()
 } catch (error) {
   console.error('Fatal:', error instanceof Error ? error.message : error)
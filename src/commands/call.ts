@@ -0,0 +1,358 @@
+import { readFile as defaultReadFile } from 'node:fs/promises'
+import type { Endpoint, HttpResponse, LoadResult, OAuthToken, ParsedSpec, RequestOptions } from '@/types/index.js'
+import type { ConfigData } from '@/config/index.js'
+import { loadConfigLayers, matchServerAuth } from '@/config/index.js'
+import { loadSpec as defaultLoadSpec, specUrlOf } from '@/loader/index.js'
+import { parseSpec as defaultParseSpec } from '@/parser/index.js'
+import {
+  buildRequest,
+  resolveServerUrl,
+  sendRequest as defaultSendRequest,
+} from '@/http/index.js'
+import type { OAuthCredentials } from '@/oauth/index.js'
+import { obtainToken, openInBrowser } from '@/oauth/index.js'
+import { isHttpMethod, isUrl } from '@/utils/index.js'
+import type { SecretSources } from '@/vault/index.js'
+import { loadVaultFile, unlockVault, secretSources, resolveCredentialSecrets, findUnresolvedSecretRefs } from '@/vault/index.js'
+
+const VAULT_PASSPHRASE_ENV = 'SUPERAPI_TUI_VAULT_PASSPHRASE'
+
+export const CALL_USAGE = `Usage: superapi-tui call <file-or-url> <operation> [options]
+
+Sends a single operation from the spec and prints the response.
+
+Arguments:
+  file-or-url             OpenAPI spec file, spec URL, or Swagger UI URL
+  operation               operationId, or "METHOD /path" (e.g. "GET /pets/{petId}")
+
+Options:
+  --path <name=value>     Path parameter (repeatable)
+  --query <name=value>    Query parameter (repeatable)
+  --header <name=value>   Header parameter (repeatable)
+  --cookie <name=value>   Cookie parameter (repeatable)
+  --body <json|@file>     Request body, inline or read from a file
+                          (none is sent without it)
+  --server <index|url>    Spec server index (0-based) or a base URL (default: 0)
+  --config <path>         Config file to use instead of ~/.superapi-tui.toml
+                          and the project's .superapi-tui.toml
+  -h, --help              Show this help message
+
+Saved auth for the chosen server is applied from the config file; saved OAuth2
+credentials are exchanged for a token first (the authorization code flow opens
+a browser and waits for the redirect). \${env:NAME} references in it read
+environment variables; \${vault:id} references need the vault passphrase in
+${VAULT_PASSPHRASE_ENV}.
+Exit code: 4 or 5 for 4xx and 5xx responses, otherwise 0; 1 on errors, 2 on usage errors.
+
+Examples:
+  superapi-tui call ./spec.yaml getPetById --path petId=1
+  superapi-tui call ./spec.yaml "GET /pets" --query status=sold --server 1
+  superapi-tui call ./spec.yaml createPet --body @pet.json`
+
+export class CallUsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CallUsageError'
+  }
+}
+
+export interface CallOptions {
+  readonly specInput: string
+  readonly operation: string
+  readonly pathParams: ReadonlyMap<string, string>
+  readonly queryParams: ReadonlyMap<string, string>
+  readonly headerParams: ReadonlyMap<string, string>
+  readonly cookieParams: ReadonlyMap<string, string>
+  readonly body?: string
+  readonly server?: string
+  readonly configPath?: string
+}
+
+export interface CallDeps {
+  readonly loadSpec: (input: string) => Promise<LoadResult>
+  readonly parseSpec: (content: string, specUrl?: string) => Promise<ParsedSpec>
+  readonly loadConfig: (configPath?: string) => Promise<ConfigData>
+  readonly sendRequest: (options: RequestOptions) => Promise<HttpResponse>
+  readonly readFile: (path: string) => Promise<string>
+  // onAuthorizeUrl shows where to consent for the authorization code flow
+  readonly requestToken: (credentials: OAuthCredentials, onAuthorizeUrl: (url: string) => void) => Promise<OAuthToken>
+  readonly loadSecrets: () => Promise<SecretSources>
+}
+
+export interface CallOutput {
+  readonly stdout: (text: string) => void
+  readonly stderr: (text: string) => void
+}
+
+// The vault stays locked unless its passphrase is in the environment
+async function loadSecrets(): Promise<SecretSources> {
+  const passphrase = process.env[VAULT_PASSPHRASE_ENV]
+  if (!passphrase) return secretSources(null)
+  const file = await loadVaultFile()
+  return secretSources(file ? (await unlockVault(file, passphrase)).secrets : null)
+}
+
+const DEFAULT_DEPS: CallDeps = {
+  loadSpec: defaultLoadSpec,
+  parseSpec: defaultParseSpec,
+  loadConfig: (configPath) => loadConfigLayers({ configPath }).then(layers => layers.merged),
+  sendRequest: defaultSendRequest,
+  readFile: (path) => defaultReadFile(path, 'utf-8'),
+  requestToken: (credentials, onAuthorizeUrl) => obtainToken(credentials, {
+    authorize: {
+      onAuthorizeUrl: (url) => {
+        onAuthorizeUrl(url)
+        openInBrowser(url)
+      },
+    },
+  }),
+  loadSecrets,
+}
+
+const DEFAULT_OUTPUT: CallOutput = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+}
+
+const PARAM_FLAGS = new Map([
+  ['--path', 'path'],
+  ['--query', 'query'],
+  ['--header', 'header'],
+  ['--cookie', 'cookie'],
+] as const)
+
+function parseKeyValue(flag: string, raw: string): [string, string] {
+  const eq = raw.indexOf('=')
+  if (eq <= 0) {
+    throw new CallUsageError(`${flag} expects name=value, got "${raw}"`)
+  }
+  return [raw.slice(0, eq), raw.slice(eq + 1)]
+}
+
+export function parseCallArgs(args: readonly string[]): CallOptions {
+  const positional: string[] = []
+  const params = {
+    path: new Map<string, string>(),
+    query: new Map<string, string>(),
+    header: new Map<string, string>(),
+    cookie: new Map<string, string>(),
+  }
+  let body: string | undefined
+  let server: string | undefined
+  let configPath: string | undefined
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!
+    if (!arg.startsWith('--')) {
+      positional.push(arg)
+      continue
+    }
+
+    const value = args[i + 1]
+    if (value === undefined) {
+      throw new CallUsageError(`Missing value for ${arg}`)
+    }
+    i++
+
+    const location = PARAM_FLAGS.get(arg as '--path' | '--query' | '--header' | '--cookie')
+    if (location) {
+      const [name, paramValue] = parseKeyValue(arg, value)
+      params[location].set(name, paramValue)
+    } else if (arg === '--body') {
+      body = value
+    } else if (arg === '--server') {
+      server = value
+    } else if (arg === '--config') {
+      configPath = value
+    } else {
+      throw new CallUsageError(`Unknown option: ${arg}`)
+    }
+  }
+
+  // Allow the operation to be given as two words: GET /pets/{petId}
+  if (positional.length === 3 && isHttpMethod(positional[1]!.toLowerCase())) {
+    positional.splice(1, 2, `${positional[1]} ${positional[2]}`)
+  }
+
+  if (positional.length < 2) {
+    throw new CallUsageError('Expected a spec and an operation')
+  }
+  if (positional.length > 2) {
+    throw new CallUsageError(`Unexpected argument: ${positional[2]}`)
+  }
+
+  return {
+    specInput: positional[0]!,
+    operation: positional[1]!,
+    pathParams: params.path,
+    queryParams: params.query,
+    headerParams: params.header,
+    cookieParams: params.cookie,
+    ...(body !== undefined ? { body } : {}),
+    ...(server !== undefined ? { server } : {}),
+    ...(configPath !== undefined ? { configPath } : {}),
+  }
+}
+
+export function findOperation(endpoints: readonly Endpoint[], operation: string): Endpoint | null {
+  const byId = endpoints.find((e) => e.operationId === operation)
+  if (byId) return byId
+
+  const match = operation.trim().match(/^(\S+)\s+(\S+)$/)
+  if (!match) return null
+  const method = match[1]!.toLowerCase()
+  const path = match[2]!
+  return endpoints.find((e) => e.method === method && e.path === path) ?? null
+}
+
+function resolveServer(spec: ParsedSpec, server: string | undefined): string {
+  if (server !== undefined && isUrl(server)) return server
+
+  if (spec.servers.length === 0) {
+    throw new CallUsageError('No servers defined in spec; pass --server <url>')
+  }
+
+  const index = server === undefined ? 0 : Number(server)
+  if (!Number.isInteger(index) || index < 0 || index >= spec.servers.length) {
+    throw new CallUsageError(
+      `Invalid --server "${server}": expected 0-${spec.servers.length - 1} or a URL`,
+    )
+  }
+  return resolveServerUrl(spec.servers[index]!)
+}
+
+function collectParamValues(endpoint: Endpoint, options: CallOptions): Map<string, string> {
+  const values = new Map<string, string>()
+  const groups = [
+    ['path', options.pathParams],
+    ['query', options.queryParams],
+    ['header', options.headerParams],
+    ['cookie', options.cookieParams],
+  ] as const
+
+  for (const [location, provided] of groups) {
+    const declared = endpoint.parameters.filter((p) => p.location === location)
+    for (const [name, value] of provided) {
+      if (!declared.some((p) => p.name === name)) {
+        const known = declared.map((p) => p.name).join(', ') || 'none'
+        throw new CallUsageError(`Unknown ${location} parameter "${name}" (known: ${known})`)
+      }
+      values.set(`${location}:${name}`, value)
+    }
+  }
+  return values
+}
+
+// Without --body nothing is sent; a made-up payload never goes to the API
+async function resolveBody(
+  endpoint: Endpoint,
+  body: string | undefined,
+  deps: CallDeps,
+): Promise<string | undefined> {
+  if (body === undefined) {
+    if (endpoint.requestBody?.required) {
+      throw new CallUsageError(`${endpoint.method.toUpperCase()} ${endpoint.path} requires a request body; pass --body <json|@file>`)
+    }
+    return undefined
+  }
+  if (body.startsWith('@')) {
+    const path = body.slice(1)
+    try {
+      return await deps.readFile(path)
+    } catch (error) {
+      throw new CallUsageError(
+        `Cannot read body file ${path}${error instanceof Error ? `: ${error.message}` : ''}`,
+      )
+    }
+  }
+  return body
+}
+
+export function formatResponse(response: HttpResponse): string {
+  const lines = [`HTTP ${response.status} ${response.statusText} (${response.durationMs}ms)`]
+  for (const [key, value] of response.headers) {
+    lines.push(`${key}: ${value}`)
+  }
+  lines.push('', response.body)
+  return lines.join('\n') + (response.body.endsWith('\n') ? '' : '\n')
+}
+
+// 1 and 2 are taken by errors and usage errors, so only 4xx and 5xx get a code
+export function exitCodeForStatus(status: number): number {
+  const statusClass = Math.floor(status / 100)
+  return statusClass === 4 || statusClass === 5 ? statusClass : 0
+}
+
+// -h and --help only count where an option is expected, not as an option's
+// value (e.g. --header -h)
+function wantsHelp(args: readonly string[]): boolean {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!
+    if (arg === '--help' || arg === '-h') return true
+    if (arg.startsWith('--')) i++
+  }
+  return false
+}
+
+export async function runCall(
+  args: readonly string[],
+  deps: CallDeps = DEFAULT_DEPS,
+  output: CallOutput = DEFAULT_OUTPUT,
+): Promise<number> {
+  if (wantsHelp(args)) {
+    output.stdout(`${CALL_USAGE}\n`)
+    return 0
+  }
+
+  try {
+    const options = parseCallArgs(args)
+
+    const loaded = await deps.loadSpec(options.specInput)
+    const spec = await deps.parseSpec(loaded.content, specUrlOf(loaded))
+
+    const endpoint = findOperation(spec.endpoints, options.operation)
+    if (!endpoint) {
+      throw new CallUsageError(`Operation not found: ${options.operation}`)
+    }
+
+    const serverUrl = resolveServer(spec, options.server)
+    const config = await deps.loadConfig(options.configPath)
+    const secrets = await deps.loadSecrets()
+    const savedAuth = resolveCredentialSecrets(matchServerAuth(config.servers, serverUrl)?.auth ?? { method: 'none' }, secrets)
+    const unresolved = findUnresolvedSecretRefs(
+      Object.values(savedAuth).filter((value): value is string => typeof value === 'string'),
+      secrets,
+    )
+    if (unresolved.length > 0) {
+      throw new Error(`Unresolved secrets in the saved auth: ${unresolved.join(', ')}`)
+    }
+    const credentials = savedAuth.method === 'oauth2'
+      ? {
+          ...savedAuth,
+          accessToken: (await deps.requestToken(savedAuth, (url) => {
+            output.stderr(`Open this URL to authorize:\n  ${url}\n`)
+          })).accessToken,
+        }
+      : savedAuth
+
+    const request = buildRequest({
+      endpoint,
+      serverUrl,
+      paramValues: collectParamValues(endpoint, options),
+      credentials,
+      bodyText: await resolveBody(endpoint, options.body, deps),
+    })
+
+    const response = await deps.sendRequest(request)
+    output.stdout(formatResponse(response))
+    return exitCodeForStatus(response.status)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    output.stderr(`Error: ${message}\n`)
+    if (error instanceof CallUsageError) {
+      output.stderr('Run superapi-tui call --help for usage.\n')
+      return 2
+    }
+    return 1
+  }
+}
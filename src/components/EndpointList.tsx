@@ -1,13 +1,24 @@
-import { useState, useMemo, useEffect } from 'react'
+import { useState, useMemo, useEffect, useRef } from 'react'
 import { Box, Text, useInput } from 'ink'
 import type { Endpoint, TagGroup } from '@/types/index.js'
+import type { SavedRequest } from '@/config/index.js'
 import { METHOD_COLORS } from '@/utils/http-method.js'
 import { useViewport } from '@/hooks/useViewport.js'
 import { ScrollIndicator } from './ScrollIndicator.js'
 
+export interface SavedRequestItem {
+  readonly collection: string
+  readonly request: SavedRequest
+  readonly endpoint: Endpoint
+}
+
 type ListRow =
   | { readonly kind: 'tag'; readonly tag: string; readonly count: number }
   | { readonly kind: 'endpoint'; readonly endpoint: Endpoint; readonly tag: string }
+  | { readonly kind: 'saved'; readonly item: SavedRequestItem; readonly tag: string }
+
+// Pseudo-tag grouping saved requests above the spec's own tags
+const SAVED_TAG = '\u2605 Saved'
 
 type FilterMode = 'off' | 'typing' | 'applied'
 
@@ -15,6 +26,9 @@ interface Props {
   readonly tagGroups: readonly TagGroup[]
   readonly isFocused: boolean
   readonly onSelectEndpoint: (endpoint: Endpoint) => void
+  readonly savedRequests?: readonly SavedRequestItem[]
+  readonly onOpenSavedRequest?: (item: SavedRequestItem) => void
+  readonly onDeleteSavedRequest?: (item: SavedRequestItem) => void
   readonly onTextCaptureChange?: (active: boolean) => void
   readonly terminalHeight?: number
 }
@@ -22,8 +36,17 @@ interface Props {
 function buildRows(
   tagGroups: readonly TagGroup[],
   collapsedTags: ReadonlySet<string>,
+  savedRequests: readonly SavedRequestItem[],
 ): readonly ListRow[] {
   const rows: ListRow[] = []
+  if (savedRequests.length > 0) {
+    rows.push({ kind: 'tag', tag: SAVED_TAG, count: savedRequests.length })
+    if (!collapsedTags.has(SAVED_TAG)) {
+      for (const item of savedRequests) {
+        rows.push({ kind: 'saved', item, tag: SAVED_TAG })
+      }
+    }
+  }
   for (const group of tagGroups) {
     rows.push({ kind: 'tag', tag: group.name, count: group.endpoints.length })
     if (!collapsedTags.has(group.name)) {
@@ -38,9 +61,16 @@ function buildRows(
 function buildFilteredRows(
   tagGroups: readonly TagGroup[],
   filterText: string,
+  savedRequests: readonly SavedRequestItem[],
 ): readonly ListRow[] {
   const lower = filterText.toLowerCase()
   const rows: ListRow[] = []
+  for (const item of savedRequests) {
+    const matchesName = `${item.collection}/${item.request.name}`.toLowerCase().includes(lower)
+    if (matchesName || item.endpoint.path.toLowerCase().includes(lower)) {
+      rows.push({ kind: 'saved', item, tag: SAVED_TAG })
+    }
+  }
   for (const group of tagGroups) {
     for (const endpoint of group.endpoints) {
       const matchesPath = endpoint.path.toLowerCase().includes(lower)
@@ -61,31 +91,51 @@ function getTagAtCursor(
   return row?.tag ?? null
 }
 
-export function EndpointList({ tagGroups, isFocused, onSelectEndpoint, onTextCaptureChange, terminalHeight }: Props) {
+const NO_SAVED_REQUESTS: readonly SavedRequestItem[] = []
+
+export function EndpointList({ tagGroups, isFocused, onSelectEndpoint, savedRequests = NO_SAVED_REQUESTS, onOpenSavedRequest, onDeleteSavedRequest, onTextCaptureChange, terminalHeight }: Props) {
   const [cursorIndex, setCursorIndex] = useState(0)
   const [collapsedTags, setCollapsedTags] = useState<ReadonlySet<string>>(
     () => new Set(tagGroups.map(g => g.name)),
   )
   const [filterText, setFilterText] = useState('')
   const [filterMode, setFilterMode] = useState<FilterMode>('off')
+  const [confirmDelete, setConfirmDelete] = useState<SavedRequestItem | null>(null)
+
+  const knownTagsRef = useRef<ReadonlySet<string>>(new Set(tagGroups.map(g => g.name)))
 
-  // Re-collapse all tags when tagGroups change (e.g., new spec loaded)
+  // When tagGroups change (e.g., spec reloaded), keep the expand/collapse state of
+  // tags that still exist and collapse any newly added ones
   useEffect(() => {
-    setCollapsedTags(new Set(tagGroups.map(g => g.name)))
-    setCursorIndex(0)
+    const known = knownTagsRef.current
+    knownTagsRef.current = new Set(tagGroups.map(g => g.name))
+    setCollapsedTags(prev => {
+      const next = new Set<string>()
+      for (const group of tagGroups) {
+        if (!known.has(group.name) || prev.has(group.name)) {
+          next.add(group.name)
+        }
+      }
+      return next
+    })
   }, [tagGroups])
 
   const rows = useMemo(() => {
     if (filterMode !== 'off') {
-      return buildFilteredRows(tagGroups, filterText)
+      return buildFilteredRows(tagGroups, filterText, savedRequests)
     }
-    return buildRows(tagGroups, collapsedTags)
-  }, [tagGroups, collapsedTags, filterMode, filterText])
+    return buildRows(tagGroups, collapsedTags, savedRequests)
+  }, [tagGroups, collapsedTags, filterMode, filterText, savedRequests])
 
   const clampCursor = (index: number) => Math.max(0, Math.min(index, rows.length - 1))
 
+  // Keep the cursor inside the list when rows disappear (e.g., endpoints removed on reload)
+  useEffect(() => {
+    setCursorIndex(prev => clampCursor(prev))
+  }, [rows.length])
+
   const hasBudget = terminalHeight !== undefined
-  const reservedLines = 6 + (filterMode !== 'off' ? 1 : 0)
+  const reservedLines = 6 + (filterMode !== 'off' ? 1 : 0) + (confirmDelete ? 1 : 0)
   const viewport = useViewport({
     rowCount: hasBudget ? rows.length : 0,
     cursorIndex: hasBudget ? cursorIndex : 0,
@@ -125,6 +175,16 @@ export function EndpointList({ tagGroups, isFocused, onSelectEndpoint, onTextCap
 
   useInput(
     (input, key) => {
+      // Any key other than y cancels; restore the capture the filter had
+      if (confirmDelete) {
+        if (input === 'y') {
+          onDeleteSavedRequest?.(confirmDelete)
+        }
+        setConfirmDelete(null)
+        onTextCaptureChange?.(filterMode !== 'off')
+        return
+      }
+
       if (filterMode === 'typing') {
         if (key.escape) {
           setFilterMode('off')
@@ -139,6 +199,8 @@ export function EndpointList({ tagGroups, isFocused, onSelectEndpoint, onTextCap
           const currentRow = rows[cursorIndex]
           if (currentRow?.kind === 'endpoint') {
             onSelectEndpoint(currentRow.endpoint)
+          } else if (currentRow?.kind === 'saved') {
+            onOpenSavedRequest?.(currentRow.item)
           }
           // Transition to applied — keep textCapture active so Esc
           // is consumed here, not leaked to useNavigation
@@ -207,12 +269,23 @@ export function EndpointList({ tagGroups, isFocused, onSelectEndpoint, onTextCap
         if (!currentRow) return
         if (currentRow.kind === 'tag') {
           toggleCollapse(currentRow.tag)
+        } else if (currentRow.kind === 'saved') {
+          onOpenSavedRequest?.(currentRow.item)
         } else {
           onSelectEndpoint(currentRow.endpoint)
         }
         return
       }
 
+      if (input === 'x') {
+        const currentRow = rows[cursorIndex]
+        if (currentRow?.kind === 'saved' && onDeleteSavedRequest) {
+          setConfirmDelete(currentRow.item)
+          onTextCaptureChange?.(true)
+        }
+        return
+      }
+
       if (filterMode === 'off') {
         if (input === 'h') {
           const tag = getTagAtCursor(rows, cursorIndex)
@@ -258,7 +331,12 @@ export function EndpointList({ tagGroups, isFocused, onSelectEndpoint, onTextCap
           </Text>
         </Box>
       )}
-      <Box flexDirection="column" marginTop={filterMode !== 'off' ? 0 : 1}>
+      {confirmDelete && (
+        <Text color="yellow">
+          Delete saved request {confirmDelete.collection}/{confirmDelete.request.name}? (y/n)
+        </Text>
+      )}
+      <Box flexDirection="column" marginTop={filterMode !== 'off' || confirmDelete ? 0 : 1}>
         <ScrollIndicator direction="up" visible={hasBudget && viewport.hasOverflowAbove} />
         {(hasBudget ? rows.slice(viewport.scrollOffset, viewport.scrollOffset + viewport.visibleCount) : rows).map((row, localIndex) => {
           const globalIndex = hasBudget ? viewport.scrollOffset + localIndex : localIndex
@@ -271,6 +349,19 @@ export function EndpointList({ tagGroups, isFocused, onSelectEndpoint, onTextCap
               </Text>
             )
           }
+          if (row.kind === 'saved') {
+            const { item } = row
+            return (
+              <Box key={`saved-${item.collection}-${item.request.name}`} paddingLeft={2}>
+                <Text inverse={isSelected}>
+                  <Text color={METHOD_COLORS[item.endpoint.method]}>{item.endpoint.method.toUpperCase()}</Text>
+                  {'  '}
+                  {item.request.name}
+                  <Text dimColor> ({item.collection})</Text>
+                </Text>
+              </Box>
+            )
+          }
           const { endpoint } = row
           const methodColor = METHOD_COLORS[endpoint.method]
           return (
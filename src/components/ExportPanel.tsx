@@ -0,0 +1,184 @@
+import { useState, useMemo } from 'react'
+import { Box, Text, useInput } from 'ink'
+import type { RequestOptions } from '@/types/index.js'
+import { SNIPPET_FORMATS, renderSnippet, copyToClipboard, writeSnippetFile, isFileExistsError } from '@/export/index.js'
+import { useLineEditor } from '@/hooks/useLineEditor.js'
+import { ScrollIndicator } from './ScrollIndicator.js'
+
+interface Props {
+  readonly request: RequestOptions
+  readonly onClose: () => void
+  readonly terminalHeight?: number
+  readonly copy?: (text: string) => void
+  // Rejects with EEXIST for an existing file unless overwrite is set
+  readonly writeFile?: (path: string, text: string, overwrite?: boolean) => Promise<string>
+}
+
+// Border, title, format tabs, message, prompt and footer
+const EXPORT_PANEL_RESERVED = 10
+
+export function ExportPanel({ request, onClose, terminalHeight, copy = copyToClipboard, writeFile = writeSnippetFile }: Props) {
+  const [formatIndex, setFormatIndex] = useState(0)
+  const [scrollOffset, setScrollOffset] = useState(0)
+  const [writingFile, setWritingFile] = useState(false)
+  // The existing file waiting for y/n
+  const [overwritePath, setOverwritePath] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ readonly text: string; readonly isError: boolean } | null>(null)
+  const editor = useLineEditor()
+
+  const formatInfo = SNIPPET_FORMATS[formatIndex]!
+  const snippet = useMemo(() => renderSnippet(formatInfo.format, request), [formatInfo, request])
+  const lines = snippet.split('\n')
+
+  const visibleCount = terminalHeight !== undefined
+    ? Math.max(3, terminalHeight - EXPORT_PANEL_RESERVED)
+    : lines.length
+  const maxOffset = Math.max(0, lines.length - visibleCount)
+
+  const selectFormat = (index: number) => {
+    setFormatIndex((index + SNIPPET_FORMATS.length) % SNIPPET_FORMATS.length)
+    setScrollOffset(0)
+    setMessage(null)
+  }
+
+  const writeSnippet = (path: string, overwrite: boolean) => {
+    writeFile(path, snippet, overwrite)
+      .then(written => setMessage({ text: `Wrote ${written}`, isError: false }))
+      .catch((err: unknown) => {
+        if (!overwrite && isFileExistsError(err)) {
+          setOverwritePath(path)
+          return
+        }
+        setMessage({
+          text: `Failed to write ${path}: ${err instanceof Error ? err.message : String(err)}`,
+          isError: true,
+        })
+      })
+  }
+
+  useInput((input, key) => {
+    if (overwritePath !== null) {
+      setOverwritePath(null)
+      if (input === 'y') {
+        writeSnippet(overwritePath, true)
+      } else {
+        setMessage({ text: `Kept the existing ${overwritePath}`, isError: false })
+      }
+      return
+    }
+
+    if (writingFile) {
+      const action = editor.handleInput(input, key)
+      if (action === 'commit') {
+        const path = editor.getText().trim()
+        setWritingFile(false)
+        if (path.length === 0) return
+        writeSnippet(path, false)
+        return
+      }
+      if (action === 'cancel') {
+        setWritingFile(false)
+      }
+      return
+    }
+
+    if (key.escape || input === 'q') {
+      onClose()
+      return
+    }
+
+    const digit = Number(input)
+    if (Number.isInteger(digit) && digit >= 1 && digit <= SNIPPET_FORMATS.length) {
+      selectFormat(digit - 1)
+      return
+    }
+    if (input === 'l' || key.rightArrow || key.tab) {
+      selectFormat(formatIndex + 1)
+      return
+    }
+    if (input === 'h' || key.leftArrow) {
+      selectFormat(formatIndex - 1)
+      return
+    }
+
+    if (input === 'j' || key.downArrow) {
+      setScrollOffset(prev => Math.min(prev + 1, maxOffset))
+      return
+    }
+    if (input === 'k' || key.upArrow) {
+      setScrollOffset(prev => Math.max(prev - 1, 0))
+      return
+    }
+    if (input === 'g') {
+      setScrollOffset(0)
+      return
+    }
+    if (input === 'G') {
+      setScrollOffset(maxOffset)
+      return
+    }
+
+    if (input === 'c') {
+      copy(snippet)
+      setMessage({ text: `Copied ${formatInfo.label} snippet to the clipboard (OSC 52)`, isError: false })
+      return
+    }
+    if (input === 'w') {
+      editor.init(formatInfo.fileName)
+      setWritingFile(true)
+      setMessage(null)
+    }
+  })
+
+  const offset = Math.min(scrollOffset, maxOffset)
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="single"
+      borderColor="cyan"
+      paddingX={1}
+      width="100%"
+      height="100%"
+    >
+      <Box gap={1}>
+        <Text bold color="cyan">Export Request</Text>
+        <Text dimColor>{request.method.toUpperCase()} {request.url}</Text>
+      </Box>
+      <Box gap={1} marginTop={1}>
+        {SNIPPET_FORMATS.map((info, i) => (
+          <Text key={info.format} bold={i === formatIndex} color={i === formatIndex ? 'cyan' : undefined} inverse={i === formatIndex}>
+            [{i + 1}] {info.label}
+          </Text>
+        ))}
+      </Box>
+
+      <Box flexDirection="column" marginTop={1}>
+        <ScrollIndicator direction="up" visible={offset > 0} />
+        {lines.slice(offset, offset + visibleCount).map((line, i) => (
+          <Text key={offset + i} wrap="truncate-end">{line.replace(/\t/g, '    ') || ' '}</Text>
+        ))}
+        <ScrollIndicator direction="down" visible={offset < maxOffset} />
+      </Box>
+
+      {message && <Text color={message.isError ? 'red' : 'green'}>{message.text}</Text>}
+      {overwritePath !== null && <Text color="yellow">{overwritePath} exists. Overwrite it? (y/n)</Text>}
+
+      {writingFile && (
+        <Box>
+          <Text>Write to file: </Text>
+          <Text color="cyan">
+            {editor.text.slice(0, editor.cursorPos)}
+            <Text color="yellow">|</Text>
+            {editor.text.slice(editor.cursorPos)}
+          </Text>
+          <Text dimColor> (Enter to write, Esc to cancel)</Text>
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text dimColor>1-5/h/l format  j/k scroll  c copy  w write to file  Esc close</Text>
+      </Box>
+    </Box>
+  )
+}
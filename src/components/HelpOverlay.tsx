@@ -18,6 +18,8 @@ const KEYBINDING_SECTIONS: readonly Section[] = [
       { key: 'Tab', description: 'Next panel' },
       { key: 'Shift+Tab', description: 'Previous panel' },
       { key: 'f', description: 'Toggle fullscreen' },
+      { key: 'H', description: 'Request history' },
+      { key: 'I', description: 'Import curl command' },
       { key: '?', description: 'Toggle help' },
     ],
   },
@@ -37,6 +39,7 @@ const KEYBINDING_SECTIONS: readonly Section[] = [
     bindings: [
       { key: '/', description: 'Filter endpoints' },
       { key: 'Esc', description: 'Clear filter' },
+      { key: 'x', description: 'Delete saved request' },
     ],
   },
   {
@@ -51,10 +54,14 @@ const KEYBINDING_SECTIONS: readonly Section[] = [
     bindings: [
       { key: 's', description: 'Send request' },
       { key: 'S', description: 'Switch server' },
+      { key: 'E', description: 'Switch environment' },
       { key: 'a', description: 'Toggle auth config' },
       { key: 'e', description: 'Edit body' },
       { key: 'W', description: 'Save server + auth to config' },
-      { key: '1 / 2 / 3', description: 'Response tab (Pretty/Raw/Headers)' },
+      { key: 'K', description: 'Toggle cookie jar for saved server' },
+      { key: 'C', description: 'Save request to collection' },
+      { key: 'X', description: 'Export request as code' },
+      { key: '1 / 2 / 3 / 4', description: 'Response tab (Pretty/Raw/Headers/Validation)' },
     ],
   },
 ]
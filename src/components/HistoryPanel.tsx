@@ -0,0 +1,236 @@
+import { useState, useMemo, useEffect } from 'react'
+import { Box, Text, useInput } from 'ink'
+import type { HistoryEntry } from '@/history/index.js'
+import { METHOD_COLORS } from '@/utils/http-method.js'
+import { useViewport } from '@/hooks/useViewport.js'
+import { ScrollIndicator } from './ScrollIndicator.js'
+
+interface Props {
+  readonly entries: readonly HistoryEntry[]
+  readonly currentEndpointId: string | null
+  readonly onOpen: (entry: HistoryEntry, send: boolean) => void
+  readonly onClose: () => void
+  readonly terminalHeight?: number
+}
+
+// Title, filter line, detail block and footer
+const HISTORY_PANEL_RESERVED = 18
+const BODY_PREVIEW_LINES = 5
+
+type FilterMode = 'off' | 'typing' | 'applied'
+
+function statusColor(entry: HistoryEntry): string {
+  if (entry.status === undefined) return 'red'
+  if (entry.status < 300) return 'green'
+  if (entry.status < 400) return 'yellow'
+  return 'red'
+}
+
+function formatTime(timestamp: string): string {
+  const date = new Date(timestamp)
+  if (Number.isNaN(date.getTime())) return timestamp
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+}
+
+function matchesFilter(entry: HistoryEntry, text: string): boolean {
+  const haystack = `${entry.method} ${entry.path} ${entry.url} ${entry.status ?? ''}`.toLowerCase()
+  return haystack.includes(text.toLowerCase())
+}
+
+export function HistoryPanel({ entries, currentEndpointId, onOpen, onClose, terminalHeight }: Props) {
+  const [cursorIndex, setCursorIndex] = useState(0)
+  const [filterMode, setFilterMode] = useState<FilterMode>('off')
+  const [filterText, setFilterText] = useState('')
+  const [endpointOnly, setEndpointOnly] = useState(false)
+
+  // Newest first
+  const rows = useMemo(() => {
+    const filtered = entries.filter(entry =>
+      (!endpointOnly || entry.endpointId === currentEndpointId)
+      && (filterText.length === 0 || matchesFilter(entry, filterText)),
+    )
+    return filtered.reverse()
+  }, [entries, endpointOnly, currentEndpointId, filterText])
+
+  const clampCursor = (index: number) => Math.max(0, Math.min(index, rows.length - 1))
+
+  useEffect(() => {
+    setCursorIndex(prev => clampCursor(prev))
+  }, [rows.length])
+
+  const hasBudget = terminalHeight !== undefined
+  const viewport = useViewport({
+    rowCount: hasBudget ? rows.length : 0,
+    cursorIndex: hasBudget ? cursorIndex : 0,
+    reservedLines: HISTORY_PANEL_RESERVED,
+    terminalHeight,
+  })
+
+  useInput((input, key) => {
+    if (filterMode === 'typing') {
+      if (key.escape) {
+        setFilterMode('off')
+        setFilterText('')
+        setCursorIndex(0)
+        return
+      }
+      if (key.return) {
+        setFilterMode(filterText.length > 0 ? 'applied' : 'off')
+        return
+      }
+      if (key.backspace || key.delete) {
+        setFilterText(prev => prev.slice(0, -1))
+        setCursorIndex(0)
+        return
+      }
+      if (input && !key.ctrl && !key.meta) {
+        setFilterText(prev => prev + input)
+        setCursorIndex(0)
+      }
+      return
+    }
+
+    if (key.escape) {
+      if (filterMode === 'applied') {
+        setFilterMode('off')
+        setFilterText('')
+        setCursorIndex(0)
+        return
+      }
+      onClose()
+      return
+    }
+
+    if (input === 'H') {
+      onClose()
+      return
+    }
+
+    if (input === '/') {
+      setFilterMode('typing')
+      setFilterText('')
+      setCursorIndex(0)
+      return
+    }
+
+    if (input === 'e') {
+      setEndpointOnly(prev => !prev)
+      setCursorIndex(0)
+      return
+    }
+
+    if (input === 'j' || key.downArrow) {
+      setCursorIndex(prev => clampCursor(prev + 1))
+      return
+    }
+    if (input === 'k' || key.upArrow) {
+      setCursorIndex(prev => clampCursor(prev - 1))
+      return
+    }
+    if (input === 'g') {
+      setCursorIndex(0)
+      return
+    }
+    if (input === 'G') {
+      setCursorIndex(clampCursor(rows.length - 1))
+      return
+    }
+
+    const entry = rows[cursorIndex]
+    if (!entry) return
+
+    if (key.return) {
+      onOpen(entry, false)
+      return
+    }
+    if (input === 's') {
+      onOpen(entry, true)
+    }
+  })
+
+  const selected = rows[cursorIndex]
+  const visibleRows = hasBudget ? rows.slice(viewport.scrollOffset, viewport.scrollOffset + viewport.visibleCount) : rows
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="single"
+      borderColor="cyan"
+      paddingX={1}
+      width="100%"
+      height="100%"
+    >
+      <Box gap={1}>
+        <Text bold color="cyan">Request History</Text>
+        <Text dimColor>
+          ({rows.length}{rows.length !== entries.length ? ` of ${entries.length}` : ''})
+        </Text>
+        {endpointOnly && <Text color="yellow">[current endpoint]</Text>}
+      </Box>
+      {filterMode === 'typing' && (
+        <Text>
+          / {filterText}
+          <Text inverse> </Text>
+        </Text>
+      )}
+      {filterMode === 'applied' && <Text dimColor>filter: {filterText}</Text>}
+
+      {rows.length === 0 ? (
+        <Box marginTop={1}>
+          <Text dimColor>{entries.length === 0 ? 'No requests sent yet.' : 'No entries match.'}</Text>
+        </Box>
+      ) : (
+        <Box flexDirection="column" marginTop={1}>
+          <ScrollIndicator direction="up" visible={hasBudget && viewport.hasOverflowAbove} />
+          {visibleRows.map((entry, localIndex) => {
+            const globalIndex = hasBudget ? viewport.scrollOffset + localIndex : localIndex
+            const isSelected = globalIndex === cursorIndex
+            return (
+              <Text key={entry.id} inverse={isSelected} wrap="truncate-end">
+                <Text dimColor={!isSelected}>{formatTime(entry.timestamp)}</Text>
+                {'  '}
+                <Text color={statusColor(entry)}>{entry.status ?? 'ERR'}</Text>
+                {'  '}
+                <Text color={METHOD_COLORS[entry.method]}>{entry.method.toUpperCase()}</Text>
+                {' '}
+                {entry.path}
+                {entry.durationMs !== undefined && <Text dimColor> ({entry.durationMs}ms)</Text>}
+              </Text>
+            )
+          })}
+          <ScrollIndicator direction="down" visible={hasBudget && viewport.hasOverflowBelow} />
+        </Box>
+      )}
+
+      {selected && (
+        <Box flexDirection="column" marginTop={1}>
+          <Text wrap="truncate-end">
+            <Text bold>URL: </Text>
+            {selected.url}
+          </Text>
+          {Object.entries(selected.headers).map(([name, value]) => (
+            <Text key={name} wrap="truncate-end">
+              <Text color="cyan">{name}</Text>: {value}
+            </Text>
+          ))}
+          {selected.error && <Text color="red">Error: {selected.error}</Text>}
+          {selected.body !== undefined && (
+            <Box flexDirection="column">
+              {selected.body.split('\n').slice(0, BODY_PREVIEW_LINES).map((line, i) => (
+                <Text key={i} dimColor wrap="truncate-end">{line}</Text>
+              ))}
+              {selected.body.split('\n').length > BODY_PREVIEW_LINES && (
+                <Text dimColor>... ({selected.body.split('\n').length - BODY_PREVIEW_LINES} more lines)</Text>
+              )}
+            </Box>
+          )}
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text dimColor>Enter open  s re-send  / filter  e current endpoint only  Esc close</Text>
+      </Box>
+    </Box>
+  )
+}
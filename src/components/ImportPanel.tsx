@@ -0,0 +1,66 @@
+import { useState } from 'react'
+import { Box, Text, useInput } from 'ink'
+import type { ParsedSpec } from '@/types/index.js'
+import type { CurlImport } from '@/import/index.js'
+import { importCurl } from '@/import/index.js'
+import { useLineEditor } from '@/hooks/useLineEditor.js'
+
+interface Props {
+  readonly spec: ParsedSpec
+  readonly onImport: (result: CurlImport) => void
+  readonly onClose: () => void
+}
+
+export function ImportPanel({ spec, onImport, onClose }: Props) {
+  const editor = useLineEditor()
+  const [error, setError] = useState<string | null>(null)
+
+  useInput((input, key) => {
+    const action = editor.handleInput(input, key)
+    if (action === 'cancel') {
+      onClose()
+      return
+    }
+    if (action === 'commit') {
+      const text = editor.getText().trim()
+      if (text.length === 0) return
+      try {
+        onImport(importCurl(text, spec))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err))
+      }
+      return
+    }
+    setError(null)
+  })
+
+  // Pasted continuations arrive as line breaks; show them as spaces on the one input line
+  const display = editor.text.replace(/\\?\r?\n|\\?\r/g, ' ')
+  const cursor = editor.text.slice(0, editor.cursorPos).replace(/\\?\r?\n|\\?\r/g, ' ').length
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="single"
+      borderColor="cyan"
+      paddingX={1}
+      width="100%"
+      height="100%"
+    >
+      <Text bold color="cyan">Import curl Command</Text>
+      <Text dimColor>Matches the URL and method to an operation in {spec.info.title}</Text>
+      <Box marginTop={1}>
+        <Text>Paste a curl command: </Text>
+      </Box>
+      <Text color="cyan" wrap="wrap">
+        {display.slice(0, cursor)}
+        <Text color="yellow">|</Text>
+        {display.slice(cursor)}
+      </Text>
+      {error && <Text color="red">{error}</Text>}
+      <Box marginTop={1}>
+        <Text dimColor>Enter to import  Esc to cancel</Text>
+      </Box>
+    </Box>
+  )
+}
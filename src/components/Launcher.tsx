@@ -1,47 +1,137 @@
 import { useState, useEffect, useCallback } from 'react'
-import { Box, Text } from 'ink'
-import { Select, Spinner, TextInput } from '@inkjs/ui'
-import { loadConfig as defaultLoadConfig } from '@/config/index.js'
-import type { SavedServer, ConfigData } from '@/config/index.js'
+import { Box, Text, useInput } from 'ink'
+import { PasswordInput, Select, Spinner, TextInput } from '@inkjs/ui'
+import { ConfigError, loadConfigLayers, loadRecentSpecs, saveConfig } from '@/config/index.js'
+import type { SavedServer, ConfigData, ConfigLayer, RecentSpec } from '@/config/index.js'
+import { loadVaultFile, saveVaultFile, createVault, unlockVault, encryptVault } from '@/vault/index.js'
+import type { UnlockedVault, VaultFile } from '@/vault/index.js'
+import { ServerManager } from './ServerManager.js'
+import { RecentSpecs } from './RecentSpecs.js'
 
 export interface LauncherDeps {
   readonly loadConfig: () => Promise<ConfigData>
+  readonly loadVault?: () => Promise<VaultFile | null>
+  readonly saveVault?: (file: VaultFile) => Promise<void>
+  // Your own config, the one the server manager edits
+  readonly loadUserConfig?: () => Promise<ConfigLayer>
+  // Listed read-only in the server manager
+  readonly loadProjectConfig?: () => Promise<ConfigLayer | null>
+  readonly saveConfig?: (data: ConfigData, path: string) => Promise<void>
+  readonly loadRecentSpecs?: () => Promise<readonly RecentSpec[]>
 }
 
 interface Props {
   readonly onSelect: (input: string, savedRequestBaseUrl?: string) => void
+  readonly onUnlock?: (vault: UnlockedVault) => void
   readonly deps?: LauncherDeps
+  // --config, used instead of the user and project config files
+  readonly configPath?: string
+  // How long the default server waits for Esc before it opens
+  readonly autoLaunchDelayMs?: number
 }
 
+type ListPhase =
+  | { readonly kind: 'select'; readonly servers: readonly SavedServer[]; readonly recents: readonly RecentSpec[] }
+  | { readonly kind: 'url-input' }
+
+// Where to go once the vault is dealt with
+type StartPhase =
+  | ListPhase
+  // The config's spec, opened without asking, or the default server, which
+  // waits a moment so Esc can fall back to the server list
+  | {
+    readonly kind: 'open'
+    readonly input: string
+    readonly label: string
+    readonly savedRequestBaseUrl?: string
+    readonly fallback?: ListPhase
+  }
+
 type Phase =
   | { readonly kind: 'loading' }
-  | { readonly kind: 'select'; readonly servers: readonly SavedServer[] }
-  | { readonly kind: 'url-input' }
+  | StartPhase
+  | { readonly kind: 'unlock'; readonly file: VaultFile; readonly next: StartPhase; readonly error?: string }
+  // Asks for the passphrase twice; first is set on the second ask
+  | { readonly kind: 'create-vault'; readonly next: StartPhase; readonly first?: string; readonly error?: string }
+  | { readonly kind: 'working'; readonly message: string }
+  | { readonly kind: 'manage'; readonly layer: ConfigLayer; readonly project: ConfigLayer | null }
+  | { readonly kind: 'recent'; readonly recents: readonly RecentSpec[]; readonly back: ListPhase }
 
 const MANUAL_ENTRY_VALUE = '__manual__'
+const CREATE_VAULT_VALUE = '__create_vault__'
+const MANAGE_SERVERS_VALUE = '__manage_servers__'
+const RECENT_SPECS_VALUE = '__recent_specs__'
 const SERVER_VALUE_PREFIX = '__server_'
+const DEFAULT_AUTO_LAUNCH_DELAY_MS = 1500
 
-export function Launcher({ onSelect, deps }: Props) {
-  const resolvedLoadConfig = deps?.loadConfig ?? defaultLoadConfig
+function listPhase(config: ConfigData, recents: readonly RecentSpec[]): ListPhase {
+  if (config.servers.length === 0 && recents.length === 0) return { kind: 'url-input' }
+  return { kind: 'select', servers: config.servers, recents }
+}
+
+// A project spec wins over your default server
+function startPhase(config: ConfigData, recents: readonly RecentSpec[]): StartPhase {
+  if (config.spec !== undefined) {
+    return { kind: 'open', input: config.spec, label: config.spec }
+  }
+  const server = config.servers.find(s => s.name === config.preferences.defaultServer)
+  const loadUrl = server?.swaggerEndpointUrl ?? server?.url
+  if (server && loadUrl !== undefined) {
+    return {
+      kind: 'open',
+      input: loadUrl,
+      label: server.name,
+      ...(server.url !== undefined ? { savedRequestBaseUrl: server.url } : {}),
+      fallback: listPhase(config, recents),
+    }
+  }
+  return listPhase(config, recents)
+}
+
+export function Launcher({ onSelect, onUnlock, deps, configPath, autoLaunchDelayMs = DEFAULT_AUTO_LAUNCH_DELAY_MS }: Props) {
+  const resolvedLoadConfig = deps?.loadConfig ?? (() => loadConfigLayers({ configPath }).then(layers => layers.merged))
+  const resolvedLoadUserConfig = deps?.loadUserConfig ?? (() => loadConfigLayers({ configPath }).then(layers => layers.user))
+  const resolvedLoadProjectConfig = deps?.loadProjectConfig ?? (() => loadConfigLayers({ configPath }).then(layers => layers.project))
+  const resolvedSaveConfig = deps?.saveConfig ?? saveConfig
+  const resolvedLoadVault = deps?.loadVault ?? loadVaultFile
+  const resolvedSaveVault = deps?.saveVault ?? saveVaultFile
+  const resolvedLoadRecentSpecs = deps?.loadRecentSpecs ?? (() => loadRecentSpecs())
   const [phase, setPhase] = useState<Phase>({ kind: 'loading' })
+  // Only offer to create a vault when there is none, not even an unreadable one
+  const [canCreateVault, setCanCreateVault] = useState(false)
+  const [notice, setNotice] = useState<string | null>(null)
+  // Why the servers aren't listed: the config is there but doesn't load
+  const [configError, setConfigError] = useState<string | null>(null)
+  // Kept so the server manager can drop the secrets of auth it removes
+  const [unlockedVault, setUnlockedVault] = useState<UnlockedVault | null>(null)
 
   useEffect(() => {
     let cancelled = false
 
-    async function init() {
+    async function loadVault(): Promise<VaultFile | null | undefined> {
       try {
-        const config = await resolvedLoadConfig()
-        if (cancelled) return
+        return await resolvedLoadVault()
+      } catch (err) {
+        console.warn('superapi-tui:', err instanceof Error ? err.message : String(err))
+        return undefined
+      }
+    }
 
-        if (config.servers.length === 0) {
-          setPhase({ kind: 'url-input' })
-        } else {
-          setPhase({ kind: 'select', servers: config.servers })
-        }
-      } catch {
-        if (cancelled) return
-        setPhase({ kind: 'url-input' })
+    async function init() {
+      let next: StartPhase
+      let loadError: string | null = null
+      try {
+        next = startPhase(await resolvedLoadConfig(), await resolvedLoadRecentSpecs())
+      } catch (err) {
+        if (err instanceof ConfigError) loadError = err.message
+        next = { kind: 'url-input' }
       }
+      const file = await loadVault()
+      if (cancelled) return
+
+      setConfigError(loadError)
+      setCanCreateVault(file === null)
+      setPhase(file ? { kind: 'unlock', file, next } : next)
     }
 
     init()
@@ -50,10 +140,126 @@ export function Launcher({ onSelect, deps }: Props) {
     }
   }, [])
 
+  useEffect(() => {
+    if (phase.kind !== 'open') return
+    const { input, savedRequestBaseUrl } = phase
+    if (!phase.fallback) {
+      onSelect(input)
+      return
+    }
+    const timer = setTimeout(() => onSelect(input, savedRequestBaseUrl), autoLaunchDelayMs)
+    return () => clearTimeout(timer)
+  }, [phase, onSelect, autoLaunchDelayMs])
+
+  useInput(
+    (_input, key) => {
+      if (!key.escape) return
+      if (phase.kind === 'unlock' || phase.kind === 'create-vault') setPhase(phase.next)
+      if (phase.kind === 'open' && phase.fallback) setPhase(phase.fallback)
+    },
+    { isActive: phase.kind === 'unlock' || phase.kind === 'create-vault' || (phase.kind === 'open' && phase.fallback !== undefined) },
+  )
+
+  const openServerManager = useCallback(() => {
+    setPhase({ kind: 'working', message: 'Loading servers...' })
+    Promise.all([resolvedLoadUserConfig(), resolvedLoadProjectConfig()])
+      .then(([layer, project]) => setPhase({ kind: 'manage', layer, project }))
+      .catch((err: unknown) => {
+        setNotice(`Could not load the config: ${err instanceof Error ? err.message : String(err)}`)
+        setPhase(phase.kind === 'select' ? phase : { kind: 'url-input' })
+      })
+  }, [phase, resolvedLoadUserConfig, resolvedLoadProjectConfig])
+
+  const handleManagerSave = useCallback(
+    (data: ConfigData) => {
+      if (phase.kind !== 'manage') return Promise.resolve(false)
+      return resolvedSaveConfig(data, phase.layer.path).then(() => true, () => false)
+    },
+    [phase, resolvedSaveConfig],
+  )
+
+  const handleManagerSaveVault = useCallback(
+    async (vault: UnlockedVault) => {
+      await resolvedSaveVault(encryptVault(vault))
+      setUnlockedVault(vault)
+      onUnlock?.(vault)
+    },
+    [resolvedSaveVault, onUnlock],
+  )
+
+  // Back to the list, with whatever the manager changed
+  const handleManagerClose = useCallback(() => {
+    setNotice(null)
+    setPhase({ kind: 'working', message: 'Loading config...' })
+    Promise.all([resolvedLoadConfig(), resolvedLoadRecentSpecs()])
+      .then(([config, recents]) => setPhase(listPhase(config, recents)))
+      .catch((err: unknown) => {
+        if (err instanceof ConfigError) setConfigError(err.message)
+        setPhase({ kind: 'url-input' })
+      })
+  }, [resolvedLoadConfig, resolvedLoadRecentSpecs])
+
+  const handleUnlockSubmit = useCallback(
+    (passphrase: string) => {
+      if (phase.kind !== 'unlock') return
+      const { file, next } = phase
+      setPhase({ kind: 'working', message: 'Unlocking vault...' })
+      unlockVault(file, passphrase)
+        .then((vault) => {
+          setUnlockedVault(vault)
+          onUnlock?.(vault)
+          setPhase(next)
+        })
+        .catch((err: unknown) => {
+          setPhase({ kind: 'unlock', file, next, error: err instanceof Error ? err.message : String(err) })
+        })
+    },
+    [phase, onUnlock],
+  )
+
+  const handleCreateSubmit = useCallback(
+    (passphrase: string) => {
+      if (phase.kind !== 'create-vault') return
+      const { next, first } = phase
+      if (passphrase.length === 0) {
+        setPhase({ kind: 'create-vault', next, error: 'The passphrase cannot be empty' })
+        return
+      }
+      if (first === undefined) {
+        setPhase({ kind: 'create-vault', next, first: passphrase })
+        return
+      }
+      if (passphrase !== first) {
+        setPhase({ kind: 'create-vault', next, error: 'The passphrases do not match' })
+        return
+      }
+      setPhase({ kind: 'working', message: 'Creating vault...' })
+      createVault(passphrase)
+        .then(async (vault) => {
+          await resolvedSaveVault(encryptVault(vault))
+          setCanCreateVault(false)
+          setNotice('Secrets vault created; saved credentials now keep their secrets in it')
+          setUnlockedVault(vault)
+          onUnlock?.(vault)
+          setPhase(next)
+        })
+        .catch((err: unknown) => {
+          setPhase({ kind: 'create-vault', next, error: err instanceof Error ? err.message : String(err) })
+        })
+    },
+    [phase, onUnlock, resolvedSaveVault],
+  )
+
   const handleSelectChange = useCallback(
     (value: string) => {
       if (value === MANUAL_ENTRY_VALUE) {
         setPhase({ kind: 'url-input' })
+      } else if (value === CREATE_VAULT_VALUE) {
+        if (phase.kind === 'select') setPhase({ kind: 'create-vault', next: phase })
+      } else if (value === MANAGE_SERVERS_VALUE) {
+        openServerManager()
+      } else if (value === RECENT_SPECS_VALUE) {
+        if (phase.kind === 'select') setPhase({ kind: 'recent', recents: phase.recents, back: phase })
       } else if (phase.kind === 'select' && value.startsWith(SERVER_VALUE_PREFIX)) {
         const index = parseInt(value.slice(SERVER_VALUE_PREFIX.length), 10)
         const server = phase.servers[index]
@@ -68,7 +274,7 @@ export function Launcher({ onSelect, deps }: Props) {
         onSelect(value)
       }
     },
-    [onSelect, phase],
+    [onSelect, phase, openServerManager],
   )
 
   const handleUrlSubmit = useCallback(
@@ -93,6 +299,58 @@ export function Launcher({ onSelect, deps }: Props) {
     )
   }
 
+  if (phase.kind === 'working' || phase.kind === 'open') {
+    return (
+      <Box flexDirection="column" padding={1}>
+        <Text bold color="cyan">
+          superapi-tui
+        </Text>
+        <Box marginTop={1}>
+          <Spinner label={phase.kind === 'open' ? `Opening ${phase.label}...` : phase.message} />
+        </Box>
+        {phase.kind === 'open' && phase.fallback && <Text dimColor>Esc for the server list</Text>}
+      </Box>
+    )
+  }
+
+  if (phase.kind === 'manage') {
+    return (
+      <ServerManager
+        layer={phase.layer}
+        project={phase.project}
+        onSave={handleManagerSave}
+        onClose={handleManagerClose}
+        vault={unlockedVault}
+        onSaveVault={handleManagerSaveVault}
+      />
+    )
+  }
+
+  if (phase.kind === 'recent') {
+    return <RecentSpecs recents={phase.recents} onOpen={onSelect} onClose={() => setPhase(phase.back)} />
+  }
+
+  if (phase.kind === 'unlock' || phase.kind === 'create-vault') {
+    const prompt = phase.kind === 'unlock'
+      ? 'Vault passphrase:'
+      : phase.first === undefined ? 'New vault passphrase:' : 'Repeat the passphrase:'
+    return (
+      <Box flexDirection="column" padding={1}>
+        <Text bold color="cyan">
+          superapi-tui
+        </Text>
+        <Text dimColor>
+          {phase.kind === 'unlock' ? 'Unlock the secrets vault (Esc to skip)' : 'Create a secrets vault (Esc to cancel)'}
+        </Text>
+        {phase.error && <Text color="red">{phase.error}</Text>}
+        <Box marginTop={1}>
+          <Text>{prompt} </Text>
+          <PasswordInput key={`${phase.kind}-${phase.kind === 'create-vault' && phase.first !== undefined}-${phase.error ?? ''}`} onSubmit={phase.kind === 'unlock' ? handleUnlockSubmit : handleCreateSubmit} />
+        </Box>
+      </Box>
+    )
+  }
+
   if (phase.kind === 'select') {
     const options = [
       ...phase.servers.map((s, i) => {
@@ -102,7 +360,10 @@ export function Launcher({ onSelect, deps }: Props) {
           value: `${SERVER_VALUE_PREFIX}${i}`,
         }
       }),
+      ...(phase.recents.length > 0 ? [{ label: `Recent specs (${phase.recents.length})...`, value: RECENT_SPECS_VALUE }] : []),
       { label: 'Enter URL or file path...', value: MANUAL_ENTRY_VALUE },
+      ...(canCreateVault ? [{ label: 'Create secrets vault...', value: CREATE_VAULT_VALUE }] : []),
+      ...(phase.servers.length > 0 ? [{ label: 'Manage servers...', value: MANAGE_SERVERS_VALUE }] : []),
     ]
 
     return (
@@ -111,6 +372,7 @@ export function Launcher({ onSelect, deps }: Props) {
           superapi-tui
         </Text>
         <Text dimColor>Select a server or enter a spec URL</Text>
+        {notice && <Text color="green">{notice}</Text>}
         <Box marginTop={1}>
           <Select options={options} onChange={handleSelectChange} />
         </Box>
@@ -124,6 +386,7 @@ export function Launcher({ onSelect, deps }: Props) {
         superapi-tui
       </Text>
       <Text dimColor>Enter a spec URL or file path</Text>
+      {configError && <Text color="red">{configError}</Text>}
       <Box marginTop={1}>
         <TextInput placeholder="https://... or ./path.yaml or Swagger UI URL" onSubmit={handleUrlSubmit} />
       </Box>
@@ -0,0 +1,110 @@
+import { useState, useMemo } from 'react'
+import { Box, Text, useInput } from 'ink'
+import type { RecentSpec } from '@/config/index.js'
+
+interface Props {
+  readonly recents: readonly RecentSpec[]
+  readonly onOpen: (input: string) => void
+  readonly onClose: () => void
+}
+
+// The query's characters, in order but not necessarily adjacent
+function fuzzyMatches(recent: RecentSpec, query: string): boolean {
+  const haystack = `${recent.title} ${recent.version} ${recent.input}`.toLowerCase()
+  let position = 0
+  for (const char of query.toLowerCase()) {
+    position = haystack.indexOf(char, position)
+    if (position === -1) return false
+    position++
+  }
+  return true
+}
+
+function formatOpenedAt(openedAt: string, now: number): string {
+  const time = new Date(openedAt).getTime()
+  if (Number.isNaN(time)) return openedAt
+  const minutes = Math.floor((now - time) / 60_000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+  const days = Math.floor(hours / 24)
+  if (days < 30) return `${days}d ago`
+  return new Date(time).toISOString().slice(0, 10)
+}
+
+export function RecentSpecs({ recents, onOpen, onClose }: Props) {
+  const [filterText, setFilterText] = useState('')
+  const [cursorIndex, setCursorIndex] = useState(0)
+
+  const rows = useMemo(
+    () => (filterText.length === 0 ? recents : recents.filter(r => fuzzyMatches(r, filterText))),
+    [recents, filterText],
+  )
+  const now = Date.now()
+
+  // Every printable key goes to the filter, so only the arrows move
+  useInput((input, key) => {
+    if (key.escape) {
+      if (filterText.length > 0) {
+        setFilterText('')
+        setCursorIndex(0)
+      } else {
+        onClose()
+      }
+      return
+    }
+    if (key.upArrow) {
+      setCursorIndex(prev => Math.max(0, prev - 1))
+      return
+    }
+    if (key.downArrow) {
+      setCursorIndex(prev => Math.min(rows.length - 1, prev + 1))
+      return
+    }
+    if (key.return) {
+      const selected = rows[cursorIndex]
+      if (selected) onOpen(selected.input)
+      return
+    }
+    if (key.backspace || key.delete) {
+      setFilterText(prev => prev.slice(0, -1))
+      setCursorIndex(0)
+      return
+    }
+    if (input && !key.ctrl && !key.meta) {
+      setFilterText(prev => prev + input)
+      setCursorIndex(0)
+    }
+  })
+
+  return (
+    <Box flexDirection="column" padding={1}>
+      <Text bold color="cyan">
+        superapi-tui
+      </Text>
+      <Text dimColor>Recent specs (type to filter, Esc to go back)</Text>
+      <Text>
+        / {filterText}
+        <Text inverse> </Text>
+      </Text>
+      <Box flexDirection="column" marginTop={1}>
+        {rows.length === 0 && <Text dimColor>No recent specs match.</Text>}
+        {rows.map((recent, i) => {
+          const isSelected = i === cursorIndex
+          return (
+            <Box key={recent.input} flexDirection="column">
+              <Text inverse={isSelected} wrap="truncate-end">
+                {isSelected ? '> ' : '  '}
+                {recent.title || recent.input}
+                {recent.version && <Text dimColor={!isSelected}> {recent.version}</Text>}
+                <Text dimColor={!isSelected}>  {formatOpenedAt(recent.openedAt, now)}</Text>
+              </Text>
+              <Text dimColor wrap="truncate-middle">    {recent.input}</Text>
+            </Box>
+          )
+        })}
+      </Box>
+    </Box>
+  )
+}
@@ -1,16 +1,23 @@
 import { useState, useMemo, useEffect, useRef } from 'react'
 import { Box, Text, useInput } from 'ink'
 import { Spinner } from '@inkjs/ui'
-import type { Endpoint, ServerInfo, SecuritySchemeInfo, AuthFieldKey, AuthCredentials, ResponseTab } from '@/types/index.js'
-import type { SavedAuth } from '@/config/index.js'
-import { getConfigPath } from '@/config/index.js'
+import type { Endpoint, ServerInfo, SecuritySchemeInfo, AuthOption, AuthFieldKey, SecurityAlternative, AuthCredentials, OAuthToken, ResponseTab, PendingRequest, SavedRequestRef, RequestOptions } from '@/types/index.js'
+import type { SavedAuth, SavedCredential, SavedRequest, Environment } from '@/config/index.js'
+import { DEFAULT_CREDENTIAL_NAME, getConfigPath, normalizeUrl } from '@/config/index.js'
+import type { HistoryEntry } from '@/history/index.js'
 import { METHOD_COLORS } from '@/utils/http-method.js'
+import { isUrl } from '@/utils/url.js'
 import { useRequestState } from '@/hooks/useRequestState.js'
+import type { CookieJarState } from '@/hooks/useCookieJar.js'
 import { useScrollableList } from '@/hooks/useScrollableList.js'
 import { useLineEditor } from '@/hooks/useLineEditor.js'
 import { useViewport } from '@/hooks/useViewport.js'
+import type { SecretSources } from '@/vault/index.js'
+import { findUnresolvedSecretRefs } from '@/vault/index.js'
 import { ScrollIndicator } from './ScrollIndicator.js'
-import { resolveServerUrl } from '@/http/index.js'
+import { VariableText } from './VariableText.js'
+import type { BodyKind, FormField } from '@/http/index.js'
+import { resolveServerUrl, matchServerUrl, interpolate, findUnresolvedVariables, bodyKindOf, credentialFields, describeSecurity } from '@/http/index.js'
 
 interface Props {
   readonly endpoint: Endpoint | null
@@ -18,79 +25,165 @@ interface Props {
   readonly servers: readonly ServerInfo[]
   readonly securitySchemes: readonly SecuritySchemeInfo[]
   readonly onTextCaptureChange?: (active: boolean) => void
-  readonly onSaveServerAuth?: (name: string, url: string, auth?: SavedAuth, swaggerEndpointUrl?: string) => Promise<boolean>
-  readonly findAuthForServer?: (specServerUrl: string) => SavedAuth | null
+  readonly onSaveServerAuth?: (
+    name: string,
+    url: string,
+    auth?: SavedAuth,
+    swaggerEndpointUrl?: string,
+    serverVariables?: Readonly<Record<string, string>>,
+    credentialName?: string,
+  ) => Promise<boolean>
+  // The credential last used with the server
+  readonly findAuthForServer?: (specServerUrl: string) => SavedCredential | null
+  readonly findCredentialsForServer?: (specServerUrl: string) => readonly SavedCredential[]
+  readonly onSelectCredential?: (specServerUrl: string, name: string) => Promise<boolean>
+  readonly findServerVariables?: (server: ServerInfo, variables?: ReadonlyMap<string, string>) => Readonly<Record<string, string>> | null
   readonly configLoaded?: boolean
   readonly defaultResponseTab?: ResponseTab
   readonly specLoadUrl?: string
   readonly savedRequestBaseUrl?: string
   readonly terminalHeight?: number
+  readonly onHistoryEntry?: (entry: HistoryEntry) => void
+  readonly pendingRequest?: PendingRequest | null
+  readonly onPendingRequestHandled?: () => void
+  readonly onSaveRequest?: (collection: string, request: SavedRequest) => Promise<boolean>
+  readonly environments?: readonly Environment[]
+  readonly activeEnvironment?: Environment | null
+  readonly onSelectEnvironment?: (name: string | null) => void
+  readonly onExportRequest?: (request: RequestOptions) => void
+  readonly cookieJar?: CookieJarState
+  // Resolves false when the server isn't saved, so it has nowhere to keep the setting
+  readonly onToggleCookieJar?: (serverUrl: string, enabled: boolean) => Promise<boolean>
+  // The spec's top-level security, for operations that don't declare their own
+  readonly globalSecurity?: readonly SecurityAlternative[]
+  // Where ${env:…} and ${vault:…} references in auth fields resolve from
+  readonly secrets?: SecretSources
+  // The config file saves go to
+  readonly configPath?: string
 }
 
+const DEFAULT_COLLECTION = 'default'
+
+const NO_ENVIRONMENTS: readonly Environment[] = []
+
+const NO_CREDENTIALS: readonly SavedCredential[] = []
+
 const REQUEST_PANEL_RESERVED = 7
 
 type Row =
   | { readonly type: 'server'; readonly label: string }
+  | { readonly type: 'server-variable'; readonly label: string; readonly variableName: string }
   | { readonly type: 'auth-toggle'; readonly label: string }
+  | { readonly type: 'auth-credential'; readonly label: string }
   | { readonly type: 'auth-type'; readonly label: string }
-  | { readonly type: 'auth-field'; readonly label: string; readonly fieldKey: AuthFieldKey }
-  | { readonly type: 'param'; readonly label: string; readonly paramKey: string }
+  // schemeName is set for schemes required together with the selected one
+  | { readonly type: 'auth-field'; readonly label: string; readonly fieldKey: AuthFieldKey; readonly schemeName?: string }
+  | { readonly type: 'param'; readonly label: string; readonly paramKey: string; readonly hint?: string }
+  | { readonly type: 'extra-header'; readonly label: string; readonly headerName: string }
+  | { readonly type: 'body-type'; readonly label: string }
+  | { readonly type: 'form-field'; readonly label: string; readonly field: FormField }
   | { readonly type: 'body-editor'; readonly label: string }
   | { readonly type: 'send'; readonly label: string }
   | { readonly type: 'response-tabs'; readonly label: string }
   | { readonly type: 'response-content'; readonly label: string }
 
 const PRETTY_LINE_CAP = 40
+const BODY_VIOLATION_CAP = 5
 const RAW_CHAR_CAP = 2000
 
 const TAB_KEYS = new Map<string, ResponseTab>([
   ['1', 'pretty'],
   ['2', 'raw'],
   ['3', 'headers'],
+  ['4', 'validation'],
 ])
 
+function authFieldRows(option: AuthOption, schemeName?: string): readonly Row[] {
+  const field = (label: string, fieldKey: AuthFieldKey): Row => (schemeName !== undefined
+    ? { type: 'auth-field', label: `${schemeName} ${label}`, fieldKey, schemeName }
+    : { type: 'auth-field', label, fieldKey })
+
+  switch (option.method) {
+    case 'bearer':
+      return [field('Token', 'token')]
+    case 'apiKey':
+      return [field('Key', 'key')]
+    case 'basic':
+      return [field('Username', 'username'), field('Password', 'password')]
+    case 'oauth2':
+      return [
+        field('Client ID', 'clientId'),
+        field('Client Secret', 'clientSecret'),
+        ...(option.grant === 'password' ? [field('Username', 'username'), field('Password', 'password')] : []),
+        field('Scopes', 'scopes'),
+      ]
+    default: {
+      const _exhaustive: never = option
+      throw new Error(`Unknown auth method: ${(_exhaustive as { method: string }).method}`)
+    }
+  }
+}
+
 function buildRows(
   endpoint: Endpoint,
+  serverVariableNames: readonly string[],
   authExpanded: boolean,
-  authMethod: 'bearer' | 'apiKey' | 'basic' | undefined,
+  hasSavedCredentials: boolean,
+  // The selected option first, then those of schemes required together with it
+  authOptions: readonly AuthOption[],
+  extraHeaderNames: readonly string[],
+  bodyMediaTypes: readonly string[],
+  bodyKind: BodyKind,
+  formFields: readonly FormField[],
 ): readonly Row[] {
   const rows: Row[] = []
 
   rows.push({ type: 'server', label: 'Server' })
+  for (const name of serverVariableNames) {
+    rows.push({ type: 'server-variable', label: name, variableName: name })
+  }
   rows.push({ type: 'auth-toggle', label: 'Auth' })
 
-  if (authExpanded && authMethod) {
+  const [selectedAuth, ...additionalAuth] = authOptions
+  if (authExpanded && selectedAuth) {
+    if (hasSavedCredentials) {
+      rows.push({ type: 'auth-credential', label: 'Credential' })
+    }
     rows.push({ type: 'auth-type', label: 'Auth Type' })
-
-    switch (authMethod) {
-      case 'bearer':
-        rows.push({ type: 'auth-field', label: 'Token', fieldKey: 'token' })
-        break
-      case 'apiKey':
-        rows.push({ type: 'auth-field', label: 'Key', fieldKey: 'key' })
-        break
-      case 'basic':
-        rows.push({ type: 'auth-field', label: 'Username', fieldKey: 'username' })
-        rows.push({ type: 'auth-field', label: 'Password', fieldKey: 'password' })
-        break
+    rows.push(...authFieldRows(selectedAuth))
+    for (const option of additionalAuth) {
+      rows.push(...authFieldRows(option, option.schemeName))
     }
   }
 
   for (const param of endpoint.parameters) {
-    if (param.location === 'path' || param.location === 'query' || param.location === 'header') {
-      rows.push({
-        type: 'param',
-        label: `${param.location}:${param.name}`,
-        paramKey: `${param.location}:${param.name}`,
-      })
-    }
+    rows.push({
+      type: 'param',
+      label: `${param.location}:${param.name}`,
+      paramKey: `${param.location}:${param.name}`,
+      // Array and object values are entered as JSON and serialized per the param style
+      ...(param.schema?.type === 'array' || param.schema?.type === 'object'
+        ? { hint: `JSON ${param.schema.type}` }
+        : {}),
+    })
   }
 
-  const hasJsonBody = endpoint.requestBody?.content.some(
-    m => m.mediaType === 'application/json',
-  )
-  if (hasJsonBody) {
-    rows.push({ type: 'body-editor', label: 'Body' })
+  for (const name of extraHeaderNames) {
+    rows.push({ type: 'extra-header', label: `header:${name}`, headerName: name })
+  }
+
+  // A lone JSON media type needs no mention; anything else shows what gets sent
+  if (bodyMediaTypes.length > 1 || (bodyMediaTypes.length === 1 && bodyKind !== 'json')) {
+    rows.push({ type: 'body-type', label: 'Body Type' })
+  }
+  if (bodyMediaTypes.length > 0) {
+    if (bodyKind === 'form' || bodyKind === 'multipart') {
+      for (const field of formFields) {
+        rows.push({ type: 'form-field', label: `${field.file ? 'file' : 'form'}:${field.name}`, field })
+      }
+    } else {
+      rows.push({ type: 'body-editor', label: 'Body' })
+    }
   }
 
   rows.push({ type: 'send', label: 'Send Request' })
@@ -140,6 +233,40 @@ function credentialsToSavedAuth(creds: AuthCredentials): SavedAuth | null {
       return creds.key ? { method: 'apiKey', key: creds.key, paramName: creds.paramName, location: creds.location } : null
     case 'basic':
       return (creds.username || creds.password) ? { method: 'basic', username: creds.username, password: creds.password } : null
+    case 'oauth2':
+      // The token itself is only cached for the session
+      return creds.clientId
+        ? {
+            method: 'oauth2',
+            grant: creds.grant,
+            tokenUrl: creds.tokenUrl,
+            ...(creds.authorizationUrl !== undefined ? { authorizationUrl: creds.authorizationUrl } : {}),
+            clientId: creds.clientId,
+            clientSecret: creds.clientSecret,
+            scopes: creds.scopes,
+            ...(creds.username !== undefined ? { username: creds.username } : {}),
+            ...(creds.password !== undefined ? { password: creds.password } : {}),
+          }
+        : null
+    default: {
+      const _exhaustive: never = creds
+      throw new Error(`Unknown auth method: ${(_exhaustive as { method: string }).method}`)
+    }
+  }
+}
+
+function credentialValues(creds: AuthCredentials): readonly string[] {
+  switch (creds.method) {
+    case 'none':
+      return []
+    case 'bearer':
+      return [creds.token]
+    case 'apiKey':
+      return [creds.key]
+    case 'basic':
+      return [creds.username, creds.password]
+    case 'oauth2':
+      return [creds.clientId, creds.clientSecret, creds.scopes, creds.username ?? '', creds.password ?? '']
     default: {
       const _exhaustive: never = creds
       throw new Error(`Unknown auth method: ${(_exhaustive as { method: string }).method}`)
@@ -147,28 +274,76 @@ function credentialsToSavedAuth(creds: AuthCredentials): SavedAuth | null {
   }
 }
 
-export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, onTextCaptureChange, onSaveServerAuth, findAuthForServer, configLoaded, defaultResponseTab, specLoadUrl, savedRequestBaseUrl, terminalHeight }: Props) {
-  const state = useRequestState(endpoint, securitySchemes, defaultResponseTab)
+function describeToken(token: OAuthToken | null, now: number): string {
+  if (!token) return 'Token: requested when sending'
+  if (token.expiresAt === undefined) return 'Token: cached'
+  const seconds = Math.floor((token.expiresAt - now) / 1000)
+  if (seconds <= 0) return 'Token: expired, renewed when sending'
+  return `Token: cached, expires in ${seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m`}`
+}
+
+// "collection/name"; the collection is everything before the first slash so
+// names like "GET /pets/{petId}" survive. Without a slash, the default collection.
+function parseSavedRequestName(text: string): SavedRequestRef | null {
+  const trimmed = text.trim()
+  const slash = trimmed.indexOf('/')
+  const collection = slash > 0 ? trimmed.slice(0, slash).trim() : DEFAULT_COLLECTION
+  const name = (slash >= 0 ? trimmed.slice(slash + 1) : trimmed).trim()
+  return name.length > 0 ? { collection, name } : null
+}
+
+export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, onTextCaptureChange, onSaveServerAuth, findAuthForServer, findCredentialsForServer, onSelectCredential, findServerVariables, configLoaded, defaultResponseTab, specLoadUrl, savedRequestBaseUrl, terminalHeight, onHistoryEntry, pendingRequest, onPendingRequestHandled, onSaveRequest, environments = NO_ENVIRONMENTS, activeEnvironment = null, onSelectEnvironment, onExportRequest, cookieJar, onToggleCookieJar, globalSecurity, secrets, configPath = getConfigPath() }: Props) {
+  const variables = useMemo(
+    () => new Map(Object.entries(activeEnvironment?.variables ?? {})),
+    [activeEnvironment],
+  )
+  const state = useRequestState(endpoint, securitySchemes, defaultResponseTab, onHistoryEntry, variables, cookieJar, globalSecurity, secrets)
   const [editingParam, setEditingParam] = useState<string | null>(null)
+  const [editingHeader, setEditingHeader] = useState<string | null>(null)
+  const [editingFormField, setEditingFormField] = useState<string | null>(null)
   const [editingBody, setEditingBody] = useState(false)
-  const [editingAuthField, setEditingAuthField] = useState<AuthFieldKey | null>(null)
+  const [editingAuthField, setEditingAuthField] = useState<{ readonly fieldKey: AuthFieldKey; readonly schemeName?: string } | null>(null)
+  const [editingServerVariable, setEditingServerVariable] = useState<string | null>(null)
+  const [editingBaseUrl, setEditingBaseUrl] = useState(false)
+  // Base URLs typed into the Server row, offered after the spec's servers
+  const [customServers, setCustomServers] = useState<readonly ServerInfo[]>([])
   const [saveMessage, setSaveMessage] = useState<string | null>(null)
   const [savingProfile, setSavingProfile] = useState(false)
+  // Profile name waiting for the name of the credential to save it with
+  const [savingCredentialFor, setSavingCredentialFor] = useState<string | null>(null)
+  // The saved credential the auth fields were last loaded from or saved as
+  const [activeCredential, setActiveCredential] = useState<string | null>(null)
+  const [pendingSend, setPendingSend] = useState(false)
+  const [confirmingSend, setConfirmingSend] = useState(false)
+  const [savingRequest, setSavingRequest] = useState(false)
+  const [activeSaved, setActiveSaved] = useState<SavedRequestRef | null>(null)
   const initialAuthApplied = useRef(false)
+  // Spec server URLs whose variable values were already loaded from config
+  const restoredServerVariables = useRef(new Set<string>())
 
   const editor = useLineEditor()
   const bodyEditor = useLineEditor({ multiline: true })
 
   const selectedOption = state.auth.availableOptions[state.auth.selectedOptionIndex % state.auth.availableOptions.length]
 
-  const mergedServers = useMemo(() => {
+  // A saved base URL can pick the values of a spec server's variables
+  const savedBaseMatch = useMemo(() => {
+    if (!savedRequestBaseUrl) return null
+    // A server whose defaults already give the URL beats one whose variables could
+    const saved = normalizeUrl(savedRequestBaseUrl)
+    const exactIndex = servers.findIndex(s => normalizeUrl(resolveServerUrl(s)) === saved)
+    if (exactIndex >= 0) return { index: exactIndex, values: new Map<string, string>() }
+    for (const [index, server] of servers.entries()) {
+      const values = matchServerUrl(server, savedRequestBaseUrl)
+      if (values) return { index, values }
+    }
+    return null
+  }, [servers, savedRequestBaseUrl])
+
+  const specServers = useMemo(() => {
     if (!savedRequestBaseUrl) return servers
 
-    const normalizedSaved = savedRequestBaseUrl.replace(/\/+$/, '').toLowerCase()
-    const matchIndex = servers.findIndex(s => {
-      const resolved = resolveServerUrl(s)
-      return resolved.replace(/\/+$/, '').toLowerCase() === normalizedSaved
-    })
+    const matchIndex = savedBaseMatch?.index ?? -1
 
     if (matchIndex > 0) {
       // Move matching server to index 0 so it's pre-selected
@@ -186,11 +361,38 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
       variables: new Map(),
     }
     return [injectedServer, ...servers]
-  }, [servers, savedRequestBaseUrl])
+  }, [servers, savedRequestBaseUrl, savedBaseMatch])
+
+  const mergedServers = useMemo(
+    () => (customServers.length > 0 ? [...specServers, ...customServers] : specServers),
+    [specServers, customServers],
+  )
 
+  const serverIdx = mergedServers.length > 0 ? state.selectedServerIndex % mergedServers.length : -1
+  const currentServer = serverIdx >= 0 ? mergedServers[serverIdx]! : null
+  const serverVariableNames = useMemo(() => [...(currentServer?.variables.keys() ?? [])], [currentServer])
+
+  // The server URL with the environment and the chosen variable values applied
+  const resolveServer = (server: ServerInfo): string =>
+    resolveServerUrl(server, variables, state.serverVariableValues(server))
+
+  const savedCredentials = currentServer && findCredentialsForServer
+    ? findCredentialsForServer(resolveServer(currentServer))
+    : NO_CREDENTIALS
+  const hasSavedCredentials = savedCredentials.length > 0
+
+  const extraHeaderNames = useMemo(() => [...state.extraHeaders.keys()], [state.extraHeaders])
+  const bodyKind = bodyKindOf(state.bodyMediaType)
+  const { additionalCredentials } = state.auth
+  const authOptions = useMemo(
+    () => (selectedOption ? [selectedOption, ...additionalCredentials.map(entry => entry.option)] : []),
+    [selectedOption, additionalCredentials],
+  )
   const rows = useMemo(
-    () => (endpoint ? buildRows(endpoint, state.auth.authExpanded, selectedOption?.method) : []),
-    [endpoint, state.auth.authExpanded, selectedOption?.method],
+    () => (endpoint
+      ? buildRows(endpoint, serverVariableNames, state.auth.authExpanded, hasSavedCredentials, authOptions, extraHeaderNames, state.bodyMediaTypes, bodyKind, state.formFields)
+      : []),
+    [endpoint, serverVariableNames, state.auth.authExpanded, hasSavedCredentials, authOptions, extraHeaderNames, state.bodyMediaTypes, bodyKind, state.formFields],
   )
 
   const { cursorIndex, moveUp, moveDown, moveToTop, moveToBottom } = useScrollableList(rows.length)
@@ -203,7 +405,33 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
     terminalHeight,
   })
 
-  const isTextCapturing = editingParam !== null || editingBody || editingAuthField !== null || savingProfile
+  // e.g. ${vault:…} while the vault is locked
+  const unresolvedSecrets = useMemo(() => {
+    if (!secrets) return []
+    return findUnresolvedSecretRefs([
+      ...credentialValues(state.auth.credentials),
+      ...state.auth.additionalCredentials.flatMap(entry => credentialValues(entry.credentials)),
+    ], secrets)
+  }, [state.auth.credentials, state.auth.additionalCredentials, secrets])
+
+  const unresolvedVariables = useMemo(() => {
+    const texts = [
+      ...state.paramValues.values(),
+      ...state.extraHeaders.values(),
+      ...state.formValues.values(),
+      ...credentialValues(state.auth.credentials),
+      ...state.auth.additionalCredentials.flatMap(entry => credentialValues(entry.credentials)),
+    ]
+    if (mergedServers.length > 0) {
+      texts.push(mergedServers[state.selectedServerIndex % mergedServers.length]!.url)
+    }
+    if (endpoint?.requestBody) {
+      texts.push(state.bodyText)
+    }
+    return findUnresolvedVariables(texts, variables)
+  }, [state.paramValues, state.extraHeaders, state.formValues, state.auth.credentials, state.auth.additionalCredentials, state.selectedServerIndex, state.bodyText, mergedServers, endpoint, variables])
+
+  const isTextCapturing = editingParam !== null || editingServerVariable !== null || editingBaseUrl || editingHeader !== null || editingFormField !== null || editingBody || editingAuthField !== null || savingProfile || savingCredentialFor !== null || savingRequest || confirmingSend
 
   useEffect(() => {
     onTextCaptureChange?.(isTextCapturing)
@@ -212,55 +440,156 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
   // Reset editing state on endpoint change
   useEffect(() => {
     setEditingParam(null)
+    setEditingServerVariable(null)
+    setEditingBaseUrl(false)
+    setEditingHeader(null)
+    setEditingFormField(null)
     setEditingBody(false)
     setEditingAuthField(null)
-  }, [endpoint])
+    setSavingRequest(false)
+    setConfirmingSend(false)
+    setActiveSaved(null)
+  }, [endpoint?.id])
+
+  // Load a pending request (history entry or saved request) once its endpoint
+  // is selected. Runs after the endpoint-change reset in useRequestState, so the
+  // restored values win.
+  useEffect(() => {
+    if (!pendingRequest || pendingRequest.draft.endpointId !== endpoint?.id) return
+
+    const { draft } = pendingRequest
+    const target = draft.serverUrl !== undefined ? normalizeUrl(draft.serverUrl) : null
+    let serverIndex = target !== null
+      ? mergedServers.findIndex(s =>
+        normalizeUrl(resolveServerUrl(s)) === target || normalizeUrl(resolveServerUrl(s, variables)) === target)
+      : -1
+    // Otherwise a server whose variables can take the draft's values
+    if (draft.serverUrl !== undefined && serverIndex === -1) {
+      for (const [index, server] of mergedServers.entries()) {
+        const values = matchServerUrl(server, draft.serverUrl) ?? matchServerUrl(server, draft.serverUrl, variables)
+        if (values) {
+          state.restoreServerVariables(server, Object.fromEntries(values))
+          serverIndex = index
+          break
+        }
+      }
+    }
+    const authOptionIndex = draft.authScheme !== undefined
+      ? state.auth.availableOptions.findIndex(o => o.schemeName === draft.authScheme)
+      : -1
+    // Picks the option by method; a matching authScheme below overrides the choice
+    if (draft.credentials) {
+      state.auth.restoreAuth(draft.credentials)
+    }
+    state.restore({
+      params: draft.params,
+      ...(draft.body !== undefined ? { body: draft.body } : {}),
+      ...(draft.headers !== undefined ? { headers: draft.headers } : {}),
+      ...(draft.mediaType !== undefined ? { mediaType: draft.mediaType } : {}),
+      ...(draft.form !== undefined ? { form: draft.form } : {}),
+      ...(serverIndex >= 0 ? { serverIndex } : {}),
+      ...(authOptionIndex >= 0 ? { authOptionIndex } : {}),
+    })
+    setEditingParam(null)
+    setEditingServerVariable(null)
+    setEditingBaseUrl(false)
+    setEditingHeader(null)
+    setEditingFormField(null)
+    setEditingBody(false)
+    setEditingAuthField(null)
+    setActiveSaved(pendingRequest.savedAs ?? null)
+
+    if (draft.serverUrl !== undefined && serverIndex === -1) {
+      setSaveMessage(`Server ${draft.serverUrl} not available, using current server`)
+      setTimeout(() => setSaveMessage(null), 2000)
+    }
+    // Send on the next render so it sees the restored values
+    setPendingSend(pendingRequest.send)
+    onPendingRequestHandled?.()
+  }, [pendingRequest, endpoint?.id])
+
+  // Selects the server with this base URL, adding it when none has it yet
+  const selectBaseUrl = (url: string) => {
+    if (!isUrl(interpolate(url, variables))) {
+      setSaveMessage('Base URL must start with http:// or https://')
+      setTimeout(() => setSaveMessage(null), 2000)
+      return
+    }
+    const existing = mergedServers.findIndex(s => normalizeUrl(resolveServer(s)) === normalizeUrl(url))
+    if (existing >= 0) {
+      state.selectServer(existing)
+      return
+    }
+    setCustomServers(prev => [...prev, { url, variables: new Map() }])
+    state.selectServer(mergedServers.length)
+  }
+
+  // Sends unless the body breaks the request schema, in which case it asks first
+  const requestSend = () => {
+    if (state.bodyViolations.length > 0) {
+      setConfirmingSend(true)
+      return
+    }
+    state.send(mergedServers)
+  }
 
-  // Initial auth restoration from config
   useEffect(() => {
-    if (initialAuthApplied.current || !findAuthForServer || mergedServers.length === 0) return
+    if (!pendingSend) return
+    setPendingSend(false)
+    requestSend()
+  }, [pendingSend])
 
-    const serverIdx = mergedServers.length > 0 ? state.selectedServerIndex % mergedServers.length : -1
-    const currentServer = serverIdx >= 0 ? mergedServers[serverIdx] : null
-    if (!currentServer) return
+  // Variable values chosen earlier: from the saved base URL, else from the
+  // saved server they resolve to. Each spec server is only loaded once.
+  useEffect(() => {
+    if (configLoaded === false) return
+
+    for (const [index, server] of servers.entries()) {
+      if (server.variables.size === 0 || restoredServerVariables.current.has(server.url)) continue
+      restoredServerVariables.current.add(server.url)
+      const values = savedBaseMatch?.index === index
+        ? Object.fromEntries(savedBaseMatch.values)
+        : findServerVariables?.(server, variables)
+      if (values) state.restoreServerVariables(server, values)
+    }
+  }, [servers, savedBaseMatch, findServerVariables, configLoaded])
 
-    const serverUrl = resolveServerUrl(currentServer)
-    const savedAuth = findAuthForServer(serverUrl)
-    if (savedAuth) {
-      state.auth.restoreAuth(savedAuth)
+  // Initial auth restoration from config
+  useEffect(() => {
+    if (initialAuthApplied.current || !findAuthForServer || !currentServer) return
+
+    const saved = findAuthForServer(resolveServer(currentServer))
+    if (saved) {
+      state.auth.restoreAuth(saved.auth)
+      setActiveCredential(saved.name)
       initialAuthApplied.current = true
     }
-  }, [mergedServers, findAuthForServer, configLoaded, state.selectedServerIndex])
+  }, [currentServer, findAuthForServer, configLoaded, state.serverVariableValues, variables])
 
   useInput(
     (input, key) => {
+      // Send override confirmation — any key other than y cancels
+      if (confirmingSend) {
+        setConfirmingSend(false)
+        if (input === 'y') {
+          state.send(mergedServers)
+        }
+        return
+      }
+
       // Save profile name editing mode
       if (savingProfile) {
         const action = editor.handleInput(input, key)
         if (action === 'commit') {
           const trimmedName = editor.getText().trim()
-          if (trimmedName.length > 0 && onSaveServerAuth && mergedServers.length > 0) {
-            const serverIdx = state.selectedServerIndex % mergedServers.length
-            const server = mergedServers[serverIdx]
-            if (server) {
-              const serverUrl = resolveServerUrl(server)
-              const savedAuth = credentialsToSavedAuth(state.auth.credentials)
-              onSaveServerAuth(trimmedName, serverUrl, savedAuth ?? undefined, specLoadUrl)
-                .then(ok => {
-                  if (ok) {
-                    setSaveMessage(`Saved to ${getConfigPath()}`)
-                  } else {
-                    setSaveMessage('Failed to save config')
-                  }
-                  setTimeout(() => setSaveMessage(null), 2000)
-                })
-                .catch(() => {
-                  setSaveMessage('Failed to save config')
-                  setTimeout(() => setSaveMessage(null), 2000)
-                })
-            }
-          }
           setSavingProfile(false)
+          if (trimmedName.length > 0 && credentialsToSavedAuth(state.auth.credentials)) {
+            // Then ask which of the server's credentials this is
+            setSavingCredentialFor(trimmedName)
+            editor.init(activeCredential ?? DEFAULT_CREDENTIAL_NAME)
+          } else if (trimmedName.length > 0) {
+            saveProfile(trimmedName)
+          }
           return
         }
         if (action === 'cancel') {
@@ -270,11 +599,71 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
         return
       }
 
+      // Credential name editing mode, the second step of saving a profile
+      if (savingCredentialFor !== null) {
+        const action = editor.handleInput(input, key)
+        if (action === 'commit') {
+          saveProfile(savingCredentialFor, editor.getText().trim() || DEFAULT_CREDENTIAL_NAME)
+          setSavingCredentialFor(null)
+          return
+        }
+        if (action === 'cancel') {
+          setSavingCredentialFor(null)
+          return
+        }
+        return
+      }
+
+      // Saved request name editing mode
+      if (savingRequest) {
+        const action = editor.handleInput(input, key)
+        if (action === 'commit') {
+          const ref = parseSavedRequestName(editor.getText())
+          if (ref && onSaveRequest && endpoint) {
+            const server = currentServer
+            const hasBody = endpoint.requestBody !== undefined
+            const request: SavedRequest = {
+              name: ref.name,
+              endpointId: endpoint.id,
+              params: Object.fromEntries(state.paramValues),
+              ...(state.extraHeaders.size > 0 ? { headers: Object.fromEntries(state.extraHeaders) } : {}),
+              ...(hasBody ? { body: state.bodyText } : {}),
+              ...(state.bodyMediaTypes.length > 1 ? { mediaType: state.bodyMediaType } : {}),
+              ...(state.formValues.size > 0 ? { form: Object.fromEntries(state.formValues) } : {}),
+              // Keeps {{vars}} for the environment, but not the chosen variable values
+              ...(server ? { server: resolveServerUrl(server, undefined, state.serverVariableValues(server)) } : {}),
+              ...(selectedOption ? { authScheme: selectedOption.schemeName } : {}),
+            }
+            onSaveRequest(ref.collection, request)
+              .then(ok => {
+                if (ok) {
+                  setActiveSaved(ref)
+                  setSaveMessage(`Saved request ${ref.collection}/${ref.name}`)
+                } else {
+                  setSaveMessage('Failed to save config')
+                }
+                setTimeout(() => setSaveMessage(null), 2000)
+              })
+              .catch(() => {
+                setSaveMessage('Failed to save config')
+                setTimeout(() => setSaveMessage(null), 2000)
+              })
+          }
+          setSavingRequest(false)
+          return
+        }
+        if (action === 'cancel') {
+          setSavingRequest(false)
+          return
+        }
+        return
+      }
+
       // Auth field editing mode
       if (editingAuthField !== null) {
         const action = editor.handleInput(input, key)
         if (action === 'commit') {
-          state.auth.setAuthField(editingAuthField, editor.getText())
+          state.auth.setAuthField(editingAuthField.fieldKey, editor.getText(), editingAuthField.schemeName)
           setEditingAuthField(null)
           return
         }
@@ -285,6 +674,37 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
         return
       }
 
+      // Base URL editing mode; committing an empty value keeps the current server
+      if (editingBaseUrl) {
+        const action = editor.handleInput(input, key)
+        if (action === 'commit') {
+          const url = editor.getText().trim()
+          if (url) selectBaseUrl(url)
+          setEditingBaseUrl(false)
+          return
+        }
+        if (action === 'cancel') {
+          setEditingBaseUrl(false)
+          return
+        }
+        return
+      }
+
+      // Server variable editing mode; committing an empty value goes back to the default
+      if (editingServerVariable !== null) {
+        const action = editor.handleInput(input, key)
+        if (action === 'commit') {
+          if (currentServer) state.setServerVariable(currentServer, editingServerVariable, editor.getText().trim())
+          setEditingServerVariable(null)
+          return
+        }
+        if (action === 'cancel') {
+          setEditingServerVariable(null)
+          return
+        }
+        return
+      }
+
       // Param editing mode
       if (editingParam !== null) {
         const action = editor.handleInput(input, key)
@@ -300,6 +720,36 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
         return
       }
 
+      // Extra header editing mode; committing an empty value removes the header
+      if (editingHeader !== null) {
+        const action = editor.handleInput(input, key)
+        if (action === 'commit') {
+          state.setExtraHeader(editingHeader, editor.getText())
+          setEditingHeader(null)
+          return
+        }
+        if (action === 'cancel') {
+          setEditingHeader(null)
+          return
+        }
+        return
+      }
+
+      // Form field editing mode; committing an empty value leaves the field out
+      if (editingFormField !== null) {
+        const action = editor.handleInput(input, key)
+        if (action === 'commit') {
+          state.setFormValue(editingFormField, editor.getText())
+          setEditingFormField(null)
+          return
+        }
+        if (action === 'cancel') {
+          setEditingFormField(null)
+          return
+        }
+        return
+      }
+
       // Body editing mode
       if (editingBody) {
         const action = bodyEditor.handleInput(input, key)
@@ -319,6 +769,12 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
         return
       }
 
+      // Give up waiting for the browser to authorize
+      if (key.escape && state.auth.authorizeUrl !== null) {
+        state.auth.cancelAuthorization()
+        return
+      }
+
       // Normal mode navigation
       if (input === 'j' || key.downArrow) {
         moveDown()
@@ -351,7 +807,7 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
 
       // Send request
       if (input === 's') {
-        state.send(mergedServers)
+        requestSend()
         return
       }
 
@@ -364,19 +820,62 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
 
       // Save server + auth to config
       if (input === 'W') {
-        if (onSaveServerAuth && mergedServers.length > 0) {
-          const serverIdx = state.selectedServerIndex % mergedServers.length
-          const server = mergedServers[serverIdx]
-          if (server) {
-            const serverUrl = resolveServerUrl(server)
-            const defaultName = server.description ?? serverUrl
-            editor.init(defaultName)
-            setSavingProfile(true)
+        if (onSaveServerAuth && currentServer) {
+          editor.init(currentServer.description ?? resolveServer(currentServer))
+          setSavingProfile(true)
+        }
+        return
+      }
+
+      // Turn the cookie jar on or off for the current saved server; off clears it
+      if (input === 'K') {
+        if (cookieJar && onToggleCookieJar && currentServer) {
+          const serverUrl = resolveServer(currentServer)
+          const enable = !cookieJar.isEnabled(serverUrl)
+          onToggleCookieJar(serverUrl, enable).then(ok => {
+            if (ok && !enable) cookieJar.clear(serverUrl)
+            setSaveMessage(ok
+              ? `Cookie jar ${enable ? 'enabled' : 'disabled'} for ${serverUrl}`
+              : 'Save this server with W to use a cookie jar')
+            setTimeout(() => setSaveMessage(null), 2000)
+          }).catch(() => {})
+        }
+        return
+      }
+
+      // Cycle the active environment: none, then each in config order
+      if (input === 'E') {
+        if (onSelectEnvironment && environments.length > 0) {
+          const index = activeEnvironment ? environments.findIndex(e => e.name === activeEnvironment.name) : -1
+          const next = environments[index + 1]
+          onSelectEnvironment(next ? next.name : null)
+        }
+        return
+      }
+
+      // Export the request send would issue as a code snippet
+      if (input === 'X') {
+        if (onExportRequest) {
+          try {
+            onExportRequest(state.buildCurrentRequest(mergedServers))
+          } catch (err) {
+            setSaveMessage(`Cannot export: ${err instanceof Error ? err.message : String(err)}`)
+            setTimeout(() => setSaveMessage(null), 2000)
           }
         }
         return
       }
 
+      // Save the current request to a collection
+      if (input === 'C') {
+        if (onSaveRequest && endpoint) {
+          const ref = activeSaved ?? { collection: DEFAULT_COLLECTION, name: `${endpoint.method.toUpperCase()} ${endpoint.path}` }
+          editor.init(`${ref.collection}/${ref.name}`)
+          setSavingRequest(true)
+        }
+        return
+      }
+
       // Enter: context-dependent actions
       if (key.return) {
         const row = rows[cursorIndex]
@@ -384,13 +883,41 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
           state.auth.toggleAuth()
           return
         }
+        if (row?.type === 'server') {
+          setEditingBaseUrl(true)
+          editor.init(currentServer ? resolveServer(currentServer) : '')
+          return
+        }
+        if (row?.type === 'server-variable' && currentServer) {
+          const variable = currentServer.variables.get(row.variableName)
+          const value = state.serverVariableValues(currentServer).get(row.variableName) ?? variable?.defaultValue ?? ''
+          // Enum variables cycle through their options; the rest are typed in
+          if (variable?.enumValues && variable.enumValues.length > 0) {
+            const next = variable.enumValues[(variable.enumValues.indexOf(value) + 1) % variable.enumValues.length]!
+            state.setServerVariable(currentServer, row.variableName, next)
+          } else {
+            setEditingServerVariable(row.variableName)
+            editor.init(value)
+          }
+          return
+        }
+        if (row?.type === 'auth-credential') {
+          const index = savedCredentials.findIndex(c => c.name === activeCredential)
+          const next = savedCredentials[(index + 1) % savedCredentials.length]
+          if (next && currentServer) {
+            state.auth.restoreAuth(next.auth)
+            setActiveCredential(next.name)
+            onSelectCredential?.(resolveServer(currentServer), next.name).catch(() => {})
+          }
+          return
+        }
         if (row?.type === 'auth-type') {
           state.auth.cycleAuthOption()
           return
         }
         if (row?.type === 'auth-field') {
-          const currentValue = getAuthFieldValue(row.fieldKey)
-          setEditingAuthField(row.fieldKey)
+          const currentValue = getAuthFieldValue(row.fieldKey, row.schemeName)
+          setEditingAuthField({ fieldKey: row.fieldKey, ...(row.schemeName !== undefined ? { schemeName: row.schemeName } : {}) })
           editor.init(currentValue)
           return
         }
@@ -399,8 +926,22 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
           editor.init(state.paramValues.get(row.paramKey) ?? '')
           return
         }
+        if (row?.type === 'extra-header') {
+          setEditingHeader(row.headerName)
+          editor.init(state.extraHeaders.get(row.headerName) ?? '')
+          return
+        }
+        if (row?.type === 'body-type') {
+          state.cycleBodyMediaType()
+          return
+        }
+        if (row?.type === 'form-field') {
+          setEditingFormField(row.field.name)
+          editor.init(state.formValues.get(row.field.name) ?? '')
+          return
+        }
         if (row?.type === 'send') {
-          state.send(mergedServers)
+          requestSend()
           return
         }
       }
@@ -418,20 +959,40 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
     { isActive: isFocused && endpoint !== null },
   )
 
-  function getAuthFieldValue(fieldKey: AuthFieldKey): string {
-    const creds = state.auth.credentials
-    switch (fieldKey) {
-      case 'token':
-        return creds.method === 'bearer' ? creds.token : ''
-      case 'key':
-        return creds.method === 'apiKey' ? creds.key : ''
-      case 'username':
-        return creds.method === 'basic' ? creds.username : ''
-      case 'password':
-        return creds.method === 'basic' ? creds.password : ''
-      default:
-        return ''
-    }
+  function saveProfile(name: string, credentialName?: string): void {
+    if (!onSaveServerAuth || !currentServer) return
+    const serverUrl = resolveServer(currentServer)
+    const savedAuth = credentialsToSavedAuth(state.auth.credentials)
+    const chosenValues = state.serverVariableValues(currentServer)
+    if (savedAuth && credentialName !== undefined) setActiveCredential(credentialName)
+    onSaveServerAuth(
+      name,
+      serverUrl,
+      savedAuth ?? undefined,
+      specLoadUrl,
+      chosenValues.size > 0 ? Object.fromEntries(chosenValues) : undefined,
+      credentialName,
+    )
+      .then(ok => {
+        if (ok) {
+          setSaveMessage(`Saved to ${configPath}`)
+        } else {
+          setSaveMessage('Failed to save config')
+        }
+        setTimeout(() => setSaveMessage(null), 2000)
+      })
+      .catch((err: unknown) => {
+        setSaveMessage(err instanceof Error ? err.message : 'Failed to save config')
+        setTimeout(() => setSaveMessage(null), 2000)
+      })
+  }
+
+  function getAuthFieldValue(fieldKey: AuthFieldKey, schemeName?: string): string {
+    const creds = schemeName !== undefined
+      ? state.auth.additionalCredentials.find(entry => entry.option.schemeName === schemeName)?.credentials
+      : state.auth.credentials
+    if (!creds || creds.method === 'none') return ''
+    return credentialFields(creds)[fieldKey] ?? ''
   }
 
   if (!endpoint) {
@@ -443,8 +1004,7 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
     )
   }
 
-  const serverIdx = mergedServers.length > 0 ? state.selectedServerIndex % mergedServers.length : -1
-  const currentServer = serverIdx >= 0 ? mergedServers[serverIdx] : null
+  const currentServerUrl = currentServer ? resolveServer(currentServer) : null
 
   return (
     <Box flexDirection="column" padding={1}>
@@ -452,12 +1012,36 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
       <Box marginTop={1}>
         <Text color={METHOD_COLORS[endpoint.method]}>{endpoint.method.toUpperCase()}</Text>
         <Text> {endpoint.path}</Text>
+        {activeSaved && <Text dimColor> [{activeSaved.collection}/{activeSaved.name}]</Text>}
+        {environments.length > 0 && (
+          <Text color={activeEnvironment ? 'magenta' : undefined} dimColor={!activeEnvironment}>
+            {'  '}env: {activeEnvironment?.name ?? 'none'} (E)
+          </Text>
+        )}
       </Box>
 
       {saveMessage && (
         <Text color="green">{saveMessage}</Text>
       )}
 
+      {savingRequest && (
+        <Box marginTop={1}>
+          <Text>Save request as (collection/name): </Text>
+          <Text color="cyan">
+            {editor.text.slice(0, editor.cursorPos)}
+            <Text color="yellow">|</Text>
+            {editor.text.slice(editor.cursorPos)}
+          </Text>
+          <Text dimColor> (Enter to save, Esc to cancel)</Text>
+        </Box>
+      )}
+
+      {confirmingSend && (
+        <Text color="yellow">
+          Body has {state.bodyViolations.length} schema {state.bodyViolations.length === 1 ? 'violation' : 'violations'}. Send anyway? (y/n)
+        </Text>
+      )}
+
       {savingProfile && (
         <Box marginTop={1}>
           <Text>Profile name: </Text>
@@ -470,6 +1054,18 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
         </Box>
       )}
 
+      {savingCredentialFor !== null && (
+        <Box marginTop={1}>
+          <Text>Credential name: </Text>
+          <Text color="cyan">
+            {editor.text.slice(0, editor.cursorPos)}
+            <Text color="yellow">|</Text>
+            {editor.text.slice(editor.cursorPos)}
+          </Text>
+          <Text dimColor> (Enter to save, Esc to cancel)</Text>
+        </Box>
+      )}
+
       <ScrollIndicator direction="up" visible={hasBudget && viewport.hasOverflowAbove} />
       {(hasBudget ? rows.slice(viewport.scrollOffset, viewport.scrollOffset + viewport.visibleCount) : rows).map((row, localIndex) => {
         const globalIndex = hasBudget ? viewport.scrollOffset + localIndex : localIndex
@@ -479,11 +1075,44 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
           return (
             <Box key="server" marginTop={1}>
               <Text inverse={isSelected} dimColor={!isFocused}>
-                {mergedServers.length === 0
-                  ? 'No servers defined'
-                  : `Server: ${currentServer ? resolveServerUrl(currentServer) : ''}`}
+                {editingBaseUrl ? (
+                  <>Base URL: <Text color="cyan">
+                    {editor.text.slice(0, editor.cursorPos)}
+                    <Text color="yellow">|</Text>
+                    {editor.text.slice(editor.cursorPos)}
+                  </Text></>
+                ) : mergedServers.length === 0
+                  ? <>No servers defined <Text dimColor>(Enter to add one)</Text></>
+                  : <>Server: {currentServerUrl !== null && <VariableText text={currentServerUrl} variables={variables} />}</>}
               </Text>
-              {mergedServers.length > 1 && <Text dimColor> (S to cycle)</Text>}
+              {!editingBaseUrl && mergedServers.length > 1 && <Text dimColor> (S to cycle)</Text>}
+              {currentServerUrl !== null && cookieJar?.isEnabled(currentServerUrl) && (
+                <Text dimColor> [cookies: {cookieJar.count(currentServerUrl)}]</Text>
+              )}
+            </Box>
+          )
+        }
+
+        if (row.type === 'server-variable' && currentServer) {
+          const variable = currentServer.variables.get(row.variableName)
+          const isEditing = editingServerVariable === row.variableName
+          const value = state.serverVariableValues(currentServer).get(row.variableName) ?? variable?.defaultValue ?? ''
+          return (
+            <Box key={`server-variable:${row.variableName}`}>
+              <Text inverse={isSelected} dimColor={!isFocused}>
+                {'  '}{row.label}: {isEditing ? (
+                  <Text color="cyan">
+                    {editor.text.slice(0, editor.cursorPos)}
+                    <Text color="yellow">|</Text>
+                    {editor.text.slice(editor.cursorPos)}
+                  </Text>
+                ) : (
+                  <Text>{value || '<empty>'}</Text>
+                )}
+              </Text>
+              {!isEditing && variable?.enumValues && variable.enumValues.length > 0 && (
+                <Text dimColor> (Enter to cycle)</Text>
+              )}
             </Box>
           )
         }
@@ -499,6 +1128,27 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
                   Unsupported: {state.auth.unsupportedSchemes.join(', ')}
                 </Text>
               )}
+              {state.auth.operationSecurity && (
+                <Text dimColor>Requires: {describeSecurity(state.auth.operationSecurity)}</Text>
+              )}
+              {state.auth.securityWarning && (
+                <Text color="yellow">{state.auth.securityWarning}</Text>
+              )}
+              {selectedOption?.method === 'oauth2' && (
+                <Text dimColor>{describeToken(state.auth.oauthToken, Date.now())}</Text>
+              )}
+            </Box>
+          )
+        }
+
+        if (row.type === 'auth-credential') {
+          const index = savedCredentials.findIndex(c => c.name === activeCredential)
+          return (
+            <Box key="auth-credential">
+              <Text inverse={isSelected} dimColor={!isFocused}>
+                Credential: {index >= 0 ? `${activeCredential} (${index + 1}/${savedCredentials.length})` : 'not saved'}
+              </Text>
+              <Text dimColor> (Enter to switch)</Text>
             </Box>
           )
         }
@@ -515,13 +1165,13 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
         }
 
         if (row.type === 'auth-field') {
-          const isEditing = editingAuthField === row.fieldKey
-          const isMasked = row.fieldKey === 'password'
-          const rawValue = isEditing ? editor.text : getAuthFieldValue(row.fieldKey)
+          const isEditing = editingAuthField?.fieldKey === row.fieldKey && editingAuthField.schemeName === row.schemeName
+          const isMasked = row.fieldKey === 'password' || row.fieldKey === 'clientSecret'
+          const rawValue = isEditing ? editor.text : getAuthFieldValue(row.fieldKey, row.schemeName)
           const displayValue = isMasked && !isEditing && rawValue ? '*'.repeat(rawValue.length) : rawValue
 
           return (
-            <Box key={`auth-${row.fieldKey}`}>
+            <Box key={`auth-${row.schemeName ?? ''}-${row.fieldKey}`}>
               <Text inverse={isSelected} dimColor={!isFocused}>
                 {row.label}: {isEditing ? (
                   <Text color="cyan">
@@ -529,8 +1179,10 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
                     <Text color="yellow">|</Text>
                     {editor.text.slice(editor.cursorPos)}
                   </Text>
-                ) : (
+                ) : isMasked || !displayValue ? (
                   <Text>{displayValue || '<empty>'}</Text>
+                ) : (
+                  <VariableText text={displayValue} variables={variables} />
                 )}
               </Text>
             </Box>
@@ -549,10 +1201,69 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
                     <Text color="yellow">|</Text>
                     {editor.text.slice(editor.cursorPos)}
                   </Text>
+                ) : value ? (
+                  <VariableText text={value} variables={variables} />
                 ) : (
-                  <Text>{value || '<empty>'}</Text>
+                  <Text>{'<empty>'}</Text>
+                )}
+              </Text>
+              {!isEditing && row.hint && <Text dimColor> ({row.hint})</Text>}
+            </Box>
+          )
+        }
+
+        if (row.type === 'extra-header') {
+          const isEditing = editingHeader === row.headerName
+          const value = state.extraHeaders.get(row.headerName) ?? ''
+          return (
+            <Box key={`extra-${row.headerName}`}>
+              <Text inverse={isSelected} dimColor={!isFocused}>
+                {row.label}: {isEditing ? (
+                  <Text color="cyan">
+                    {editor.text.slice(0, editor.cursorPos)}
+                    <Text color="yellow">|</Text>
+                    {editor.text.slice(editor.cursorPos)}
+                  </Text>
+                ) : (
+                  <VariableText text={value} variables={variables} />
                 )}
               </Text>
+              {!isEditing && <Text dimColor> (extra)</Text>}
+            </Box>
+          )
+        }
+
+        if (row.type === 'body-type') {
+          return (
+            <Box key="body-type" marginTop={1}>
+              <Text inverse={isSelected} dimColor={!isFocused}>
+                Body Type: {state.bodyMediaType}
+              </Text>
+              {state.bodyMediaTypes.length > 1 && <Text dimColor> (Enter to cycle)</Text>}
+            </Box>
+          )
+        }
+
+        if (row.type === 'form-field') {
+          const isEditing = editingFormField === row.field.name
+          const value = state.formValues.get(row.field.name) ?? ''
+          return (
+            <Box key={`form-${row.field.name}`}>
+              <Text inverse={isSelected} dimColor={!isFocused}>
+                {row.label}: {isEditing ? (
+                  <Text color="cyan">
+                    {editor.text.slice(0, editor.cursorPos)}
+                    <Text color="yellow">|</Text>
+                    {editor.text.slice(editor.cursorPos)}
+                  </Text>
+                ) : value ? (
+                  <VariableText text={value} variables={variables} />
+                ) : (
+                  <Text>{'<empty>'}</Text>
+                )}
+              </Text>
+              {!isEditing && row.field.file && <Text dimColor> (path{row.field.multiple ? 's, comma-separated' : ''})</Text>}
+              {!isEditing && !row.field.file && row.field.multiple && <Text dimColor> (comma-separated)</Text>}
             </Box>
           )
         }
@@ -563,7 +1274,7 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
               <Text inverse={isSelected} dimColor={!isFocused}>
                 Body {editingBody
                   ? (bodyEditor.mode === 'normal' ? '(NORMAL - i to insert, Enter to save)' : '(editing - Escape for normal mode)')
-                  : '(e to edit)'}
+                  : bodyKind === 'binary' ? '(e to edit, @path sends a file)' : '(e to edit)'}
               </Text>
               {editingBody ? (
                 <Box paddingLeft={2} flexDirection="column">
@@ -587,32 +1298,52 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
               ) : (
                 <Box paddingLeft={2} flexDirection="column">
                   {state.bodyText.split('\n').slice(0, 10).map((line, i) => (
-                    <Text key={i} dimColor>{line}</Text>
+                    <Text key={i} dimColor><VariableText text={line} variables={variables} /></Text>
                   ))}
                   {state.bodyText.split('\n').length > 10 && (
                     <Text dimColor>... ({state.bodyText.split('\n').length - 10} more lines)</Text>
                   )}
                 </Box>
               )}
-              {state.bodyError && (
+              {state.bodyError ? (
                 <Text color="red">{state.bodyError}</Text>
+              ) : (
+                <>
+                  {state.bodyViolations.slice(0, BODY_VIOLATION_CAP).map((violation, i) => (
+                    <Text key={i} color="red">
+                      {violation.pointer || '(root)'} {violation.message}
+                    </Text>
+                  ))}
+                  {state.bodyViolations.length > BODY_VIOLATION_CAP && (
+                    <Text color="red" dimColor>... ({state.bodyViolations.length - BODY_VIOLATION_CAP} more)</Text>
+                  )}
+                </>
               )}
             </Box>
           )
         }
 
         if (row.type === 'send') {
+          const { authorizeUrl } = state.auth
           return (
-            <Box key="send" marginTop={1}>
-              {state.isLoading ? (
-                <Box>
-                  <Spinner label="Sending..." />
-                </Box>
-              ) : (
-                <Text inverse={isSelected} bold color={isSelected ? undefined : 'green'}>
-                  {'>'} Send Request (s)
-                </Text>
-              )}
+            <Box key="send" marginTop={1} flexDirection="column">
+              <Box>
+                {state.isLoading ? (
+                  <Box>
+                    <Spinner label={authorizeUrl !== null ? 'Waiting for authorization in the browser (Esc to cancel)' : 'Sending...'} />
+                  </Box>
+                ) : (
+                  <Text inverse={isSelected} bold color={isSelected ? undefined : 'green'}>
+                    {'>'} Send Request (s)
+                  </Text>
+                )}
+                {unresolvedVariables.length + unresolvedSecrets.length > 0 && (
+                  <Text color="red">
+                    {'  '}Unresolved: {[...unresolvedVariables.map(name => `{{${name}}}`), ...unresolvedSecrets].join(', ')}
+                  </Text>
+                )}
+              </Box>
+              {authorizeUrl !== null && <Text dimColor>{authorizeUrl}</Text>}
             </Box>
           )
         }
@@ -629,6 +1360,10 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
               <Text inverse={isSelected && state.activeTab === 'headers'} bold={state.activeTab === 'headers'} color={state.activeTab === 'headers' ? 'cyan' : undefined}>
                 [3] Headers
               </Text>
+              <Text inverse={isSelected && state.activeTab === 'validation'} bold={state.activeTab === 'validation'} color={state.activeTab === 'validation' ? 'cyan' : undefined}>
+                [4] Validation
+                {state.validation?.outcome === 'invalid' && <Text color="red"> ({state.validation.violations.length})</Text>}
+              </Text>
             </Box>
           )
         }
@@ -694,6 +1429,37 @@ export function RequestPanel({ endpoint, isFocused, servers, securitySchemes, on
             )
           }
 
+          if (state.activeTab === 'validation') {
+            const result = state.validation
+            const violations = result?.outcome === 'invalid' ? result.violations : []
+            const cappedViolations = violations.slice(0, Math.max(1, dynamicCap - 1))
+            return (
+              <Box key="response" marginTop={1} flexDirection="column">
+                <Text bold>
+                  {res.status} {res.statusText} ({res.durationMs}ms)
+                </Text>
+                {result?.outcome === 'valid' && (
+                  <Text color="green">Body matches the documented schema for {result.statusCode}</Text>
+                )}
+                {result?.outcome === 'invalid' && (
+                  <Text color="red">
+                    {violations.length} {violations.length === 1 ? 'violation' : 'violations'} of the documented schema for {result.statusCode}
+                  </Text>
+                )}
+                {result?.outcome === 'skipped' && <Text dimColor>Not validated: {result.reason}</Text>}
+                {cappedViolations.map((violation, i) => (
+                  <Box key={i}>
+                    <Text color="cyan">{violation.pointer || '(root)'}</Text>
+                    <Text> {violation.message}</Text>
+                  </Box>
+                ))}
+                {cappedViolations.length < violations.length && (
+                  <Text dimColor>... ({violations.length - cappedViolations.length} more violations{hasBudget ? ' — scroll to see' : ''})</Text>
+                )}
+              </Box>
+            )
+          }
+
           if (state.activeTab === 'headers') {
             const allHeaders = [...res.headers.entries()]
             const cappedHeaders = hasBudget ? allHeaders.slice(0, dynamicCap) : allHeaders
@@ -0,0 +1,277 @@
+import { useState } from 'react'
+import { Box, Text, useInput } from 'ink'
+import { TextInput } from '@inkjs/ui'
+import type { ConfigData, ConfigLayer, SavedServer } from '@/config/index.js'
+import { setDefaultServer, removeServer, renameServer, setServerUrls, clearServerAuth, moveServer, serverKey } from '@/config/index.js'
+import { vaultRefIds } from '@/vault/index.js'
+import type { UnlockedVault } from '@/vault/index.js'
+
+interface Props {
+  // Your own config, the only one edited
+  readonly layer: ConfigLayer
+  // Its servers are listed read-only, since edits to them would not be saved
+  readonly project?: ConfigLayer | null
+  // Resolves false when the config can't be written
+  readonly onSave: (config: ConfigData) => Promise<boolean>
+  readonly onClose: () => void
+  // Null while locked; the secrets of cleared or deleted auth are then kept
+  readonly vault?: UnlockedVault | null
+  readonly onSaveVault?: (vault: UnlockedVault) => Promise<void>
+}
+
+type UrlField = 'url' | 'swaggerEndpointUrl'
+
+type Mode =
+  | { readonly kind: 'list' }
+  | { readonly kind: 'confirm'; readonly action: 'delete' | 'clear-auth' }
+  | { readonly kind: 'rename' }
+  | { readonly kind: 'edit-url'; readonly field: UrlField }
+
+const URL_LABELS: Readonly<Record<UrlField, string>> = {
+  url: 'Base URL',
+  swaggerEndpointUrl: 'Spec URL',
+}
+
+function describeAuth(server: SavedServer): string {
+  const count = server.credentials?.length ?? 0
+  if (count === 0) return 'none'
+  return count === 1 ? server.credentials![0]!.auth.method : `${count} credentials`
+}
+
+function vaultIdsOf(server: SavedServer): readonly string[] {
+  return vaultRefIds((server.credentials ?? []).flatMap(c => Object.values(c.auth).filter(v => typeof v === 'string')))
+}
+
+// Keys that edit the selected server
+const EDIT_KEYS = new Set(['J', 'K', 'r', 'u', 's', 'c', 'x', '*'])
+
+export function ServerManager({ layer, project = null, onSave, onClose, vault = null, onSaveVault }: Props) {
+  const [config, setConfig] = useState(layer.data)
+  const [cursor, setCursor] = useState(0)
+  const [mode, setMode] = useState<Mode>({ kind: 'list' })
+  const [message, setMessage] = useState<{ readonly text: string; readonly isError: boolean } | null>(null)
+
+  const servers = config.servers
+  const projectServers = project?.data.servers ?? []
+  const total = servers.length + projectServers.length
+  const index = Math.min(cursor, total - 1)
+  const selected = index < servers.length ? servers[index] : undefined
+  const selectedProject = index >= servers.length ? projectServers[index - servers.length] : undefined
+  // Your servers the project also defines; its URLs and name win over yours
+  const overridden = new Set(projectServers.map(serverKey))
+
+  function save(updated: ConfigData, done: string): void {
+    setConfig(updated)
+    setMode({ kind: 'list' })
+    onSave(updated)
+      .then(ok => setMessage(ok ? { text: `${done}; saved to ${layer.path}`, isError: false } : { text: 'Failed to save config', isError: true }))
+      .catch(() => setMessage({ text: 'Failed to save config', isError: true }))
+  }
+
+  // The config goes first, so a failed vault write leaves unused secrets
+  // rather than references to missing ones
+  function saveDroppingSecrets(updated: ConfigData, done: string, ids: readonly string[]): void {
+    if (ids.length === 0) {
+      save(updated, done)
+      return
+    }
+    setConfig(updated)
+    setMode({ kind: 'list' })
+    onSave(updated)
+      .then(async (ok) => {
+        if (!ok) {
+          setMessage({ text: 'Failed to save config', isError: true })
+          return
+        }
+        if (!vault || !onSaveVault) {
+          setMessage({ text: `${done}; its ${ids.length} vault secret(s) were kept, unlock the vault to remove them`, isError: true })
+          return
+        }
+        const secrets = new Map(vault.secrets)
+        for (const id of ids) secrets.delete(id)
+        try {
+          await onSaveVault({ ...vault, secrets })
+          setMessage({ text: `${done} and removed its vault secrets; saved to ${layer.path}`, isError: false })
+        } catch (err) {
+          setMessage({ text: `${done}, but its vault secrets were kept: ${err instanceof Error ? err.message : String(err)}`, isError: true })
+        }
+      })
+      .catch(() => setMessage({ text: 'Failed to save config', isError: true }))
+  }
+
+  function handleRename(value: string): void {
+    const name = value.trim()
+    if (name.length === 0) {
+      setMessage({ text: 'The name cannot be empty', isError: true })
+      return
+    }
+    if (servers.some((s, i) => i !== cursor && s.name === name)) {
+      setMessage({ text: `There already is a server named ${name}`, isError: true })
+      return
+    }
+    save(renameServer(config, cursor, name), `Renamed to ${name}`)
+  }
+
+  // An empty value removes the URL, as long as the server keeps the other one
+  function handleUrl(field: UrlField, value: string): void {
+    if (!selected) return
+    const trimmed = value.trim()
+    const urls = {
+      url: selected.url,
+      swaggerEndpointUrl: selected.swaggerEndpointUrl,
+      [field]: trimmed.length > 0 ? trimmed : undefined,
+    }
+    if (urls.url === undefined && urls.swaggerEndpointUrl === undefined) {
+      setMessage({ text: 'A server needs a base URL or a spec URL', isError: true })
+      return
+    }
+    save(setServerUrls(config, cursor, urls), `${URL_LABELS[field]} updated`)
+  }
+
+  useInput((input, key) => {
+    if (mode.kind === 'rename' || mode.kind === 'edit-url') {
+      if (key.escape) setMode({ kind: 'list' })
+      return
+    }
+
+    if (mode.kind === 'confirm') {
+      if (input === 'y' && selected) {
+        const ids = vaultIdsOf(selected)
+        if (mode.action === 'delete') {
+          saveDroppingSecrets(removeServer(config, cursor), `Deleted ${selected.name}`, ids)
+          setCursor(c => Math.max(0, Math.min(c, total - 2)))
+        } else {
+          saveDroppingSecrets(clearServerAuth(config, cursor), `Cleared the auth of ${selected.name}`, ids)
+        }
+      } else {
+        setMode({ kind: 'list' })
+      }
+      return
+    }
+
+    if (key.escape) {
+      onClose()
+      return
+    }
+    if (!selected && !selectedProject) return
+
+    setMessage(null)
+    if (key.upArrow || input === 'k') {
+      setCursor(c => Math.max(0, c - 1))
+    } else if (key.downArrow || input === 'j') {
+      setCursor(c => Math.min(total - 1, c + 1))
+    } else if (!selected) {
+      if (EDIT_KEYS.has(input)) {
+        setMessage({ text: `${selectedProject!.name} comes from the project config; edit ${project!.path} to change it`, isError: true })
+      }
+    } else if (input === 'K' || input === 'J') {
+      const offset = input === 'K' ? -1 : 1
+      const target = Math.max(0, Math.min(servers.length - 1, cursor + offset))
+      if (target === cursor) return
+      setCursor(target)
+      save(moveServer(config, cursor, offset), `Moved ${selected.name}`)
+    } else if (input === 'r') {
+      setMode({ kind: 'rename' })
+    } else if (input === 'u') {
+      setMode({ kind: 'edit-url', field: 'url' })
+    } else if (input === 's') {
+      setMode({ kind: 'edit-url', field: 'swaggerEndpointUrl' })
+    } else if (input === 'c') {
+      if ((selected.credentials?.length ?? 0) === 0) {
+        setMessage({ text: `${selected.name} has no stored auth`, isError: true })
+      } else {
+        setMode({ kind: 'confirm', action: 'clear-auth' })
+      }
+    } else if (input === 'x') {
+      setMode({ kind: 'confirm', action: 'delete' })
+    } else if (input === '*') {
+      const isDefault = config.preferences.defaultServer === selected.name
+      save(
+        setDefaultServer(config, isDefault ? null : selected.name),
+        isDefault ? 'No default server' : `${selected.name} opens on launch`,
+      )
+    }
+  })
+
+  return (
+    <Box flexDirection="column" padding={1}>
+      <Text bold color="cyan">
+        superapi-tui
+      </Text>
+      <Text dimColor>Manage servers in {layer.path}</Text>
+      <Box flexDirection="column" marginTop={1}>
+        {servers.length === 0 && <Text dimColor>No saved servers</Text>}
+        {servers.map((server, i) => {
+          const isSelected = server === selected
+          const isDefault = config.preferences.defaultServer === server.name
+          return (
+            <Box key={`${i}-${server.name}`} flexDirection="column">
+              <Text inverse={isSelected}>
+                {isSelected ? '> ' : '  '}
+                {server.name}
+                {isDefault ? ' (default)' : ''}
+              </Text>
+              {isSelected && (
+                <Box flexDirection="column" marginLeft={4}>
+                  <Text dimColor>Spec URL: {server.swaggerEndpointUrl ?? '-'}</Text>
+                  <Text dimColor>Base URL: {server.url ?? '-'}</Text>
+                  <Text dimColor>Auth: {describeAuth(server)}</Text>
+                  {overridden.has(serverKey(server)) && (
+                    <Text color="yellow">The project config also has this server; its name and URLs win over these</Text>
+                  )}
+                </Box>
+              )}
+            </Box>
+          )
+        })}
+        {projectServers.length > 0 && (
+          <Box marginTop={1}>
+            <Text dimColor>Read-only, from the project config {project!.path}:</Text>
+          </Box>
+        )}
+        {projectServers.map((server, i) => {
+          const isSelected = server === selectedProject
+          return (
+            <Box key={`project-${i}-${server.name}`} flexDirection="column">
+              <Text inverse={isSelected} dimColor={!isSelected}>
+                {isSelected ? '> ' : '  '}
+                {server.name}
+              </Text>
+              {isSelected && (
+                <Box flexDirection="column" marginLeft={4}>
+                  <Text dimColor>Spec URL: {server.swaggerEndpointUrl ?? '-'}</Text>
+                  <Text dimColor>Base URL: {server.url ?? '-'}</Text>
+                </Box>
+              )}
+            </Box>
+          )
+        })}
+      </Box>
+      <Box marginTop={1}>
+        {mode.kind === 'confirm' && selected && (
+          <Text color="yellow">
+            {mode.action === 'delete' ? `Delete ${selected.name}?` : `Clear the stored auth of ${selected.name}?`} (y/n)
+          </Text>
+        )}
+        {mode.kind === 'rename' && selected && (
+          <Box>
+            <Text>Name: </Text>
+            <TextInput defaultValue={selected.name} onSubmit={handleRename} />
+          </Box>
+        )}
+        {mode.kind === 'edit-url' && selected && (
+          <Box>
+            <Text>{URL_LABELS[mode.field]}: </Text>
+            <TextInput defaultValue={selected[mode.field] ?? ''} onSubmit={value => handleUrl(mode.field, value)} />
+          </Box>
+        )}
+        {mode.kind === 'list' && (
+          <Text dimColor>
+            j/k select · J/K move · r rename · u base URL · s spec URL · c clear auth · * default · x delete · Esc back
+          </Text>
+        )}
+      </Box>
+      {message && <Text color={message.isError ? 'red' : 'green'}>{message.text}</Text>}
+    </Box>
+  )
+}
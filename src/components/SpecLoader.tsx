@@ -1,39 +1,63 @@
 import { useState, useEffect, useCallback } from 'react'
+import { resolve } from 'node:path'
 import { Box, Text, useApp } from 'ink'
 import { Spinner } from '@inkjs/ui'
-import { loadSpec as defaultLoadSpec } from '@/loader/index.js'
+import { loadSpec as defaultLoadSpec, watchSpecFile as defaultWatchSpecFile, specUrlOf } from '@/loader/index.js'
 import { parseSpec as defaultParseSpec } from '@/parser/index.js'
+import { recordRecentSpec as defaultRecordRecentSpec } from '@/config/index.js'
+import type { RecentSpec } from '@/config/index.js'
 import { Launcher } from './Launcher.js'
 import type { LauncherDeps } from './Launcher.js'
 import App from '@/App.js'
 import type { ParsedSpec, LoadResult } from '@/types/index.js'
+import type { UnlockedVault } from '@/vault/index.js'
 
 export interface SpecLoaderDeps {
   readonly loadSpec: (input: string) => Promise<LoadResult>
-  readonly parseSpec: (content: string) => Promise<ParsedSpec>
+  readonly parseSpec: (content: string, specUrl?: string) => Promise<ParsedSpec>
+  readonly watchSpecFile?: (filePath: string, onChange: () => void) => () => void
+  readonly recordRecentSpec?: (entry: RecentSpec) => Promise<void>
 }
 
 interface Props {
   readonly input: string | undefined
   readonly deps?: SpecLoaderDeps
   readonly launcherDeps?: LauncherDeps
+  // --config, used instead of the user and project config files
+  readonly configPath?: string
 }
 
 type State =
   | { readonly phase: 'launcher' }
   | { readonly phase: 'loading'; readonly message: string; readonly specInput: string; readonly savedRequestBaseUrl?: string }
-  | { readonly phase: 'loaded'; readonly spec: ParsedSpec; readonly specLoadUrl: string; readonly savedRequestBaseUrl?: string }
+  | {
+      readonly phase: 'loaded'
+      readonly spec: ParsedSpec
+      readonly specLoadUrl: string
+      readonly savedRequestBaseUrl?: string
+      readonly watchPaths?: readonly string[]
+      readonly reloadError?: string
+    }
   | { readonly phase: 'error'; readonly message: string }
 
-export function SpecLoader({ input, deps, launcherDeps }: Props) {
+// A local spec and every file its $refs pull in; URL specs aren't watched
+function watchPathsOf(target: string, result: LoadResult): readonly string[] | undefined {
+  return result.inputType === 'file' ? [target, ...(result.documents ?? [])] : undefined
+}
+
+export function SpecLoader({ input, deps, launcherDeps, configPath }: Props) {
   const resolvedLoadSpec = deps?.loadSpec ?? defaultLoadSpec
   const resolvedParseSpec = deps?.parseSpec ?? defaultParseSpec
+  const resolvedWatchSpecFile = deps?.watchSpecFile ?? defaultWatchSpecFile
+  const resolvedRecordRecentSpec = deps?.recordRecentSpec ?? ((entry: RecentSpec) => defaultRecordRecentSpec(entry))
   const { exit } = useApp()
   const [state, setState] = useState<State>(
     input
       ? { phase: 'loading', message: `Loading spec from ${input}...`, specInput: input }
       : { phase: 'launcher' },
   )
+  // Unlocked in the launcher; stays locked when a spec is given on the command line
+  const [vault, setVault] = useState<UnlockedVault | null>(null)
 
   // Derived value: non-null only when we're in loading phase, stable across message updates
   const specInputForLoad = state.phase === 'loading' ? state.specInput : null
@@ -51,10 +75,29 @@ export function SpecLoader({ input, deps, launcherDeps }: Props) {
         if (cancelled) return
 
         setState({ phase: 'loading', message: 'Parsing spec...', specInput: target, savedRequestBaseUrl: savedRequestBaseUrlForLoad })
-        const spec = await resolvedParseSpec(result.content)
+        const spec = await resolvedParseSpec(result.content, specUrlOf(result))
+        if (cancelled) return
+
+        // Written before App loads the config, so its saves keep the entry
+        try {
+          await resolvedRecordRecentSpec({
+            input: result.inputType === 'file' ? resolve(target) : target,
+            title: spec.info.title,
+            version: spec.info.version,
+            openedAt: new Date().toISOString(),
+          })
+        } catch (err) {
+          console.warn('superapi-tui: failed to remember the spec:', err instanceof Error ? err.message : String(err))
+        }
         if (cancelled) return
 
-        setState({ phase: 'loaded', spec, specLoadUrl: target, savedRequestBaseUrl: savedRequestBaseUrlForLoad })
+        setState({
+          phase: 'loaded',
+          spec,
+          specLoadUrl: target,
+          savedRequestBaseUrl: savedRequestBaseUrlForLoad,
+          watchPaths: watchPathsOf(target, result),
+        })
       } catch (error) {
         if (cancelled) return
         const message = error instanceof Error ? error.message : String(error)
@@ -71,6 +114,42 @@ export function SpecLoader({ input, deps, launcherDeps }: Props) {
     }
   }, [specInputForLoad, savedRequestBaseUrlForLoad])
 
+  // Live reload: re-load and re-parse local spec files when they change on disk.
+  // Keyed by the joined paths so a reload that finds the same files keeps its watchers
+  const specLoadUrl = state.phase === 'loaded' ? state.specLoadUrl : undefined
+  const watchKey = state.phase === 'loaded' ? state.watchPaths?.join('\n') : undefined
+
+  useEffect(() => {
+    if (!specLoadUrl || !watchKey) return
+    const target = specLoadUrl
+
+    let cancelled = false
+    let reloadId = 0
+
+    async function reload() {
+      const currentReloadId = ++reloadId
+      try {
+        const result = await resolvedLoadSpec(target)
+        const spec = await resolvedParseSpec(result.content, specUrlOf(result))
+        if (cancelled || currentReloadId !== reloadId) return
+        const watchPaths = watchPathsOf(target, result)
+        setState(prev => (prev.phase === 'loaded' ? { ...prev, spec, watchPaths, reloadError: undefined } : prev))
+      } catch (error) {
+        if (cancelled || currentReloadId !== reloadId) return
+        const message = error instanceof Error ? error.message : String(error)
+        setState(prev => (prev.phase === 'loaded' ? { ...prev, reloadError: message } : prev))
+      }
+    }
+
+    const stopWatching = watchKey.split('\n').map(path => resolvedWatchSpecFile(path, () => {
+      reload()
+    }))
+    return () => {
+      cancelled = true
+      stopWatching.forEach(stop => stop())
+    }
+  }, [specLoadUrl, watchKey])
+
   // Exit after showing error for a moment
   useEffect(() => {
     if (state.phase !== 'error') return
@@ -87,7 +166,7 @@ export function SpecLoader({ input, deps, launcherDeps }: Props) {
   }, [])
 
   if (state.phase === 'launcher') {
-    return <Launcher onSelect={handleLauncherSelect} deps={launcherDeps} />
+    return <Launcher onSelect={handleLauncherSelect} onUnlock={setVault} deps={launcherDeps} configPath={configPath} />
   }
 
   if (state.phase === 'loading') {
@@ -109,5 +188,14 @@ export function SpecLoader({ input, deps, launcherDeps }: Props) {
     )
   }
 
-  return <App spec={state.spec} specLoadUrl={state.specLoadUrl} savedRequestBaseUrl={state.savedRequestBaseUrl} />
+  return (
+    <App
+      spec={state.spec}
+      specLoadUrl={state.specLoadUrl}
+      savedRequestBaseUrl={state.savedRequestBaseUrl}
+      reloadError={state.reloadError}
+      vault={vault}
+      configPath={configPath}
+    />
+  )
 }
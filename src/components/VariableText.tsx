@@ -0,0 +1,20 @@
+import { Text } from 'ink'
+import { splitVariables } from '@/http/index.js'
+
+interface Props {
+  readonly text: string
+  readonly variables: ReadonlyMap<string, string>
+}
+
+// Renders inline inside a <Text>: {{vars}} with a value in magenta, unknown ones in red
+export function VariableText({ text, variables }: Props) {
+  return (
+    <>
+      {splitVariables(text, variables).map((segment, i) => (
+        segment.kind === 'text'
+          ? <Text key={i}>{segment.text}</Text>
+          : <Text key={i} color={segment.resolved ? 'magenta' : 'red'} underline={!segment.resolved}>{segment.text}</Text>
+      ))}
+    </>
+  )
+}
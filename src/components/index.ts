@@ -8,3 +8,7 @@ export { ResponseList } from './ResponseList.js'
 export { HelpOverlay } from './HelpOverlay.js'
 export { Launcher } from './Launcher.js'
 export { ScrollIndicator } from './ScrollIndicator.js'
+export { HistoryPanel } from './HistoryPanel.js'
+export { VariableText } from './VariableText.js'
+export { ExportPanel } from './ExportPanel.js'
+export { ImportPanel } from './ImportPanel.js'
@@ -0,0 +1,39 @@
+import type { SavedCollection, SavedRequest } from './types.js'
+
+// Adds the request to the named collection for this spec, replacing any
+// request with the same name and creating the collection when missing
+export function upsertSavedRequest(
+  collections: readonly SavedCollection[],
+  spec: string,
+  collection: string,
+  request: SavedRequest,
+): readonly SavedCollection[] {
+  const existingIndex = collections.findIndex(c => c.spec === spec && c.name === collection)
+  if (existingIndex === -1) {
+    return [...collections, { name: collection, spec, requests: [request] }]
+  }
+
+  const existing = collections[existingIndex]!
+  const requestIndex = existing.requests.findIndex(r => r.name === request.name)
+  const requests = requestIndex >= 0
+    ? existing.requests.map((r, i) => (i === requestIndex ? request : r))
+    : [...existing.requests, request]
+
+  const updated = [...collections]
+  updated[existingIndex] = { ...existing, requests }
+  return updated
+}
+
+// Removes the request, dropping the collection once it is empty
+export function removeSavedRequest(
+  collections: readonly SavedCollection[],
+  spec: string,
+  collection: string,
+  name: string,
+): readonly SavedCollection[] {
+  return collections
+    .map(c => (c.spec === spec && c.name === collection
+      ? { ...c, requests: c.requests.filter(r => r.name !== name) }
+      : c))
+    .filter(c => c.requests.length > 0)
+}
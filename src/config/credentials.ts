@@ -0,0 +1,12 @@
+import type { SavedCredential } from './types.js'
+
+// Replaces the credential with the same name in place, or appends it
+export function upsertCredential(
+  credentials: readonly SavedCredential[],
+  credential: SavedCredential,
+): readonly SavedCredential[] {
+  const index = credentials.findIndex(c => c.name === credential.name)
+  return index >= 0
+    ? credentials.map((c, i) => (i === index ? credential : c))
+    : [...credentials, credential]
+}
@@ -1,5 +1,10 @@
-export type { ConfigData, SavedServer, SavedAuth, Preferences } from './types.js'
-export { DEFAULT_CONFIG, DEFAULT_PREFERENCES } from './types.js'
+export type { ConfigData, ConfigLayer, ConfigLayers, ConfigSourceOptions, SavedServer, SavedAuth, SavedCredential, SavedRequest, SavedCollection, Environment, Preferences, RecentSpec } from './types.js'
+export { DEFAULT_CONFIG, DEFAULT_PREFERENCES, DEFAULT_CREDENTIAL_NAME, MAX_RECENT_SPECS } from './types.js'
 export { ConfigError } from './errors.js'
-export { loadConfig, saveConfig, getConfigPath, getJsonConfigPath } from './io.js'
-export { matchServerAuth, normalizeUrl } from './match.js'
+export { loadConfig, saveConfig, getConfigPath, getJsonConfigPath, findProjectConfig, loadConfigLayers } from './io.js'
+export { mergeConfigLayers, serverKey } from './merge.js'
+export { matchSavedServer, matchServerAuth, activeCredentialOf, normalizeUrl } from './match.js'
+export { upsertSavedRequest, removeSavedRequest } from './collections.js'
+export { upsertCredential } from './credentials.js'
+export { setDefaultServer, removeServer, renameServer, setServerUrls, clearServerAuth, moveServer } from './servers.js'
+export { addRecentSpec, loadRecentSpecs, recordRecentSpec, getRecentsPath } from './recents.js'
@@ -1,10 +1,13 @@
 import { homedir } from 'node:os'
-import { join } from 'node:path'
-import { readFile, writeFile, chmod } from 'node:fs/promises'
+import { dirname, join, resolve } from 'node:path'
+import { readFile, writeFile, chmod, stat } from 'node:fs/promises'
 import { parse as parseToml, stringify as stringifyToml } from 'smol-toml'
-import type { ConfigData, SavedServer, SavedAuth, Preferences } from './types.js'
-import { DEFAULT_CONFIG, DEFAULT_PREFERENCES } from './types.js'
+import type { ConfigData, ConfigLayer, ConfigLayers, ConfigSourceOptions, SavedServer, SavedAuth, SavedCredential, SavedRequest, SavedCollection, Environment, Preferences } from './types.js'
+import { DEFAULT_CONFIG, DEFAULT_PREFERENCES, DEFAULT_CREDENTIAL_NAME } from './types.js'
 import { ConfigError } from './errors.js'
+import { mergeConfigLayers } from './merge.js'
+
+const PROJECT_CONFIG_NAMES = ['.superapi-tui.toml', '.superapi-tui.json']
 
 export function getConfigPath(): string {
   return join(homedir(), '.superapi-tui.toml')
@@ -14,6 +17,45 @@ export function getJsonConfigPath(): string {
   return join(homedir(), '.superapi-tui.json')
 }
 
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile()
+  } catch {
+    return false
+  }
+}
+
+// The nearest .superapi-tui.toml (or .json) from cwd up to the filesystem
+// root. The one in the home directory is the user config, not a project's.
+export async function findProjectConfig(cwd: string = process.cwd(), home: string = homedir()): Promise<string | null> {
+  let dir = resolve(cwd)
+  for (;;) {
+    if (dir !== resolve(home)) {
+      for (const name of PROJECT_CONFIG_NAMES) {
+        const path = join(dir, name)
+        if (await isFile(path)) return path
+      }
+    }
+    const parent = dirname(dir)
+    if (parent === dir) return null
+    dir = parent
+  }
+}
+
+export async function loadConfigLayers(options: ConfigSourceOptions = {}): Promise<ConfigLayers> {
+  if (options.configPath !== undefined) {
+    const user: ConfigLayer = { path: options.configPath, data: await loadConfig(options.configPath) }
+    return { user, project: null, merged: mergeConfigLayers(user, null) }
+  }
+
+  const user: ConfigLayer = { path: getConfigPath(), data: await loadConfig() }
+  const projectPath = await findProjectConfig(options.cwd)
+  const project: ConfigLayer | null = projectPath !== null
+    ? { path: projectPath, data: await loadConfig(projectPath) }
+    : null
+  return { user, project, merged: mergeConfigLayers(user, project) }
+}
+
 async function tryReadFile(path: string): Promise<string | null> {
   try {
     return await readFile(path, 'utf-8')
@@ -22,7 +64,7 @@ async function tryReadFile(path: string): Promise<string | null> {
       ? (err as NodeJS.ErrnoException).code
       : undefined
     if (code !== 'ENOENT') {
-      console.warn(`superapi-tui: failed to read ${path}: ${code ?? 'unknown error'}`)
+      throw new ConfigError(`Failed to read config file ${path}: ${code ?? 'unknown error'}`, err)
     }
     return null
   }
@@ -32,22 +74,20 @@ function parseTomlText(text: string, path: string): ConfigData {
   let raw: unknown
   try {
     raw = parseToml(text)
-  } catch {
-    console.warn(`superapi-tui: invalid TOML in config file ${path}, using defaults`)
-    return DEFAULT_CONFIG
+  } catch (err) {
+    throw new ConfigError(`Invalid TOML in config file ${path}`, err)
   }
-  return parseConfigData(raw)
+  return parseConfigData(raw, path)
 }
 
 function parseJsonText(text: string, path: string): ConfigData {
   let raw: unknown
   try {
     raw = JSON.parse(text)
-  } catch {
-    console.warn(`superapi-tui: invalid JSON in config file ${path}, using defaults`)
-    return DEFAULT_CONFIG
+  } catch (err) {
+    throw new ConfigError(`Invalid JSON in config file ${path}`, err)
   }
-  return parseConfigData(raw)
+  return parseConfigData(raw, path)
 }
 
 export async function loadConfig(
@@ -117,28 +157,62 @@ export async function saveConfig(data: ConfigData, configPath?: string): Promise
 
 function toPlainObject(data: ConfigData): Record<string, unknown> {
   return {
+    ...(data.spec !== undefined ? { spec: data.spec } : {}),
     servers: data.servers.map(s => {
       const server: Record<string, unknown> = { name: s.name }
       if (s.swaggerEndpointUrl !== undefined) server.swaggerEndpointUrl = s.swaggerEndpointUrl
       if (s.url !== undefined) server.url = s.url
-      if (s.auth !== undefined) server.auth = { ...s.auth }
+      if (s.credentials !== undefined && s.credentials.length > 0) {
+        server.credentials = s.credentials.map(c => ({ name: c.name, auth: { ...c.auth } }))
+      }
+      if (s.activeCredential !== undefined) server.activeCredential = s.activeCredential
+      if (s.cookieJar === true) server.cookieJar = true
+      if (s.serverVariables !== undefined) server.serverVariables = { ...s.serverVariables }
       return server
     }),
+    ...(data.collections.length > 0
+      ? {
+          collections: data.collections.map(c => ({
+            name: c.name,
+            spec: c.spec,
+            requests: c.requests.map(r => {
+              const request: Record<string, unknown> = { name: r.name, endpointId: r.endpointId }
+              if (r.server !== undefined) request.server = r.server
+              if (r.authScheme !== undefined) request.authScheme = r.authScheme
+              if (r.body !== undefined) request.body = r.body
+              request.params = { ...r.params }
+              if (r.headers !== undefined) request.headers = { ...r.headers }
+              if (r.mediaType !== undefined) request.mediaType = r.mediaType
+              if (r.form !== undefined) request.form = { ...r.form }
+              return request
+            }),
+          })),
+        }
+      : {}),
+    ...(data.environments.length > 0
+      ? {
+          environments: data.environments.map(e => ({ name: e.name, variables: { ...e.variables } })),
+        }
+      : {}),
     preferences: { ...data.preferences },
   }
 }
 
-function parseConfigData(raw: unknown): ConfigData {
+// A file that doesn't parse is reported rather than read as empty, so a save
+// never replaces it with defaults
+function parseConfigData(raw: unknown, path: string): ConfigData {
   if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
-    console.warn('superapi-tui: config root is not an object, using defaults')
-    return DEFAULT_CONFIG
+    throw new ConfigError(`Config root in ${path} is not an object`)
   }
 
   const obj = raw as Record<string, unknown>
 
   return {
     servers: parseServers(obj['servers']),
+    collections: parseCollections(obj['collections']),
+    environments: parseEnvironments(obj['environments']),
     preferences: parsePreferences(obj['preferences']),
+    ...(typeof obj['spec'] === 'string' && obj['spec'].length > 0 ? { spec: obj['spec'] } : {}),
   }
 }
 
@@ -183,14 +257,74 @@ function parseSavedServer(raw: unknown): SavedServer | null {
     return null
   }
 
-  const auth = obj['auth'] !== undefined ? parseSavedAuth(obj['auth']) : undefined
+  const credentials = parseCredentials(obj, obj['name'])
+  // May name a credential from the project config, so it isn't checked
+  // against this file's; activeCredentialOf falls back when it's gone
+  const activeCredential = typeof obj['activeCredential'] === 'string' ? obj['activeCredential'] : undefined
+  const serverVariables = obj['serverVariables'] !== undefined
+    ? parseServerVariables(obj['serverVariables'], obj['name'])
+    : undefined
 
   return {
     name: obj['name'],
     ...(swaggerEndpointUrl !== undefined ? { swaggerEndpointUrl } : {}),
     ...(url !== undefined ? { url } : {}),
-    ...(auth !== undefined ? { auth } : {}),
+    ...(credentials.length > 0 ? { credentials } : {}),
+    ...(activeCredential !== undefined ? { activeCredential } : {}),
+    ...(obj['cookieJar'] === true ? { cookieJar: true } : {}),
+    ...(serverVariables !== undefined ? { serverVariables } : {}),
+  }
+}
+
+// `credentials` lists named credentials; a single `auth` from older configs
+// becomes the one named 'default'
+function parseCredentials(obj: Record<string, unknown>, serverName: string): readonly SavedCredential[] {
+  const credentials: SavedCredential[] = []
+  const add = (name: string, rawAuth: unknown) => {
+    if (credentials.some(c => c.name === name)) {
+      console.warn(`superapi-tui: skipping duplicate credential '${name}' in server '${serverName}'`)
+      return
+    }
+    const auth = parseSavedAuth(rawAuth)
+    if (auth !== undefined) credentials.push({ name, auth })
+  }
+
+  const raw = obj['credentials']
+  if (Array.isArray(raw)) {
+    for (const entry of raw) {
+      const credential = typeof entry === 'object' && entry !== null && !Array.isArray(entry)
+        ? entry as Record<string, unknown>
+        : undefined
+      if (typeof credential?.['name'] !== 'string' || credential['name'].length === 0) {
+        console.warn(`superapi-tui: skipping credential without a name in server '${serverName}'`)
+        continue
+      }
+      add(credential['name'], credential['auth'])
+    }
+  } else if (raw !== undefined) {
+    console.warn(`superapi-tui: credentials of server '${serverName}' is not an array, ignoring`)
+  }
+
+  if (obj['auth'] !== undefined) add(DEFAULT_CREDENTIAL_NAME, obj['auth'])
+  return credentials
+}
+
+function parseServerVariables(raw: unknown, serverName: string): Record<string, string> | undefined {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    console.warn(`superapi-tui: serverVariables of server '${serverName}' is not a table, ignoring`)
+    return undefined
   }
+
+  const values: Record<string, string> = {}
+  for (const [key, value] of Object.entries(raw)) {
+    // TOML users will write numbers unquoted, e.g. port = 8443
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      values[key] = String(value)
+    } else {
+      console.warn(`superapi-tui: skipping non-scalar server variable '${key}' in server '${serverName}'`)
+    }
+  }
+  return values
 }
 
 function parseSavedAuth(raw: unknown): SavedAuth | undefined {
@@ -210,7 +344,7 @@ function parseSavedAuth(raw: unknown): SavedAuth | undefined {
     case 'apiKey': {
       const key = typeof obj['key'] === 'string' ? obj['key'] : ''
       const paramName = typeof obj['paramName'] === 'string' ? obj['paramName'] : ''
-      const location = obj['location'] === 'query' ? 'query' as const : 'header' as const
+      const location = obj['location'] === 'query' || obj['location'] === 'cookie' ? obj['location'] : 'header' as const
       return { method: 'apiKey', key, paramName, location }
     }
     case 'basic': {
@@ -218,6 +352,35 @@ function parseSavedAuth(raw: unknown): SavedAuth | undefined {
       const password = typeof obj['password'] === 'string' ? obj['password'] : ''
       return { method: 'basic', username, password }
     }
+    case 'oauth2': {
+      const grant = obj['grant']
+      const tokenUrl = obj['tokenUrl']
+      const authorizationUrl = obj['authorizationUrl']
+      if ((grant !== 'clientCredentials' && grant !== 'password' && grant !== 'authorizationCode') || typeof tokenUrl !== 'string') {
+        console.warn('superapi-tui: skipping oauth2 auth without a supported grant and tokenUrl')
+        return undefined
+      }
+      if (grant === 'authorizationCode' && typeof authorizationUrl !== 'string') {
+        console.warn('superapi-tui: skipping oauth2 authorizationCode auth without an authorizationUrl')
+        return undefined
+      }
+      const clientId = typeof obj['clientId'] === 'string' ? obj['clientId'] : ''
+      const clientSecret = typeof obj['clientSecret'] === 'string' ? obj['clientSecret'] : ''
+      const scopes = typeof obj['scopes'] === 'string' ? obj['scopes'] : ''
+      const username = obj['username']
+      const password = obj['password']
+      return {
+        method: 'oauth2',
+        grant,
+        tokenUrl,
+        ...(typeof authorizationUrl === 'string' ? { authorizationUrl } : {}),
+        clientId,
+        clientSecret,
+        scopes,
+        ...(typeof username === 'string' ? { username } : {}),
+        ...(typeof password === 'string' ? { password } : {}),
+      }
+    }
     default: {
       console.warn(`superapi-tui: unknown auth method '${String(method)}', skipping`)
       return undefined
@@ -225,7 +388,164 @@ function parseSavedAuth(raw: unknown): SavedAuth | undefined {
   }
 }
 
-const VALID_RESPONSE_TABS = new Set(['pretty', 'raw', 'headers'])
+function parseCollections(raw: unknown): readonly SavedCollection[] {
+  if (raw === undefined) {
+    return []
+  }
+  if (!Array.isArray(raw)) {
+    console.warn('superapi-tui: collections is not an array, ignoring')
+    return []
+  }
+
+  const collections: SavedCollection[] = []
+  for (const entry of raw) {
+    const collection = parseSavedCollection(entry)
+    if (collection) {
+      collections.push(collection)
+    }
+  }
+  return collections
+}
+
+function parseSavedCollection(raw: unknown): SavedCollection | null {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    console.warn('superapi-tui: skipping non-object collection entry')
+    return null
+  }
+
+  const obj = raw as Record<string, unknown>
+
+  if (typeof obj['name'] !== 'string' || obj['name'].length === 0) {
+    console.warn('superapi-tui: skipping collection entry missing name')
+    return null
+  }
+
+  if (typeof obj['spec'] !== 'string' || obj['spec'].length === 0) {
+    console.warn(`superapi-tui: skipping collection '${obj['name']}' missing spec`)
+    return null
+  }
+
+  const requests: SavedRequest[] = []
+  if (Array.isArray(obj['requests'])) {
+    for (const entry of obj['requests']) {
+      const request = parseSavedRequest(entry)
+      if (request) {
+        requests.push(request)
+      }
+    }
+  } else if (obj['requests'] !== undefined) {
+    console.warn(`superapi-tui: requests in collection '${obj['name']}' is not an array, ignoring`)
+  }
+
+  return { name: obj['name'], spec: obj['spec'], requests }
+}
+
+function parseSavedRequest(raw: unknown): SavedRequest | null {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    console.warn('superapi-tui: skipping non-object saved request')
+    return null
+  }
+
+  const obj = raw as Record<string, unknown>
+
+  if (typeof obj['name'] !== 'string' || obj['name'].length === 0) {
+    console.warn('superapi-tui: skipping saved request missing name')
+    return null
+  }
+
+  if (typeof obj['endpointId'] !== 'string' || obj['endpointId'].length === 0) {
+    console.warn(`superapi-tui: skipping saved request '${obj['name']}' missing endpointId`)
+    return null
+  }
+
+  const params = parseStringTable(obj['params'], 'param', obj['name'])
+  const headers = obj['headers'] !== undefined ? parseStringTable(obj['headers'], 'header', obj['name']) : undefined
+  const form = obj['form'] !== undefined ? parseStringTable(obj['form'], 'form field', obj['name']) : undefined
+
+  const body = typeof obj['body'] === 'string' ? obj['body'] : undefined
+  const server = typeof obj['server'] === 'string' && obj['server'].length > 0 ? obj['server'] : undefined
+  const authScheme = typeof obj['authScheme'] === 'string' && obj['authScheme'].length > 0
+    ? obj['authScheme']
+    : undefined
+  const mediaType = typeof obj['mediaType'] === 'string' && obj['mediaType'].length > 0 ? obj['mediaType'] : undefined
+
+  return {
+    name: obj['name'],
+    endpointId: obj['endpointId'],
+    params,
+    ...(body !== undefined ? { body } : {}),
+    ...(server !== undefined ? { server } : {}),
+    ...(authScheme !== undefined ? { authScheme } : {}),
+    ...(headers !== undefined && Object.keys(headers).length > 0 ? { headers } : {}),
+    ...(mediaType !== undefined ? { mediaType } : {}),
+    ...(form !== undefined && Object.keys(form).length > 0 ? { form } : {}),
+  }
+}
+
+function parseStringTable(raw: unknown, kind: string, requestName: string): Record<string, string> {
+  const table: Record<string, string> = {}
+  if (typeof raw === 'object' && raw !== null && !Array.isArray(raw)) {
+    for (const [key, value] of Object.entries(raw)) {
+      if (typeof value === 'string') {
+        table[key] = value
+      } else {
+        console.warn(`superapi-tui: skipping non-string ${kind} '${key}' in saved request '${requestName}'`)
+      }
+    }
+  }
+  return table
+}
+
+function parseEnvironments(raw: unknown): readonly Environment[] {
+  if (!Array.isArray(raw)) {
+    return []
+  }
+
+  const environments: Environment[] = []
+  for (const entry of raw) {
+    const environment = parseEnvironment(entry)
+    if (!environment) continue
+    if (environments.some(e => e.name === environment.name)) {
+      console.warn(`superapi-tui: skipping duplicate environment '${environment.name}'`)
+      continue
+    }
+    environments.push(environment)
+  }
+  return environments
+}
+
+function parseEnvironment(raw: unknown): Environment | null {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    console.warn('superapi-tui: skipping non-object environment entry')
+    return null
+  }
+
+  const obj = raw as Record<string, unknown>
+
+  if (typeof obj['name'] !== 'string' || obj['name'].length === 0) {
+    console.warn('superapi-tui: skipping environment entry missing name')
+    return null
+  }
+
+  const variables: Record<string, string> = {}
+  const rawVariables = obj['variables']
+  if (typeof rawVariables === 'object' && rawVariables !== null && !Array.isArray(rawVariables)) {
+    for (const [key, value] of Object.entries(rawVariables)) {
+      // TOML users will write numbers and booleans unquoted
+      if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        variables[key] = String(value)
+      } else {
+        console.warn(`superapi-tui: skipping non-scalar variable '${key}' in environment '${obj['name']}'`)
+      }
+    }
+  } else if (rawVariables !== undefined) {
+    console.warn(`superapi-tui: variables in environment '${obj['name']}' is not a table, ignoring`)
+  }
+
+  return { name: obj['name'], variables }
+}
+
+const VALID_RESPONSE_TABS = new Set(['pretty', 'raw', 'headers', 'validation'])
 
 function parsePreferences(raw: unknown): Preferences {
   if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
@@ -234,14 +554,24 @@ function parsePreferences(raw: unknown): Preferences {
 
   const obj = raw as Record<string, unknown>
 
+  let defaultResponseTab = DEFAULT_PREFERENCES.defaultResponseTab
   const tab = obj['defaultResponseTab']
   if (typeof tab === 'string' && VALID_RESPONSE_TABS.has(tab)) {
-    return { defaultResponseTab: tab as Preferences['defaultResponseTab'] }
-  }
-
-  if (tab !== undefined) {
+    defaultResponseTab = tab as Preferences['defaultResponseTab']
+  } else if (tab !== undefined) {
     console.warn(`superapi-tui: invalid defaultResponseTab '${String(tab)}', using default`)
   }
 
-  return DEFAULT_PREFERENCES
+  const activeEnvironment = typeof obj['activeEnvironment'] === 'string' && obj['activeEnvironment'].length > 0
+    ? obj['activeEnvironment']
+    : undefined
+  const defaultServer = typeof obj['defaultServer'] === 'string' && obj['defaultServer'].length > 0
+    ? obj['defaultServer']
+    : undefined
+
+  return {
+    defaultResponseTab,
+    ...(activeEnvironment !== undefined ? { activeEnvironment } : {}),
+    ...(defaultServer !== undefined ? { defaultServer } : {}),
+  }
 }
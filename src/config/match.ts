@@ -1,20 +1,27 @@
-import type { SavedServer, SavedAuth } from './types.js'
+import type { SavedServer, SavedCredential } from './types.js'
 
 export function normalizeUrl(url: string): string {
   return url.replace(/\/+$/, '').toLowerCase()
 }
 
-export function matchServerAuth(
+export function matchSavedServer(
   savedServers: readonly SavedServer[],
   specServerUrl: string,
-): SavedAuth | null {
+): SavedServer | null {
   const normalized = normalizeUrl(specServerUrl)
+  return savedServers.find(server => server.url !== undefined && normalizeUrl(server.url) === normalized) ?? null
+}
 
-  for (const server of savedServers) {
-    if (server.url !== undefined && normalizeUrl(server.url) === normalized) {
-      return server.auth ?? null
-    }
-  }
+// The credential used last, or the first when that one is gone
+export function activeCredentialOf(server: SavedServer): SavedCredential | null {
+  const credentials = server.credentials ?? []
+  return credentials.find(c => c.name === server.activeCredential) ?? credentials[0] ?? null
+}
 
-  return null
+export function matchServerAuth(
+  savedServers: readonly SavedServer[],
+  specServerUrl: string,
+): SavedCredential | null {
+  const server = matchSavedServer(savedServers, specServerUrl)
+  return server ? activeCredentialOf(server) : null
 }
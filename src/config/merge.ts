@@ -0,0 +1,70 @@
+import { dirname, resolve } from 'node:path'
+import { isUrl } from '@/utils/url.js'
+import type { ConfigData, ConfigLayer, Environment, SavedCollection, SavedServer } from './types.js'
+import { normalizeUrl } from './match.js'
+
+// first's entries in order, each combined with its match in second, then the
+// entries only second has
+function mergeByKey<T>(
+  first: readonly T[],
+  second: readonly T[],
+  key: (entry: T) => string,
+  combine: (fromFirst: T, fromSecond: T) => T,
+): readonly T[] {
+  const byKey = new Map(second.map(entry => [key(entry), entry]))
+  const merged = first.map((entry) => {
+    const match = byKey.get(key(entry))
+    byKey.delete(key(entry))
+    return match !== undefined ? combine(entry, match) : entry
+  })
+  return [...merged, ...byKey.values()]
+}
+
+// Servers match across layers by URL, or by name when they have none
+export function serverKey(server: SavedServer): string {
+  return server.url !== undefined ? normalizeUrl(server.url) : `name:${server.name}`
+}
+
+// A committed project config could pair its own server URL with ${env:…}
+// references to your secrets, so its credentials are dropped
+function withoutCredentials({ credentials: _credentials, activeCredential: _active, ...server }: SavedServer): SavedServer {
+  return server
+}
+
+// The project describes the server; credentials and the cookie jar setting are yours
+function mergeServer(project: SavedServer, user: SavedServer): SavedServer {
+  const cookieJar = user.cookieJar ?? project.cookieJar
+  return { ...user, ...project, ...(cookieJar !== undefined ? { cookieJar } : {}) }
+}
+
+// Your variables fill in what the project leaves out, e.g. tokens
+function mergeEnvironment(project: Environment, user: Environment): Environment {
+  return { ...project, variables: { ...user.variables, ...project.variables } }
+}
+
+function mergeCollection(project: SavedCollection, user: SavedCollection): SavedCollection {
+  return { ...project, requests: mergeByKey(project.requests, user.requests, r => r.name, r => r) }
+}
+
+function resolveSpec(layer: ConfigLayer): string | undefined {
+  const spec = layer.data.spec
+  if (spec === undefined || isUrl(spec)) return spec
+  return resolve(dirname(layer.path), spec)
+}
+
+// The project layer wins, entry by entry: servers match by URL, environments
+// and collections by name. Preferences only come from your own config.
+export function mergeConfigLayers(user: ConfigLayer, project: ConfigLayer | null): ConfigData {
+  const spec = (project ? resolveSpec(project) : undefined) ?? resolveSpec(user)
+  if (!project) {
+    return { ...user.data, ...(spec !== undefined ? { spec } : {}) }
+  }
+
+  return {
+    servers: mergeByKey(project.data.servers.map(withoutCredentials), user.data.servers, serverKey, mergeServer),
+    collections: mergeByKey(project.data.collections, user.data.collections, c => `${c.spec}\n${c.name}`, mergeCollection),
+    environments: mergeByKey(project.data.environments, user.data.environments, e => e.name, mergeEnvironment),
+    preferences: user.data.preferences,
+    ...(spec !== undefined ? { spec } : {}),
+  }
+}
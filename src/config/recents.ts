@@ -0,0 +1,92 @@
+import { dirname, join } from 'node:path'
+import { chmod, readFile, writeFile } from 'node:fs/promises'
+import type { RecentSpec } from './types.js'
+import { MAX_RECENT_SPECS } from './types.js'
+import { ConfigError } from './errors.js'
+import { getConfigPath } from './io.js'
+
+// Kept out of the config so opening a spec never rewrites a hand-edited file
+export function getRecentsPath(): string {
+  return join(dirname(getConfigPath()), '.superapi-tui-recents.json')
+}
+
+// Puts the spec first, dropping an older entry for the same input and
+// whatever falls past the limit
+export function addRecentSpec(
+  recents: readonly RecentSpec[],
+  entry: RecentSpec,
+  limit: number = MAX_RECENT_SPECS,
+): readonly RecentSpec[] {
+  return [entry, ...recents.filter(r => r.input !== entry.input)].slice(0, limit)
+}
+
+export async function loadRecentSpecs(recentsPath?: string): Promise<readonly RecentSpec[]> {
+  const path = recentsPath ?? getRecentsPath()
+
+  let text: string
+  try {
+    text = await readFile(path, 'utf-8')
+  } catch (err) {
+    const code = err instanceof Error && 'code' in err
+      ? (err as NodeJS.ErrnoException).code
+      : undefined
+    if (code !== 'ENOENT') {
+      console.warn(`superapi-tui: failed to read ${path}: ${code ?? 'unknown error'}`)
+    }
+    return []
+  }
+
+  try {
+    return parseRecentSpecs(JSON.parse(text))
+  } catch {
+    console.warn(`superapi-tui: ignoring invalid recent specs in ${path}`)
+    return []
+  }
+}
+
+export async function recordRecentSpec(entry: RecentSpec, recentsPath?: string): Promise<void> {
+  const path = recentsPath ?? getRecentsPath()
+  const recents = addRecentSpec(await loadRecentSpecs(path), entry)
+  try {
+    await writeFile(path, JSON.stringify(recents, null, 2) + '\n', 'utf-8')
+    await chmod(path, 0o600)
+  } catch (err) {
+    throw new ConfigError(`Failed to write recent specs: ${path}`, err)
+  }
+}
+
+function parseRecentSpecs(raw: unknown): readonly RecentSpec[] {
+  if (!Array.isArray(raw)) {
+    console.warn('superapi-tui: recent specs are not a list, ignoring')
+    return []
+  }
+
+  const recents: RecentSpec[] = []
+  for (const entry of raw) {
+    const recent = parseRecentSpec(entry)
+    if (recent && !recents.some(r => r.input === recent.input)) {
+      recents.push(recent)
+    }
+  }
+  return recents.slice(0, MAX_RECENT_SPECS)
+}
+
+function parseRecentSpec(raw: unknown): RecentSpec | null {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return null
+  }
+
+  const obj = raw as Record<string, unknown>
+  const { input, title, version, openedAt } = obj
+  if (typeof input !== 'string' || input.length === 0 || typeof openedAt !== 'string') {
+    console.warn('superapi-tui: skipping recent spec entry missing input or openedAt')
+    return null
+  }
+
+  return {
+    input,
+    title: typeof title === 'string' ? title : '',
+    version: typeof version === 'string' ? version : '',
+    openedAt,
+  }
+}
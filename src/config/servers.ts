@@ -0,0 +1,63 @@
+import type { ConfigData, Preferences, SavedServer } from './types.js'
+
+// Servers are edited by index, since names aren't guaranteed to be unique
+
+function withDefaultServer(preferences: Preferences, name: string | undefined): Preferences {
+  const { defaultResponseTab, activeEnvironment } = preferences
+  return {
+    defaultResponseTab,
+    ...(activeEnvironment !== undefined ? { activeEnvironment } : {}),
+    ...(name !== undefined ? { defaultServer: name } : {}),
+  }
+}
+
+function updateServer(config: ConfigData, index: number, update: (server: SavedServer) => SavedServer): ConfigData {
+  return { ...config, servers: config.servers.map((s, i) => (i === index ? update(s) : s)) }
+}
+
+export function setDefaultServer(config: ConfigData, name: string | null): ConfigData {
+  return { ...config, preferences: withDefaultServer(config.preferences, name ?? undefined) }
+}
+
+// Removing the default server leaves none
+export function removeServer(config: ConfigData, index: number): ConfigData {
+  const removed = config.servers[index]
+  if (!removed) return config
+  const updated = { ...config, servers: config.servers.filter((_, i) => i !== index) }
+  return config.preferences.defaultServer === removed.name ? setDefaultServer(updated, null) : updated
+}
+
+// The default server stays the default under its new name
+export function renameServer(config: ConfigData, index: number, name: string): ConfigData {
+  const renamed = config.servers[index]
+  if (!renamed) return config
+  const updated = updateServer(config, index, s => ({ ...s, name }))
+  return config.preferences.defaultServer === renamed.name ? setDefaultServer(updated, name) : updated
+}
+
+// Sets both URLs; an undefined one is removed
+export function setServerUrls(
+  config: ConfigData,
+  index: number,
+  urls: { readonly url?: string; readonly swaggerEndpointUrl?: string },
+): ConfigData {
+  return updateServer(config, index, ({ url: _url, swaggerEndpointUrl: _swagger, ...rest }) => ({
+    ...rest,
+    ...(urls.swaggerEndpointUrl !== undefined ? { swaggerEndpointUrl: urls.swaggerEndpointUrl } : {}),
+    ...(urls.url !== undefined ? { url: urls.url } : {}),
+  }))
+}
+
+export function clearServerAuth(config: ConfigData, index: number): ConfigData {
+  return updateServer(config, index, ({ credentials: _credentials, activeCredential: _active, ...rest }) => rest)
+}
+
+// Moves the server up (negative offset) or down, stopping at either end
+export function moveServer(config: ConfigData, index: number, offset: number): ConfigData {
+  const target = Math.max(0, Math.min(config.servers.length - 1, index + offset))
+  const moved = config.servers[index]
+  if (!moved || target === index) return config
+  const servers = config.servers.filter((_, i) => i !== index)
+  servers.splice(target, 0, moved)
+  return { ...config, servers }
+}
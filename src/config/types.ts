@@ -3,27 +3,114 @@ import type { AuthCredentials } from '@/types/auth.js'
 
 export type SavedAuth = Exclude<AuthCredentials, { method: 'none' }>
 
+// One of a server's credentials, e.g. an admin and a regular user token
+export interface SavedCredential {
+  readonly name: string
+  readonly auth: SavedAuth
+}
+
 export interface SavedServer {
   readonly name: string
   readonly swaggerEndpointUrl?: string
   readonly url?: string
-  readonly auth?: SavedAuth
+  readonly credentials?: readonly SavedCredential[]
+  // Name of the credential used last, restored on the next launch
+  readonly activeCredential?: string
+  // Keep cookies from responses and send them back on later requests
+  readonly cookieJar?: boolean
+  // Values chosen for the spec server's {variables}; url is the URL they resolve to
+  readonly serverVariables?: Readonly<Record<string, string>>
+}
+
+export interface SavedRequest {
+  readonly name: string
+  readonly endpointId: string
+  // Param values keyed by `${location}:${name}`
+  readonly params: Readonly<Record<string, string>>
+  readonly body?: string
+  readonly server?: string
+  // Auth option scheme name; credentials themselves stay with the saved server
+  readonly authScheme?: string
+  // Headers the operation doesn't declare
+  readonly headers?: Readonly<Record<string, string>>
+  // Body media type, when the operation accepts more than one
+  readonly mediaType?: string
+  // Form and multipart field values keyed by property name
+  readonly form?: Readonly<Record<string, string>>
+}
+
+export interface SavedCollection {
+  readonly name: string
+  // Spec title the collection belongs to
+  readonly spec: string
+  readonly requests: readonly SavedRequest[]
+}
+
+export interface Environment {
+  readonly name: string
+  // Values for {{name}} placeholders
+  readonly variables: Readonly<Record<string, string>>
 }
 
 export interface Preferences {
   readonly defaultResponseTab: ResponseTab
+  readonly activeEnvironment?: string
+  // Name of the saved server the launcher opens on its own
+  readonly defaultServer?: string
+}
+
+export interface RecentSpec {
+  // What was opened: a URL, or an absolute file path
+  readonly input: string
+  readonly title: string
+  readonly version: string
+  // ISO timestamp
+  readonly openedAt: string
 }
 
 export interface ConfigData {
   readonly servers: readonly SavedServer[]
+  readonly collections: readonly SavedCollection[]
+  readonly environments: readonly Environment[]
   readonly preferences: Preferences
+  // Spec the launcher opens when run without arguments; file paths are
+  // relative to the config file
+  readonly spec?: string
 }
 
+export interface ConfigLayer {
+  readonly path: string
+  readonly data: ConfigData
+}
+
+export interface ConfigSourceOptions {
+  // --config: used instead of both the user and the project config
+  readonly configPath?: string
+  // Where the project config search starts
+  readonly cwd?: string
+}
+
+export interface ConfigLayers {
+  // Your own config, which every save goes to
+  readonly user: ConfigLayer
+  // The .superapi-tui.toml found from the working directory; never written
+  readonly project: ConfigLayer | null
+  // What the app uses: the project layer merged over the user one
+  readonly merged: ConfigData
+}
+
+// The name of a credential saved without one, and of a legacy single `auth`
+export const DEFAULT_CREDENTIAL_NAME = 'default'
+
+export const MAX_RECENT_SPECS = 10
+
 export const DEFAULT_PREFERENCES: Preferences = {
   defaultResponseTab: 'pretty',
 }
 
 export const DEFAULT_CONFIG: ConfigData = {
   servers: [],
+  collections: [],
+  environments: [],
   preferences: DEFAULT_PREFERENCES,
 }
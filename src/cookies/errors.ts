@@ -0,0 +1,6 @@
+export class CookieJarError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, cause !== undefined ? { cause } : undefined)
+    this.name = 'CookieJarError'
+  }
+}
@@ -0,0 +1,4 @@
+export type { StoredCookie, CookieJars } from './types.js'
+export { CookieJarError } from './errors.js'
+export { parseSetCookie, storeCookies, cookiesForUrl, withCookies } from './jar.js'
+export { loadCookieJars, saveCookieJars, getCookieJarPath } from './io.js'
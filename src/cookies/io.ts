@@ -0,0 +1,106 @@
+import { dirname, join } from 'node:path'
+import { chmod, readFile, writeFile } from 'node:fs/promises'
+import { getConfigPath } from '@/config/index.js'
+import type { CookieJars, StoredCookie } from './types.js'
+import { CookieJarError } from './errors.js'
+
+export function getCookieJarPath(): string {
+  return join(dirname(getConfigPath()), '.superapi-tui-cookies.json')
+}
+
+export async function loadCookieJars(jarPath?: string): Promise<CookieJars> {
+  const path = jarPath ?? getCookieJarPath()
+
+  let text: string
+  try {
+    text = await readFile(path, 'utf-8')
+  } catch (err) {
+    const code = err instanceof Error && 'code' in err
+      ? (err as NodeJS.ErrnoException).code
+      : undefined
+    if (code !== 'ENOENT') {
+      console.warn(`superapi-tui: failed to read ${path}: ${code ?? 'unknown error'}`)
+    }
+    return new Map()
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    console.warn(`superapi-tui: ${path} is not valid JSON, ignoring stored cookies`)
+    return new Map()
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    console.warn(`superapi-tui: ${path} is not an object, ignoring stored cookies`)
+    return new Map()
+  }
+
+  const jars = new Map<string, readonly StoredCookie[]>()
+  let skipped = 0
+  for (const [serverUrl, entries] of Object.entries(raw)) {
+    if (!Array.isArray(entries)) {
+      skipped++
+      continue
+    }
+    const cookies: StoredCookie[] = []
+    for (const entry of entries) {
+      const cookie = parseStoredCookie(entry)
+      if (cookie) {
+        cookies.push(cookie)
+      } else {
+        skipped++
+      }
+    }
+    jars.set(serverUrl, cookies)
+  }
+
+  if (skipped > 0) {
+    console.warn(`superapi-tui: skipped ${skipped} invalid cookie entries in ${path}`)
+  }
+  return jars
+}
+
+export async function saveCookieJars(jars: CookieJars, jarPath?: string): Promise<void> {
+  const path = jarPath ?? getCookieJarPath()
+  try {
+    const plain: Record<string, readonly StoredCookie[]> = {}
+    for (const [serverUrl, cookies] of jars) {
+      if (cookies.length > 0) plain[serverUrl] = cookies
+    }
+    await writeFile(path, JSON.stringify(plain, null, 2) + '\n', 'utf-8')
+    await chmod(path, 0o600)
+  } catch (err) {
+    throw new CookieJarError(`Failed to write cookie jar: ${path}`, err)
+  }
+}
+
+function parseStoredCookie(raw: unknown): StoredCookie | null {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return null
+  }
+
+  const obj = raw as Record<string, unknown>
+  const { name, value, domain, hostOnly, path, secure, httpOnly, expires } = obj
+
+  if (
+    typeof name !== 'string' || name.length === 0
+    || typeof value !== 'string'
+    || typeof domain !== 'string' || domain.length === 0
+    || typeof path !== 'string'
+    || (expires !== undefined && (typeof expires !== 'string' || Number.isNaN(Date.parse(expires))))
+  ) {
+    return null
+  }
+
+  return {
+    name,
+    value,
+    domain,
+    hostOnly: hostOnly === true,
+    path,
+    secure: secure === true,
+    httpOnly: httpOnly === true,
+    ...(typeof expires === 'string' ? { expires } : {}),
+  }
+}
@@ -0,0 +1,142 @@
+import { isIP } from 'node:net'
+import type { RequestOptions } from '@/types/index.js'
+import type { StoredCookie } from './types.js'
+
+function isExpired(cookie: StoredCookie, now: Date): boolean {
+  return cookie.expires !== undefined && Date.parse(cookie.expires) <= now.getTime()
+}
+
+function domainMatches(host: string, domain: string): boolean {
+  return host === domain || (host.endsWith(`.${domain}`) && isIP(host) === 0)
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) return true
+  return requestPath.startsWith(cookiePath)
+    && (cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/')
+}
+
+// The request path up to its last slash, per RFC 6265
+function defaultPath(url: URL): string {
+  const path = url.pathname
+  const lastSlash = path.lastIndexOf('/')
+  return lastSlash <= 0 ? '/' : path.slice(0, lastSlash)
+}
+
+// Returns null for malformed cookies and ones the host may not set, such as a
+// Domain it doesn't belong to. A Max-Age of 0 or a past Expires gives an
+// already expired cookie, which deletes any stored one.
+export function parseSetCookie(header: string, url: URL, now: Date = new Date()): StoredCookie | null {
+  const [pair = '', ...attributes] = header.split(';')
+  const eq = pair.indexOf('=')
+  if (eq === -1) return null
+  const name = pair.slice(0, eq).trim()
+  if (name.length === 0) return null
+  const value = pair.slice(eq + 1).trim()
+
+  const host = url.hostname.toLowerCase()
+  let domain: string | undefined
+  let path: string | undefined
+  let expires: string | undefined
+  let maxAge: number | undefined
+  let secure = false
+  let httpOnly = false
+
+  for (const attribute of attributes) {
+    const sep = attribute.indexOf('=')
+    const key = (sep === -1 ? attribute : attribute.slice(0, sep)).trim().toLowerCase()
+    const attributeValue = sep === -1 ? '' : attribute.slice(sep + 1).trim()
+    switch (key) {
+      case 'domain':
+        if (attributeValue.length > 0) domain = attributeValue.replace(/^\./, '').toLowerCase()
+        break
+      case 'path':
+        if (attributeValue.startsWith('/')) path = attributeValue
+        break
+      case 'expires': {
+        const time = Date.parse(attributeValue)
+        if (!Number.isNaN(time)) expires = new Date(time).toISOString()
+        break
+      }
+      case 'max-age':
+        if (/^-?\d+$/.test(attributeValue)) maxAge = Number(attributeValue)
+        break
+      case 'secure':
+        secure = true
+        break
+      case 'httponly':
+        httpOnly = true
+        break
+    }
+  }
+
+  if (domain !== undefined && !domainMatches(host, domain)) return null
+  // Max-Age wins over Expires when both are given
+  if (maxAge !== undefined) {
+    expires = new Date(maxAge <= 0 ? 0 : now.getTime() + maxAge * 1000).toISOString()
+  }
+
+  return {
+    name,
+    value,
+    domain: domain ?? host,
+    hostOnly: domain === undefined,
+    path: path ?? defaultPath(url),
+    secure,
+    httpOnly,
+    ...(expires !== undefined ? { expires } : {}),
+  }
+}
+
+// Applies a response's Set-Cookie headers: new cookies replace ones with the
+// same name, domain and path, expired ones are dropped
+export function storeCookies(
+  cookies: readonly StoredCookie[],
+  setCookies: readonly string[],
+  url: string,
+  now: Date = new Date(),
+): readonly StoredCookie[] {
+  const requestUrl = new URL(url)
+  let stored = cookies.filter(cookie => !isExpired(cookie, now))
+  for (const header of setCookies) {
+    const cookie = parseSetCookie(header, requestUrl, now)
+    if (!cookie) continue
+    stored = stored.filter(c => c.name !== cookie.name || c.domain !== cookie.domain || c.path !== cookie.path)
+    if (!isExpired(cookie, now)) {
+      stored.push(cookie)
+    }
+  }
+  return stored
+}
+
+// Cookies to send to url, most specific path first
+export function cookiesForUrl(
+  cookies: readonly StoredCookie[],
+  url: string,
+  now: Date = new Date(),
+): readonly StoredCookie[] {
+  const requestUrl = new URL(url)
+  const host = requestUrl.hostname.toLowerCase()
+  return cookies
+    .filter(cookie => !isExpired(cookie, now)
+      && (cookie.hostOnly ? host === cookie.domain : domainMatches(host, cookie.domain))
+      && pathMatches(requestUrl.pathname, cookie.path)
+      && (!cookie.secure || requestUrl.protocol === 'https:'))
+    .sort((a, b) => b.path.length - a.path.length)
+}
+
+// Adds jar cookies to the request's Cookie header; cookies the request already
+// sends, from cookie params, apiKey auth or a typed header, take precedence
+export function withCookies(request: RequestOptions, cookies: readonly StoredCookie[]): RequestOptions {
+  if (cookies.length === 0) return request
+
+  const headerName = [...request.headers.keys()].find(name => name.toLowerCase() === 'cookie')
+  const existing = headerName !== undefined ? request.headers.get(headerName)! : ''
+  const sent = new Set(existing.split(';').map(pair => pair.split('=')[0]!.trim()).filter(name => name.length > 0))
+  const pairs = cookies.filter(cookie => !sent.has(cookie.name)).map(cookie => `${cookie.name}=${cookie.value}`)
+  if (pairs.length === 0) return request
+
+  const headers = new Map(request.headers)
+  headers.set(headerName ?? 'Cookie', [...pairs, ...(existing ? [existing] : [])].join('; '))
+  return { ...request, headers }
+}
@@ -0,0 +1,16 @@
+export interface StoredCookie {
+  readonly name: string
+  readonly value: string
+  // Lowercased, without a leading dot
+  readonly domain: string
+  // Set without a Domain attribute, so only sent back to the exact host
+  readonly hostOnly: boolean
+  readonly path: string
+  readonly secure: boolean
+  readonly httpOnly: boolean
+  // ISO timestamp; session cookies have none and are kept until the jar is cleared
+  readonly expires?: string
+}
+
+// Stored cookies per saved server, keyed by normalized server URL
+export type CookieJars = ReadonlyMap<string, readonly StoredCookie[]>
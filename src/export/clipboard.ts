@@ -0,0 +1,34 @@
+import { chmod, writeFile } from 'node:fs/promises'
+import { resolve } from 'node:path'
+
+// OSC 52 asks the terminal itself to set the clipboard, so it works over SSH.
+// Terminals that don't support it ignore the sequence.
+export function osc52Sequence(text: string): string {
+  return `\x1b]52;c;${Buffer.from(text, 'utf-8').toString('base64')}\x07`
+}
+
+export function copyToClipboard(
+  text: string,
+  write: (data: string) => void = (data) => { process.stdout.write(data) },
+): void {
+  write(osc52Sequence(text))
+}
+
+// Resolves relative paths against the working directory; returns the absolute path.
+// An existing file is kept (rejecting with EEXIST) unless overwrite is set, and
+// the file is private since snippets carry the applied auth headers.
+export async function writeSnippetFile(path: string, text: string, overwrite = false): Promise<string> {
+  const absolute = resolve(path)
+  await writeFile(absolute, text.endsWith('\n') ? text : `${text}\n`, {
+    encoding: 'utf-8',
+    flag: overwrite ? 'w' : 'wx',
+    mode: 0o600,
+  })
+  // mode only applies to new files
+  if (overwrite) await chmod(absolute, 0o600)
+  return absolute
+}
+
+export function isFileExistsError(err: unknown): boolean {
+  return err instanceof Error && (err as NodeJS.ErrnoException).code === 'EEXIST'
+}
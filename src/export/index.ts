@@ -0,0 +1,3 @@
+export { SNIPPET_FORMATS, renderSnippet } from './snippets.js'
+export type { SnippetFormat, SnippetFormatInfo } from './snippets.js'
+export { osc52Sequence, copyToClipboard, writeSnippetFile, isFileExistsError } from './clipboard.js'
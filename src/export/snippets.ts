@@ -0,0 +1,265 @@
+import { basename } from 'node:path'
+import type { RequestOptions } from '@/types/index.js'
+
+export type SnippetFormat = 'curl' | 'httpie' | 'fetch' | 'python' | 'go'
+
+export interface SnippetFormatInfo {
+  readonly format: SnippetFormat
+  readonly label: string
+  // Default file name when writing the snippet out
+  readonly fileName: string
+}
+
+export const SNIPPET_FORMATS: readonly SnippetFormatInfo[] = [
+  { format: 'curl', label: 'curl', fileName: 'request.sh' },
+  { format: 'httpie', label: 'HTTPie', fileName: 'request.sh' },
+  { format: 'fetch', label: 'fetch', fileName: 'request.mjs' },
+  { format: 'python', label: 'Python', fileName: 'request.py' },
+  { format: 'go', label: 'Go', fileName: 'main.go' },
+]
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+// JSON string syntax is also a valid string literal in JavaScript, Python and Go
+function quote(value: string): string {
+  return JSON.stringify(value)
+}
+
+function renderCurl(request: RequestOptions): string {
+  const method = request.method.toUpperCase()
+  const hasBody = request.body !== undefined || request.bodyFile !== undefined || request.multipart !== undefined
+  const lines = [method === 'GET' && !hasBody
+    ? `curl ${shellQuote(request.url)}`
+    : `curl -X ${method} ${shellQuote(request.url)}`]
+  for (const [name, value] of request.headers) {
+    lines.push(`-H ${shellQuote(`${name}: ${value}`)}`)
+  }
+  if (request.body !== undefined) {
+    lines.push(`--data-raw ${shellQuote(request.body)}`)
+  }
+  if (request.bodyFile !== undefined) {
+    lines.push(`--data-binary ${shellQuote(`@${request.bodyFile}`)}`)
+  }
+  for (const part of request.multipart ?? []) {
+    lines.push(part.kind === 'file'
+      ? `-F ${shellQuote(`${part.name}=@${part.path}`)}`
+      : `--form-string ${shellQuote(`${part.name}=${part.value}`)}`)
+  }
+  return lines.join(' \\\n  ')
+}
+
+function renderHttpie(request: RequestOptions): string {
+  const multipart = request.multipart !== undefined ? '--multipart ' : ''
+  const lines = [`http ${multipart}${request.method.toUpperCase()} ${shellQuote(request.url)}`]
+  for (const [name, value] of request.headers) {
+    lines.push(shellQuote(`${name}:${value}`))
+  }
+  if (request.body !== undefined) {
+    lines.push(`--raw ${shellQuote(request.body)}`)
+  }
+  if (request.bodyFile !== undefined) {
+    lines.push(shellQuote(`@${request.bodyFile}`))
+  }
+  for (const part of request.multipart ?? []) {
+    lines.push(shellQuote(part.kind === 'file' ? `${part.name}@${part.path}` : `${part.name}=${part.value}`))
+  }
+  return lines.join(' \\\n  ')
+}
+
+function renderFetch(request: RequestOptions): string {
+  const lines: string[] = []
+  if (request.bodyFile !== undefined || request.multipart?.some(part => part.kind === 'file')) {
+    lines.push(`import { openAsBlob } from 'node:fs'`, '')
+  }
+  if (request.multipart !== undefined) {
+    lines.push('const form = new FormData()')
+    for (const part of request.multipart) {
+      lines.push(part.kind === 'file'
+        ? `form.append(${quote(part.name)}, await openAsBlob(${quote(part.path)}), ${quote(basename(part.path))})`
+        : `form.append(${quote(part.name)}, ${quote(part.value)})`)
+    }
+    lines.push('')
+  }
+  lines.push(
+    `const response = await fetch(${quote(request.url)}, {`,
+    `  method: ${quote(request.method.toUpperCase())},`,
+  )
+  if (request.headers.size > 0) {
+    lines.push('  headers: {')
+    for (const [name, value] of request.headers) {
+      lines.push(`    ${quote(name)}: ${quote(value)},`)
+    }
+    lines.push('  },')
+  }
+  if (request.body !== undefined) {
+    lines.push(`  body: ${quote(request.body)},`)
+  }
+  if (request.bodyFile !== undefined) {
+    lines.push(`  body: await openAsBlob(${quote(request.bodyFile)}),`)
+  }
+  if (request.multipart !== undefined) {
+    lines.push('  body: form,')
+  }
+  lines.push('})', '', 'console.log(response.status, await response.text())')
+  return lines.join('\n')
+}
+
+function renderPython(request: RequestOptions): string {
+  const lines = [
+    'import requests',
+    '',
+    'response = requests.request(',
+    `    ${quote(request.method.toUpperCase())},`,
+    `    ${quote(request.url)},`,
+  ]
+  if (request.headers.size > 0) {
+    lines.push('    headers={')
+    for (const [name, value] of request.headers) {
+      lines.push(`        ${quote(name)}: ${quote(value)},`)
+    }
+    lines.push('    },')
+  }
+  if (request.body !== undefined) {
+    lines.push(`    data=${quote(request.body)},`)
+  }
+  if (request.bodyFile !== undefined) {
+    lines.push(`    data=open(${quote(request.bodyFile)}, "rb"),`)
+  }
+  if (request.multipart !== undefined) {
+    // A (None, value) tuple sends a plain field as a multipart part
+    lines.push('    files=[')
+    for (const part of request.multipart) {
+      lines.push(part.kind === 'file'
+        ? `        (${quote(part.name)}, open(${quote(part.path)}, "rb")),`
+        : `        (${quote(part.name)}, (None, ${quote(part.value)})),`)
+    }
+    lines.push('    ],')
+  }
+  lines.push(')', '', 'print(response.status_code, response.text)')
+  return lines.join('\n')
+}
+
+function renderGo(request: RequestOptions): string {
+  const hasBody = request.body !== undefined
+  const bodyFile = request.bodyFile
+  const parts = request.multipart
+  const hasFiles = parts?.some(part => part.kind === 'file') ?? false
+  const imports = [
+    ...(parts ? ['"bytes"'] : []),
+    '"fmt"',
+    '"io"',
+    ...(parts ? ['"mime/multipart"'] : []),
+    '"net/http"',
+    ...(hasFiles || bodyFile !== undefined ? ['"os"'] : []),
+    ...(hasFiles ? ['"path/filepath"'] : []),
+    ...(hasBody ? ['"strings"'] : []),
+  ]
+  const lines = [
+    'package main',
+    '',
+    'import (',
+    ...imports.map(i => `\t${i}`),
+    ')',
+    '',
+    'func main() {',
+  ]
+  if (hasBody) {
+    lines.push(`\tbody := strings.NewReader(${quote(request.body!)})`)
+  }
+  if (bodyFile !== undefined) {
+    lines.push(
+      `\tbody, err := os.Open(${quote(bodyFile)})`,
+      '\tif err != nil {',
+      '\t\tpanic(err)',
+      '\t}',
+      '\tdefer body.Close()',
+    )
+  }
+  if (parts) {
+    lines.push('\tbody := &bytes.Buffer{}', '\tform := multipart.NewWriter(body)')
+    if (hasFiles) {
+      lines.push(
+        '\taddFile := func(field, path string) {',
+        '\t\tfile, err := os.Open(path)',
+        '\t\tif err != nil {',
+        '\t\t\tpanic(err)',
+        '\t\t}',
+        '\t\tdefer file.Close()',
+        '\t\tpart, err := form.CreateFormFile(field, filepath.Base(path))',
+        '\t\tif err != nil {',
+        '\t\t\tpanic(err)',
+        '\t\t}',
+        '\t\tif _, err := io.Copy(part, file); err != nil {',
+        '\t\t\tpanic(err)',
+        '\t\t}',
+        '\t}',
+      )
+    }
+    for (const part of parts) {
+      if (part.kind === 'file') {
+        lines.push(`\taddFile(${quote(part.name)}, ${quote(part.path)})`)
+      } else {
+        lines.push(
+          `\tif err := form.WriteField(${quote(part.name)}, ${quote(part.value)}); err != nil {`,
+          '\t\tpanic(err)',
+          '\t}',
+        )
+      }
+    }
+    lines.push(
+      '\tif err := form.Close(); err != nil {',
+      '\t\tpanic(err)',
+      '\t}',
+    )
+  }
+  lines.push(
+    `\treq, err := http.NewRequest(${quote(request.method.toUpperCase())}, ${quote(request.url)}, ${hasBody || bodyFile !== undefined || parts ? 'body' : 'nil'})`,
+    '\tif err != nil {',
+    '\t\tpanic(err)',
+    '\t}',
+  )
+  if (parts) {
+    lines.push('\treq.Header.Set("Content-Type", form.FormDataContentType())')
+  }
+  for (const [name, value] of request.headers) {
+    lines.push(`\treq.Header.Set(${quote(name)}, ${quote(value)})`)
+  }
+  lines.push(
+    '',
+    '\tresp, err := http.DefaultClient.Do(req)',
+    '\tif err != nil {',
+    '\t\tpanic(err)',
+    '\t}',
+    '\tdefer resp.Body.Close()',
+    '',
+    '\trespBody, err := io.ReadAll(resp.Body)',
+    '\tif err != nil {',
+    '\t\tpanic(err)',
+    '\t}',
+    '\tfmt.Println(resp.Status)',
+    '\tfmt.Println(string(respBody))',
+    '}',
+  )
+  return lines.join('\n')
+}
+
+export function renderSnippet(format: SnippetFormat, request: RequestOptions): string {
+  switch (format) {
+    case 'curl':
+      return renderCurl(request)
+    case 'httpie':
+      return renderHttpie(request)
+    case 'fetch':
+      return renderFetch(request)
+    case 'python':
+      return renderPython(request)
+    case 'go':
+      return renderGo(request)
+    default: {
+      const _exhaustive: never = format
+      throw new Error(`Unknown snippet format: ${String(_exhaustive)}`)
+    }
+  }
+}
@@ -0,0 +1,6 @@
+export class HistoryError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, cause !== undefined ? { cause } : undefined)
+    this.name = 'HistoryError'
+  }
+}
@@ -0,0 +1,6 @@
+export type { HistoryEntry } from './types.js'
+export { MAX_HISTORY_ENTRIES, REDACTED } from './types.js'
+export { HistoryError } from './errors.js'
+export { loadHistory, appendHistory, writeHistory, getHistoryPath } from './io.js'
+export { createHistoryEntry, redactHeaders, redactUrl, replayHeaders } from './redact.js'
+export type { HistoryRecordInput } from './redact.js'
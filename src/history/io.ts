@@ -0,0 +1,130 @@
+import { dirname, join } from 'node:path'
+import { appendFile, chmod, readFile, writeFile } from 'node:fs/promises'
+import { getConfigPath } from '@/config/index.js'
+import { isHttpMethod } from '@/utils/index.js'
+import type { HistoryEntry } from './types.js'
+import { MAX_HISTORY_ENTRIES } from './types.js'
+import { HistoryError } from './errors.js'
+
+export function getHistoryPath(): string {
+  return join(dirname(getConfigPath()), '.superapi-tui-history.jsonl')
+}
+
+export async function loadHistory(historyPath?: string): Promise<readonly HistoryEntry[]> {
+  const path = historyPath ?? getHistoryPath()
+
+  let text: string
+  try {
+    text = await readFile(path, 'utf-8')
+  } catch (err) {
+    const code = err instanceof Error && 'code' in err
+      ? (err as NodeJS.ErrnoException).code
+      : undefined
+    if (code !== 'ENOENT') {
+      console.warn(`superapi-tui: failed to read ${path}: ${code ?? 'unknown error'}`)
+    }
+    return []
+  }
+
+  const entries: HistoryEntry[] = []
+  let skipped = 0
+  for (const line of text.split('\n')) {
+    if (line.trim().length === 0) continue
+    let raw: unknown
+    try {
+      raw = JSON.parse(line)
+    } catch {
+      skipped++
+      continue
+    }
+    const entry = parseHistoryEntry(raw)
+    if (entry) {
+      entries.push(entry)
+    } else {
+      skipped++
+    }
+  }
+
+  if (skipped > 0) {
+    console.warn(`superapi-tui: skipped ${skipped} invalid history entries in ${path}`)
+  }
+
+  if (entries.length <= MAX_HISTORY_ENTRIES) {
+    return entries
+  }
+
+  // Compact the log so it does not grow without bound
+  const kept = entries.slice(-MAX_HISTORY_ENTRIES)
+  try {
+    await writeHistory(kept, path)
+  } catch (err) {
+    console.warn('superapi-tui: failed to compact history:', err instanceof Error ? err.message : String(err))
+  }
+  return kept
+}
+
+export async function appendHistory(entry: HistoryEntry, historyPath?: string): Promise<void> {
+  const path = historyPath ?? getHistoryPath()
+  try {
+    await appendFile(path, JSON.stringify(entry) + '\n', 'utf-8')
+    await chmod(path, 0o600)
+  } catch (err) {
+    throw new HistoryError(`Failed to write history file: ${path}`, err)
+  }
+}
+
+export async function writeHistory(entries: readonly HistoryEntry[], historyPath?: string): Promise<void> {
+  const path = historyPath ?? getHistoryPath()
+  try {
+    const content = entries.map(e => JSON.stringify(e) + '\n').join('')
+    await writeFile(path, content, 'utf-8')
+    await chmod(path, 0o600)
+  } catch (err) {
+    throw new HistoryError(`Failed to write history file: ${path}`, err)
+  }
+}
+
+function isStringRecord(raw: unknown): raw is Record<string, string> {
+  return typeof raw === 'object' && raw !== null && !Array.isArray(raw)
+    && Object.values(raw).every(v => typeof v === 'string')
+}
+
+function parseHistoryEntry(raw: unknown): HistoryEntry | null {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return null
+  }
+
+  const obj = raw as Record<string, unknown>
+  const { id, timestamp, endpointId, method, path, serverUrl, url, headers, params } = obj
+
+  if (
+    typeof id !== 'string'
+    || typeof timestamp !== 'string'
+    || typeof endpointId !== 'string'
+    || typeof method !== 'string' || !isHttpMethod(method)
+    || typeof path !== 'string'
+    || typeof serverUrl !== 'string'
+    || typeof url !== 'string'
+    || !isStringRecord(headers)
+    || !isStringRecord(params)
+  ) {
+    return null
+  }
+
+  return {
+    id,
+    timestamp,
+    endpointId,
+    method,
+    path,
+    serverUrl,
+    url,
+    headers,
+    params,
+    ...(typeof obj['body'] === 'string' ? { body: obj['body'] } : {}),
+    ...(typeof obj['status'] === 'number' ? { status: obj['status'] } : {}),
+    ...(typeof obj['statusText'] === 'string' ? { statusText: obj['statusText'] } : {}),
+    ...(typeof obj['durationMs'] === 'number' ? { durationMs: obj['durationMs'] } : {}),
+    ...(typeof obj['error'] === 'string' ? { error: obj['error'] } : {}),
+  }
+}
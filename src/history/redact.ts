@@ -0,0 +1,113 @@
+import { randomUUID } from 'node:crypto'
+import type { AuthCredentials, Endpoint, HttpResponse, RequestOptions } from '@/types/index.js'
+import type { HistoryEntry } from './types.js'
+import { REDACTED } from './types.js'
+
+const SENSITIVE_HEADERS = new Set([
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'x-api-key',
+  'x-auth-token',
+])
+
+export interface HistoryRecordInput {
+  readonly endpoint: Endpoint
+  readonly serverUrl: string
+  readonly paramValues: ReadonlyMap<string, string>
+  readonly request: RequestOptions
+  readonly credentials: AuthCredentials | readonly AuthCredentials[]
+  readonly response?: HttpResponse
+  readonly error?: string
+  readonly timestamp?: Date
+}
+
+function sensitiveNames(credentials: readonly AuthCredentials[]): { headers: Set<string>; query: Set<string>; cookies: Set<string> } {
+  const headers = new Set(SENSITIVE_HEADERS)
+  const query = new Set<string>()
+  const cookies = new Set<string>()
+  for (const entry of credentials) {
+    if (entry.method === 'apiKey' && entry.paramName) {
+      const target = entry.location === 'query' ? query : entry.location === 'cookie' ? cookies : headers
+      target.add(entry.paramName.toLowerCase())
+    }
+  }
+  return { headers, query, cookies }
+}
+
+// Rewrites matching query values in place rather than round-tripping through
+// URLSearchParams, which would re-encode the rest of the query string
+export function redactUrl(url: string, queryNames: ReadonlySet<string>): string {
+  const queryStart = url.indexOf('?')
+  if (queryStart === -1 || queryNames.size === 0) return url
+
+  const pairs = url.slice(queryStart + 1).split('&').map(pair => {
+    const eq = pair.indexOf('=')
+    const rawName = eq === -1 ? pair : pair.slice(0, eq)
+    let name: string
+    try {
+      name = decodeURIComponent(rawName.replace(/\+/g, ' '))
+    } catch {
+      name = rawName
+    }
+    return queryNames.has(name.toLowerCase()) ? `${rawName}=${REDACTED}` : pair
+  })
+  return `${url.slice(0, queryStart)}?${pairs.join('&')}`
+}
+
+export function redactHeaders(
+  headers: ReadonlyMap<string, string>,
+  names: ReadonlySet<string> = SENSITIVE_HEADERS,
+): Record<string, string> {
+  const result: Record<string, string> = {}
+  for (const [key, value] of headers) {
+    result[key] = names.has(key.toLowerCase()) ? REDACTED : value
+  }
+  return result
+}
+
+export function createHistoryEntry(input: HistoryRecordInput): HistoryEntry {
+  const { endpoint, serverUrl, paramValues, request, credentials, response, error } = input
+  const sensitive = sensitiveNames([credentials].flat())
+
+  const params: Record<string, string> = {}
+  for (const [key, value] of paramValues) {
+    const sep = key.indexOf(':')
+    const location = key.slice(0, sep)
+    const name = key.slice(sep + 1).toLowerCase()
+    const isSecret = (location === 'header' && sensitive.headers.has(name))
+      || (location === 'query' && sensitive.query.has(name))
+      || (location === 'cookie' && sensitive.cookies.has(name))
+    params[key] = isSecret ? REDACTED : value
+  }
+
+  return {
+    id: randomUUID(),
+    timestamp: (input.timestamp ?? new Date()).toISOString(),
+    endpointId: endpoint.id,
+    method: request.method,
+    path: endpoint.path,
+    serverUrl,
+    url: redactUrl(request.url, sensitive.query),
+    headers: redactHeaders(request.headers, sensitive.headers),
+    params,
+    ...(request.body !== undefined ? { body: request.body } : {}),
+    ...(response
+      ? { status: response.status, statusText: response.statusText, durationMs: response.durationMs }
+      : {}),
+    ...(error !== undefined ? { error } : {}),
+  }
+}
+
+// The recorded headers a replay can send again: the panel rebuilds declared header
+// params, Content-Type and cookies itself, and redacted values can't be restored
+export function replayHeaders(entry: HistoryEntry, endpoint: Endpoint): Record<string, string> {
+  const declared = new Set(endpoint.parameters.filter(p => p.location === 'header').map(p => p.name.toLowerCase()))
+  const result: Record<string, string> = {}
+  for (const [name, value] of Object.entries(entry.headers)) {
+    const lower = name.toLowerCase()
+    if (value === REDACTED || declared.has(lower) || lower === 'content-type' || lower === 'cookie') continue
+    result[name] = value
+  }
+  return result
+}
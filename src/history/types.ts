@@ -0,0 +1,24 @@
+import type { HttpMethod } from '@/types/endpoint.js'
+
+export interface HistoryEntry {
+  readonly id: string
+  readonly timestamp: string
+  readonly endpointId: string
+  readonly method: HttpMethod
+  readonly path: string
+  readonly serverUrl: string
+  readonly url: string
+  readonly headers: Readonly<Record<string, string>>
+  // Raw param values keyed by `${location}:${name}`, used to restore the request
+  readonly params: Readonly<Record<string, string>>
+  readonly body?: string
+  readonly status?: number
+  readonly statusText?: string
+  readonly durationMs?: number
+  readonly error?: string
+}
+
+export const MAX_HISTORY_ENTRIES = 500
+
+export const REDACTED = '[REDACTED]'
+
@@ -5,7 +5,7 @@ export type { ScrollableListState } from './useScrollableList.js'
 export { useSchemaNavigation } from './useSchemaNavigation.js'
 export type { SchemaNavigationState, SchemaStackEntry } from './useSchemaNavigation.js'
 export { useRequestState } from './useRequestState.js'
-export type { RequestState } from './useRequestState.js'
+export type { RequestState, RequestSnapshot } from './useRequestState.js'
 export { useConfig } from './useConfig.js'
 export type { ConfigState } from './useConfig.js'
 export { useLineEditor } from './useLineEditor.js'
@@ -13,3 +13,9 @@ export type { LineEditorState, LineEditorOptions, LineEditorAction, LineEditorMo
 export { useTerminalHeight } from './useTerminalHeight.js'
 export { useViewport } from './useViewport.js'
 export type { ViewportOptions, ViewportState } from './useViewport.js'
+export { useHistory } from './useHistory.js'
+export type { HistoryState } from './useHistory.js'
+export { useCookieJar } from './useCookieJar.js'
+export type { CookieJarState } from './useCookieJar.js'
+export { useVault } from './useVault.js'
+export type { VaultState } from './useVault.js'
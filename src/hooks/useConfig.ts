@@ -1,34 +1,75 @@
 import { useState, useCallback, useEffect, useRef } from 'react'
-import type { ConfigData, SavedAuth, SavedServer, Preferences } from '@/config/index.js'
-import { DEFAULT_CONFIG, DEFAULT_PREFERENCES, loadConfig, saveConfig, matchServerAuth, normalizeUrl } from '@/config/index.js'
+import type { ConfigData, ConfigLayers, ConfigSourceOptions, SavedAuth, SavedCredential, SavedServer, SavedRequest, SavedCollection, Environment, Preferences } from '@/config/index.js'
+import { DEFAULT_CONFIG, DEFAULT_PREFERENCES, DEFAULT_CREDENTIAL_NAME, getConfigPath, loadConfigLayers, mergeConfigLayers, saveConfig, matchSavedServer, matchServerAuth, normalizeUrl, upsertSavedRequest, removeSavedRequest, upsertCredential } from '@/config/index.js'
+import type { ServerInfo } from '@/types/index.js'
+import { resolveServerUrl } from '@/http/index.js'
 
 export interface ConfigState {
+  // The project config merged over yours
   readonly config: ConfigData | null
   readonly isLoading: boolean
-  readonly saveServerAuth: (name: string, url: string, auth?: SavedAuth, swaggerEndpointUrl?: string) => Promise<boolean>
-  readonly findAuthForServer: (specServerUrl: string) => SavedAuth | null
+  // The file saves go to; the project config is never written
+  readonly savePath: string
+  readonly projectPath: string | null
+  // Saves auth as the named credential, keeping the server's others
+  readonly saveServerAuth: (name: string, url: string, auth?: SavedAuth, swaggerEndpointUrl?: string, serverVariables?: Readonly<Record<string, string>>, credentialName?: string) => Promise<boolean>
+  // The credential last used with the server
+  readonly findAuthForServer: (specServerUrl: string) => SavedCredential | null
+  readonly findCredentialsForServer: (specServerUrl: string) => readonly SavedCredential[]
+  // Remembers the credential as the last used one
+  readonly selectCredential: (specServerUrl: string, name: string) => Promise<boolean>
+  // Variable values of the first saved server the spec server resolves to with them
+  readonly findServerVariables: (server: ServerInfo, variables?: ReadonlyMap<string, string>) => Readonly<Record<string, string>> | null
+  readonly hasCookieJar: (specServerUrl: string) => boolean
+  // False when no saved server has the URL, or the config can't be written
+  readonly setCookieJar: (specServerUrl: string, enabled: boolean) => Promise<boolean>
+  readonly collections: readonly SavedCollection[]
+  readonly saveRequest: (spec: string, collection: string, request: SavedRequest) => Promise<boolean>
+  // False for requests from the project config, which can't be deleted here
+  readonly deleteSavedRequest: (spec: string, collection: string, name: string) => Promise<boolean>
+  readonly environments: readonly Environment[]
+  readonly activeEnvironment: Environment | null
+  readonly setActiveEnvironment: (name: string | null) => Promise<boolean>
   readonly preferences: Preferences
 }
 
-export function useConfig(): ConfigState {
-  const [config, setConfig] = useState<ConfigData | null>(null)
+function defaultLayers(configPath: string | undefined): ConfigLayers {
+  return {
+    user: { path: configPath ?? getConfigPath(), data: DEFAULT_CONFIG },
+    project: null,
+    merged: DEFAULT_CONFIG,
+  }
+}
+
+// Changes are made to your config, and the project config merged over it again
+export function useConfig(options: ConfigSourceOptions = {}): ConfigState {
+  const [layers, setLayers] = useState<ConfigLayers | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const layersRef = useRef<ConfigLayers | null>(null)
+  const optionsRef = useRef(options)
   const configRef = useRef<ConfigData | null>(null)
+  // Set when the config couldn't be loaded; saving would replace it with defaults
+  const loadErrorRef = useRef<string | null>(null)
 
   useEffect(() => {
     let cancelled = false
 
-    loadConfig()
-      .then(data => {
+    loadConfigLayers(optionsRef.current)
+      .then(loaded => {
         if (cancelled) return
-        configRef.current = data
-        setConfig(data)
+        layersRef.current = loaded
+        configRef.current = loaded.merged
+        setLayers(loaded)
       })
       .catch((err: unknown) => {
         if (cancelled) return
-        console.warn('superapi-tui: unexpected error loading config:', err instanceof Error ? err.message : String(err))
-        configRef.current = DEFAULT_CONFIG
-        setConfig(DEFAULT_CONFIG)
+        const message = err instanceof Error ? err.message : String(err)
+        console.warn('superapi-tui: unexpected error loading config:', message)
+        loadErrorRef.current = message
+        const fallback = defaultLayers(optionsRef.current.configPath)
+        layersRef.current = fallback
+        configRef.current = fallback.merged
+        setLayers(fallback)
       })
       .finally(() => {
         if (cancelled) return
@@ -38,19 +79,66 @@ export function useConfig(): ConfigState {
     return () => { cancelled = true }
   }, [])
 
-  const saveServerAuth = useCallback(async (name: string, url: string, auth?: SavedAuth, swaggerEndpointUrl?: string): Promise<boolean> => {
-    const current = configRef.current ?? DEFAULT_CONFIG
+  // Your own config, as opposed to the merged one in configRef
+  const userConfig = useCallback(
+    (): ConfigData => layersRef.current?.user.data ?? DEFAULT_CONFIG,
+    [],
+  )
+
+  const persist = useCallback(async (updated: ConfigData): Promise<boolean> => {
+    if (loadErrorRef.current !== null) {
+      console.warn(`superapi-tui: not saving, the config failed to load: ${loadErrorRef.current}`)
+      return false
+    }
+    const current = layersRef.current ?? defaultLayers(optionsRef.current.configPath)
+    const user = { ...current.user, data: updated }
+    const next: ConfigLayers = { ...current, user, merged: mergeConfigLayers(user, current.project) }
+    layersRef.current = next
+    configRef.current = next.merged
+    setLayers(next)
+
+    try {
+      await saveConfig(updated, user.path)
+      return true
+    } catch (err) {
+      console.warn('superapi-tui: failed to save config:', err instanceof Error ? err.message : String(err))
+      return false
+    }
+  }, [])
+
+  // Applies update to your entry for a server the merged config has, adding
+  // one when the server only comes from the project config
+  const updateUserServer = useCallback(async (saved: SavedServer, update: (server: SavedServer) => SavedServer): Promise<boolean> => {
+    const current = userConfig()
+    const key = saved.url !== undefined ? normalizeUrl(saved.url) : undefined
+    const index = current.servers.findIndex(s => s === saved || (key !== undefined && s.url !== undefined && normalizeUrl(s.url) === key))
+    const servers = index >= 0
+      ? current.servers.map((s, i) => (i === index ? update(s) : s))
+      : [...current.servers, update({ name: saved.name, ...(saved.url !== undefined ? { url: saved.url } : {}) })]
+    return persist({ ...current, servers })
+  }, [persist, userConfig])
+
+  const saveServerAuth = useCallback(async (name: string, url: string, auth?: SavedAuth, swaggerEndpointUrl?: string, serverVariables?: Readonly<Record<string, string>>, credentialName = DEFAULT_CREDENTIAL_NAME): Promise<boolean> => {
+    const current = userConfig()
     const normalizedUrl = normalizeUrl(url)
 
     const existingIndex = current.servers.findIndex(
       s => s.url !== undefined && normalizeUrl(s.url) === normalizedUrl,
     )
+    const existing = existingIndex >= 0 ? current.servers[existingIndex]! : undefined
+    const credentials = auth !== undefined
+      ? upsertCredential(existing?.credentials ?? [], { name: credentialName, auth })
+      : existing?.credentials ?? []
+    const activeCredential = auth !== undefined ? credentialName : existing?.activeCredential
 
     const serverEntry: SavedServer = {
       name,
       ...(swaggerEndpointUrl !== undefined ? { swaggerEndpointUrl } : {}),
       url,
-      ...(auth !== undefined ? { auth } : {}),
+      ...(credentials.length > 0 ? { credentials } : {}),
+      ...(activeCredential !== undefined ? { activeCredential } : {}),
+      ...(existing?.cookieJar ? { cookieJar: true } : {}),
+      ...(serverVariables !== undefined && Object.keys(serverVariables).length > 0 ? { serverVariables } : {}),
     }
 
     let updatedServers: typeof current.servers
@@ -62,36 +150,100 @@ export function useConfig(): ConfigState {
       updatedServers = [...current.servers, serverEntry]
     }
 
-    const updated: ConfigData = {
+    return persist({
       ...current,
       servers: updatedServers,
-    }
+    })
+  }, [persist, userConfig])
 
-    configRef.current = updated
-    setConfig(updated)
+  const saveRequest = useCallback(async (spec: string, collection: string, request: SavedRequest): Promise<boolean> => {
+    const current = userConfig()
+    return persist({ ...current, collections: upsertSavedRequest(current.collections, spec, collection, request) })
+  }, [persist, userConfig])
 
-    try {
-      await saveConfig(updated)
-      return true
-    } catch (err) {
-      console.warn('superapi-tui: failed to save config:', err instanceof Error ? err.message : String(err))
-      return false
-    }
-  }, [])
+  const deleteSavedRequest = useCallback(async (spec: string, collection: string, name: string): Promise<boolean> => {
+    const project = layersRef.current?.project?.data
+    const inProject = project?.collections.some(c => c.spec === spec && c.name === collection && c.requests.some(r => r.name === name))
+    if (inProject) return false
+    const current = userConfig()
+    return persist({ ...current, collections: removeSavedRequest(current.collections, spec, collection, name) })
+  }, [persist, userConfig])
 
-  const findAuthForServer = useCallback((specServerUrl: string): SavedAuth | null => {
+  const setActiveEnvironment = useCallback(async (name: string | null): Promise<boolean> => {
+    const current = userConfig()
+    const { defaultResponseTab, defaultServer } = current.preferences
+    const preferences: Preferences = { defaultResponseTab, ...(defaultServer !== undefined ? { defaultServer } : {}) }
+    return persist({
+      ...current,
+      preferences: name !== null ? { ...preferences, activeEnvironment: name } : preferences,
+    })
+  }, [persist, userConfig])
+
+  const findAuthForServer = useCallback((specServerUrl: string): SavedCredential | null => {
     const current = configRef.current
     if (!current) return null
     return matchServerAuth(current.servers, specServerUrl)
   }, [])
 
+  const findCredentialsForServer = useCallback((specServerUrl: string): readonly SavedCredential[] => {
+    const current = configRef.current
+    if (!current) return []
+    return matchSavedServer(current.servers, specServerUrl)?.credentials ?? []
+  }, [])
+
+  const selectCredential = useCallback(async (specServerUrl: string, name: string): Promise<boolean> => {
+    const saved = matchSavedServer(configRef.current?.servers ?? [], specServerUrl)
+    if (!saved?.credentials?.some(c => c.name === name)) return false
+    if (saved.activeCredential === name) return true
+    return updateUserServer(saved, s => ({ ...s, activeCredential: name }))
+  }, [updateUserServer])
+
+  const findServerVariables = useCallback((server: ServerInfo, variables?: ReadonlyMap<string, string>): Readonly<Record<string, string>> | null => {
+    const current = configRef.current
+    if (!current || server.variables.size === 0) return null
+    const saved = current.servers.find(s => s.url !== undefined && s.serverVariables !== undefined
+      && normalizeUrl(resolveServerUrl(server, variables, new Map(Object.entries(s.serverVariables)))) === normalizeUrl(s.url))
+    return saved?.serverVariables ?? null
+  }, [])
+
+  const hasCookieJar = useCallback((specServerUrl: string): boolean => {
+    const current = configRef.current
+    if (!current) return false
+    return matchSavedServer(current.servers, specServerUrl)?.cookieJar === true
+  }, [])
+
+  const setCookieJar = useCallback(async (specServerUrl: string, enabled: boolean): Promise<boolean> => {
+    const saved = matchSavedServer(configRef.current?.servers ?? [], specServerUrl)
+    if (!saved) return false
+    return updateUserServer(saved, s => ({ ...s, cookieJar: enabled }))
+  }, [updateUserServer])
+
+  const config = layers?.merged ?? null
+
   const preferences = config?.preferences ?? DEFAULT_PREFERENCES
+  const collections = config?.collections ?? DEFAULT_CONFIG.collections
+  const environments = config?.environments ?? DEFAULT_CONFIG.environments
+  // A preference naming an environment that no longer exists means none
+  const activeEnvironment = environments.find(e => e.name === preferences.activeEnvironment) ?? null
 
   return {
     config,
     isLoading,
+    savePath: layers?.user.path ?? options.configPath ?? getConfigPath(),
+    projectPath: layers?.project?.path ?? null,
     saveServerAuth,
     findAuthForServer,
+    findCredentialsForServer,
+    selectCredential,
+    findServerVariables,
+    hasCookieJar,
+    setCookieJar,
+    collections,
+    saveRequest,
+    deleteSavedRequest,
+    environments,
+    activeEnvironment,
+    setActiveEnvironment,
     preferences,
   }
 }
@@ -0,0 +1,71 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import type { CookieJars, StoredCookie } from '@/cookies/index.js'
+import { loadCookieJars, saveCookieJars, storeCookies, cookiesForUrl } from '@/cookies/index.js'
+import { normalizeUrl } from '@/config/index.js'
+
+export interface CookieJarState {
+  readonly isEnabled: (serverUrl: string) => boolean
+  // Cookies to send to url; none while the server's jar is off
+  readonly cookiesFor: (serverUrl: string, url: string) => readonly StoredCookie[]
+  readonly store: (serverUrl: string, url: string, setCookies: readonly string[]) => void
+  readonly count: (serverUrl: string) => number
+  readonly clear: (serverUrl: string) => void
+}
+
+// Jars are opt-in per saved server; isEnabled decides which servers keep one
+export function useCookieJar(isEnabled: (serverUrl: string) => boolean, jarPath?: string): CookieJarState {
+  const [jars, setJars] = useState<CookieJars>(new Map())
+  const jarsRef = useRef<CookieJars>(jars)
+  const jarPathRef = useRef(jarPath)
+
+  useEffect(() => {
+    let cancelled = false
+
+    loadCookieJars(jarPathRef.current)
+      .then(loaded => {
+        if (cancelled) return
+        // Keep anything stored while the file was still loading
+        const merged = new Map([...loaded, ...jarsRef.current])
+        jarsRef.current = merged
+        setJars(merged)
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return
+        console.warn('superapi-tui: unexpected error loading cookies:', err instanceof Error ? err.message : String(err))
+      })
+
+    return () => { cancelled = true }
+  }, [])
+
+  const update = useCallback((serverUrl: string, cookies: readonly StoredCookie[]) => {
+    const updated = new Map(jarsRef.current)
+    updated.set(normalizeUrl(serverUrl), cookies)
+    jarsRef.current = updated
+    setJars(updated)
+    saveCookieJars(updated, jarPathRef.current).catch((err: unknown) => {
+      console.warn('superapi-tui: failed to save cookies:', err instanceof Error ? err.message : String(err))
+    })
+  }, [])
+
+  const cookiesFor = useCallback((serverUrl: string, url: string): readonly StoredCookie[] => {
+    if (!isEnabled(serverUrl)) return []
+    return cookiesForUrl(jarsRef.current.get(normalizeUrl(serverUrl)) ?? [], url)
+  }, [isEnabled])
+
+  const store = useCallback((serverUrl: string, url: string, setCookies: readonly string[]) => {
+    if (!isEnabled(serverUrl) || setCookies.length === 0) return
+    update(serverUrl, storeCookies(jarsRef.current.get(normalizeUrl(serverUrl)) ?? [], setCookies, url))
+  }, [isEnabled, update])
+
+  const count = useCallback(
+    (serverUrl: string) => jars.get(normalizeUrl(serverUrl))?.length ?? 0,
+    [jars],
+  )
+
+  const clear = useCallback((serverUrl: string) => {
+    if ((jarsRef.current.get(normalizeUrl(serverUrl))?.length ?? 0) === 0) return
+    update(serverUrl, [])
+  }, [update])
+
+  return { isEnabled, cookiesFor, store, count, clear }
+}
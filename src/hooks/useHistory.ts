@@ -0,0 +1,45 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import type { HistoryEntry } from '@/history/index.js'
+import { loadHistory, appendHistory, MAX_HISTORY_ENTRIES } from '@/history/index.js'
+
+export interface HistoryState {
+  readonly entries: readonly HistoryEntry[]
+  readonly isLoading: boolean
+  readonly record: (entry: HistoryEntry) => void
+}
+
+export function useHistory(historyPath?: string): HistoryState {
+  const [entries, setEntries] = useState<readonly HistoryEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const historyPathRef = useRef(historyPath)
+
+  useEffect(() => {
+    let cancelled = false
+
+    loadHistory(historyPathRef.current)
+      .then(loaded => {
+        if (cancelled) return
+        // Keep anything recorded while the file was still loading
+        setEntries(prev => [...loaded, ...prev].slice(-MAX_HISTORY_ENTRIES))
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return
+        console.warn('superapi-tui: unexpected error loading history:', err instanceof Error ? err.message : String(err))
+      })
+      .finally(() => {
+        if (cancelled) return
+        setIsLoading(false)
+      })
+
+    return () => { cancelled = true }
+  }, [])
+
+  const record = useCallback((entry: HistoryEntry) => {
+    setEntries(prev => [...prev, entry].slice(-MAX_HISTORY_ENTRIES))
+    appendHistory(entry, historyPathRef.current).catch((err: unknown) => {
+      console.warn('superapi-tui: failed to save history:', err instanceof Error ? err.message : String(err))
+    })
+  }, [])
+
+  return { entries, isLoading, record }
+}
@@ -14,6 +14,14 @@ export interface NavigationState {
   readonly setTextCapture: (active: boolean) => void
   readonly fullscreenPanel: PanelId | null
   readonly showHelp: boolean
+  readonly showHistory: boolean
+  readonly closeHistory: () => void
+  readonly showExport: boolean
+  readonly openExport: () => void
+  readonly closeExport: () => void
+  readonly showImport: boolean
+  readonly closeImport: () => void
+  readonly focusPanel: (panel: PanelId) => void
 }
 
 export function useNavigation(): NavigationState {
@@ -23,6 +31,9 @@ export function useNavigation(): NavigationState {
   const [textCapture, setTextCapture] = useState(false)
   const [fullscreenPanel, setFullscreenPanel] = useState<PanelId | null>(null)
   const [showHelp, setShowHelp] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showExport, setShowExport] = useState(false)
+  const [showImport, setShowImport] = useState(false)
 
   useInput((input, key) => {
     // Priority 1: text capture — only Ctrl+C exits
@@ -41,31 +52,47 @@ export function useNavigation(): NavigationState {
       return
     }
 
-    // Priority 3: ? opens help
+    // Priority 3: history, export and import overlays handle their own input — only Ctrl+C exits
+    if (showHistory || showExport || showImport) {
+      if (input === 'c' && key.ctrl) {
+        exit()
+      }
+      return
+    }
+
+    // Priority 4: ? opens help, H opens history, I opens curl import
     if (input === '?') {
       setShowHelp(true)
       return
     }
+    if (input === 'H') {
+      setShowHistory(true)
+      return
+    }
+    if (input === 'I') {
+      setShowImport(true)
+      return
+    }
 
-    // Priority 4: quit
+    // Priority 5: quit
     if (input === 'q' || (input === 'c' && key.ctrl)) {
       exit()
       return
     }
 
-    // Priority 5: Esc exits fullscreen
+    // Priority 6: Esc exits fullscreen
     if (key.escape && fullscreenPanel !== null) {
       setFullscreenPanel(null)
       return
     }
 
-    // Priority 6: f toggles fullscreen
+    // Priority 7: f toggles fullscreen
     if (input === 'f') {
       setFullscreenPanel(current => current !== null ? null : focusedPanel)
       return
     }
 
-    // Priority 7: Tab/Shift+Tab — exit fullscreen + cycle panel
+    // Priority 8: Tab/Shift+Tab — exit fullscreen + cycle panel
     if (key.tab) {
       setFullscreenPanel(null)
       const direction = key.shift ? -1 : 1
@@ -80,6 +107,27 @@ export function useNavigation(): NavigationState {
     setSelectedEndpoint(endpoint)
   }, [])
 
+  const closeHistory = useCallback(() => {
+    setShowHistory(false)
+  }, [])
+
+  const openExport = useCallback(() => {
+    setShowExport(true)
+  }, [])
+
+  const closeExport = useCallback(() => {
+    setShowExport(false)
+  }, [])
+
+  const closeImport = useCallback(() => {
+    setShowImport(false)
+  }, [])
+
+  const focusPanel = useCallback((panel: PanelId) => {
+    setFullscreenPanel(null)
+    setFocusedPanel(panel)
+  }, [])
+
   return {
     focusedPanel,
     selectedEndpoint,
@@ -88,5 +136,13 @@ export function useNavigation(): NavigationState {
     setTextCapture,
     fullscreenPanel,
     showHelp,
+    showHistory,
+    closeHistory,
+    showExport,
+    openExport,
+    closeExport,
+    showImport,
+    closeImport,
+    focusPanel,
   }
 }
@@ -5,55 +5,168 @@ import type {
   ResponseTab,
   HttpResponse,
   SecuritySchemeInfo,
+  SchemaInfo,
+  MediaTypeInfo,
   AuthCredentials,
   AuthFieldKey,
+  AuthFieldValues,
+  AuthOption,
   AuthState,
   AuthMethod,
+  AdditionalCredentials,
+  OAuthToken,
+  SecurityAlternative,
+  RequestOptions,
 } from '@/types/index.js'
-import { resolveServerUrl, buildRequestUrl, sendRequest, deriveAuthOptions, applyAuth } from '@/http/index.js'
-import { generateBodyTemplate } from '@/http/index.js'
+import { HttpRequestError } from '@/types/index.js'
+import type { FormField } from '@/http/index.js'
+import { resolveServerUrl, sendRequest, deriveAuthOptions, buildRequest, interpolateCredentials } from '@/http/index.js'
+import { buildCredentials, credentialFields, hasCredentials, operationSecurity, checkSecurity } from '@/http/index.js'
+import { generateBodyTemplate, generateXmlTemplate, defaultBodyMediaType, bodyKindOf, deriveFormFields } from '@/http/index.js'
+import type { HistoryEntry } from '@/history/index.js'
+import { createHistoryEntry, REDACTED } from '@/history/index.js'
+import type { ResponseValidation, SchemaViolation } from '@/validation/index.js'
+import { validateResponse, validateRequestBody } from '@/validation/index.js'
+import { withCookies } from '@/cookies/index.js'
+import type { OAuthCredentials } from '@/oauth/index.js'
+import { obtainToken, openInBrowser, tokenCacheKey, isTokenFresh } from '@/oauth/index.js'
+import type { SecretSources } from '@/vault/index.js'
+import { secretSources, resolveCredentialSecrets } from '@/vault/index.js'
+import type { CookieJarState } from './useCookieJar.js'
+
+export interface RequestSnapshot {
+  // Param values keyed by `${location}:${name}`
+  readonly params: Readonly<Record<string, string>>
+  readonly body?: string
+  // Headers the operation doesn't declare; replaces the current ones
+  readonly headers?: Readonly<Record<string, string>>
+  // Ignored unless the operation accepts it
+  readonly mediaType?: string
+  // Form and multipart field values; replaces the current ones
+  readonly form?: Readonly<Record<string, string>>
+  readonly serverIndex?: number
+  readonly authOptionIndex?: number
+}
 
 export interface RequestState {
   readonly selectedServerIndex: number
   readonly cycleServer: () => void
+  readonly selectServer: (index: number) => void
+  // Chosen values for a server's {variables}, keyed by the server's URL template
+  readonly serverVariableValues: (server: ServerInfo) => ReadonlyMap<string, string>
+  // An empty value goes back to the variable's default
+  readonly setServerVariable: (server: ServerInfo, name: string, value: string) => void
+  readonly restoreServerVariables: (server: ServerInfo, values: Readonly<Record<string, string>>) => void
   readonly paramValues: ReadonlyMap<string, string>
   readonly setParamValue: (key: string, value: string) => void
+  readonly extraHeaders: ReadonlyMap<string, string>
+  // An empty value removes the header
+  readonly setExtraHeader: (name: string, value: string) => void
+  // The operation's request media types, in spec order
+  readonly bodyMediaTypes: readonly string[]
+  readonly bodyMediaType: string
+  readonly cycleBodyMediaType: () => void
+  // Fields for a form or multipart body; empty for other media types
+  readonly formFields: readonly FormField[]
+  readonly formValues: ReadonlyMap<string, string>
+  // An empty value leaves the field out of the request
+  readonly setFormValue: (name: string, value: string) => void
   readonly bodyText: string
   readonly setBodyText: (text: string) => void
   readonly bodyError: string | null
+  // The current body checked against the request schema, including a syntax error
+  readonly bodyViolations: readonly SchemaViolation[]
+  // Sets bodyError for invalid JSON; false when the body has any violations
   readonly validateBody: (text?: string) => boolean
   readonly response: HttpResponse | null
+  // The response checked against the documented schema for its status
+  readonly validation: ResponseValidation | null
   readonly error: string | null
   readonly isLoading: boolean
   readonly activeTab: ResponseTab
   readonly setActiveTab: (tab: ResponseTab) => void
   readonly send: (servers: readonly ServerInfo[]) => void
+  // The request send would issue right now; throws HttpRequestError when it can't be built
+  readonly buildCurrentRequest: (servers: readonly ServerInfo[]) => RequestOptions
+  readonly restore: (snapshot: RequestSnapshot) => void
   readonly auth: AuthState
 }
 
+const NO_SERVER_VALUES: ReadonlyMap<string, string> = new Map()
+
+const NO_VARIABLES: ReadonlyMap<string, string> = new Map()
+
+const NO_AUTH_VALUES: AuthFieldValues = {}
+
+const NO_SECURITY: readonly SecurityAlternative[] = []
+const ENV_SECRETS: SecretSources = secretSources(null)
+
+function checkBody(text: string, schema: SchemaInfo | undefined): readonly SchemaViolation[] {
+  let body: unknown
+  try {
+    body = JSON.parse(text)
+  } catch {
+    return [{ pointer: '', message: 'body is not valid JSON' }]
+  }
+  if (!schema) return []
+  try {
+    return validateRequestBody(schema, body)
+  } catch {
+    // A schema ajv can't compile shouldn't stop anyone from sending
+    return []
+  }
+}
+
+function bodyTemplate(media: MediaTypeInfo | undefined): string {
+  if (!media) return '{}'
+  const kind = bodyKindOf(media.mediaType)
+  if (kind === 'json') {
+    return media.schema ? generateBodyTemplate(media.schema) : '{}'
+  }
+  if (typeof media.example === 'string') return media.example
+  return kind === 'xml' && media.schema ? generateXmlTemplate(media.schema) : ''
+}
+
 export function useRequestState(
   endpoint: Endpoint | null,
   securitySchemes: readonly SecuritySchemeInfo[],
   defaultResponseTab?: ResponseTab,
+  onHistoryEntry?: (entry: HistoryEntry) => void,
+  variables?: ReadonlyMap<string, string>,
+  cookieJar?: CookieJarState,
+  globalSecurity: readonly SecurityAlternative[] = NO_SECURITY,
+  secrets: SecretSources = ENV_SECRETS,
 ): RequestState {
   const [selectedServerIndex, setSelectedServerIndex] = useState(0)
+  // Persists across endpoint changes, like the server index
+  const [serverVariables, setServerVariables] = useState<ReadonlyMap<string, ReadonlyMap<string, string>>>(new Map())
   const [paramValues, setParamValues] = useState<Map<string, string>>(new Map())
+  const [extraHeaders, setExtraHeaders] = useState<Map<string, string>>(new Map())
+  const [bodyMediaType, setBodyMediaType] = useState(() => defaultBodyMediaType(endpoint?.requestBody))
+  const [formValues, setFormValues] = useState<Map<string, string>>(new Map())
   const [bodyText, setBodyText] = useState('{}')
   const [bodyError, setBodyError] = useState<string | null>(null)
   const [response, setResponse] = useState<HttpResponse | null>(null)
+  const [validation, setValidation] = useState<ResponseValidation | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [activeTab, setActiveTab] = useState<ResponseTab>(defaultResponseTab ?? 'pretty')
   const isLoadingRef = useRef(false)
   const requestIdRef = useRef(0)
+  const onHistoryEntryRef = useRef(onHistoryEntry)
+  onHistoryEntryRef.current = onHistoryEntry
+  const cookieJarRef = useRef(cookieJar)
+  cookieJarRef.current = cookieJar
 
   // Auth state — persists across endpoint changes
   const [authExpanded, setAuthExpanded] = useState(false)
   const [selectedOptionIndex, setSelectedOptionIndex] = useState(0)
-  const [authToken, setAuthToken] = useState('')
-  const [authKey, setAuthKey] = useState('')
-  const [authUsername, setAuthUsername] = useState('')
-  const [authPassword, setAuthPassword] = useState('')
+  // Entered values per security scheme, so schemes required together keep their own
+  const [authValues, setAuthValues] = useState<ReadonlyMap<string, AuthFieldValues>>(new Map())
+  // OAuth2 tokens by tokenCacheKey, kept for the session
+  const [oauthTokens, setOAuthTokens] = useState<ReadonlyMap<string, OAuthToken>>(new Map())
+  const [authorizeUrl, setAuthorizeUrl] = useState<string | null>(null)
+  const authorizeAbortRef = useRef<AbortController | null>(null)
 
   const authResult = useMemo(
     () => deriveAuthOptions(securitySchemes),
@@ -64,58 +177,160 @@ export function useRequestState(
 
   // Build credentials from current selection + field values
   const selectedOption = availableOptions[selectedOptionIndex % availableOptions.length] as typeof availableOptions[number] | undefined
+  const selectedScheme = selectedOption?.schemeName
 
-  const credentials: AuthCredentials = useMemo(() => {
-    if (!selectedOption) return { method: 'none' }
-
-    switch (selectedOption.method) {
-      case 'bearer':
-        return { method: 'bearer', token: authToken }
-      case 'apiKey':
-        return {
-          method: 'apiKey',
-          key: authKey,
-          paramName: selectedOption.apiKeyParamName,
-          location: selectedOption.apiKeyIn,
-        }
-      case 'basic':
-        return { method: 'basic', username: authUsername, password: authPassword }
-      default: {
-        const _exhaustive: never = selectedOption
-        throw new Error(`Unsupported auth method: ${(_exhaustive as { method: string }).method}`)
-      }
-    }
-  }, [selectedOption, authToken, authKey, authUsername, authPassword])
+  const security = useMemo(
+    () => (endpoint ? operationSecurity(endpoint, globalSecurity) : null),
+    [endpoint, globalSecurity],
+  )
+
+  // The option a scheme is sent with: the selected one for its own scheme
+  const optionFor = useCallback(
+    (schemeName: string): AuthOption | undefined =>
+      schemeName === selectedScheme ? selectedOption : availableOptions.find(o => o.schemeName === schemeName),
+    [availableOptions, selectedOption, selectedScheme],
+  )
+
+  const credentialsFor = useCallback(
+    (option: AuthOption, alternative?: SecurityAlternative) => {
+      // The scopes the operation asks of the scheme, if it names the scheme
+      const requirement = (alternative ?? []).find(r => r.name === option.schemeName)
+        ?? security?.flat().find(r => r.name === option.schemeName)
+      return buildCredentials(option, authValues.get(option.schemeName) ?? NO_AUTH_VALUES, requirement?.scopes)
+    },
+    [authValues, security],
+  )
+
+  const securityCheck = useMemo(() => {
+    if (!security) return null
+    return checkSecurity(security, selectedScheme, schemeName => {
+      const option = optionFor(schemeName)
+      return option !== undefined && hasCredentials(credentialsFor(option))
+    })
+  }, [security, selectedScheme, optionFor, credentialsFor])
+  const alternative = securityCheck?.alternative
 
-  // Reset state on endpoint change (except server index and auth)
+  const credentials: AuthCredentials = useMemo(
+    () => (selectedOption ? credentialsFor(selectedOption, alternative) : { method: 'none' }),
+    [selectedOption, credentialsFor, alternative],
+  )
+
+  const additionalCredentials: readonly AdditionalCredentials[] = useMemo(
+    () => (alternative ?? []).flatMap(requirement => {
+      const option = requirement.name === selectedScheme ? undefined : optionFor(requirement.name)
+      return option ? [{ option, credentials: credentialsFor(option, alternative) }] : []
+    }),
+    [alternative, selectedScheme, optionFor, credentialsFor],
+  )
+
+  // What is sent: the alternative's schemes, or the selected option when the spec doesn't say
+  // The fields keep their ${env:…}/${vault:…} references; what is sent has them resolved
+  const appliedCredentials: readonly AuthCredentials[] = useMemo(() => {
+    const applied = !alternative
+      ? [credentials]
+      : [
+          ...(alternative.some(r => r.name === selectedScheme) ? [credentials] : []),
+          ...additionalCredentials.map(entry => entry.credentials),
+        ]
+    return applied.map(entry => resolveCredentialSecrets(entry, secrets))
+  }, [alternative, selectedScheme, credentials, additionalCredentials, secrets])
+
+  // OAuth2 credentials as the token request sends them, with {{vars}} expanded
+  const oauthCredentials = useMemo(() => {
+    const oauth = appliedCredentials.find(entry => entry.method === 'oauth2')
+    if (!oauth) return null
+    const expanded = interpolateCredentials(oauth, variables ?? NO_VARIABLES)
+    return expanded.method === 'oauth2' ? expanded : null
+  }, [appliedCredentials, variables])
+  const oauthToken = oauthCredentials ? (oauthTokens.get(tokenCacheKey(oauthCredentials)) ?? null) : null
+
+  // Reset state on endpoint change (except server index and auth). Keyed by id so
+  // a live-reloaded spec handing us a fresh object for the same operation keeps
+  // the entered values.
+  const endpointId = endpoint?.id ?? null
   useEffect(() => {
     setParamValues(new Map())
+    setExtraHeaders(new Map())
     setResponse(null)
+    setValidation(null)
     setError(null)
     setIsLoading(false)
     isLoadingRef.current = false
     requestIdRef.current += 1
+    authorizeAbortRef.current?.abort()
     setActiveTab(defaultResponseTab ?? 'pretty')
     setBodyError(null)
+    setFormValues(new Map())
 
-    if (endpoint?.requestBody) {
-      const jsonMedia = endpoint.requestBody.content.find(
-        m => m.mediaType === 'application/json',
-      )
-      if (jsonMedia?.schema) {
-        setBodyText(generateBodyTemplate(jsonMedia.schema))
-      } else {
-        setBodyText('{}')
-      }
-    } else {
-      setBodyText('{}')
-    }
-  }, [endpoint, defaultResponseTab])
+    const mediaType = defaultBodyMediaType(endpoint?.requestBody)
+    setBodyMediaType(mediaType)
+    setBodyText(bodyTemplate(endpoint?.requestBody?.content.find(m => m.mediaType === mediaType)))
+  }, [endpointId, defaultResponseTab])
+
+  // Another operation may need another scheme: select the one it will be sent with
+  useEffect(() => {
+    const first = alternative?.[0]
+    if (!first || alternative.some(requirement => requirement.name === selectedScheme)) return
+    const index = availableOptions.findIndex(option => option.schemeName === first.name)
+    if (index >= 0) setSelectedOptionIndex(index)
+  }, [endpointId])
 
   const cycleServer = useCallback(() => {
     setSelectedServerIndex(prev => prev + 1)
   }, [])
 
+  const serverVariableValues = useCallback(
+    (server: ServerInfo): ReadonlyMap<string, string> => serverVariables.get(server.url) ?? NO_SERVER_VALUES,
+    [serverVariables],
+  )
+
+  const setServerVariable = useCallback((server: ServerInfo, name: string, value: string) => {
+    setServerVariables(prev => {
+      const values = new Map(prev.get(server.url))
+      if (value) {
+        values.set(name, value)
+      } else {
+        values.delete(name)
+      }
+      return new Map(prev).set(server.url, values)
+    })
+  }, [])
+
+  const restoreServerVariables = useCallback((server: ServerInfo, values: Readonly<Record<string, string>>) => {
+    // Only variables the server still declares
+    const known = Object.entries(values).filter(([name]) => server.variables.has(name))
+    setServerVariables(prev => new Map(prev).set(server.url, new Map(known)))
+  }, [])
+
+  const selectServer = useCallback((index: number) => {
+    setSelectedServerIndex(index)
+  }, [])
+
+  // Redacted values are left out so replaying history never sends the placeholder
+  const restore = useCallback((snapshot: RequestSnapshot) => {
+    const restored = new Map<string, string>()
+    for (const [key, value] of Object.entries(snapshot.params)) {
+      if (value !== REDACTED) restored.set(key, value)
+    }
+    setParamValues(restored)
+    setExtraHeaders(new Map(Object.entries(snapshot.headers ?? {}).filter(([, value]) => value !== REDACTED)))
+    setFormValues(new Map(Object.entries(snapshot.form ?? {})))
+    const mediaType = snapshot.mediaType
+    if (mediaType !== undefined && endpoint?.requestBody?.content.some(m => m.mediaType === mediaType)) {
+      setBodyMediaType(mediaType)
+    }
+    if (snapshot.body !== undefined) {
+      setBodyText(snapshot.body)
+    }
+    setBodyError(null)
+    if (snapshot.serverIndex !== undefined) {
+      setSelectedServerIndex(snapshot.serverIndex)
+    }
+    if (snapshot.authOptionIndex !== undefined) {
+      setSelectedOptionIndex(snapshot.authOptionIndex)
+    }
+  }, [endpoint])
+
   const setParamValue = useCallback((key: string, value: string) => {
     setParamValues(prev => {
       const next = new Map(prev)
@@ -124,18 +339,78 @@ export function useRequestState(
     })
   }, [])
 
+  const setExtraHeader = useCallback((name: string, value: string) => {
+    setExtraHeaders(prev => {
+      const next = new Map(prev)
+      if (value.length > 0) {
+        next.set(name, value)
+      } else {
+        next.delete(name)
+      }
+      return next
+    })
+  }, [])
+
+  const setFormValue = useCallback((name: string, value: string) => {
+    setFormValues(prev => {
+      const next = new Map(prev)
+      if (value.length > 0) {
+        next.set(name, value)
+      } else {
+        next.delete(name)
+      }
+      return next
+    })
+  }, [])
+
+  const bodyMediaTypes = useMemo(
+    () => endpoint?.requestBody?.content.map(m => m.mediaType) ?? [],
+    [endpoint],
+  )
+
+  const cycleBodyMediaType = useCallback(() => {
+    const content = endpoint?.requestBody?.content ?? []
+    if (content.length < 2) return
+    const index = content.findIndex(m => m.mediaType === bodyMediaType)
+    const next = content[(index + 1) % content.length]!
+    // An untouched template follows the media type; edits are kept
+    setBodyText(prev => (prev === bodyTemplate(content[index]) ? bodyTemplate(next) : prev))
+    setBodyMediaType(next.mediaType)
+    setBodyError(null)
+  }, [endpoint, bodyMediaType])
+
+  const selectedMedia = useMemo(
+    () => endpoint?.requestBody?.content.find(m => m.mediaType === bodyMediaType),
+    [endpoint, bodyMediaType],
+  )
+  const bodyKind = bodyKindOf(bodyMediaType)
+  const isJsonBody = bodyKind === 'json'
+
+  const formFields = useMemo(
+    () => (bodyKind === 'form' || bodyKind === 'multipart' ? deriveFormFields(selectedMedia) : []),
+    [bodyKind, selectedMedia],
+  )
+
+  const bodySchema = isJsonBody ? selectedMedia?.schema : undefined
+
+  const bodyViolations = useMemo(
+    () => (endpoint?.requestBody && isJsonBody ? checkBody(bodyText, bodySchema) : []),
+    [endpoint, isJsonBody, bodyText, bodySchema],
+  )
+
   const validateBody = useCallback((text?: string): boolean => {
+    if (!isJsonBody) return true
     const toValidate = text ?? bodyText
     try {
       JSON.parse(toValidate)
       setBodyError(null)
-      return true
     } catch (e) {
       const detail = e instanceof SyntaxError ? e.message : 'Invalid JSON'
       setBodyError(detail)
       return false
     }
-  }, [bodyText])
+    return checkBody(toValidate, bodySchema).length === 0
+  }, [isJsonBody, bodyText, bodySchema])
 
   const toggleAuth = useCallback(() => {
     setAuthExpanded(prev => !prev)
@@ -145,51 +420,68 @@ export function useRequestState(
     setSelectedOptionIndex(prev => (prev + 1) % availableOptions.length)
   }, [availableOptions.length])
 
-  const setAuthField = useCallback((field: AuthFieldKey, value: string) => {
-    switch (field) {
-      case 'token':
-        setAuthToken(value)
-        break
-      case 'key':
-        setAuthKey(value)
-        break
-      case 'username':
-        setAuthUsername(value)
-        break
-      case 'password':
-        setAuthPassword(value)
-        break
-      default: {
-        const _exhaustive: never = field
-        throw new Error(`Unknown auth field: ${_exhaustive}`)
-      }
-    }
-  }, [])
+  const setAuthField = useCallback((field: AuthFieldKey, value: string, schemeName: string | undefined = selectedScheme) => {
+    if (schemeName === undefined) return
+    setAuthValues(prev => new Map(prev).set(schemeName, { ...prev.get(schemeName), [field]: value }))
+  }, [selectedScheme])
 
   const restoreAuth = useCallback((auth: Exclude<AuthCredentials, { method: 'none' }>) => {
     const targetMethod: AuthMethod = auth.method
-    const optionIndex = availableOptions.findIndex(o => o.method === targetMethod)
+    // Prefer the API key scheme that sends the same parameter
+    // and the OAuth2 flow with the same grant, ideally at the same token URL
+    const exactIndex = auth.method === 'apiKey'
+      ? availableOptions.findIndex(o => o.method === 'apiKey' && o.apiKeyParamName === auth.paramName && o.apiKeyIn === auth.location)
+      : auth.method === 'oauth2'
+        ? availableOptions.findIndex(o => o.method === 'oauth2' && o.grant === auth.grant && o.tokenUrl === auth.tokenUrl)
+        : -1
+    const grantIndex = auth.method === 'oauth2'
+      ? availableOptions.findIndex(o => o.method === 'oauth2' && o.grant === auth.grant)
+      : -1
+    const optionIndex = exactIndex >= 0 ? exactIndex
+      : grantIndex >= 0 ? grantIndex
+      : availableOptions.findIndex(o => o.method === targetMethod)
     if (optionIndex === -1) return
 
     setSelectedOptionIndex(optionIndex)
+    const schemeName = availableOptions[optionIndex]!.schemeName
+    setAuthValues(prev => new Map(prev).set(schemeName, { ...prev.get(schemeName), ...credentialFields(auth) }))
+  }, [availableOptions])
 
-    switch (auth.method) {
-      case 'bearer':
-        setAuthToken(auth.token)
-        break
-      case 'apiKey':
-        setAuthKey(auth.key)
-        break
-      case 'basic':
-        setAuthUsername(auth.username)
-        setAuthPassword(auth.password)
-        break
-      default: {
-        const _exhaustive: never = auth
-        throw new Error(`Unknown auth method: ${(_exhaustive as { method: string }).method}`)
+  // token overrides the cached OAuth2 token, which is only sent while fresh
+  const prepareRequest = useCallback(
+    (servers: readonly ServerInfo[], token?: OAuthToken): { serverUrl: string; request: RequestOptions } => {
+      if (!endpoint) {
+        throw new HttpRequestError('No endpoint selected')
       }
-    }
-  }, [availableOptions])
+      if (servers.length === 0) {
+        throw new HttpRequestError('No servers defined')
+      }
+
+      const server = servers[selectedServerIndex % servers.length]!
+      const serverUrl = resolveServerUrl(server, variables, serverVariables.get(server.url))
+      const accessToken = token ?? oauthToken
+      const request = buildRequest({
+        endpoint,
+        serverUrl,
+        paramValues,
+        extraHeaders,
+        credentials: appliedCredentials.map(entry => (entry.method === 'oauth2' && accessToken && isTokenFresh(accessToken)
+          ? { ...entry, accessToken: accessToken.accessToken }
+          : entry)),
+        bodyText,
+        bodyMediaType,
+        formValues,
+        ...(variables ? { variables } : {}),
+      })
+      return { serverUrl, request }
+    },
+    [endpoint, selectedServerIndex, serverVariables, paramValues, extraHeaders, bodyText, bodyMediaType, formValues, appliedCredentials, oauthToken, variables],
+  )
+
+  const buildCurrentRequest = useCallback(
+    (servers: readonly ServerInfo[]) => prepareRequest(servers).request,
+    [prepareRequest],
+  )
 
   const send = useCallback(
     (servers: readonly ServerInfo[]) => {
@@ -197,102 +489,99 @@ export function useRequestState(
         return
       }
 
-      if (servers.length === 0) {
-        setError('No servers defined')
+      let prepared: { serverUrl: string; request: RequestOptions }
+      try {
+        prepared = prepareRequest(servers)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err))
         return
       }
+      const { serverUrl } = prepared
+      const jar = cookieJarRef.current
 
-      const serverIdx = selectedServerIndex % servers.length
-      const server = servers[serverIdx]
-      const serverUrl = resolveServerUrl(server)
-
-      // Build path params and validate required ones
-      const pathParams = new Map<string, string>()
-      for (const param of endpoint.parameters) {
-        if (param.location === 'path') {
-          const key = `path:${param.name}`
-          const value = paramValues.get(key)
-          if (value) {
-            pathParams.set(param.name, value)
-          } else {
-            setError(`Missing required path parameter: ${param.name}`)
-            return
-          }
-        }
-      }
-
-      let url = buildRequestUrl(serverUrl, endpoint.path, pathParams)
-
-      // Collect query params into a Map first
-      const queryParams = new Map<string, string>()
-      for (const param of endpoint.parameters) {
-        if (param.location === 'query') {
-          const key = `query:${param.name}`
-          const value = paramValues.get(key)
-          if (value) {
-            queryParams.set(param.name, value)
-          }
-        }
-      }
+      setIsLoading(true)
+      isLoadingRef.current = true
+      setError(null)
 
-      // Build headers from header params
-      const headers = new Map<string, string>()
-      for (const param of endpoint.parameters) {
-        if (param.location === 'header') {
-          const key = `header:${param.name}`
-          const value = paramValues.get(key)
-          if (value) {
-            headers.set(param.name, value)
-          }
-        }
-      }
+      const currentRequestId = ++requestIdRef.current
 
-      // Apply auth — intentionally overrides user-supplied header params with same name
-      const authResult = applyAuth(credentials)
-      for (const [key, value] of authResult.headers) {
-        headers.set(key, value)
-      }
-      for (const [key, value] of authResult.queryParams) {
-        queryParams.set(key, value)
+      // Refreshes the token, or gets a new one (through the browser for the
+      // authorization code flow), and caches it
+      const renewToken = (oauth: OAuthCredentials, previous: OAuthToken | null): Promise<OAuthToken> => {
+        const controller = new AbortController()
+        authorizeAbortRef.current = controller
+        return obtainToken(oauth, {
+          previous,
+          authorize: {
+            onAuthorizeUrl: url => {
+              setAuthorizeUrl(url)
+              openInBrowser(url)
+            },
+            signal: controller.signal,
+          },
+        })
+          .then(token => {
+            setOAuthTokens(prev => new Map(prev).set(tokenCacheKey(oauth), token))
+            return token
+          })
+          .finally(() => {
+            if (authorizeAbortRef.current === controller) authorizeAbortRef.current = null
+            setAuthorizeUrl(null)
+          })
       }
 
-      // Append query params to URL
-      const searchParams = new URLSearchParams()
-      for (const [key, value] of queryParams) {
-        searchParams.set(key, value)
-      }
-      const queryString = searchParams.toString()
-      if (queryString) {
-        url += `?${queryString}`
-      }
+      const sendOnce = (built: RequestOptions): Promise<HttpResponse> => {
+        const request = jar ? withCookies(built, jar.cookiesFor(serverUrl, built.url)) : built
+        const recordHistory = (outcome: { response?: HttpResponse; error?: string }) => {
+          onHistoryEntryRef.current?.(createHistoryEntry({
+            endpoint,
+            serverUrl,
+            paramValues,
+            request,
+            credentials: appliedCredentials,
+            ...outcome,
+          }))
+        }
 
-      // Add Content-Type when endpoint has a request body
-      const hasBody = endpoint.requestBody !== undefined
-      if (hasBody) {
-        headers.set('Content-Type', 'application/json')
+        return sendRequest(request).then(
+          res => {
+            if (res.setCookies) jar?.store(serverUrl, request.url, res.setCookies)
+            recordHistory({ response: res })
+            return res
+          },
+          (err: unknown) => {
+            recordHistory({ error: err instanceof Error ? err.message : String(err) })
+            throw err
+          },
+        )
       }
 
-      setIsLoading(true)
-      isLoadingRef.current = true
-      setError(null)
-
-      const currentRequestId = ++requestIdRef.current
-
-      sendRequest({
-        method: endpoint.method,
-        url,
-        headers,
-        body: hasBody ? bodyText : undefined,
-      })
+      // An OAuth2 token is fetched first unless a fresh one is cached
+      const authorized: Promise<{ request: RequestOptions; token: OAuthToken | null }> =
+        oauthCredentials !== null && !(oauthToken && isTokenFresh(oauthToken))
+          ? renewToken(oauthCredentials, oauthToken).then(token => ({ request: prepareRequest(servers, token).request, token }))
+          : Promise.resolve({ request: prepared.request, token: oauthToken })
+
+      authorized
+        .then(({ request, token }) => sendOnce(request).then(res => {
+          // A rejected token is renewed once and the request repeated, unless
+          // that would take another trip through the browser
+          const renewable = oauthCredentials !== null && token !== null
+            && (oauthCredentials.grant !== 'authorizationCode' || token.refreshToken !== undefined)
+          if (res.status !== 401 || !renewable) return res
+          return renewToken(oauthCredentials, token)
+            .then(renewed => sendOnce(prepareRequest(servers, renewed).request))
+        }))
         .then(res => {
           if (requestIdRef.current !== currentRequestId) return
           setResponse(res)
+          setValidation(validateResponse(endpoint.responses, res))
           setActiveTab(defaultResponseTab ?? 'pretty')
         })
         .catch((err: unknown) => {
-          if (requestIdRef.current !== currentRequestId) return
           const message =
             err instanceof Error ? err.message : String(err)
+          if (requestIdRef.current !== currentRequestId) return
           setError(message)
         })
         .finally(() => {
@@ -301,9 +590,16 @@ export function useRequestState(
           isLoadingRef.current = false
         })
     },
-    [endpoint, selectedServerIndex, paramValues, bodyText, credentials],
+    [endpoint, paramValues, appliedCredentials, oauthCredentials, oauthToken, prepareRequest],
   )
 
+  const cancelAuthorization = useCallback(() => {
+    authorizeAbortRef.current?.abort()
+  }, [])
+
+  // Closes a loopback listener that is still waiting
+  useEffect(() => () => authorizeAbortRef.current?.abort(), [])
+
   const auth: AuthState = useMemo(() => ({
     authExpanded,
     toggleAuth,
@@ -312,25 +608,50 @@ export function useRequestState(
     selectedOptionIndex,
     cycleAuthOption,
     credentials,
+    additionalCredentials,
+    operationSecurity: security,
+    securityWarning: securityCheck?.warning ?? null,
     setAuthField,
     restoreAuth,
-  }), [authExpanded, toggleAuth, availableOptions, unsupportedSchemes, selectedOptionIndex, cycleAuthOption, credentials, setAuthField, restoreAuth])
+    oauthToken,
+    authorizeUrl,
+    cancelAuthorization,
+  }), [
+    authExpanded, toggleAuth, availableOptions, unsupportedSchemes, selectedOptionIndex, cycleAuthOption, credentials,
+    additionalCredentials, security, securityCheck, setAuthField, restoreAuth, oauthToken, authorizeUrl, cancelAuthorization,
+  ])
 
   return {
     selectedServerIndex,
     cycleServer,
+    selectServer,
+    serverVariableValues,
+    setServerVariable,
+    restoreServerVariables,
     paramValues,
     setParamValue,
+    extraHeaders,
+    setExtraHeader,
+    bodyMediaTypes,
+    bodyMediaType,
+    cycleBodyMediaType,
+    formFields,
+    formValues,
+    setFormValue,
     bodyText,
     setBodyText,
     bodyError,
+    bodyViolations,
     validateBody,
     response,
+    validation,
     error,
     isLoading,
     activeTab,
     setActiveTab,
     send,
+    buildCurrentRequest,
+    restore,
     auth,
   }
 }
@@ -0,0 +1,43 @@
+import { useState, useCallback, useMemo, useRef } from 'react'
+import type { SavedAuth } from '@/config/index.js'
+import type { SecretSources, UnlockedVault } from '@/vault/index.js'
+import { encryptVault, saveVaultFile, secretSources, moveSecretsToVault } from '@/vault/index.js'
+
+export interface VaultState {
+  readonly isUnlocked: boolean
+  // Environment variables, plus the vault's secrets once unlocked
+  readonly secrets: SecretSources
+  // Moves the auth's literal secrets into the vault and resolves to the auth
+  // referencing them once the vault is written; rejects with a VaultError when
+  // it can't be, and resolves to the auth unchanged while the vault is locked
+  readonly storeSecrets: (auth: SavedAuth, idPrefix: string) => Promise<SavedAuth>
+}
+
+// The vault is unlocked in the launcher; null keeps secrets in the config as entered
+export function useVault(initial: UnlockedVault | null, vaultPath?: string): VaultState {
+  const [vault, setVault] = useState(initial)
+  const vaultRef = useRef(initial)
+  const vaultPathRef = useRef(vaultPath)
+
+  // Stores run one after another, each adding to the vault the last one wrote
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve())
+
+  const storeSecrets = useCallback((auth: SavedAuth, idPrefix: string): Promise<SavedAuth> => {
+    const task = queueRef.current.then(async () => {
+      const current = vaultRef.current
+      if (!current) return auth
+      const moved = moveSecretsToVault(auth, idPrefix, current)
+      if (moved.vault === current) return auth
+      await saveVaultFile(encryptVault(moved.vault), vaultPathRef.current)
+      vaultRef.current = moved.vault
+      setVault(moved.vault)
+      return moved.auth
+    })
+    queueRef.current = task.catch(() => {})
+    return task
+  }, [])
+
+  const secrets = useMemo(() => secretSources(vault?.secrets ?? null), [vault])
+
+  return { isUnlocked: vault !== null, secrets, storeSecrets }
+}
@@ -1,4 +1,4 @@
-import type { SecuritySchemeInfo, AuthOption, AuthCredentials } from '@/types/index.js'
+import type { SecuritySchemeInfo, AuthOption, AuthCredentials, AuthFieldValues, OAuthGrant } from '@/types/index.js'
 
 const FALLBACK_OPTIONS: readonly AuthOption[] = [
   { method: 'bearer', label: 'Bearer Token', schemeName: 'bearer' },
@@ -6,6 +6,12 @@ const FALLBACK_OPTIONS: readonly AuthOption[] = [
   { method: 'basic', label: 'Basic Auth', schemeName: 'basic' },
 ]
 
+const OAUTH_GRANTS: readonly { readonly grant: OAuthGrant; readonly label: string }[] = [
+  { grant: 'clientCredentials', label: 'client credentials' },
+  { grant: 'password', label: 'password' },
+  { grant: 'authorizationCode', label: 'authorization code' },
+]
+
 export interface DeriveAuthResult {
   readonly options: readonly AuthOption[]
   readonly unsupportedSchemes: readonly string[]
@@ -28,7 +34,7 @@ export function deriveAuthOptions(schemes: readonly SecuritySchemeInfo[]): Deriv
         label: `Basic (${scheme.name})`,
         schemeName: scheme.name,
       })
-    } else if (scheme.type === 'apiKey' && (scheme.in === 'header' || scheme.in === 'query')) {
+    } else if (scheme.type === 'apiKey' && scheme.in !== undefined) {
       options.push({
         method: 'apiKey',
         label: `API Key ${scheme.in} (${scheme.name})`,
@@ -36,6 +42,25 @@ export function deriveAuthOptions(schemes: readonly SecuritySchemeInfo[]): Deriv
         apiKeyIn: scheme.in,
         apiKeyParamName: scheme.paramName ?? scheme.name,
       })
+    } else if (scheme.type === 'oauth2') {
+      // One option per flow we can get a token with; implicit isn't one of them
+      let supported = false
+      for (const { grant, label } of OAUTH_GRANTS) {
+        const flow = scheme.flows?.[grant]
+        if (flow?.tokenUrl === undefined) continue
+        if (grant === 'authorizationCode' && flow.authorizationUrl === undefined) continue
+        supported = true
+        options.push({
+          method: 'oauth2',
+          label: `OAuth2 ${label} (${scheme.name})`,
+          schemeName: scheme.name,
+          grant,
+          tokenUrl: flow.tokenUrl,
+          ...(grant === 'authorizationCode' ? { authorizationUrl: flow.authorizationUrl } : {}),
+          scopes: Object.keys(flow.scopes),
+        })
+      }
+      if (!supported) unsupportedSchemes.push(`${scheme.name} (oauth2)`)
     } else {
       unsupportedSchemes.push(`${scheme.name} (${scheme.type})`)
     }
@@ -47,14 +72,93 @@ export function deriveAuthOptions(schemes: readonly SecuritySchemeInfo[]): Deriv
   }
 }
 
+type SetCredentials = Exclude<AuthCredentials, { method: 'none' }>
+
+// For OAuth2, scopes are requested unless others were entered; the flow's by default
+export function buildCredentials(
+  option: AuthOption,
+  values: AuthFieldValues,
+  scopes?: readonly string[],
+): SetCredentials {
+  switch (option.method) {
+    case 'bearer':
+      return { method: 'bearer', token: values.token ?? '' }
+    case 'apiKey':
+      return { method: 'apiKey', key: values.key ?? '', paramName: option.apiKeyParamName, location: option.apiKeyIn }
+    case 'basic':
+      return { method: 'basic', username: values.username ?? '', password: values.password ?? '' }
+    case 'oauth2':
+      return {
+        method: 'oauth2',
+        grant: option.grant,
+        tokenUrl: option.tokenUrl,
+        ...(option.authorizationUrl !== undefined ? { authorizationUrl: option.authorizationUrl } : {}),
+        clientId: values.clientId ?? '',
+        clientSecret: values.clientSecret ?? '',
+        scopes: values.scopes ?? (scopes ?? option.scopes).join(' '),
+        ...(option.grant === 'password' ? { username: values.username ?? '', password: values.password ?? '' } : {}),
+      }
+    default: {
+      const _exhaustive: never = option
+      throw new Error(`Unsupported auth method: ${(_exhaustive as { method: string }).method}`)
+    }
+  }
+}
+
+// The field values buildCredentials would turn back into these credentials
+export function credentialFields(credentials: SetCredentials): AuthFieldValues {
+  switch (credentials.method) {
+    case 'bearer':
+      return { token: credentials.token }
+    case 'apiKey':
+      return { key: credentials.key }
+    case 'basic':
+      return { username: credentials.username, password: credentials.password }
+    case 'oauth2':
+      return {
+        clientId: credentials.clientId,
+        clientSecret: credentials.clientSecret,
+        scopes: credentials.scopes,
+        ...(credentials.username !== undefined ? { username: credentials.username } : {}),
+        ...(credentials.password !== undefined ? { password: credentials.password } : {}),
+      }
+    default: {
+      const _exhaustive: never = credentials
+      throw new Error(`Unknown auth method: ${(_exhaustive as { method: string }).method}`)
+    }
+  }
+}
+
+// Whether anything was entered that applyAuth (or a token request) can use
+export function hasCredentials(credentials: AuthCredentials): boolean {
+  switch (credentials.method) {
+    case 'none':
+      return false
+    case 'bearer':
+      return credentials.token.length > 0
+    case 'apiKey':
+      return credentials.key.length > 0
+    case 'basic':
+      return credentials.username.length > 0 || credentials.password.length > 0
+    case 'oauth2':
+      return credentials.clientId.length > 0
+    default: {
+      const _exhaustive: never = credentials
+      throw new Error(`Unknown auth method: ${(_exhaustive as { method: string }).method}`)
+    }
+  }
+}
+
 export interface ApplyAuthResult {
   readonly headers: ReadonlyMap<string, string>
   readonly queryParams: ReadonlyMap<string, string>
+  readonly cookies: ReadonlyMap<string, string>
 }
 
 export function applyAuth(credentials: AuthCredentials): ApplyAuthResult {
   const headers = new Map<string, string>()
   const queryParams = new Map<string, string>()
+  const cookies = new Map<string, string>()
 
   switch (credentials.method) {
     case 'none':
@@ -66,11 +170,10 @@ export function applyAuth(credentials: AuthCredentials): ApplyAuthResult {
       break
     case 'apiKey':
       if (credentials.key) {
-        if (credentials.location === 'header') {
-          headers.set(credentials.paramName, credentials.key)
-        } else {
-          queryParams.set(credentials.paramName, credentials.key)
-        }
+        const target = credentials.location === 'header' ? headers
+          : credentials.location === 'query' ? queryParams
+          : cookies
+        target.set(credentials.paramName, credentials.key)
       }
       break
     case 'basic': {
@@ -80,11 +183,17 @@ export function applyAuth(credentials: AuthCredentials): ApplyAuthResult {
       }
       break
     }
+    // Without a token nothing is sent; the token is fetched before sending
+    case 'oauth2':
+      if (credentials.accessToken) {
+        headers.set('Authorization', `Bearer ${credentials.accessToken}`)
+      }
+      break
     default: {
       const _exhaustive: never = credentials
       throw new Error(`Unsupported auth method: ${(_exhaustive as AuthCredentials).method}`)
     }
   }
 
-  return { headers, queryParams }
+  return { headers, queryParams, cookies }
 }
@@ -0,0 +1,117 @@
+import type { MediaTypeInfo, MultipartPart, RequestBodyInfo, SchemaInfo } from '@/types/index.js'
+
+export const JSON_MEDIA_TYPE = 'application/json'
+export const FORM_URLENCODED = 'application/x-www-form-urlencoded'
+export const MULTIPART_FORM_DATA = 'multipart/form-data'
+
+export type BodyKind = 'json' | 'form' | 'multipart' | 'xml' | 'text' | 'binary'
+
+const BINARY_MEDIA_TYPES = new Set(['application/octet-stream', 'application/pdf', 'application/zip', 'application/gzip'])
+const BINARY_MEDIA_PREFIXES = ['image/', 'audio/', 'video/', 'font/']
+
+export interface FormField {
+  readonly name: string
+  readonly required: boolean
+  // A multipart part whose value is a local file path
+  readonly file: boolean
+  // Array properties take comma-separated values, sent as repeated fields
+  readonly multiple: boolean
+  readonly schema: SchemaInfo
+}
+
+// Unrecognized media types are edited as text, wildcards such as */* as binary
+export function bodyKindOf(mediaType: string): BodyKind {
+  const base = mediaType.split(';')[0]!.trim().toLowerCase()
+  if (base === JSON_MEDIA_TYPE || base.endsWith('+json')) return 'json'
+  if (base === FORM_URLENCODED) return 'form'
+  if (base === MULTIPART_FORM_DATA) return 'multipart'
+  if (base === 'application/xml' || base === 'text/xml' || base.endsWith('+xml')) return 'xml'
+  if (base.startsWith('text/')) return 'text'
+  if (BINARY_MEDIA_TYPES.has(base) || BINARY_MEDIA_PREFIXES.some(prefix => base.startsWith(prefix))) return 'binary'
+  return base.includes('*') ? 'binary' : 'text'
+}
+
+// Wildcard media types like image/* can't be sent as a Content-Type
+export function contentTypeFor(mediaType: string): string {
+  return mediaType.includes('*') ? 'application/octet-stream' : mediaType
+}
+
+// application/json when offered, otherwise the first media type the spec lists
+export function defaultBodyMediaType(requestBody: RequestBodyInfo | undefined): string {
+  const content = requestBody?.content ?? []
+  return (content.find(m => m.mediaType === JSON_MEDIA_TYPE) ?? content[0])?.mediaType ?? JSON_MEDIA_TYPE
+}
+
+// A binary body of just `@path` is sent from that file
+export function bodyFilePath(bodyText: string): string | null {
+  const match = /^@(\S.*)$/.exec(bodyText.trim())
+  return match ? match[1]! : null
+}
+
+function isFileSchema(schema: SchemaInfo): boolean {
+  return schema.type === 'string' && (schema.format === 'binary' || schema.format === 'base64')
+}
+
+export function deriveFormFields(media: MediaTypeInfo | undefined): readonly FormField[] {
+  if (!media?.schema) return []
+  const multipart = bodyKindOf(media.mediaType) === 'multipart'
+
+  const properties = new Map<string, SchemaInfo>()
+  const required = new Set<string>()
+  const collect = (schema: SchemaInfo) => {
+    for (const sub of schema.allOf ?? []) collect(sub)
+    for (const [name, property] of schema.properties ?? []) properties.set(name, property)
+    for (const name of schema.required ?? []) required.add(name)
+  }
+  collect(media.schema)
+
+  const fields: FormField[] = []
+  for (const [name, schema] of properties) {
+    if (schema.readOnly) continue
+    const multiple = schema.type === 'array'
+    const valueSchema = multiple && schema.items ? schema.items : schema
+    fields.push({
+      name,
+      required: required.has(name),
+      file: multipart && isFileSchema(valueSchema),
+      multiple,
+      schema,
+    })
+  }
+  return fields
+}
+
+function splitValue(field: FormField, value: string): readonly string[] {
+  if (!field.multiple) return [value]
+  return value.split(',').map(v => v.trim()).filter(v => v.length > 0)
+}
+
+// Empty fields are left out
+export function encodeFormBody(fields: readonly FormField[], values: ReadonlyMap<string, string>): string {
+  const params = new URLSearchParams()
+  for (const field of fields) {
+    const value = values.get(field.name)
+    if (!value) continue
+    for (const item of splitValue(field, value)) {
+      params.append(field.name, item)
+    }
+  }
+  return params.toString()
+}
+
+export function buildMultipartParts(
+  fields: readonly FormField[],
+  values: ReadonlyMap<string, string>,
+): readonly MultipartPart[] {
+  const parts: MultipartPart[] = []
+  for (const field of fields) {
+    const value = values.get(field.name)
+    if (!value) continue
+    for (const item of splitValue(field, value)) {
+      parts.push(field.file
+        ? { kind: 'file', name: field.name, path: item }
+        : { kind: 'field', name: field.name, value: item })
+    }
+  }
+  return parts
+}
@@ -1,23 +1,62 @@
-import type { ServerInfo, RequestOptions, HttpResponse } from '@/types/index.js'
+import { openAsBlob } from 'node:fs'
+import { stat } from 'node:fs/promises'
+import { homedir } from 'node:os'
+import { basename, join } from 'node:path'
+import type { ServerInfo, RequestOptions, HttpResponse, MultipartPart } from '@/types/index.js'
 import { HttpRequestError } from '@/types/index.js'
+import { interpolate } from './variables.js'
 
 const LOCALHOST_HOSTS = new Set(['localhost', '127.0.0.1', '::1', '[::1]'])
 
-export function resolveServerUrl(server: ServerInfo): string {
-  return server.url.replace(/\{([^}]+)\}/g, (_match, name: string) => {
+// serverValues holds chosen values for the server's {variables}; the rest use their defaults
+export function resolveServerUrl(
+  server: ServerInfo,
+  variables: ReadonlyMap<string, string> = new Map(),
+  serverValues: ReadonlyMap<string, string> = new Map(),
+): string {
+  // Environment {{vars}} first, so they can't be mistaken for {serverVariables}
+  return interpolate(server.url, variables).replace(/\{([^}]+)\}/g, (_match, name: string) => {
     const variable = server.variables.get(name)
-    return variable !== undefined ? variable.defaultValue : `{${name}}`
+    if (variable === undefined) return `{${name}}`
+    return serverValues.get(name) ?? variable.defaultValue
   })
 }
 
+// The values a URL gives the server's {variables}, or null when the URL isn't one of
+// this server's. Trailing slashes and case are ignored, as in normalizeUrl.
+export function matchServerUrl(
+  server: ServerInfo,
+  url: string,
+  variables: ReadonlyMap<string, string> = new Map(),
+): ReadonlyMap<string, string> | null {
+  const names: string[] = []
+  const pattern = interpolate(server.url, variables)
+    .replace(/\/+$/, '')
+    .split(/(\{[^}]+\})/)
+    .map(part => {
+      const name = /^\{([^}]+)\}$/.exec(part)?.[1]
+      if (name !== undefined && server.variables.has(name)) {
+        names.push(name)
+        return '([^/]+)'
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    })
+    .join('')
+  const match = new RegExp(`^${pattern}/*$`, 'i').exec(url)
+  if (!match) return null
+  return new Map(names.map((name, index) => [name, match[index + 1]!]))
+}
+
 export function buildRequestUrl(
   serverUrl: string,
   path: string,
   pathParams: ReadonlyMap<string, string>,
+  // Turns a raw value into its encoded path segment, see serializePathParam
+  serialize: (name: string, value: string) => string = (_name, value) => encodeURIComponent(value),
 ): string {
   const resolvedPath = path.replace(/\{([^}]+)\}/g, (_match, name: string) => {
     const value = pathParams.get(name)
-    return value !== undefined ? encodeURIComponent(value) : `{${name}}`
+    return value !== undefined ? serialize(name, value) : `{${name}}`
   })
 
   const needsSlashTrim = serverUrl.endsWith('/') && resolvedPath.startsWith('/')
@@ -48,9 +87,40 @@ export function validateSsrf(url: string): void {
   throw new HttpRequestError(`Unsupported protocol: ${parsed.protocol}`)
 }
 
+// Read lazily, so large files are streamed rather than loaded up front
+async function openFile(path: string): Promise<File> {
+  const resolved = path.startsWith('~/') ? join(homedir(), path.slice(2)) : path
+  let blob: Blob
+  try {
+    if (!(await stat(resolved)).isFile()) {
+      throw new Error(`${resolved} is not a file`)
+    }
+    blob = await openAsBlob(resolved)
+  } catch (error) {
+    throw new HttpRequestError(`Cannot read file: ${path}`, error)
+  }
+  // Only the base name goes out, never the local directory
+  return new File([blob], basename(resolved), { type: blob.type })
+}
+
+async function buildFormData(parts: readonly MultipartPart[]): Promise<FormData> {
+  const form = new FormData()
+  for (const part of parts) {
+    form.append(part.name, part.kind === 'file' ? await openFile(part.path) : part.value)
+  }
+  return form
+}
+
+async function buildBody(options: RequestOptions): Promise<string | Blob | FormData | undefined> {
+  if (options.multipart) return buildFormData(options.multipart)
+  if (options.bodyFile !== undefined) return openFile(options.bodyFile)
+  return options.body
+}
+
 export async function sendRequest(options: RequestOptions): Promise<HttpResponse> {
   validateSsrf(options.url)
 
+  const requestBody = await buildBody(options)
   const start = performance.now()
 
   let response: Response
@@ -58,7 +128,7 @@ export async function sendRequest(options: RequestOptions): Promise<HttpResponse
     response = await fetch(options.url, {
       method: options.method.toUpperCase(),
       headers: Object.fromEntries(options.headers),
-      body: options.body,
+      body: requestBody,
     })
   } catch (error) {
     if (error instanceof HttpRequestError) {
@@ -81,11 +151,14 @@ export async function sendRequest(options: RequestOptions): Promise<HttpResponse
     headers.set(key, value)
   })
 
+  const setCookies = response.headers.getSetCookie()
+
   return {
     status: response.status,
     statusText: response.statusText,
     headers,
     body,
     durationMs,
+    ...(setCookies.length > 0 ? { setCookies } : {}),
   }
 }
@@ -1,4 +1,26 @@
-export { resolveServerUrl, buildRequestUrl, validateSsrf, sendRequest } from './client.js'
+export { resolveServerUrl, matchServerUrl, buildRequestUrl, validateSsrf, sendRequest } from './client.js'
 export { generateBodyTemplate } from './template.js'
-export { deriveAuthOptions, applyAuth } from './auth.js'
+export { generateXmlTemplate } from './xml-template.js'
+export { deriveAuthOptions, applyAuth, buildCredentials, credentialFields, hasCredentials } from './auth.js'
 export type { DeriveAuthResult, ApplyAuthResult } from './auth.js'
+export { operationSecurity, describeSecurity, checkSecurity } from './security.js'
+export type { SecurityCheck } from './security.js'
+export { buildRequest } from './request.js'
+export type { BuildRequestInput } from './request.js'
+export { parseParamValue, serializePathParam, serializeQueryParam, serializeHeaderParam, serializeCookieParam } from './params.js'
+export type { ParamValue } from './params.js'
+export { interpolate, interpolateCredentials, mapCredentialValues, splitVariables, findUnresolvedVariables } from './variables.js'
+export type { VariableSegment } from './variables.js'
+export {
+  JSON_MEDIA_TYPE,
+  FORM_URLENCODED,
+  MULTIPART_FORM_DATA,
+  bodyKindOf,
+  contentTypeFor,
+  defaultBodyMediaType,
+  bodyFilePath,
+  deriveFormFields,
+  encodeFormBody,
+  buildMultipartParts,
+} from './body.js'
+export type { BodyKind, FormField } from './body.js'
@@ -0,0 +1,137 @@
+import type { ParameterInfo } from '@/types/index.js'
+
+// A parameter value after parsing the editor text against the param schema
+export type ParamValue =
+  | { readonly kind: 'primitive'; readonly value: string }
+  | { readonly kind: 'array'; readonly items: readonly string[] }
+  | { readonly kind: 'object'; readonly entries: readonly (readonly [string, string])[] }
+
+function stringifyItem(item: unknown): string {
+  if (item === null || item === undefined) return ''
+  return typeof item === 'object' ? JSON.stringify(item) : String(item)
+}
+
+// Array and object params are entered as JSON; anything that doesn't parse
+// to the schema's shape is sent as the raw text
+export function parseParamValue(param: ParameterInfo, raw: string): ParamValue {
+  const type = param.schema?.type
+  if (type !== 'array' && type !== 'object') return { kind: 'primitive', value: raw }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    return { kind: 'primitive', value: raw }
+  }
+  if (type === 'array' && Array.isArray(parsed)) {
+    return { kind: 'array', items: parsed.map(stringifyItem) }
+  }
+  if (type === 'object' && typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+    return { kind: 'object', entries: Object.entries(parsed).map(([key, item]) => [key, stringifyItem(item)] as const) }
+  }
+  return { kind: 'primitive', value: raw }
+}
+
+// OpenAPI defaults: form for query and cookie params, simple for path and header
+function styleOf(param: ParameterInfo): string {
+  return param.style ?? (param.location === 'query' || param.location === 'cookie' ? 'form' : 'simple')
+}
+
+function explodeOf(param: ParameterInfo, style: string): boolean {
+  return param.explode ?? style === 'form'
+}
+
+// Joins the encoded parts of a value; exploded objects keep their key=value pairs together
+function joinValue(
+  value: ParamValue,
+  separator: string,
+  explode: boolean,
+  encode: (text: string) => string,
+): string {
+  switch (value.kind) {
+    case 'primitive':
+      return encode(value.value)
+    case 'array':
+      return value.items.map(encode).join(separator)
+    case 'object':
+      return explode
+        ? value.entries.map(([key, item]) => `${encode(key)}=${encode(item)}`).join(separator)
+        : value.entries.flatMap(([key, item]) => [encode(key), encode(item)]).join(separator)
+  }
+}
+
+// Returns the path segment that replaces {name}, already percent-encoded
+export function serializePathParam(param: ParameterInfo, raw: string): string {
+  const value = parseParamValue(param, raw)
+  const style = styleOf(param)
+  const explode = explodeOf(param, style)
+  const name = encodeURIComponent(param.name)
+
+  switch (style) {
+    case 'label':
+      return `.${joinValue(value, explode ? '.' : ',', explode, encodeURIComponent)}`
+    case 'matrix':
+      if (value.kind === 'array' && explode) {
+        return value.items.map(item => `;${name}=${encodeURIComponent(item)}`).join('')
+      }
+      if (value.kind === 'object' && explode) {
+        return `;${joinValue(value, ';', true, encodeURIComponent)}`
+      }
+      return `;${name}=${joinValue(value, ',', false, encodeURIComponent)}`
+    default:
+      return joinValue(value, ',', explode, encodeURIComponent)
+  }
+}
+
+// Same escaping URLSearchParams applies, so plain values are sent as before
+function encodeQuery(text: string): string {
+  return new URLSearchParams([['', text]]).toString().slice(1)
+}
+
+// Returns encoded `name=value` pairs, one per query string entry
+export function serializeQueryParam(param: ParameterInfo, raw: string): readonly string[] {
+  const value = parseParamValue(param, raw)
+  const style = styleOf(param)
+  const explode = explodeOf(param, style)
+  const name = encodeQuery(param.name)
+
+  if (value.kind === 'object' && style === 'deepObject') {
+    return value.entries.map(([key, item]) => `${name}[${encodeQuery(key)}]=${encodeQuery(item)}`)
+  }
+  if (value.kind === 'primitive') {
+    return [`${name}=${encodeQuery(value.value)}`]
+  }
+  if (explode) {
+    return value.kind === 'array'
+      ? value.items.map(item => `${name}=${encodeQuery(item)}`)
+      : value.entries.map(([key, item]) => `${encodeQuery(key)}=${encodeQuery(item)}`)
+  }
+  const separator = style === 'spaceDelimited' ? '%20' : style === 'pipeDelimited' ? '|' : ','
+  return [`${name}=${joinValue(value, separator, false, encodeQuery)}`]
+}
+
+// Header values go out unencoded, always in simple style
+export function serializeHeaderParam(param: ParameterInfo, raw: string): string {
+  const value = parseParamValue(param, raw)
+  return joinValue(value, ',', param.explode ?? false, text => text)
+}
+
+// Cookie values can't hold whitespace, quotes, commas, semicolons or backslashes;
+// everything else, such as = in base64 tokens, is sent as typed
+function encodeCookie(text: string): string {
+  return text.replace(/[\s",;\\]/g, char => encodeURIComponent(char))
+}
+
+// Returns `name=value` pairs for the Cookie header. Unlike query params, cookies
+// only explode when the spec says so, since repeated cookie names are rarely read.
+export function serializeCookieParam(param: ParameterInfo, raw: string): readonly string[] {
+  const value = parseParamValue(param, raw)
+  const explode = param.explode ?? false
+  if (value.kind === 'object' && explode) {
+    return value.entries.map(([key, item]) => `${encodeCookie(key)}=${encodeCookie(item)}`)
+  }
+  if (value.kind === 'array' && explode) {
+    return value.items.map(item => `${encodeCookie(param.name)}=${encodeCookie(item)}`)
+  }
+  return [`${encodeCookie(param.name)}=${joinValue(value, ',', false, encodeCookie)}`]
+}
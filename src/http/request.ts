@@ -0,0 +1,153 @@
+import type { Endpoint, AuthCredentials, ParameterInfo, RequestOptions } from '@/types/index.js'
+import { HttpRequestError } from '@/types/index.js'
+import { buildRequestUrl } from './client.js'
+import { applyAuth } from './auth.js'
+import { interpolate, interpolateCredentials } from './variables.js'
+import { serializePathParam, serializeQueryParam, serializeHeaderParam, serializeCookieParam } from './params.js'
+import {
+  bodyKindOf,
+  bodyFilePath,
+  contentTypeFor,
+  deriveFormFields,
+  encodeFormBody,
+  buildMultipartParts,
+  JSON_MEDIA_TYPE,
+} from './body.js'
+
+export interface BuildRequestInput {
+  readonly endpoint: Endpoint
+  readonly serverUrl: string
+  // Keyed by `${location}:${name}`, e.g. `path:petId`
+  readonly paramValues: ReadonlyMap<string, string>
+  // Headers the operation doesn't declare, sent as-is after the header params
+  readonly extraHeaders?: ReadonlyMap<string, string>
+  // Several when the operation requires schemes together
+  readonly credentials: AuthCredentials | readonly AuthCredentials[]
+  // Undefined sends no body, even when the operation takes one
+  readonly bodyText: string | undefined
+  // One of the operation's request media types; defaults to application/json
+  readonly bodyMediaType?: string
+  // Form and multipart field values keyed by property name
+  readonly formValues?: ReadonlyMap<string, string>
+  // Environment values for {{var}} placeholders in params, body and credentials;
+  // the server URL is expected to be resolved already (see resolveServerUrl)
+  readonly variables?: ReadonlyMap<string, string>
+}
+
+export function buildRequest(input: BuildRequestInput): RequestOptions {
+  const { endpoint, serverUrl } = input
+  const variables = input.variables ?? new Map<string, string>()
+  const paramValues = new Map<string, string>()
+  for (const [key, value] of input.paramValues) {
+    paramValues.set(key, interpolate(value, variables))
+  }
+  const credentials = [input.credentials].flat().map(entry => interpolateCredentials(entry, variables))
+  const bodyText = input.bodyText !== undefined ? interpolate(input.bodyText, variables) : undefined
+
+  // Build path params and validate required ones
+  const pathParams = new Map<string, ParameterInfo>()
+  const pathValues = new Map<string, string>()
+  for (const param of endpoint.parameters) {
+    if (param.location === 'path') {
+      const value = paramValues.get(`path:${param.name}`)
+      if (!value) {
+        throw new HttpRequestError(`Missing required path parameter: ${param.name}`)
+      }
+      pathParams.set(param.name, param)
+      pathValues.set(param.name, value)
+    }
+  }
+
+  let url = buildRequestUrl(serverUrl, endpoint.path, pathValues,
+    (name, value) => serializePathParam(pathParams.get(name)!, value))
+
+  // Collect encoded query pairs per param name first, so auth can replace them
+  const queryParams = new Map<string, readonly string[]>()
+  for (const param of endpoint.parameters) {
+    if (param.location === 'query') {
+      const value = paramValues.get(`query:${param.name}`)
+      if (value) {
+        queryParams.set(param.name, serializeQueryParam(param, value))
+      }
+    }
+  }
+
+  // Build headers from header params
+  const headers = new Map<string, string>()
+  for (const param of endpoint.parameters) {
+    if (param.location === 'header') {
+      const value = paramValues.get(`header:${param.name}`)
+      if (value) {
+        headers.set(param.name, serializeHeaderParam(param, value))
+      }
+    }
+  }
+  for (const [name, value] of input.extraHeaders ?? []) {
+    headers.set(name, interpolate(value, variables))
+  }
+
+  const cookies = new Map<string, readonly string[]>()
+  for (const param of endpoint.parameters) {
+    if (param.location === 'cookie') {
+      const value = paramValues.get(`cookie:${param.name}`)
+      if (value) {
+        cookies.set(param.name, serializeCookieParam(param, value))
+      }
+    }
+  }
+
+  // Apply auth — intentionally overrides user-supplied header params with same name
+  for (const authResult of credentials.map(applyAuth)) {
+    for (const [key, value] of authResult.headers) {
+      headers.set(key, value)
+    }
+    for (const [key, value] of authResult.queryParams) {
+      queryParams.set(key, [new URLSearchParams([[key, value]]).toString()])
+    }
+    for (const [key, value] of authResult.cookies) {
+      cookies.set(key, [`${key}=${value}`])
+    }
+  }
+  if (cookies.size > 0) {
+    // Added to a Cookie header passed in as an extra header rather than replacing it
+    const existing = [...headers.keys()].find(name => name.toLowerCase() === 'cookie')
+    const pairs = [...cookies.values()].flat()
+    if (existing !== undefined) {
+      headers.set(existing, [headers.get(existing)!, ...pairs].join('; '))
+    } else {
+      headers.set('Cookie', pairs.join('; '))
+    }
+  }
+
+  // Append query params to URL
+  const queryString = [...queryParams.values()].flat().join('&')
+  if (queryString) {
+    url += `?${queryString}`
+  }
+
+  if (!endpoint.requestBody || bodyText === undefined) {
+    return { method: endpoint.method, url, headers, body: undefined }
+  }
+
+  const mediaType = input.bodyMediaType ?? JSON_MEDIA_TYPE
+  const kind = bodyKindOf(mediaType)
+  if (kind === 'form' || kind === 'multipart') {
+    const formValues = new Map<string, string>()
+    for (const [name, value] of input.formValues ?? []) {
+      formValues.set(name, interpolate(value, variables))
+    }
+    const fields = deriveFormFields(endpoint.requestBody.content.find(m => m.mediaType === mediaType))
+    if (kind === 'multipart') {
+      // fetch sets multipart/form-data itself, with the boundary
+      return { method: endpoint.method, url, headers, multipart: buildMultipartParts(fields, formValues) }
+    }
+    headers.set('Content-Type', mediaType)
+    return { method: endpoint.method, url, headers, body: encodeFormBody(fields, formValues) }
+  }
+
+  headers.set('Content-Type', contentTypeFor(mediaType))
+  const bodyFile = kind === 'binary' ? bodyFilePath(bodyText) : null
+  return bodyFile !== null
+    ? { method: endpoint.method, url, headers, bodyFile }
+    : { method: endpoint.method, url, headers, body: bodyText }
+}
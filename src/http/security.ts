@@ -0,0 +1,64 @@
+import type { Endpoint, SecurityAlternative } from '@/types/index.js'
+
+export interface SecurityCheck {
+  // The alternative whose schemes are sent
+  readonly alternative: SecurityAlternative
+  readonly warning: string | null
+}
+
+// The operation's own security, else the spec's; null when neither says anything
+export function operationSecurity(
+  endpoint: Endpoint,
+  globalSecurity: readonly SecurityAlternative[],
+): readonly SecurityAlternative[] | null {
+  if (endpoint.security !== undefined) return endpoint.security
+  return globalSecurity.length > 0 ? globalSecurity : null
+}
+
+// e.g. "apiKey + bearerAuth or oauth (read:pets)"
+export function describeSecurity(alternatives: readonly SecurityAlternative[]): string {
+  if (alternatives.length === 0) return 'none (anonymous)'
+  return alternatives
+    .map(alternative => alternative.length === 0
+      ? 'none'
+      : alternative
+        .map(requirement => (requirement.scopes.length > 0 ? `${requirement.name} (${requirement.scopes.join(' ')})` : requirement.name))
+        .join(' + '))
+    .join(' or ')
+}
+
+// Picks the alternative to send: one with the selected scheme whose credentials
+// are all entered, then any that is complete, then one with the selected scheme.
+// isConfigured is false for schemes without credentials or without an auth option.
+export function checkSecurity(
+  alternatives: readonly SecurityAlternative[],
+  selectedScheme: string | undefined,
+  isConfigured: (schemeName: string) => boolean,
+): SecurityCheck {
+  // security: [] - nothing to send
+  if (alternatives.length === 0) return { alternative: [], warning: null }
+
+  const includesSelected = (alternative: SecurityAlternative) =>
+    alternative.some(requirement => requirement.name === selectedScheme)
+  const isComplete = (alternative: SecurityAlternative) =>
+    alternative.every(requirement => isConfigured(requirement.name))
+  const alternative = alternatives.find(a => includesSelected(a) && isComplete(a))
+    ?? alternatives.find(isComplete)
+    ?? alternatives.find(includesSelected)
+    ?? alternatives[0]!
+
+  const missing = alternative.filter(requirement => !isConfigured(requirement.name)).map(requirement => requirement.name)
+  if (missing.length > 0) {
+    return {
+      alternative,
+      warning: `Missing credentials for ${missing.join(' + ')}; this operation requires ${describeSecurity(alternatives)}`,
+    }
+  }
+  if (selectedScheme !== undefined && !alternatives.some(includesSelected)) {
+    return {
+      alternative,
+      warning: `${selectedScheme} isn't accepted by this operation; sending ${alternative.length > 0 ? describeSecurity([alternative]) : 'no auth'}`,
+    }
+  }
+  return { alternative, warning: null }
+}
@@ -20,9 +20,16 @@ function generateValue(schema: SchemaInfo, ancestors: Set<SchemaInfo>, depth: nu
     return schema.defaultValue
   }
 
-  // Enum values: use first
+  // Enum values: use first, converted back from the parsed string form
   if (schema.enumValues && schema.enumValues.length > 0) {
-    return schema.enumValues[0]
+    const first = schema.enumValues[0]!
+    if ((schema.type === 'number' || schema.type === 'integer') && !Number.isNaN(Number(first))) {
+      return Number(first)
+    }
+    if (schema.type === 'boolean') {
+      return first === 'true'
+    }
+    return first
   }
 
   // Composition: oneOf/anyOf use first sub-schema
@@ -73,6 +80,8 @@ function generateValue(schema: SchemaInfo, ancestors: Set<SchemaInfo>, depth: nu
       ancestors.add(schema)
       const result: Record<string, unknown> = {}
       for (const [key, propSchema] of schema.properties) {
+        // Server-assigned fields don't belong in a request body
+        if (propSchema.readOnly) continue
         result[key] = generateValue(propSchema, ancestors, depth + 1)
       }
       ancestors.delete(schema)
@@ -0,0 +1,94 @@
+import type { AuthCredentials } from '@/types/index.js'
+
+// {{name}}, optionally padded: {{ name }}
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g
+
+export type VariableSegment =
+  | { readonly kind: 'text'; readonly text: string }
+  | { readonly kind: 'variable'; readonly text: string; readonly name: string; readonly resolved: boolean }
+
+// Unknown variables are left in place so they stay visible in the sent request
+export function interpolate(text: string, variables: ReadonlyMap<string, string>): string {
+  if (variables.size === 0) return text
+  return text.replace(VARIABLE_PATTERN, (match, name: string) => variables.get(name) ?? match)
+}
+
+export function splitVariables(text: string, variables: ReadonlyMap<string, string>): readonly VariableSegment[] {
+  const segments: VariableSegment[] = []
+  let last = 0
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    const start = match.index
+    if (start > last) {
+      segments.push({ kind: 'text', text: text.slice(last, start) })
+    }
+    const name = match[1]!
+    segments.push({ kind: 'variable', text: match[0], name, resolved: variables.has(name) })
+    last = start + match[0].length
+  }
+  if (last < text.length) {
+    segments.push({ kind: 'text', text: text.slice(last) })
+  }
+  return segments
+}
+
+// Names of referenced variables with no value, in order of first appearance
+export function findUnresolvedVariables(
+  texts: Iterable<string>,
+  variables: ReadonlyMap<string, string>,
+): readonly string[] {
+  const unresolved = new Set<string>()
+  for (const text of texts) {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      const name = match[1]!
+      if (!variables.has(name)) unresolved.add(name)
+    }
+  }
+  return [...unresolved]
+}
+
+// Applies fn to every value the user entered, leaving the spec-derived ones
+export function mapCredentialValues(
+  credentials: AuthCredentials,
+  fn: (value: string) => string,
+): AuthCredentials {
+  switch (credentials.method) {
+    case 'none':
+      return credentials
+    case 'bearer':
+      return { ...credentials, token: fn(credentials.token) }
+    case 'apiKey':
+      return { ...credentials, key: fn(credentials.key) }
+    case 'basic':
+      return {
+        ...credentials,
+        username: fn(credentials.username),
+        password: fn(credentials.password),
+      }
+    case 'oauth2':
+      return {
+        ...credentials,
+        clientId: fn(credentials.clientId),
+        clientSecret: fn(credentials.clientSecret),
+        scopes: fn(credentials.scopes),
+        ...(credentials.username !== undefined ? { username: fn(credentials.username) } : {}),
+        ...(credentials.password !== undefined ? { password: fn(credentials.password) } : {}),
+      }
+    default: {
+      const _exhaustive: never = credentials
+      throw new Error(`Unknown auth method: ${(_exhaustive as { method: string }).method}`)
+    }
+  }
+}
+
+export function interpolateCredentials(
+  credentials: AuthCredentials,
+  variables: ReadonlyMap<string, string>,
+): AuthCredentials {
+  const expanded = mapCredentialValues(credentials, value => interpolate(value, variables))
+  if (expanded.method !== 'oauth2') return expanded
+  return {
+    ...expanded,
+    tokenUrl: interpolate(expanded.tokenUrl, variables),
+    ...(expanded.authorizationUrl !== undefined ? { authorizationUrl: interpolate(expanded.authorizationUrl, variables) } : {}),
+  }
+}
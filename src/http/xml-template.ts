@@ -0,0 +1,115 @@
+import type { SchemaInfo } from '@/types/index.js'
+
+const MAX_DEPTH = 10
+const INDENT = '  '
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function qualifiedName(schema: SchemaInfo, fallback: string): string {
+  const name = schema.xml?.name ?? fallback
+  return schema.xml?.prefix ? `${schema.xml.prefix}:${name}` : name
+}
+
+function namespaceAttribute(schema: SchemaInfo): string {
+  const xml = schema.xml
+  if (!xml?.namespace) return ''
+  return xml.prefix ? ` xmlns:${xml.prefix}="${escapeXml(xml.namespace)}"` : ` xmlns="${escapeXml(xml.namespace)}"`
+}
+
+// oneOf/anyOf use the first sub-schema; allOf properties are merged
+function flatten(schema: SchemaInfo): SchemaInfo {
+  if (schema.oneOf && schema.oneOf.length > 0) return flatten(schema.oneOf[0]!)
+  if (schema.anyOf && schema.anyOf.length > 0) return flatten(schema.anyOf[0]!)
+  if (!schema.allOf || schema.allOf.length === 0) return schema
+
+  const properties = new Map<string, SchemaInfo>()
+  let type = schema.type
+  for (const sub of schema.allOf.map(flatten)) {
+    for (const [name, property] of sub.properties ?? []) properties.set(name, property)
+    if (type === 'unknown') type = sub.type
+  }
+  for (const [name, property] of schema.properties ?? []) properties.set(name, property)
+  return { ...schema, type: properties.size > 0 ? 'object' : type, properties, allOf: undefined }
+}
+
+function scalarValue(schema: SchemaInfo): string {
+  const value = schema.example ?? schema.defaultValue ?? schema.enumValues?.[0]
+  if (value !== undefined && (typeof value !== 'object' || value === null)) {
+    return String(value)
+  }
+  switch (schema.type) {
+    case 'number':
+    case 'integer':
+      return '0'
+    case 'boolean':
+      return 'false'
+    default:
+      return ''
+  }
+}
+
+function renderElement(
+  name: string,
+  raw: SchemaInfo,
+  depth: number,
+  ancestors: Set<SchemaInfo>,
+): string[] {
+  const schema = flatten(raw)
+  const indent = INDENT.repeat(depth)
+  const open = `${qualifiedName(raw, name)}${namespaceAttribute(raw)}`
+  const close = qualifiedName(raw, name)
+
+  if (depth >= MAX_DEPTH || ancestors.has(raw)) {
+    return [`${indent}<${open}/>`]
+  }
+
+  if (schema.type === 'array') {
+    const lines = schema.items ? renderArray(name, schema, depth + 1, ancestors) : []
+    return lines.length > 0
+      ? [`${indent}<${open}>`, ...lines, `${indent}</${close}>`]
+      : [`${indent}<${open}/>`]
+  }
+
+  if (schema.type !== 'object' && !schema.properties) {
+    return [`${indent}<${open}>${escapeXml(scalarValue(schema))}</${close}>`]
+  }
+
+  ancestors.add(raw)
+  let attributes = ''
+  const children: string[] = []
+  for (const [propertyName, property] of schema.properties ?? []) {
+    // Server-assigned fields don't belong in a request body
+    if (property.readOnly) continue
+    if (property.xml?.attribute) {
+      attributes += ` ${qualifiedName(property, propertyName)}="${escapeXml(scalarValue(flatten(property)))}"`
+    } else if (flatten(property).type === 'array' && !property.xml?.wrapped) {
+      // Unwrapped arrays repeat the item element in place
+      children.push(...renderArray(propertyName, property, depth + 1, ancestors))
+    } else {
+      children.push(...renderElement(propertyName, property, depth + 1, ancestors))
+    }
+  }
+  ancestors.delete(raw)
+
+  return children.length > 0
+    ? [`${indent}<${open}${attributes}>`, ...children, `${indent}</${close}>`]
+    : [`${indent}<${open}${attributes}/>`]
+}
+
+// Item elements are named by the items' xml.name, else after the array property;
+// the array's own xml.name only names a wrapper element
+function renderArray(name: string, array: SchemaInfo, depth: number, ancestors: Set<SchemaInfo>): string[] {
+  const items = flatten(array).items
+  return items ? renderElement(name, items, depth, ancestors) : []
+}
+
+export function generateXmlTemplate(schema: SchemaInfo, rootName = 'root'): string {
+  const lines = renderElement(rootName, schema, 0, new Set<SchemaInfo>())
+  return ['<?xml version="1.0" encoding="UTF-8"?>', ...lines].join('\n')
+}
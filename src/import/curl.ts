@@ -0,0 +1,241 @@
+import { CurlImportError } from './errors.js'
+
+export interface ParsedCurl {
+  readonly method: string
+  readonly url: string
+  readonly headers: readonly (readonly [string, string])[]
+  readonly body?: string
+  // From -u user:password
+  readonly user?: { readonly username: string; readonly password: string }
+  // Options that were recognised but have no effect on the request
+  readonly ignoredOptions: readonly string[]
+}
+
+const ANSI_C_ESCAPES: Readonly<Record<string, string>> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  '\\': '\\',
+  "'": "'",
+  '"': '"',
+  '0': '\0',
+}
+
+// Shell-style word splitting: single quotes, double quotes, $'...' strings,
+// backslash escapes and backslash-newline continuations
+export function tokenizeShell(input: string): string[] {
+  const tokens: string[] = []
+  let current = ''
+  let inToken = false
+  let i = 0
+
+  while (i < input.length) {
+    const ch = input[i]!
+
+    // Terminals paste line breaks as \r, \n or \r\n
+    if (ch === '\\' && (input[i + 1] === '\n' || input[i + 1] === '\r')) {
+      i += input[i + 1] === '\r' && input[i + 2] === '\n' ? 3 : 2
+      continue
+    }
+
+    if (/\s/.test(ch)) {
+      if (inToken) {
+        tokens.push(current)
+        current = ''
+        inToken = false
+      }
+      i++
+      continue
+    }
+
+    inToken = true
+
+    if (ch === "'") {
+      const end = input.indexOf("'", i + 1)
+      if (end === -1) throw new CurlImportError('Unterminated single quote')
+      current += input.slice(i + 1, end)
+      i = end + 1
+      continue
+    }
+
+    if (ch === '$' && input[i + 1] === "'") {
+      i += 2
+      while (i < input.length && input[i] !== "'") {
+        if (input[i] === '\\' && i + 1 < input.length) {
+          const next = input[i + 1]!
+          current += ANSI_C_ESCAPES[next] ?? `\\${next}`
+          i += 2
+        } else {
+          current += input[i]
+          i++
+        }
+      }
+      if (i >= input.length) throw new CurlImportError('Unterminated $\'...\' string')
+      i++
+      continue
+    }
+
+    if (ch === '"') {
+      i++
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && i + 1 < input.length && '"\\$`\n'.includes(input[i + 1]!)) {
+          if (input[i + 1] !== '\n') current += input[i + 1]
+          i += 2
+        } else {
+          current += input[i]
+          i++
+        }
+      }
+      if (i >= input.length) throw new CurlImportError('Unterminated double quote')
+      i++
+      continue
+    }
+
+    if (ch === '\\' && i + 1 < input.length) {
+      current += input[i + 1]
+      i += 2
+      continue
+    }
+
+    current += ch
+    i++
+  }
+
+  if (inToken) tokens.push(current)
+  return tokens
+}
+
+const DATA_OPTIONS = new Set(['-d', '--data', '--data-raw', '--data-binary', '--data-ascii'])
+
+// Options that take a value we don't use
+const IGNORED_VALUE_OPTIONS = new Set([
+  '-o', '--output', '-m', '--max-time', '--connect-timeout', '-w', '--write-out',
+  '-x', '--proxy', '--retry', '-c', '--cookie-jar', '--cacert', '--cert', '--key',
+])
+
+// Flags without a value that don't change the request
+const IGNORED_FLAGS = new Set([
+  '-s', '--silent', '-S', '--show-error', '-L', '--location', '-k', '--insecure',
+  '-i', '--include', '-v', '--verbose', '--compressed', '-f', '--fail', '-N', '--no-buffer',
+])
+
+const BUNDLEABLE_FLAGS = new Set([...[...IGNORED_FLAGS].filter(flag => /^-\w$/.test(flag)), '-G', '-I'])
+
+function splitHeader(raw: string): [string, string] {
+  const colon = raw.indexOf(':')
+  if (colon <= 0) throw new CurlImportError(`Invalid header: ${raw}`)
+  return [raw.slice(0, colon).trim(), raw.slice(colon + 1).trim()]
+}
+
+export function parseCurl(input: string): ParsedCurl {
+  const tokens = tokenizeShell(input.trim())
+  if (tokens[0] !== 'curl') {
+    throw new CurlImportError('Not a curl command')
+  }
+
+  let method: string | undefined
+  let url: string | undefined
+  let user: ParsedCurl['user']
+  let useGet = false
+  const headers: [string, string][] = []
+  const data: string[] = []
+  const ignoredOptions: string[] = []
+
+  for (let i = 1; i < tokens.length; i++) {
+    let token = tokens[i]!
+    let inlineValue: string | undefined
+
+    // --option=value
+    if (token.startsWith('--') && token.includes('=')) {
+      inlineValue = token.slice(token.indexOf('=') + 1)
+      token = token.slice(0, token.indexOf('='))
+    }
+
+    const takeValue = (): string => {
+      if (inlineValue !== undefined) return inlineValue
+      const value = tokens[++i]
+      if (value === undefined) throw new CurlImportError(`Missing value for ${token}`)
+      return value
+    }
+
+    if (!token.startsWith('-') || token === '-') {
+      if (url !== undefined) throw new CurlImportError(`Unexpected argument: ${token}`)
+      url = token
+      continue
+    }
+
+    // Bundled short flags, e.g. -sSL
+    if (/^-[a-zA-Z]{2,}$/.test(token) && [...token.slice(1)].every(flag => BUNDLEABLE_FLAGS.has(`-${flag}`))) {
+      tokens.splice(i, 1, ...[...token.slice(1)].map(flag => `-${flag}`))
+      i--
+      continue
+    }
+
+    // Short option with an attached value, e.g. -XPOST
+    if (/^-[XHdu]./.test(token)) {
+      inlineValue = token.slice(2)
+      token = token.slice(0, 2)
+    }
+
+    if (token === '-X' || token === '--request') {
+      method = takeValue().toUpperCase()
+    } else if (token === '-H' || token === '--header') {
+      headers.push(splitHeader(takeValue()))
+    } else if (DATA_OPTIONS.has(token) || token === '--json') {
+      const value = takeValue()
+      // --data-raw is the one data option that doesn't treat @ as a file name
+      if (value.startsWith('@') && token !== '--data-raw') {
+        throw new CurlImportError(`Reading the body from a file is not supported: ${value}`)
+      }
+      data.push(value)
+      if (token === '--json') {
+        headers.push(['Content-Type', 'application/json'], ['Accept', 'application/json'])
+      }
+    } else if (token === '-u' || token === '--user') {
+      const value = takeValue()
+      const colon = value.indexOf(':')
+      user = colon === -1
+        ? { username: value, password: '' }
+        : { username: value.slice(0, colon), password: value.slice(colon + 1) }
+    } else if (token === '-A' || token === '--user-agent') {
+      headers.push(['User-Agent', takeValue()])
+    } else if (token === '-e' || token === '--referer') {
+      headers.push(['Referer', takeValue()])
+    } else if (token === '-b' || token === '--cookie') {
+      headers.push(['Cookie', takeValue()])
+    } else if (token === '--url') {
+      url = takeValue()
+    } else if (token === '-G' || token === '--get') {
+      useGet = true
+    } else if (token === '-I' || token === '--head') {
+      method = 'HEAD'
+    } else if (IGNORED_VALUE_OPTIONS.has(token)) {
+      takeValue()
+      ignoredOptions.push(token)
+    } else if (IGNORED_FLAGS.has(token)) {
+      ignoredOptions.push(token)
+    } else {
+      throw new CurlImportError(`Unsupported curl option: ${token}`)
+    }
+  }
+
+  if (url === undefined) {
+    throw new CurlImportError('No URL in curl command')
+  }
+
+  // Like curl: several -d values are joined with &, and -G moves them to the query string
+  let body = data.length > 0 ? data.join('&') : undefined
+  if (useGet && body !== undefined) {
+    url += (url.includes('?') ? '&' : '?') + body
+    body = undefined
+  }
+
+  return {
+    method: method ?? (useGet ? 'GET' : body !== undefined ? 'POST' : 'GET'),
+    url,
+    headers,
+    ...(body !== undefined ? { body } : {}),
+    ...(user !== undefined ? { user } : {}),
+    ignoredOptions,
+  }
+}
@@ -0,0 +1,5 @@
+export { tokenizeShell, parseCurl } from './curl.js'
+export type { ParsedCurl } from './curl.js'
+export { importCurl } from './match.js'
+export type { CurlImport } from './match.js'
+export { CurlImportError } from './errors.js'
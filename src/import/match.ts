@@ -0,0 +1,227 @@
+import type { AuthCredentials, Endpoint, ParsedSpec, RequestDraft } from '@/types/index.js'
+import { resolveServerUrl } from '@/http/index.js'
+import { isHttpMethod } from '@/utils/index.js'
+import { parseCurl } from './curl.js'
+import { CurlImportError } from './errors.js'
+
+export interface CurlImport {
+  readonly endpoint: Endpoint
+  readonly draft: RequestDraft
+  // Parts of the command that could not be carried over
+  readonly warnings: readonly string[]
+}
+
+interface PathMatch {
+  readonly endpoint: Endpoint
+  readonly serverUrl: string
+  readonly pathParams: ReadonlyMap<string, string>
+  // Higher is better: spec servers beat guessed ones, literal segments beat {params}
+  readonly score: number
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function matchTemplate(template: string, path: string, anchorStart: boolean): { prefix: string; params: Map<string, string> } | null {
+  const names: string[] = []
+  const pattern = template
+    .split(/(\{[^}]+\})/)
+    .map(part => {
+      const param = part.match(/^\{([^}]+)\}$/)
+      if (param) {
+        names.push(param[1]!)
+        return '([^/]+)'
+      }
+      return escapeRegExp(part)
+    })
+    .join('')
+  const match = new RegExp(`${anchorStart ? '^' : ''}(.*?)${pattern}/?$`).exec(path)
+  if (!match || (anchorStart && match[1] !== '')) return null
+
+  const params = new Map<string, string>()
+  names.forEach((name, i) => {
+    const raw = match[i + 2]!
+    try {
+      params.set(name, decodeURIComponent(raw))
+    } catch {
+      params.set(name, raw)
+    }
+  })
+  return { prefix: match[1]!, params }
+}
+
+function literalScore(template: string): number {
+  return template.split('/').filter(segment => segment.length > 0 && !segment.includes('{')).length
+}
+
+function findPathMatch(spec: ParsedSpec, method: string, url: URL): PathMatch | null {
+  const candidates = spec.endpoints.filter(e => e.method === method)
+  const matches: PathMatch[] = []
+
+  for (const server of spec.servers) {
+    let base: URL
+    try {
+      base = new URL(resolveServerUrl(server))
+    } catch {
+      continue
+    }
+    if (base.origin !== url.origin) continue
+
+    const basePath = base.pathname.replace(/\/+$/, '')
+    if (!url.pathname.startsWith(basePath)) continue
+    const rest = url.pathname.slice(basePath.length) || '/'
+
+    for (const endpoint of candidates) {
+      const result = matchTemplate(endpoint.path, rest, true)
+      if (result) {
+        matches.push({
+          endpoint,
+          serverUrl: resolveServerUrl(server),
+          pathParams: result.params,
+          score: 1000 + literalScore(endpoint.path) * 10 + basePath.length,
+        })
+      }
+    }
+  }
+
+  // No spec server fits: take the path suffix and treat what precedes it as the base URL
+  if (matches.length === 0) {
+    for (const endpoint of candidates) {
+      const result = matchTemplate(endpoint.path, url.pathname, false)
+      if (result) {
+        matches.push({
+          endpoint,
+          serverUrl: `${url.origin}${result.prefix}`,
+          pathParams: result.params,
+          score: literalScore(endpoint.path) * 10,
+        })
+      }
+    }
+  }
+
+  matches.sort((a, b) => b.score - a.score)
+  return matches[0] ?? null
+}
+
+function prettyBody(body: string): string {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2)
+  } catch {
+    return body
+  }
+}
+
+function decodeBasic(encoded: string): { username: string; password: string } | null {
+  try {
+    const decoded = Buffer.from(encoded, 'base64').toString('utf-8')
+    const colon = decoded.indexOf(':')
+    if (colon === -1) return null
+    return { username: decoded.slice(0, colon), password: decoded.slice(colon + 1) }
+  } catch {
+    return null
+  }
+}
+
+export function importCurl(input: string, spec: ParsedSpec): CurlImport {
+  const parsed = parseCurl(input)
+
+  let url: URL
+  try {
+    url = new URL(parsed.url)
+  } catch (error) {
+    throw new CurlImportError(`Invalid URL: ${parsed.url}`, error)
+  }
+
+  const method = parsed.method.toLowerCase()
+  if (!isHttpMethod(method)) {
+    throw new CurlImportError(`Unsupported method: ${parsed.method}`)
+  }
+
+  const match = findPathMatch(spec, method, url)
+  if (!match) {
+    throw new CurlImportError(`No operation in the spec matches ${parsed.method} ${url.pathname}`)
+  }
+
+  const { endpoint } = match
+  const warnings: string[] = []
+  const params: Record<string, string> = {}
+  const extraHeaders: Record<string, string> = {}
+  let credentials: Exclude<AuthCredentials, { method: 'none' }> | undefined
+  let authScheme: string | undefined
+
+  for (const [name, value] of match.pathParams) {
+    params[`path:${name}`] = value
+  }
+
+  const apiKeySchemes = spec.securitySchemes.filter(s => s.type === 'apiKey')
+  const findApiKeyScheme = (location: 'header' | 'query', name: string) =>
+    apiKeySchemes.find(s => s.in === location && (s.paramName ?? s.name).toLowerCase() === name.toLowerCase())
+  const findHttpScheme = (scheme: string) =>
+    spec.securitySchemes.find(s => s.type === 'http' && s.scheme?.toLowerCase() === scheme)
+
+  for (const [name, value] of url.searchParams) {
+    const param = endpoint.parameters.find(p => p.location === 'query' && p.name === name)
+    const apiKey = findApiKeyScheme('query', name)
+    if (param) {
+      params[`query:${param.name}`] = value
+    } else if (apiKey) {
+      credentials = { method: 'apiKey', key: value, paramName: apiKey.paramName ?? apiKey.name, location: 'query' }
+      authScheme = apiKey.name
+    } else {
+      warnings.push(`Dropped query parameter "${name}" (not in the spec)`)
+    }
+  }
+
+  for (const [name, value] of parsed.headers) {
+    const lower = name.toLowerCase()
+    const param = endpoint.parameters.find(p => p.location === 'header' && p.name.toLowerCase() === lower)
+    const apiKey = findApiKeyScheme('header', name)
+
+    if (lower === 'authorization' && /^bearer\s+/i.test(value)) {
+      credentials = { method: 'bearer', token: value.replace(/^bearer\s+/i, '') }
+      authScheme = findHttpScheme('bearer')?.name
+    } else if (lower === 'authorization' && /^basic\s+/i.test(value) && decodeBasic(value.replace(/^basic\s+/i, ''))) {
+      credentials = { method: 'basic', ...decodeBasic(value.replace(/^basic\s+/i, ''))! }
+      authScheme = findHttpScheme('basic')?.name
+    } else if (apiKey) {
+      credentials = { method: 'apiKey', key: value, paramName: apiKey.paramName ?? apiKey.name, location: 'header' }
+      authScheme = apiKey.name
+    } else if (param) {
+      params[`header:${param.name}`] = value
+    } else if (lower === 'content-type' && endpoint.requestBody) {
+      // Set by the request panel from the body's media type
+      continue
+    } else {
+      extraHeaders[name] = value
+    }
+  }
+
+  if (parsed.user) {
+    credentials = { method: 'basic', ...parsed.user }
+    authScheme = findHttpScheme('basic')?.name
+  }
+
+  let body: string | undefined
+  if (parsed.body !== undefined) {
+    if (endpoint.requestBody) {
+      body = prettyBody(parsed.body)
+    } else {
+      warnings.push(`Dropped the body: ${endpoint.method.toUpperCase()} ${endpoint.path} has no request body`)
+    }
+  }
+
+  return {
+    endpoint,
+    draft: {
+      endpointId: endpoint.id,
+      params,
+      serverUrl: match.serverUrl,
+      ...(body !== undefined ? { body } : {}),
+      ...(Object.keys(extraHeaders).length > 0 ? { headers: extraHeaders } : {}),
+      ...(credentials !== undefined ? { credentials } : {}),
+      ...(authScheme !== undefined ? { authScheme } : {}),
+    },
+    warnings,
+  }
+}
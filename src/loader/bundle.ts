@@ -0,0 +1,215 @@
+import { readFile } from 'node:fs/promises'
+import { basename, dirname, resolve as resolvePath } from 'node:path'
+import type { LoadResult } from '@/types/index.js'
+import { SpecLoadError } from '@/types/index.js'
+import { isUrl, parseYamlOrJson, resolveUrl } from '@/utils/index.js'
+import { loadFromUrl } from './url.js'
+
+type RawNode = Record<string, unknown>
+
+// Root-level container that external $ref targets are hoisted into
+export const BUNDLE_CONTAINER = 'x-superapi-bundled'
+
+interface BundleContext {
+  readonly rootLocation: string
+  readonly isUrlSource: boolean
+  readonly documents: Map<string, Promise<RawNode>>
+  readonly hoisted: Map<string, string>
+  readonly usedNames: Set<string>
+  readonly container: RawNode
+}
+
+function isExternalRef(ref: string): boolean {
+  return !ref.startsWith('#')
+}
+
+function containsExternalRef(node: unknown): boolean {
+  if (Array.isArray(node)) return node.some(containsExternalRef)
+  if (!node || typeof node !== 'object') return false
+  for (const [key, value] of Object.entries(node as RawNode)) {
+    if (key === '$ref' && typeof value === 'string' && isExternalRef(value)) return true
+    if (containsExternalRef(value)) return true
+  }
+  return false
+}
+
+function resolveLocation(ref: string, from: string, isUrlSource: boolean): string {
+  return isUrlSource ? resolveUrl(ref, from) : resolvePath(dirname(from), ref)
+}
+
+function unescapePointerSegment(segment: string): string {
+  return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')
+}
+
+function resolvePointer(doc: RawNode, pointer: string, location: string): unknown {
+  if (pointer === '' || pointer === '/') return doc
+  let current: unknown = doc
+  for (const segment of pointer.replace(/^\//, '').split('/')) {
+    const key = unescapePointerSegment(segment)
+    if (current === null || typeof current !== 'object' || !(key in (current as RawNode))) {
+      throw new SpecLoadError(`$ref target not found: ${location}#${pointer}`)
+    }
+    current = (current as RawNode)[key]
+  }
+  return current
+}
+
+async function readDocument(
+  location: string,
+  isUrlSource: boolean,
+  referrer: string,
+): Promise<RawNode> {
+  let content: string
+  if (isUrlSource) {
+    try {
+      content = (await loadFromUrl(location)).content
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error)
+      throw new SpecLoadError(`Cannot load referenced document (from ${referrer}): ${detail}`, error)
+    }
+  } else {
+    try {
+      content = await readFile(location, 'utf-8')
+    } catch (error) {
+      const code = error instanceof Error && 'code' in error
+        ? (error as NodeJS.ErrnoException).code
+        : undefined
+      if (code === 'ENOENT') {
+        throw new SpecLoadError(`Referenced file not found: ${location} (from ${referrer})`, error)
+      }
+      throw new SpecLoadError(`Cannot access referenced file: ${location} (from ${referrer})`, error)
+    }
+  }
+
+  try {
+    return parseYamlOrJson(content)
+  } catch (error) {
+    throw new SpecLoadError(
+      `Failed to parse referenced document ${location}${error instanceof Error ? `: ${error.message}` : ''}`,
+      error,
+    )
+  }
+}
+
+function loadDocument(location: string, ctx: BundleContext, referrer: string): Promise<RawNode> {
+  let pending = ctx.documents.get(location)
+  if (!pending) {
+    pending = readDocument(location, ctx.isUrlSource, referrer)
+    ctx.documents.set(location, pending)
+  }
+  return pending
+}
+
+function allocateName(location: string, pointer: string, ctx: BundleContext): string {
+  const file = ctx.isUrlSource ? new URL(location).pathname.split('/').pop() ?? '' : basename(location)
+  const base = `${file}${pointer}`.replace(/[^A-Za-z0-9_.-]+/g, '_').replace(/^_+|_+$/g, '') || 'ref'
+  let name = base
+  let counter = 2
+  while (ctx.usedNames.has(name)) {
+    name = `${base}_${counter++}`
+  }
+  ctx.usedNames.add(name)
+  return name
+}
+
+async function hoist(
+  location: string,
+  pointer: string,
+  ctx: BundleContext,
+  referrer: string,
+): Promise<string> {
+  const key = `${location}#${pointer}`
+  const existing = ctx.hoisted.get(key)
+  // Already hoisted (or currently being hoisted) — reuse the pointer, which breaks cycles
+  if (existing) return existing
+
+  const name = allocateName(location, pointer, ctx)
+  const localRef = `#/${BUNDLE_CONTAINER}/${name}`
+  ctx.hoisted.set(key, localRef)
+
+  const doc = await loadDocument(location, ctx, referrer)
+  const target = resolvePointer(doc, pointer, location)
+  ctx.container[name] = await rewriteRefs(target, location, ctx)
+  return localRef
+}
+
+async function rewriteRef(ref: string, location: string, ctx: BundleContext): Promise<string> {
+  const hashIndex = ref.indexOf('#')
+  const filePart = hashIndex >= 0 ? ref.slice(0, hashIndex) : ref
+  const pointer = hashIndex >= 0 ? ref.slice(hashIndex + 1) : ''
+
+  // Internal ref — only meaningful as-is inside the root document
+  if (filePart === '') {
+    return location === ctx.rootLocation ? ref : hoist(location, pointer, ctx, location)
+  }
+
+  // Absolute URLs are only followed when the spec itself came from a URL
+  if (isUrl(filePart) && !ctx.isUrlSource) return ref
+
+  let target: string
+  try {
+    target = resolveLocation(filePart, location, ctx.isUrlSource)
+  } catch (error) {
+    throw new SpecLoadError(`Cannot resolve $ref "${ref}" in ${location}`, error)
+  }
+
+  if (target === ctx.rootLocation) return `#${pointer}`
+
+  return hoist(target, pointer, ctx, location)
+}
+
+async function rewriteRefs(node: unknown, location: string, ctx: BundleContext): Promise<unknown> {
+  if (Array.isArray(node)) {
+    const items: unknown[] = []
+    for (const item of node) {
+      items.push(await rewriteRefs(item, location, ctx))
+    }
+    return items
+  }
+  if (!node || typeof node !== 'object') return node
+
+  const result: RawNode = {}
+  for (const [key, value] of Object.entries(node as RawNode)) {
+    result[key] =
+      key === '$ref' && typeof value === 'string'
+        ? await rewriteRef(value, location, ctx)
+        : await rewriteRefs(value, location, ctx)
+  }
+  return result
+}
+
+export async function bundleSpec(result: LoadResult): Promise<LoadResult> {
+  if (!result.content.includes('$ref')) return result
+
+  let root: RawNode
+  try {
+    root = parseYamlOrJson(result.content)
+  } catch {
+    // Leave malformed content for the parser to report
+    return result
+  }
+  if (!containsExternalRef(root)) return result
+
+  const isUrlSource = result.inputType === 'url'
+  const rootLocation = isUrlSource ? (result.resolvedUrl ?? result.source) : resolvePath(result.source)
+  const ctx: BundleContext = {
+    rootLocation,
+    isUrlSource,
+    documents: new Map(),
+    hoisted: new Map(),
+    usedNames: new Set(),
+    container: {},
+  }
+
+  const bundled = (await rewriteRefs(root, rootLocation, ctx)) as RawNode
+  if (Object.keys(ctx.container).length > 0) {
+    bundled[BUNDLE_CONTAINER] = ctx.container
+  }
+
+  return {
+    ...result,
+    content: JSON.stringify(bundled),
+    format: 'json',
+    documents: isUrlSource ? undefined : [...ctx.documents.keys()],
+  }
+}
@@ -3,6 +3,7 @@ import { SpecLoadError } from '@/types/index.js'
 import { detectInputType } from './detect.js'
 import { loadFromFile } from './file.js'
 import { loadFromUrl } from './url.js'
+import { bundleSpec } from './bundle.js'
 import {
   isSwaggerUiPage,
   extractSpecUrl,
@@ -16,6 +17,8 @@ import {
 export { detectInputType, detectSpecFormat } from './detect.js'
 export { loadFromFile } from './file.js'
 export { loadFromUrl } from './url.js'
+export { bundleSpec, BUNDLE_CONTAINER } from './bundle.js'
+export { watchSpecFile } from './watch.js'
 export {
   isSwaggerUiPage,
   extractSpecUrl,
@@ -83,7 +86,7 @@ export async function loadSpec(input: string): Promise<LoadResult> {
   const inputType = detectInputType(input)
 
   if (inputType === 'file') {
-    return loadFromFile(input)
+    return bundleSpec(await loadFromFile(input))
   }
 
   // URL path: fetch first, check if Swagger UI
@@ -95,8 +98,14 @@ export async function loadSpec(input: string): Promise<LoadResult> {
       throw new SpecLoadError(`Detected Swagger UI page at ${input} but could not extract spec URL`)
     }
     const result = await loadFromUrl(specUrl)
-    return { ...result, resolvedUrl: specUrl }
+    return bundleSpec({ ...result, resolvedUrl: specUrl })
   }
 
-  return initial
+  return bundleSpec(initial)
+}
+
+// Where a URL-loaded spec was fetched from, after following any Swagger UI page;
+// undefined for local files
+export function specUrlOf(result: LoadResult): string | undefined {
+  return result.inputType === 'url' ? (result.resolvedUrl ?? result.source) : undefined
 }
@@ -0,0 +1,34 @@
+import { watch } from 'node:fs'
+import { basename, dirname, resolve } from 'node:path'
+
+const DEFAULT_DEBOUNCE_MS = 150
+
+export function watchSpecFile(
+  filePath: string,
+  onChange: () => void,
+  debounceMs: number = DEFAULT_DEBOUNCE_MS,
+): () => void {
+  const absolute = resolve(filePath)
+  const fileName = basename(absolute)
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  // Watch the directory rather than the file: editors often save by writing a
+  // temp file and renaming it over the original, which orphans a file watcher
+  const watcher = watch(dirname(absolute), (_event, changed) => {
+    if (changed !== null && changed !== fileName) return
+    if (timer !== null) clearTimeout(timer)
+    timer = setTimeout(() => {
+      timer = null
+      onChange()
+    }, debounceMs)
+  })
+  watcher.on('error', (error) => {
+    console.warn(`superapi-tui: stopped watching ${absolute}: ${error.message}`)
+  })
+  watcher.unref()
+
+  return () => {
+    if (timer !== null) clearTimeout(timer)
+    watcher.close()
+  }
+}
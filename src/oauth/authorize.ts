@@ -0,0 +1,184 @@
+import { createServer } from 'node:http'
+import type { ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import type { OAuthToken } from '@/types/index.js'
+import { validateSsrf } from '@/http/index.js'
+import { OAuthError } from './errors.js'
+import { createPkcePair, createState } from './pkce.js'
+import type { OAuthCredentials } from './token.js'
+import { exchangeCode, refreshAccessToken, requestToken } from './token.js'
+
+const CALLBACK_PATH = '/callback'
+
+// How long the browser gets to come back with a code
+const AUTHORIZE_TIMEOUT_MS = 5 * 60_000
+
+export interface AuthorizeOptions {
+  // Shows the authorize URL to the user, e.g. by printing it or opening a browser
+  readonly onAuthorizeUrl: (url: string) => void
+  readonly signal?: AbortSignal
+  readonly timeoutMs?: number
+}
+
+interface Loopback {
+  readonly redirectUri: string
+  readonly code: Promise<string>
+  readonly close: () => void
+}
+
+export function buildAuthorizeUrl(
+  credentials: OAuthCredentials,
+  redirectUri: string,
+  codeChallenge: string,
+  state: string,
+): string {
+  const url = new URL(credentials.authorizationUrl ?? '')
+  url.searchParams.set('response_type', 'code')
+  url.searchParams.set('client_id', credentials.clientId)
+  url.searchParams.set('redirect_uri', redirectUri)
+  const scopes = credentials.scopes.trim()
+  if (scopes) url.searchParams.set('scope', scopes)
+  url.searchParams.set('state', state)
+  url.searchParams.set('code_challenge', codeChallenge)
+  url.searchParams.set('code_challenge_method', 'S256')
+  return url.toString()
+}
+
+function respond(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' }).end(`${message}\n`)
+}
+
+// RFC 8252 loopback redirect: any free port on 127.0.0.1, picked per authorization
+async function startLoopback(expectedState: string): Promise<Loopback> {
+  let resolveCode: (code: string) => void = () => {}
+  let rejectCode: (error: Error) => void = () => {}
+  const code = new Promise<string>((resolve, reject) => {
+    resolveCode = resolve
+    rejectCode = reject
+  })
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1')
+    if (url.pathname !== CALLBACK_PATH) {
+      respond(res, 404, 'Not found')
+      return
+    }
+    const params = url.searchParams
+    // Not from the authorize request we started; keep waiting for that one
+    if (params.get('state') !== expectedState) {
+      respond(res, 400, 'Authorization failed: unexpected state.')
+      return
+    }
+    const error = params.get('error')
+    if (error) {
+      const description = params.get('error_description')
+      respond(res, 400, `Authorization failed: ${error}. You can close this window.`)
+      rejectCode(new OAuthError(`Authorization failed: ${error}${description ? ` (${description})` : ''}`))
+      return
+    }
+    const value = params.get('code')
+    if (!value) {
+      respond(res, 400, 'Authorization failed: no code.')
+      rejectCode(new OAuthError('Authorization response has no code'))
+      return
+    }
+    respond(res, 200, 'Authorized. You can close this window and return to superapi-tui.')
+    resolveCode(value)
+  })
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(0, '127.0.0.1', () => resolve())
+    })
+  } catch (error) {
+    throw new OAuthError('Cannot start the local redirect listener', error)
+  }
+
+  const { port } = server.address() as AddressInfo
+  return {
+    redirectUri: `http://127.0.0.1:${port}${CALLBACK_PATH}`,
+    code,
+    close: () => {
+      server.close()
+      server.closeAllConnections()
+    },
+  }
+}
+
+function waitForCode(code: Promise<string>, signal: AbortSignal | undefined, timeoutMs: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    }
+    const onAbort = () => {
+      finish()
+      reject(new OAuthError('Authorization cancelled'))
+    }
+    const timer = setTimeout(() => {
+      finish()
+      reject(new OAuthError('Timed out waiting for the authorization'))
+    }, timeoutMs)
+
+    if (signal?.aborted) {
+      onAbort()
+      return
+    }
+    signal?.addEventListener('abort', onAbort)
+    code.then(
+      value => {
+        finish()
+        resolve(value)
+      },
+      (error: unknown) => {
+        finish()
+        reject(error)
+      },
+    )
+  })
+}
+
+// The authorization code flow with PKCE: the user consents in the browser, which
+// redirects the code to a loopback listener, and the code is exchanged for a token
+export async function authorize(credentials: OAuthCredentials, options: AuthorizeOptions): Promise<OAuthToken> {
+  if (!credentials.authorizationUrl) {
+    throw new OAuthError('The authorization code flow needs an authorization URL')
+  }
+  try {
+    validateSsrf(credentials.authorizationUrl)
+  } catch (error) {
+    throw new OAuthError(`Invalid authorization URL: ${error instanceof Error ? error.message : String(error)}`, error)
+  }
+
+  const pkce = createPkcePair()
+  const state = createState()
+  const loopback = await startLoopback(state)
+  try {
+    options.onAuthorizeUrl(buildAuthorizeUrl(credentials, loopback.redirectUri, pkce.challenge, state))
+    const code = await waitForCode(loopback.code, options.signal, options.timeoutMs ?? AUTHORIZE_TIMEOUT_MS)
+    return await exchangeCode(credentials, code, pkce.verifier, loopback.redirectUri)
+  } finally {
+    loopback.close()
+  }
+}
+
+export interface ObtainTokenOptions {
+  // The cached token; its refresh token is tried before anything else
+  readonly previous?: OAuthToken | null
+  readonly authorize: AuthorizeOptions
+}
+
+export async function obtainToken(credentials: OAuthCredentials, options: ObtainTokenOptions): Promise<OAuthToken> {
+  const refreshToken = options.previous?.refreshToken
+  if (refreshToken !== undefined) {
+    try {
+      return await refreshAccessToken(credentials, refreshToken)
+    } catch {
+      // Expired or revoked; get a new token from scratch
+    }
+  }
+  return credentials.grant === 'authorizationCode'
+    ? authorize(credentials, options.authorize)
+    : requestToken(credentials)
+}
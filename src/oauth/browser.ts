@@ -0,0 +1,25 @@
+import { spawn } from 'node:child_process'
+
+function openerFor(url: string): [string, string[]] {
+  switch (process.platform) {
+    case 'darwin':
+      return ['open', [url]]
+    // Not `start`: cmd would split the URL at its &s
+    case 'win32':
+      return ['rundll32', ['url.dll,FileProtocolHandler', url]]
+    default:
+      return ['xdg-open', [url]]
+  }
+}
+
+// Best effort; callers show the URL as well for machines without a browser
+export function openInBrowser(url: string): void {
+  const [command, args] = openerFor(url)
+  try {
+    const child = spawn(command, args, { stdio: 'ignore', detached: true })
+    child.on('error', () => {})
+    child.unref()
+  } catch {
+    // No opener installed
+  }
+}
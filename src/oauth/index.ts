@@ -0,0 +1,6 @@
+export { OAuthError } from './errors.js'
+export type { OAuthCredentials } from './token.js'
+export { requestToken, exchangeCode, refreshAccessToken, tokenCacheKey, isTokenFresh } from './token.js'
+export type { AuthorizeOptions, ObtainTokenOptions } from './authorize.js'
+export { authorize, obtainToken, buildAuthorizeUrl } from './authorize.js'
+export { openInBrowser } from './browser.js'
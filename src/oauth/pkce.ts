@@ -0,0 +1,17 @@
+import { createHash, randomBytes } from 'node:crypto'
+
+export interface PkcePair {
+  readonly verifier: string
+  readonly challenge: string
+}
+
+// RFC 7636: a 43-character verifier and its S256 challenge
+export function createPkcePair(): PkcePair {
+  const verifier = randomBytes(32).toString('base64url')
+  return { verifier, challenge: createHash('sha256').update(verifier).digest('base64url') }
+}
+
+// Ties the redirect back to the authorize request we started
+export function createState(): string {
+  return randomBytes(16).toString('base64url')
+}
@@ -0,0 +1,152 @@
+import type { AuthCredentials, OAuthToken } from '@/types/index.js'
+import { validateSsrf } from '@/http/index.js'
+import { OAuthError } from './errors.js'
+
+export type OAuthCredentials = Extract<AuthCredentials, { method: 'oauth2' }>
+
+// A token this close to its expiry is fetched again rather than sent
+const EXPIRY_MARGIN_MS = 30_000
+
+// Tokens are cached per flow, client, scopes and user; secrets aren't part of the key
+export function tokenCacheKey(credentials: OAuthCredentials): string {
+  return JSON.stringify([
+    credentials.grant,
+    credentials.tokenUrl,
+    credentials.clientId,
+    credentials.scopes.trim(),
+    credentials.username ?? '',
+  ])
+}
+
+export function isTokenFresh(token: OAuthToken, now: number = Date.now()): boolean {
+  return token.expiresAt === undefined || token.expiresAt - EXPIRY_MARGIN_MS > now
+}
+
+// Client credentials go in the Authorization header form-encoded, per RFC 6749 2.3.1
+function formEncode(text: string): string {
+  return new URLSearchParams([['', text]]).toString().slice(1)
+}
+
+function parseTokenResponse(text: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(text)
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed as Record<string, unknown> : {}
+  } catch {
+    return {}
+  }
+}
+
+async function postTokenRequest(
+  credentials: OAuthCredentials,
+  body: URLSearchParams,
+  now: number,
+): Promise<OAuthToken> {
+  try {
+    validateSsrf(credentials.tokenUrl)
+  } catch (error) {
+    throw new OAuthError(`Invalid token URL: ${error instanceof Error ? error.message : String(error)}`, error)
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    'Accept': 'application/json',
+  }
+  // Public clients have no secret and only identify themselves
+  if (credentials.clientSecret) {
+    const basic = Buffer.from(`${formEncode(credentials.clientId)}:${formEncode(credentials.clientSecret)}`).toString('base64')
+    headers['Authorization'] = `Basic ${basic}`
+  } else if (credentials.clientId) {
+    body.set('client_id', credentials.clientId)
+  }
+
+  let response: Response
+  let text: string
+  try {
+    response = await fetch(credentials.tokenUrl, { method: 'POST', headers, body: body.toString() })
+    text = await response.text()
+  } catch (error) {
+    throw new OAuthError(`Token request to ${credentials.tokenUrl} failed`, error)
+  }
+
+  const payload = parseTokenResponse(text)
+  if (!response.ok) {
+    const detail = typeof payload['error'] === 'string'
+      ? `${payload['error']}${typeof payload['error_description'] === 'string' ? ` (${payload['error_description']})` : ''}`
+      : `${response.status} ${response.statusText}`.trim()
+    throw new OAuthError(`Token request failed: ${detail}`)
+  }
+
+  const accessToken = payload['access_token']
+  if (typeof accessToken !== 'string' || accessToken.length === 0) {
+    throw new OAuthError('Token response has no access_token')
+  }
+  // Some servers send expires_in as a string
+  const expiresIn = Number(payload['expires_in'])
+  const refreshToken = payload['refresh_token']
+  const scope = payload['scope']
+
+  return {
+    accessToken,
+    tokenType: typeof payload['token_type'] === 'string' ? payload['token_type'] : 'Bearer',
+    ...(payload['expires_in'] !== undefined && Number.isFinite(expiresIn) && expiresIn > 0
+      ? { expiresAt: now + expiresIn * 1000 }
+      : {}),
+    ...(typeof refreshToken === 'string' ? { refreshToken } : {}),
+    ...(typeof scope === 'string' ? { scope } : {}),
+  }
+}
+
+function withScopes(body: URLSearchParams, credentials: OAuthCredentials): URLSearchParams {
+  const scopes = credentials.scopes.trim()
+  if (scopes) body.set('scope', scopes)
+  return body
+}
+
+// The grants that need no user interaction; see authorize for authorizationCode
+export async function requestToken(credentials: OAuthCredentials, now: number = Date.now()): Promise<OAuthToken> {
+  switch (credentials.grant) {
+    case 'clientCredentials':
+      return postTokenRequest(credentials, withScopes(new URLSearchParams({ grant_type: 'client_credentials' }), credentials), now)
+    case 'password': {
+      const body = new URLSearchParams({
+        grant_type: 'password',
+        username: credentials.username ?? '',
+        password: credentials.password ?? '',
+      })
+      return postTokenRequest(credentials, withScopes(body, credentials), now)
+    }
+    case 'authorizationCode':
+      throw new OAuthError('The authorization code flow needs a browser')
+    default: {
+      const _exhaustive: never = credentials.grant
+      throw new OAuthError(`Unsupported OAuth2 grant: ${String(_exhaustive)}`)
+    }
+  }
+}
+
+export async function exchangeCode(
+  credentials: OAuthCredentials,
+  code: string,
+  codeVerifier: string,
+  redirectUri: string,
+  now: number = Date.now(),
+): Promise<OAuthToken> {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: codeVerifier,
+  })
+  return postTokenRequest(credentials, body, now)
+}
+
+// Servers may rotate the refresh token; when they don't, the old one stays valid
+export async function refreshAccessToken(
+  credentials: OAuthCredentials,
+  refreshToken: string,
+  now: number = Date.now(),
+): Promise<OAuthToken> {
+  const body = new URLSearchParams({ grant_type: 'refresh_token', refresh_token: refreshToken })
+  const token = await postTokenRequest(credentials, withScopes(body, credentials), now)
+  return token.refreshToken !== undefined ? token : { ...token, refreshToken }
+}
@@ -0,0 +1,331 @@
+import { isHttpMethod } from '@/utils/index.js'
+
+type RawDoc = Record<string, unknown>
+type RawParam = Record<string, unknown>
+
+// Parameter keywords that moved from the parameter object into `schema` in OpenAPI 3
+const SCHEMA_KEYWORDS = [
+  'type',
+  'format',
+  'items',
+  'default',
+  'enum',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'minItems',
+  'maxItems',
+  'uniqueItems',
+  'multipleOf',
+]
+
+const OAUTH2_FLOW_NAMES: Record<string, string> = {
+  implicit: 'implicit',
+  password: 'password',
+  application: 'clientCredentials',
+  accessCode: 'authorizationCode',
+}
+
+export function isSwagger2(doc: RawDoc): boolean {
+  return typeof doc.swagger === 'string' && doc.swagger.startsWith('2.')
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined
+}
+
+function asStringList(value: unknown): readonly string[] | undefined {
+  return Array.isArray(value) ? value.map(String) : undefined
+}
+
+function convertServers(doc: RawDoc): readonly Record<string, unknown>[] {
+  const basePath = typeof doc.basePath === 'string' ? doc.basePath : ''
+  const host = typeof doc.host === 'string' && doc.host.length > 0 ? doc.host : undefined
+
+  // Without a host the spec is relative to wherever it is served from
+  if (!host) {
+    return basePath ? [{ url: basePath }] : []
+  }
+
+  const schemes = asStringList(doc.schemes)?.filter((s) => s === 'https' || s === 'http')
+  const resolvedSchemes = schemes && schemes.length > 0 ? schemes : ['https']
+  return resolvedSchemes.map((scheme) => ({ url: `${scheme}://${host}${basePath}` }))
+}
+
+function convertSecurityScheme(raw: Record<string, unknown>): Record<string, unknown> {
+  const description = typeof raw.description === 'string' ? { description: raw.description } : {}
+
+  switch (raw.type) {
+    case 'basic':
+      return { type: 'http', scheme: 'basic', ...description }
+    case 'apiKey':
+      return { type: 'apiKey', name: raw.name, in: raw.in, ...description }
+    case 'oauth2': {
+      const flowName = OAUTH2_FLOW_NAMES[String(raw.flow)] ?? String(raw.flow)
+      const flow: Record<string, unknown> = { scopes: asRecord(raw.scopes) ?? {} }
+      if (typeof raw.authorizationUrl === 'string') flow.authorizationUrl = raw.authorizationUrl
+      if (typeof raw.tokenUrl === 'string') flow.tokenUrl = raw.tokenUrl
+      return { type: 'oauth2', flows: { [flowName]: flow }, ...description }
+    }
+    default:
+      return { ...raw }
+  }
+}
+
+function convertSecuritySchemes(doc: RawDoc): Record<string, unknown> | undefined {
+  const definitions = asRecord(doc.securityDefinitions)
+  if (!definitions) return undefined
+
+  const schemes: Record<string, unknown> = {}
+  for (const [name, raw] of Object.entries(definitions)) {
+    const scheme = asRecord(raw)
+    if (scheme) {
+      schemes[name] = convertSecurityScheme(scheme)
+    }
+  }
+  return schemes
+}
+
+function extractSchema(raw: RawParam): Record<string, unknown> {
+  const schema: Record<string, unknown> = {}
+  for (const keyword of SCHEMA_KEYWORDS) {
+    if (raw[keyword] !== undefined) {
+      schema[keyword] = raw[keyword]
+    }
+  }
+  if (schema.type === 'file') {
+    schema.type = 'string'
+    schema.format = 'binary'
+  }
+  if (raw['x-nullable'] === true) {
+    schema.nullable = true
+  }
+  return schema
+}
+
+function collectionFormatStyle(
+  collectionFormat: unknown,
+  location: unknown,
+): { style?: string; explode?: boolean } {
+  switch (collectionFormat) {
+    case 'multi':
+      return { style: 'form', explode: true }
+    case 'ssv':
+      return { style: 'spaceDelimited', explode: false }
+    case 'pipes':
+      return { style: 'pipeDelimited', explode: false }
+    case 'csv':
+      return location === 'query' ? { style: 'form', explode: false } : { style: 'simple', explode: false }
+    default:
+      return {}
+  }
+}
+
+function convertParameter(raw: RawParam): RawParam {
+  const converted: RawParam = {
+    name: raw.name,
+    in: raw.in,
+    schema: extractSchema(raw),
+    ...collectionFormatStyle(raw.collectionFormat, raw.in),
+  }
+  if (raw.required !== undefined) converted.required = raw.required
+  if (raw.description !== undefined) converted.description = raw.description
+  if (raw.deprecated !== undefined) converted.deprecated = raw.deprecated
+  if (raw['x-example'] !== undefined) converted.example = raw['x-example']
+  return converted
+}
+
+function formDataSchema(params: readonly RawParam[]): Record<string, unknown> {
+  const properties: Record<string, unknown> = {}
+  const required: string[] = []
+  for (const param of params) {
+    const name = String(param.name ?? '')
+    const schema = extractSchema(param)
+    if (typeof param.description === 'string') schema.description = param.description
+    properties[name] = schema
+    if (param.required === true) required.push(name)
+  }
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+  }
+}
+
+function convertRequestBody(
+  params: readonly RawParam[],
+  consumes: readonly string[] | undefined,
+): Record<string, unknown> | undefined {
+  const bodyParam = params.find((p) => p.in === 'body')
+  if (bodyParam) {
+    const mediaTypes = consumes && consumes.length > 0 ? consumes : ['application/json']
+    const schema = asRecord(bodyParam.schema) ?? {}
+    return {
+      ...(typeof bodyParam.description === 'string' ? { description: bodyParam.description } : {}),
+      required: bodyParam.required === true,
+      content: Object.fromEntries(mediaTypes.map((m) => [m, { schema }])),
+    }
+  }
+
+  const formParams = params.filter((p) => p.in === 'formData')
+  if (formParams.length === 0) return undefined
+
+  const hasFile = formParams.some((p) => p.type === 'file')
+  const formTypes = (consumes ?? []).filter(
+    (m) => m === 'multipart/form-data' || m === 'application/x-www-form-urlencoded',
+  )
+  const mediaTypes =
+    formTypes.length > 0
+      ? formTypes
+      : [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded']
+  const schema = formDataSchema(formParams)
+  return {
+    required: formParams.some((p) => p.required === true),
+    content: Object.fromEntries(mediaTypes.map((m) => [m, { schema }])),
+  }
+}
+
+function convertResponse(
+  raw: Record<string, unknown>,
+  produces: readonly string[] | undefined,
+): Record<string, unknown> {
+  const converted: Record<string, unknown> = {
+    description: typeof raw.description === 'string' ? raw.description : '',
+  }
+
+  const schema = asRecord(raw.schema)
+  if (schema) {
+    const examples = asRecord(raw.examples) ?? {}
+    const mediaTypes = produces && produces.length > 0 ? produces : ['application/json']
+    converted.content = Object.fromEntries(
+      mediaTypes.map((m) => [m, { schema, ...(examples[m] !== undefined ? { example: examples[m] } : {}) }]),
+    )
+  }
+
+  const headers = asRecord(raw.headers)
+  if (headers) {
+    converted.headers = Object.fromEntries(
+      Object.entries(headers).map(([name, header]) => {
+        const h = asRecord(header) ?? {}
+        return [
+          name,
+          {
+            ...(typeof h.description === 'string' ? { description: h.description } : {}),
+            schema: extractSchema(h),
+          },
+        ]
+      }),
+    )
+  }
+
+  return converted
+}
+
+function mergeRawParameters(
+  pathParams: readonly RawParam[],
+  operationParams: readonly RawParam[],
+): readonly RawParam[] {
+  const merged = new Map<string, RawParam>()
+  for (const param of [...pathParams, ...operationParams]) {
+    merged.set(`${String(param.in)}:${String(param.name)}`, param)
+  }
+  return [...merged.values()]
+}
+
+function convertOperation(
+  raw: Record<string, unknown>,
+  pathParams: readonly RawParam[],
+  doc: RawDoc,
+): Record<string, unknown> {
+  const { parameters, responses, consumes, produces, ...rest } = raw
+  delete rest.schemes
+  const operationParams = Array.isArray(parameters)
+    ? parameters.filter((p): p is RawParam => asRecord(p) !== undefined)
+    : []
+  // Body and formData params may be declared on the path item but belong to the request body
+  const allParams = mergeRawParameters(pathParams, operationParams)
+
+  const converted: Record<string, unknown> = {
+    ...rest,
+    parameters: operationParams
+      .filter((p) => p.in !== 'body' && p.in !== 'formData')
+      .map(convertParameter),
+  }
+
+  const requestBody = convertRequestBody(
+    allParams,
+    asStringList(consumes) ?? asStringList(doc.consumes),
+  )
+  if (requestBody) converted.requestBody = requestBody
+
+  const rawResponses = asRecord(responses)
+  if (rawResponses) {
+    const resolvedProduces = asStringList(produces) ?? asStringList(doc.produces)
+    converted.responses = Object.fromEntries(
+      Object.entries(rawResponses).map(([status, response]) => [
+        status,
+        convertResponse(asRecord(response) ?? {}, resolvedProduces),
+      ]),
+    )
+  }
+
+  return converted
+}
+
+function convertPaths(doc: RawDoc): Record<string, unknown> {
+  const paths = asRecord(doc.paths)
+  if (!paths) return {}
+
+  const converted: Record<string, unknown> = {}
+  for (const [path, rawItem] of Object.entries(paths)) {
+    const pathItem = asRecord(rawItem)
+    if (!pathItem) continue
+
+    const pathParams = Array.isArray(pathItem.parameters)
+      ? pathItem.parameters.filter((p): p is RawParam => asRecord(p) !== undefined)
+      : []
+
+    const item: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(pathItem)) {
+      if (key === 'parameters') {
+        item.parameters = pathParams
+          .filter((p) => p.in !== 'body' && p.in !== 'formData')
+          .map(convertParameter)
+      } else if (isHttpMethod(key) && asRecord(value)) {
+        item[key] = convertOperation(value as Record<string, unknown>, pathParams, doc)
+      } else {
+        item[key] = value
+      }
+    }
+    converted[path] = item
+  }
+  return converted
+}
+
+// Upgrades an already-dereferenced Swagger 2.0 document to the OpenAPI 3.0 shape.
+// Schemas are passed through by reference so circular structures stay intact.
+export function convertSwagger2(doc: RawDoc): RawDoc {
+  const components: Record<string, unknown> = {}
+  const schemas = asRecord(doc.definitions)
+  if (schemas) components.schemas = schemas
+  const securitySchemes = convertSecuritySchemes(doc)
+  if (securitySchemes) components.securitySchemes = securitySchemes
+
+  const converted: RawDoc = {
+    openapi: '3.0.3',
+    info: doc.info,
+    servers: convertServers(doc),
+    paths: convertPaths(doc),
+    components,
+  }
+  if (doc.tags !== undefined) converted.tags = doc.tags
+  if (doc.security !== undefined) converted.security = doc.security
+  if (doc.externalDocs !== undefined) converted.externalDocs = doc.externalDocs
+  return converted
+}
@@ -3,21 +3,24 @@ import { SpecParseError } from '@/types/index.js'
 import { validateSpec } from './validate.js'
 import { dereferenceSpec } from './dereference.js'
 import { transformSpec } from './transform.js'
+import { isSwagger2, convertSwagger2 } from './convert-swagger2.js'
 
 export { validateSpec } from './validate.js'
 export type { ValidationResult } from './validate.js'
 export { dereferenceSpec } from './dereference.js'
 export { transformSpec } from './transform.js'
 export { transformSchema } from './transform-schema.js'
+export { isSwagger2, convertSwagger2 } from './convert-swagger2.js'
 
-export async function parseSpec(content: string): Promise<ParsedSpec> {
+export async function parseSpec(content: string, specUrl?: string): Promise<ParsedSpec> {
   const { warnings } = await validateSpec(content)
   if (warnings.length > 0) {
     console.warn(`superapi-tui: spec has validation issues (continuing anyway):\n  - ${warnings.join('\n  - ')}`)
   }
-  const doc = dereferenceSpec(content)
+  const dereferenced = dereferenceSpec(content)
   try {
-    return transformSpec(doc)
+    const doc = isSwagger2(dereferenced) ? convertSwagger2(dereferenced) : dereferenced
+    return transformSpec(doc, specUrl)
   } catch (error) {
     if (error instanceof SpecParseError) throw error
     throw new SpecParseError(
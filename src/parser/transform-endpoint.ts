@@ -6,7 +6,7 @@ import type {
   RequestBodyInfo,
   ResponseHeaderInfo,
   ResponseInfo,
-  SecurityRequirement,
+  SecurityAlternative,
 } from '@/types/index.js'
 import { transformSchema } from './transform-schema.js'
 
@@ -91,14 +91,15 @@ function transformResponses(
   })
 }
 
-function transformSecurity(security: unknown): readonly SecurityRequirement[] | undefined {
+// Keeps the OR of requirement objects and the AND of the schemes within each
+export function transformSecurity(security: unknown): readonly SecurityAlternative[] | undefined {
   if (!Array.isArray(security)) return undefined
   return security.flatMap((entry) => {
     if (!entry || typeof entry !== 'object') return []
-    return Object.entries(entry as Record<string, unknown>).map(([name, scopes]) => ({
+    return [Object.entries(entry as Record<string, unknown>).map(([name, scopes]) => ({
       name,
       scopes: Array.isArray(scopes) ? scopes.map(String) : [],
-    }))
+    }))]
   })
 }
 
@@ -1,4 +1,4 @@
-import type { SchemaConstraints, SchemaInfo, SchemaType } from '@/types/index.js'
+import type { SchemaConstraints, SchemaInfo, SchemaType, XmlInfo } from '@/types/index.js'
 
 type RawSchema = Record<string, unknown>
 
@@ -56,6 +56,18 @@ function extractConstraints(schema: RawSchema): SchemaConstraints | undefined {
   return hasConstraint ? constraints : undefined
 }
 
+function extractXml(raw: unknown): XmlInfo | undefined {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return undefined
+  const xml = raw as RawSchema
+  return {
+    name: typeof xml.name === 'string' ? xml.name : undefined,
+    namespace: typeof xml.namespace === 'string' ? xml.namespace : undefined,
+    prefix: typeof xml.prefix === 'string' ? xml.prefix : undefined,
+    attribute: xml.attribute === true,
+    wrapped: xml.wrapped === true,
+  }
+}
+
 function computeDisplayType(info: {
   type: SchemaType
   refName?: string
@@ -186,6 +198,7 @@ export function transformSchema(
     allOf,
     oneOf,
     anyOf,
+    xml: extractXml(schema.xml),
     displayType,
     refName,
     constraints,
@@ -1,16 +1,18 @@
 import type {
   Endpoint,
   ParsedSpec,
-  SecurityRequirement,
+  SecurityAlternative,
   SecuritySchemeInfo,
   ServerInfo,
   ServerVariable,
+  OAuthFlow,
+  OAuthFlows,
   SpecInfo,
   TagGroup,
   SchemaInfo,
 } from '@/types/index.js'
 import { isHttpMethod, METHOD_SORT_ORDER } from '@/utils/index.js'
-import { transformEndpoint } from './transform-endpoint.js'
+import { transformEndpoint, transformSecurity } from './transform-endpoint.js'
 import { transformSchema } from './transform-schema.js'
 
 type RawDoc = Record<string, unknown>
@@ -42,9 +44,25 @@ function extractInfo(doc: RawDoc): SpecInfo {
   }
 }
 
-function extractServers(doc: RawDoc): readonly ServerInfo[] {
-  const servers = doc.servers as Record<string, unknown>[] | undefined
-  if (!Array.isArray(servers)) return []
+// Relative server URLs are relative to where the spec was loaded from. URL would
+// percent-encode {variables}, so they are swapped out while resolving.
+function resolveServerLocation(url: string, specUrl: string | undefined): string {
+  if (specUrl === undefined || /^([a-z][a-z\d+.-]*:|\{)/i.test(url)) return url
+
+  const templates: string[] = []
+  const masked = url.replace(/\{[^}]*\}/g, template => `__template${templates.push(template) - 1}__`)
+  try {
+    return new URL(masked, specUrl).toString()
+      .replace(/__template(\d+)__/g, (_match, index: string) => templates[Number(index)]!)
+  } catch {
+    return url
+  }
+}
+
+function extractServers(doc: RawDoc, specUrl: string | undefined): readonly ServerInfo[] {
+  const declared = Array.isArray(doc.servers) ? doc.servers as Record<string, unknown>[] : []
+  // Without servers the spec is served from the API itself, as if servers were [{ url: '/' }]
+  const servers = declared.length === 0 && specUrl !== undefined ? [{ url: '/' }] : declared
 
   return servers.map((server) => {
     const variables = new Map<string, ServerVariable>()
@@ -60,13 +78,38 @@ function extractServers(doc: RawDoc): readonly ServerInfo[] {
     }
 
     return {
-      url: String(server.url ?? ''),
+      url: resolveServerLocation(String(server.url ?? ''), specUrl),
       description: typeof server.description === 'string' ? server.description : undefined,
       variables,
     }
   })
 }
 
+function extractFlow(raw: unknown): OAuthFlow | undefined {
+  if (!raw || typeof raw !== 'object') return undefined
+  const flow = raw as Record<string, unknown>
+  const scopes = flow.scopes && typeof flow.scopes === 'object' ? flow.scopes as Record<string, unknown> : {}
+
+  return {
+    authorizationUrl: typeof flow.authorizationUrl === 'string' ? flow.authorizationUrl : undefined,
+    tokenUrl: typeof flow.tokenUrl === 'string' ? flow.tokenUrl : undefined,
+    refreshUrl: typeof flow.refreshUrl === 'string' ? flow.refreshUrl : undefined,
+    scopes: Object.fromEntries(Object.entries(scopes).map(([scope, description]) => [scope, String(description ?? '')])),
+  }
+}
+
+function extractFlows(raw: unknown): OAuthFlows | undefined {
+  if (!raw || typeof raw !== 'object') return undefined
+  const flows = raw as Record<string, unknown>
+
+  return {
+    implicit: extractFlow(flows.implicit),
+    password: extractFlow(flows.password),
+    clientCredentials: extractFlow(flows.clientCredentials),
+    authorizationCode: extractFlow(flows.authorizationCode),
+  }
+}
+
 function extractSecuritySchemes(doc: RawDoc): readonly SecuritySchemeInfo[] {
   const components = doc.components as Record<string, unknown> | undefined
   const schemes = components?.securitySchemes as Record<string, Record<string, unknown>> | undefined
@@ -80,20 +123,12 @@ function extractSecuritySchemes(doc: RawDoc): readonly SecuritySchemeInfo[] {
     paramName: typeof scheme.name === 'string' ? scheme.name : undefined,
     description: typeof scheme.description === 'string' ? scheme.description : undefined,
     bearerFormat: typeof scheme.bearerFormat === 'string' ? scheme.bearerFormat : undefined,
+    flows: scheme.type === 'oauth2' ? extractFlows(scheme.flows) : undefined,
   }))
 }
 
-function extractGlobalSecurity(doc: RawDoc): readonly SecurityRequirement[] {
-  const security = doc.security as Record<string, unknown>[] | undefined
-  if (!Array.isArray(security)) return []
-
-  return security.flatMap((entry) => {
-    if (!entry || typeof entry !== 'object') return []
-    return Object.entries(entry).map(([name, scopes]) => ({
-      name,
-      scopes: Array.isArray(scopes) ? scopes.map(String) : [],
-    }))
-  })
+function extractGlobalSecurity(doc: RawDoc): readonly SecurityAlternative[] {
+  return transformSecurity(doc.security) ?? []
 }
 
 function extractComponentSchemas(doc: RawDoc): ReadonlyMap<string, SchemaInfo> {
@@ -189,9 +224,10 @@ function groupByTags(
   return { tagGroups, tags }
 }
 
-export function transformSpec(doc: RawDoc): ParsedSpec {
+// specUrl is where a URL-loaded spec came from; relative server URLs resolve against it
+export function transformSpec(doc: RawDoc, specUrl?: string): ParsedSpec {
   const info = extractInfo(doc)
-  const servers = extractServers(doc)
+  const servers = extractServers(doc, specUrl)
   const securitySchemes = extractSecuritySchemes(doc)
   const globalSecurity = extractGlobalSecurity(doc)
   const componentSchemas = extractComponentSchemas(doc)
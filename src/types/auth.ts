@@ -1,17 +1,67 @@
-export type AuthMethod = 'bearer' | 'apiKey' | 'basic'
+import type { SecurityAlternative } from './endpoint.js'
 
-export type AuthFieldKey = 'token' | 'key' | 'username' | 'password'
+export type AuthMethod = 'bearer' | 'apiKey' | 'basic' | 'oauth2'
+
+export type ApiKeyLocation = 'header' | 'query' | 'cookie'
+
+// OAuth2 flows we can get a token with; authorizationCode goes through the browser
+export type OAuthGrant = 'clientCredentials' | 'password' | 'authorizationCode'
+
+export type AuthFieldKey = 'token' | 'key' | 'username' | 'password' | 'clientId' | 'clientSecret' | 'scopes'
+
+// What has been entered for one security scheme; unset fields are empty (scopes: the defaults)
+export type AuthFieldValues = Readonly<Partial<Record<AuthFieldKey, string>>>
 
 export type AuthOption =
   | { readonly method: 'bearer'; readonly label: string; readonly schemeName: string }
-  | { readonly method: 'apiKey'; readonly label: string; readonly schemeName: string; readonly apiKeyIn: 'header' | 'query'; readonly apiKeyParamName: string }
+  | { readonly method: 'apiKey'; readonly label: string; readonly schemeName: string; readonly apiKeyIn: ApiKeyLocation; readonly apiKeyParamName: string }
   | { readonly method: 'basic'; readonly label: string; readonly schemeName: string }
+  | {
+      readonly method: 'oauth2'
+      readonly label: string
+      readonly schemeName: string
+      readonly grant: OAuthGrant
+      readonly tokenUrl: string
+      // Only for the authorizationCode grant
+      readonly authorizationUrl?: string
+      readonly scopes: readonly string[]
+    }
 
 export type AuthCredentials =
   | { readonly method: 'none' }
   | { readonly method: 'bearer'; readonly token: string }
-  | { readonly method: 'apiKey'; readonly key: string; readonly paramName: string; readonly location: 'header' | 'query' }
+  | { readonly method: 'apiKey'; readonly key: string; readonly paramName: string; readonly location: ApiKeyLocation }
   | { readonly method: 'basic'; readonly username: string; readonly password: string }
+  | {
+      readonly method: 'oauth2'
+      readonly grant: OAuthGrant
+      readonly tokenUrl: string
+      // Where the user is sent to consent, for the authorizationCode grant
+      readonly authorizationUrl?: string
+      readonly clientId: string
+      readonly clientSecret: string
+      // Space-separated, as sent in the token request
+      readonly scopes: string
+      // Resource owner credentials, for the password grant
+      readonly username?: string
+      readonly password?: string
+      // Sent as a Bearer token once fetched; never saved to config
+      readonly accessToken?: string
+    }
+
+export interface OAuthToken {
+  readonly accessToken: string
+  readonly tokenType: string
+  // Epoch milliseconds; absent when the server didn't say
+  readonly expiresAt?: number
+  readonly refreshToken?: string
+  readonly scope?: string
+}
+
+export interface AdditionalCredentials {
+  readonly option: AuthOption
+  readonly credentials: Exclude<AuthCredentials, { method: 'none' }>
+}
 
 export interface AuthState {
   readonly authExpanded: boolean
@@ -20,7 +70,20 @@ export interface AuthState {
   readonly unsupportedSchemes: readonly string[]
   readonly selectedOptionIndex: number
   readonly cycleAuthOption: () => void
+  // The selected option's credentials
   readonly credentials: AuthCredentials
-  readonly setAuthField: (field: AuthFieldKey, value: string) => void
+  // Credentials for the other schemes the operation requires together with the selected one
+  readonly additionalCredentials: readonly AdditionalCredentials[]
+  // The operation's security alternatives; null when the spec doesn't say
+  readonly operationSecurity: readonly SecurityAlternative[] | null
+  // Set when what would be sent doesn't satisfy the operation
+  readonly securityWarning: string | null
+  // Edits the selected option's scheme unless another scheme is named
+  readonly setAuthField: (field: AuthFieldKey, value: string, schemeName?: string) => void
   readonly restoreAuth: (auth: Exclude<AuthCredentials, { method: 'none' }>) => void
+  // The cached OAuth2 token for the current credentials, even if expired
+  readonly oauthToken: OAuthToken | null
+  // The authorize URL while the authorization code flow waits for the browser
+  readonly authorizeUrl: string | null
+  readonly cancelAuthorization: () => void
 }
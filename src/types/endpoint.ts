@@ -9,6 +9,10 @@ export interface SecurityRequirement {
   readonly scopes: readonly string[]
 }
 
+// One way to satisfy an operation's security: every scheme in it, together.
+// An empty alternative allows anonymous access.
+export type SecurityAlternative = readonly SecurityRequirement[]
+
 export interface Endpoint {
   readonly id: string
   readonly method: HttpMethod
@@ -21,7 +25,8 @@ export interface Endpoint {
   readonly parameters: readonly ParameterInfo[]
   readonly requestBody?: RequestBodyInfo
   readonly responses: readonly ResponseInfo[]
-  readonly security?: readonly SecurityRequirement[]
+  // Any one alternative will do; undefined inherits the spec's global security
+  readonly security?: readonly SecurityAlternative[]
 }
 
 export interface TagGroup {
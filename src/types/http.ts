@@ -1,12 +1,22 @@
 import type { HttpMethod } from './endpoint.js'
+import type { AuthCredentials } from './auth.js'
 
-export type ResponseTab = 'pretty' | 'raw' | 'headers'
+export type ResponseTab = 'pretty' | 'raw' | 'headers' | 'validation'
+
+// File parts are read from disk when the request is sent
+export type MultipartPart =
+  | { readonly kind: 'field'; readonly name: string; readonly value: string }
+  | { readonly kind: 'file'; readonly name: string; readonly path: string }
 
 export interface RequestOptions {
   readonly method: HttpMethod
   readonly url: string
   readonly headers: ReadonlyMap<string, string>
   readonly body?: string
+  // A body sent from a local file, read when sending
+  readonly bodyFile?: string
+  // A multipart/form-data body; the boundary Content-Type is added when sending
+  readonly multipart?: readonly MultipartPart[]
 }
 
 export interface HttpResponse {
@@ -15,6 +25,8 @@ export interface HttpResponse {
   readonly headers: ReadonlyMap<string, string>
   readonly body: string
   readonly durationMs: number
+  // Each Set-Cookie header on its own; headers only keeps one of them
+  readonly setCookies?: readonly string[]
 }
 
 export class HttpRequestError extends Error {
@@ -23,3 +35,31 @@ export class HttpRequestError extends Error {
     this.name = 'HttpRequestError'
   }
 }
+
+// Request values to load into the request panel, e.g. from history or a saved request
+export interface RequestDraft {
+  readonly endpointId: string
+  // Param values keyed by `${location}:${name}`
+  readonly params: Readonly<Record<string, string>>
+  readonly body?: string
+  readonly serverUrl?: string
+  readonly authScheme?: string
+  // Headers that aren't declared by the operation, e.g. from an imported curl command
+  readonly headers?: Readonly<Record<string, string>>
+  readonly credentials?: Exclude<AuthCredentials, { method: 'none' }>
+  readonly mediaType?: string
+  // Form and multipart field values keyed by property name
+  readonly form?: Readonly<Record<string, string>>
+}
+
+export interface SavedRequestRef {
+  readonly collection: string
+  readonly name: string
+}
+
+export interface PendingRequest {
+  readonly draft: RequestDraft
+  readonly send: boolean
+  // Set when the draft was opened from a saved request, so saving again updates it
+  readonly savedAs?: SavedRequestRef
+}
@@ -1,17 +1,30 @@
 export { SpecLoadError, SpecParseError } from './errors.js'
-export type { SchemaInfo, SchemaType, SchemaConstraints } from './schema.js'
+export type { SchemaInfo, SchemaType, SchemaConstraints, XmlInfo } from './schema.js'
 export type { ParameterInfo, ParameterLocation } from './parameter.js'
 export type { MediaTypeInfo, RequestBodyInfo } from './request-body.js'
 export type { ResponseInfo, ResponseHeaderInfo } from './response.js'
-export type { HttpMethod, Endpoint, SecurityRequirement, TagGroup } from './endpoint.js'
+export type { HttpMethod, Endpoint, SecurityRequirement, SecurityAlternative, TagGroup } from './endpoint.js'
 export type {
   ServerVariable,
   ServerInfo,
   SecuritySchemeInfo,
+  OAuthFlow,
+  OAuthFlows,
   SpecInfo,
   ParsedSpec,
 } from './spec.js'
 export type { InputType, SpecFormat, LoadResult } from './loader.js'
-export type { ResponseTab, RequestOptions, HttpResponse } from './http.js'
+export type { ResponseTab, RequestOptions, MultipartPart, HttpResponse, RequestDraft, SavedRequestRef, PendingRequest } from './http.js'
 export { HttpRequestError } from './http.js'
-export type { AuthMethod, AuthFieldKey, AuthOption, AuthCredentials, AuthState } from './auth.js'
+export type {
+  AuthMethod,
+  ApiKeyLocation,
+  OAuthGrant,
+  OAuthToken,
+  AuthFieldKey,
+  AuthFieldValues,
+  AuthOption,
+  AuthCredentials,
+  AdditionalCredentials,
+  AuthState,
+} from './auth.js'
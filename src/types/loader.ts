@@ -7,4 +7,6 @@ export interface LoadResult {
   readonly inputType: InputType
   readonly source: string
   readonly resolvedUrl?: string
+  // Local files pulled in through external $refs, as absolute paths
+  readonly documents?: readonly string[]
 }
@@ -19,6 +19,15 @@ export interface SchemaConstraints {
   readonly uniqueItems?: boolean
 }
 
+// OpenAPI `xml` hints for XML bodies
+export interface XmlInfo {
+  readonly name?: string
+  readonly namespace?: string
+  readonly prefix?: string
+  readonly attribute: boolean
+  readonly wrapped: boolean
+}
+
 export interface SchemaInfo {
   readonly type: SchemaType
   readonly format?: string
@@ -39,6 +48,7 @@ export interface SchemaInfo {
   readonly allOf?: readonly SchemaInfo[]
   readonly oneOf?: readonly SchemaInfo[]
   readonly anyOf?: readonly SchemaInfo[]
+  readonly xml?: XmlInfo
   // Display helpers
   readonly displayType: string
   readonly refName?: string
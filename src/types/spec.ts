@@ -1,4 +1,4 @@
-import type { Endpoint, TagGroup, SecurityRequirement } from './endpoint.js'
+import type { Endpoint, TagGroup, SecurityAlternative } from './endpoint.js'
 import type { SchemaInfo } from './schema.js'
 
 export interface ServerVariable {
@@ -13,6 +13,21 @@ export interface ServerInfo {
   readonly variables: ReadonlyMap<string, ServerVariable>
 }
 
+export interface OAuthFlow {
+  readonly authorizationUrl?: string
+  readonly tokenUrl?: string
+  readonly refreshUrl?: string
+  // Scope name to description
+  readonly scopes: Readonly<Record<string, string>>
+}
+
+export interface OAuthFlows {
+  readonly implicit?: OAuthFlow
+  readonly password?: OAuthFlow
+  readonly clientCredentials?: OAuthFlow
+  readonly authorizationCode?: OAuthFlow
+}
+
 export interface SecuritySchemeInfo {
   readonly name: string
   readonly type: 'apiKey' | 'http' | 'oauth2' | 'openIdConnect'
@@ -21,6 +36,7 @@ export interface SecuritySchemeInfo {
   readonly paramName?: string
   readonly description?: string
   readonly bearerFormat?: string
+  readonly flows?: OAuthFlows
 }
 
 export interface SpecInfo {
@@ -47,6 +63,7 @@ export interface ParsedSpec {
   readonly endpoints: readonly Endpoint[]
   readonly tags: readonly string[]
   readonly securitySchemes: readonly SecuritySchemeInfo[]
-  readonly globalSecurity: readonly SecurityRequirement[]
+  // Empty when the spec declares none
+  readonly globalSecurity: readonly SecurityAlternative[]
   readonly componentSchemas: ReadonlyMap<string, SchemaInfo>
 }
@@ -0,0 +1,5 @@
+export type { SchemaViolation, ResponseValidation } from './types.js'
+export { toJsonSchema, validateAgainstSchema } from './schema.js'
+export type { SchemaDirection } from './schema.js'
+export { findDocumentedResponse, validateResponse } from './response.js'
+export { validateRequestBody } from './request.js'
@@ -0,0 +1,40 @@
+import type { SchemaInfo } from '@/types/index.js'
+import type { SchemaViolation } from './types.js'
+import { validateAgainstSchema } from './schema.js'
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+// JSON Schema has no notion of readOnly, so walk the body alongside the schema.
+// oneOf/anyOf are skipped since it isn't known which branch applies.
+function findReadOnlyViolations(schema: SchemaInfo, value: unknown, pointer: string, out: SchemaViolation[]): void {
+  for (const sub of schema.allOf ?? []) {
+    findReadOnlyViolations(sub, value, pointer, out)
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.items) {
+      value.forEach((item, i) => findReadOnlyViolations(schema.items!, item, `${pointer}/${i}`, out))
+    }
+    return
+  }
+
+  if (typeof value !== 'object' || value === null || !schema.properties) return
+
+  for (const [name, property] of schema.properties) {
+    if (!(name in value)) continue
+    const childPointer = `${pointer}/${escapePointer(name)}`
+    if (property.readOnly) {
+      out.push({ pointer: childPointer, message: 'is read-only and must not be sent' })
+    } else {
+      findReadOnlyViolations(property, (value as Record<string, unknown>)[name], childPointer, out)
+    }
+  }
+}
+
+export function validateRequestBody(schema: SchemaInfo, body: unknown): readonly SchemaViolation[] {
+  const readOnly: SchemaViolation[] = []
+  findReadOnlyViolations(schema, body, '', readOnly)
+  return [...validateAgainstSchema(schema, body, 'request'), ...readOnly]
+}
@@ -0,0 +1,54 @@
+import type { HttpResponse, MediaTypeInfo, ResponseInfo } from '@/types/index.js'
+import type { ResponseValidation } from './types.js'
+import { validateAgainstSchema } from './schema.js'
+
+// Exact status first, then its range (2XX), then default
+export function findDocumentedResponse(responses: readonly ResponseInfo[], status: number): ResponseInfo | null {
+  const exact = responses.find(r => r.statusCode === String(status))
+  if (exact) return exact
+  const range = `${String(status)[0]}XX`
+  const ranged = responses.find(r => r.statusCode.toUpperCase() === range)
+  if (ranged) return ranged
+  return responses.find(r => r.statusCode === 'default') ?? null
+}
+
+function findJsonMedia(content: readonly MediaTypeInfo[]): MediaTypeInfo | undefined {
+  return content.find(m => m.mediaType === 'application/json')
+    ?? content.find(m => /^application\/[\w.-]+\+json$/.test(m.mediaType))
+}
+
+export function validateResponse(responses: readonly ResponseInfo[], response: HttpResponse): ResponseValidation {
+  const documented = findDocumentedResponse(responses, response.status)
+  if (!documented) {
+    return { outcome: 'skipped', reason: `Status ${response.status} is not documented` }
+  }
+
+  const schema = findJsonMedia(documented.content)?.schema
+  if (!schema) {
+    return { outcome: 'skipped', reason: `No application/json schema documented for ${documented.statusCode}` }
+  }
+
+  let body: unknown
+  try {
+    body = JSON.parse(response.body)
+  } catch {
+    return {
+      outcome: 'invalid',
+      statusCode: documented.statusCode,
+      violations: [{ pointer: '', message: 'response body is not valid JSON' }],
+    }
+  }
+
+  let violations
+  try {
+    violations = validateAgainstSchema(schema, body)
+  } catch (error) {
+    return {
+      outcome: 'skipped',
+      reason: `Schema for ${documented.statusCode} could not be compiled: ${error instanceof Error ? error.message : String(error)}`,
+    }
+  }
+  return violations.length === 0
+    ? { outcome: 'valid', statusCode: documented.statusCode }
+    : { outcome: 'invalid', statusCode: documented.statusCode, violations }
+}
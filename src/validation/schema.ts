@@ -0,0 +1,129 @@
+import { Ajv } from 'ajv'
+import type { ErrorObject, ValidateFunction } from 'ajv'
+import type { SchemaInfo } from '@/types/index.js'
+import type { SchemaViolation } from './types.js'
+
+type JsonSchema = Record<string, unknown>
+
+// Enum values are kept as strings in SchemaInfo; turn them back into the schema's type
+function enumValue(value: string, type: SchemaInfo['type']): unknown[] {
+  if (value === 'null') return [null, value]
+  switch (type) {
+    case 'number':
+    case 'integer':
+      return Number.isNaN(Number(value)) ? [value] : [Number(value)]
+    case 'boolean':
+      return value === 'true' || value === 'false' ? [value === 'true'] : [value]
+    case 'string':
+      return [value]
+    default: {
+      const values: unknown[] = [value]
+      if (value.trim() !== '' && !Number.isNaN(Number(value))) values.push(Number(value))
+      if (value === 'true' || value === 'false') values.push(value === 'true')
+      return values
+    }
+  }
+}
+
+// Which way the document travels: readOnly properties are only required in
+// responses, writeOnly ones only in requests
+export type SchemaDirection = 'request' | 'response'
+
+// OpenAPI schema (as parsed) to a JSON Schema ajv can compile. Formats are left
+// out since ajv doesn't know them without ajv-formats.
+export function toJsonSchema(schema: SchemaInfo, direction: SchemaDirection = 'response'): JsonSchema {
+  const convert = (sub: SchemaInfo) => toJsonSchema(sub, direction)
+  // Circular references are parsed as an empty 'unknown' schema, which accepts anything
+  const result: JsonSchema = {}
+
+  if (schema.type !== 'unknown') {
+    result['type'] = schema.nullable ? [schema.type, 'null'] : schema.type
+  }
+
+  if (schema.enumValues) {
+    const values = schema.enumValues.flatMap(v => enumValue(v, schema.type))
+    result['enum'] = schema.nullable && !values.includes(null) ? [...values, null] : values
+  }
+
+  if (schema.properties) {
+    result['properties'] = Object.fromEntries(
+      [...schema.properties].map(([name, property]) => [name, convert(property)]),
+    )
+  }
+  const required = (schema.required ?? []).filter(name => {
+    const property = schema.properties?.get(name)
+    return !(direction === 'request' ? property?.readOnly : property?.writeOnly)
+  })
+  if (required.length > 0) {
+    result['required'] = required
+  }
+  if (schema.additionalProperties !== undefined) {
+    result['additionalProperties'] = typeof schema.additionalProperties === 'boolean'
+      ? schema.additionalProperties
+      : convert(schema.additionalProperties)
+  }
+  if (schema.items) {
+    result['items'] = convert(schema.items)
+  }
+  if (schema.allOf) result['allOf'] = schema.allOf.map(convert)
+  if (schema.oneOf) result['oneOf'] = schema.oneOf.map(convert)
+  if (schema.anyOf) result['anyOf'] = schema.anyOf.map(convert)
+  if (schema.constraints) {
+    Object.assign(result, schema.constraints)
+  }
+
+  // OpenAPI 3.0 `nullable` next to a composition without a type
+  if (schema.nullable && schema.type === 'unknown') {
+    return { anyOf: [{ type: 'null' }, result] }
+  }
+
+  return result
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false })
+const compiled: Record<SchemaDirection, WeakMap<SchemaInfo, ValidateFunction>> = {
+  request: new WeakMap(),
+  response: new WeakMap(),
+}
+
+function describeError(error: ErrorObject): SchemaViolation {
+  const params = error.params as Record<string, unknown>
+  let pointer = error.instancePath
+  let message = error.message ?? error.keyword
+  if (error.keyword === 'required' && typeof params['missingProperty'] === 'string') {
+    pointer = `${pointer}/${params['missingProperty'].replace(/~/g, '~0').replace(/\//g, '~1')}`
+    message = 'is required'
+  } else if (error.keyword === 'additionalProperties' && typeof params['additionalProperty'] === 'string') {
+    message = `must NOT have additional property '${params['additionalProperty']}'`
+  } else if (error.keyword === 'enum' && Array.isArray(params['allowedValues'])) {
+    message = `must be one of ${params['allowedValues'].map(v => JSON.stringify(v)).join(', ')}`
+  }
+  return { pointer, message }
+}
+
+export function validateAgainstSchema(
+  schema: SchemaInfo,
+  value: unknown,
+  direction: SchemaDirection = 'response',
+): readonly SchemaViolation[] {
+  let validate = compiled[direction].get(schema)
+  if (!validate) {
+    validate = ajv.compile(toJsonSchema(schema, direction))
+    compiled[direction].set(schema, validate)
+  }
+  if (validate(value)) return []
+
+  // anyOf/oneOf report every branch's errors plus their own; keep it readable by
+  // dropping exact duplicates
+  const seen = new Set<string>()
+  const violations: SchemaViolation[] = []
+  for (const error of validate.errors ?? []) {
+    const violation = describeError(error)
+    const key = `${violation.pointer}\u0000${violation.message}`
+    if (!seen.has(key)) {
+      seen.add(key)
+      violations.push(violation)
+    }
+  }
+  return violations
+}
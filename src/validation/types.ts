@@ -0,0 +1,11 @@
+export interface SchemaViolation {
+  // JSON pointer into the validated document; '' is the root
+  readonly pointer: string
+  readonly message: string
+}
+
+export type ResponseValidation =
+  | { readonly outcome: 'valid'; readonly statusCode: string }
+  | { readonly outcome: 'invalid'; readonly statusCode: string; readonly violations: readonly SchemaViolation[] }
+  // Nothing to check against, e.g. no documented JSON schema for the status
+  | { readonly outcome: 'skipped'; readonly reason: string }
@@ -0,0 +1,66 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'node:crypto'
+import type { ScryptParams, UnlockedVault, VaultFile, VaultSecrets } from './types.js'
+import { VaultError } from './errors.js'
+
+// 32 MiB of memory per derivation, which takes a noticeable moment on purpose
+const SCRYPT_PARAMS: ScryptParams = { N: 2 ** 15, r: 8, p: 1 }
+const KEY_LENGTH = 32
+const IV_LENGTH = 12
+
+function deriveKey(passphrase: string, salt: Buffer, params: ScryptParams): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    // scrypt needs 128 * N * r bytes; leave headroom over that
+    const maxmem = 256 * params.N * params.r
+    scrypt(passphrase, salt, KEY_LENGTH, { ...params, maxmem }, (error, key) => {
+      if (error) reject(new VaultError('Cannot derive the vault key', error))
+      else resolve(key)
+    })
+  })
+}
+
+export async function createVault(passphrase: string): Promise<UnlockedVault> {
+  if (passphrase.length === 0) {
+    throw new VaultError('The vault passphrase cannot be empty')
+  }
+  const salt = randomBytes(16)
+  const key = await deriveKey(passphrase, salt, SCRYPT_PARAMS)
+  return { secrets: new Map(), key, kdf: { name: 'scrypt', salt: salt.toString('base64'), ...SCRYPT_PARAMS } }
+}
+
+export async function unlockVault(file: VaultFile, passphrase: string): Promise<UnlockedVault> {
+  const key = await deriveKey(passphrase, Buffer.from(file.kdf.salt, 'base64'), file.kdf)
+  return { secrets: decryptSecrets(file, key), key, kdf: file.kdf }
+}
+
+// A fresh IV per write; GCM must never reuse one with the same key
+export function encryptVault(vault: UnlockedVault): VaultFile {
+  const iv = randomBytes(IV_LENGTH)
+  const cipher = createCipheriv('aes-256-gcm', vault.key, iv)
+  const plain = JSON.stringify(Object.fromEntries(vault.secrets))
+  const data = Buffer.concat([cipher.update(plain, 'utf-8'), cipher.final()])
+  return {
+    version: 1,
+    kdf: vault.kdf,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  }
+}
+
+function decryptSecrets(file: VaultFile, key: Buffer): VaultSecrets {
+  let plain: string
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'))
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'))
+    plain = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf-8')
+  } catch (error) {
+    // GCM can't tell a wrong key from tampered data
+    throw new VaultError('Wrong passphrase or damaged vault', error)
+  }
+
+  const raw: unknown = JSON.parse(plain)
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new VaultError('The vault does not contain a secrets table')
+  }
+  return new Map(Object.entries(raw).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+}
@@ -0,0 +1,5 @@
+export type { VaultSecrets, VaultFile, UnlockedVault, SecretSources } from './types.js'
+export { VaultError } from './errors.js'
+export { createVault, unlockVault, encryptVault } from './crypto.js'
+export { loadVaultFile, saveVaultFile, getVaultPath } from './io.js'
+export { vaultRef, secretSources, resolveSecretRefs, findUnresolvedSecretRefs, vaultRefIds, resolveCredentialSecrets, moveSecretsToVault } from './refs.js'
@@ -0,0 +1,64 @@
+import { dirname, join } from 'node:path'
+import { chmod, readFile, writeFile } from 'node:fs/promises'
+import { getConfigPath } from '@/config/index.js'
+import type { VaultFile } from './types.js'
+import { VaultError } from './errors.js'
+
+export function getVaultPath(): string {
+  return join(dirname(getConfigPath()), '.superapi-tui-vault.json')
+}
+
+// null when there is no vault yet. A vault that can't be read throws rather
+// than being treated as missing, so it never gets replaced by an empty one.
+export async function loadVaultFile(vaultPath?: string): Promise<VaultFile | null> {
+  const path = vaultPath ?? getVaultPath()
+
+  let text: string
+  try {
+    text = await readFile(path, 'utf-8')
+  } catch (err) {
+    const code = err instanceof Error && 'code' in err
+      ? (err as NodeJS.ErrnoException).code
+      : undefined
+    if (code === 'ENOENT') return null
+    throw new VaultError(`Failed to read vault: ${path}`, err)
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch (err) {
+    throw new VaultError(`${path} is not valid JSON`, err)
+  }
+  const file = parseVaultFile(raw)
+  if (!file) {
+    throw new VaultError(`${path} is not a superapi-tui vault`)
+  }
+  return file
+}
+
+export async function saveVaultFile(file: VaultFile, vaultPath?: string): Promise<void> {
+  const path = vaultPath ?? getVaultPath()
+  try {
+    await writeFile(path, JSON.stringify(file, null, 2) + '\n', { encoding: 'utf-8', mode: 0o600 })
+    await chmod(path, 0o600)
+  } catch (err) {
+    throw new VaultError(`Failed to write vault: ${path}`, err)
+  }
+}
+
+function parseVaultFile(raw: unknown): VaultFile | null {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return null
+  const obj = raw as Record<string, unknown>
+  const kdf = obj['kdf']
+  if (obj['version'] !== 1 || typeof kdf !== 'object' || kdf === null) return null
+  const { name, salt, N, r, p } = kdf as Record<string, unknown>
+  if (
+    name !== 'scrypt' || typeof salt !== 'string'
+    || typeof N !== 'number' || typeof r !== 'number' || typeof p !== 'number'
+    || typeof obj['iv'] !== 'string' || typeof obj['tag'] !== 'string' || typeof obj['data'] !== 'string'
+  ) {
+    return null
+  }
+  return { version: 1, kdf: { name, salt, N, r, p }, iv: obj['iv'], tag: obj['tag'], data: obj['data'] }
+}
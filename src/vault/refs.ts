@@ -0,0 +1,83 @@
+import type { AuthCredentials, AuthFieldKey } from '@/types/index.js'
+import type { SavedAuth } from '@/config/index.js'
+import { mapCredentialValues } from '@/http/index.js'
+import type { SecretSources, UnlockedVault, VaultSecrets } from './types.js'
+
+// ${env:NAME} or ${vault:id}
+const SECRET_REF_PATTERN = /\$\{(env|vault):([^}]+)\}/g
+
+// Values that already point somewhere else: secret references and {{variables}}
+const REFERENCE_PATTERN = /\$\{(?:env|vault):|\{\{/
+
+const SECRET_FIELDS: Readonly<Record<SavedAuth['method'], readonly AuthFieldKey[]>> = {
+  bearer: ['token'],
+  apiKey: ['key'],
+  basic: ['password'],
+  oauth2: ['clientSecret', 'password'],
+}
+
+export function vaultRef(id: string): string {
+  return `\${vault:${id}}`
+}
+
+export function secretSources(vault: VaultSecrets | null): SecretSources {
+  return { env: process.env, vault }
+}
+
+function lookup(kind: string, name: string, sources: SecretSources): string | undefined {
+  return kind === 'env' ? sources.env[name] : sources.vault?.get(name)
+}
+
+// Unknown references are left in place, like unknown {{variables}}
+export function resolveSecretRefs(text: string, sources: SecretSources): string {
+  return text.replace(SECRET_REF_PATTERN, (match, kind: string, name: string) => lookup(kind, name, sources) ?? match)
+}
+
+// References with no value, e.g. ${vault:id} while the vault is locked
+export function findUnresolvedSecretRefs(texts: Iterable<string>, sources: SecretSources): readonly string[] {
+  const unresolved = new Set<string>()
+  for (const text of texts) {
+    for (const match of text.matchAll(SECRET_REF_PATTERN)) {
+      if (lookup(match[1]!, match[2]!, sources) === undefined) unresolved.add(match[0])
+    }
+  }
+  return [...unresolved]
+}
+
+// The vault ids the texts reference, e.g. to drop the secrets of a removed credential
+export function vaultRefIds(texts: Iterable<string>): readonly string[] {
+  const ids = new Set<string>()
+  for (const text of texts) {
+    for (const match of text.matchAll(SECRET_REF_PATTERN)) {
+      if (match[1] === 'vault') ids.add(match[2]!)
+    }
+  }
+  return [...ids]
+}
+
+export function resolveCredentialSecrets(credentials: AuthCredentials, sources: SecretSources): AuthCredentials {
+  return mapCredentialValues(credentials, value => resolveSecretRefs(value, sources))
+}
+
+// Stores the auth's literal secrets in the vault under `${idPrefix}/${field}`
+// and returns the auth referencing them instead. Both come back unchanged
+// when there is nothing to move.
+export function moveSecretsToVault(
+  auth: SavedAuth,
+  idPrefix: string,
+  vault: UnlockedVault,
+): { readonly auth: SavedAuth; readonly vault: UnlockedVault } {
+  const secrets = new Map(vault.secrets)
+  const updated: Record<string, unknown> = { ...auth }
+  let moved = false
+  for (const field of SECRET_FIELDS[auth.method]) {
+    const value = updated[field]
+    if (typeof value !== 'string' || value.length === 0 || REFERENCE_PATTERN.test(value)) continue
+    const id = `${idPrefix}/${field}`
+    secrets.set(id, value)
+    updated[field] = vaultRef(id)
+    moved = true
+  }
+  if (!moved) return { auth, vault }
+  return { auth: updated as SavedAuth, vault: { ...vault, secrets } }
+}
@@ -0,0 +1,31 @@
+// Secret values by id, as referenced with ${vault:id}
+export type VaultSecrets = ReadonlyMap<string, string>
+
+export interface ScryptParams {
+  readonly N: number
+  readonly r: number
+  readonly p: number
+}
+
+// The vault file: the secrets as AES-256-GCM encrypted JSON, with the key
+// derived from the passphrase by scrypt. Binary fields are base64.
+export interface VaultFile {
+  readonly version: 1
+  readonly kdf: { readonly name: 'scrypt'; readonly salt: string } & ScryptParams
+  readonly iv: string
+  readonly tag: string
+  readonly data: string
+}
+
+// Kept in memory after unlocking, so saving needs no passphrase
+export interface UnlockedVault {
+  readonly secrets: VaultSecrets
+  readonly key: Buffer
+  readonly kdf: VaultFile['kdf']
+}
+
+// Where ${env:NAME} and ${vault:id} references are looked up; vault is null while locked
+export interface SecretSources {
+  readonly env: Readonly<Record<string, string | undefined>>
+  readonly vault: VaultSecrets | null
+}